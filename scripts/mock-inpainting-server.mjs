@@ -0,0 +1,149 @@
+// Stand-in for an inpainting service, for trying the AI fill without a GPU and
+// for automated tests. Serves the AUTOMATIC1111 endpoints used by the app
+// (/sdapi/v1/options, /sdapi/v1/img2img) and the generic multipart endpoint
+// (/inpaint). The "filled" image is the uploaded image returned unchanged.
+//
+//   node scripts/mock-inpainting-server.mjs
+//
+// Environment: MOCK_PORT (default 8787), MOCK_TOKEN (require this bearer token),
+// MOCK_DELAY_MS (answer slowly, to test progress and cancelling),
+// MOCK_FAIL_STATUS (answer every request with this HTTP status).
+//
+// Tests can import startMockInpaintingServer() and stop it with server.close().
+import { createServer } from 'node:http';
+import { fileURLToPath } from 'node:url';
+
+const MAX_BODY_BYTES = 100 * 1024 * 1024;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Authorization, Content-Type, Accept, X-Requested-With',
+  'Access-Control-Expose-Headers': 'X-Seed'
+};
+
+const send = (response, status, body, type = 'application/json', headers = {}) => {
+  response.writeHead(status, { ...corsHeaders, ...headers, 'Content-Type': type });
+  response.end(typeof body === 'string' || Buffer.isBuffer(body) ? body : JSON.stringify(body));
+};
+
+const readBody = request => new Promise((resolve, reject) => {
+  const chunks = [];
+  let size = 0;
+  request.on('data', chunk => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(new Error('Request body too large'));
+      request.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  request.on('end', () => resolve(Buffer.concat(chunks)));
+  request.on('error', reject);
+});
+
+// Seeds like the real services report them: -1 (or 0 for Stability) means random
+const resolveSeed = value => {
+  const seed = Number(value);
+  return Number.isInteger(seed) && seed > 0 ? seed : Math.floor(Math.random() * 4294967295);
+};
+
+// Minimal multipart/form-data reader: field name -> { type, data }
+const parseMultipart = (body, contentType) => {
+  const boundary = /boundary=(?:"([^"]+)"|([^;]+))/.exec(contentType || '');
+  if (!boundary) return {};
+  const delimiter = Buffer.from(`--${boundary[1] || boundary[2]}`);
+  const parts = {};
+  let start = body.indexOf(delimiter);
+  while (start !== -1) {
+    const next = body.indexOf(delimiter, start + delimiter.length);
+    if (next === -1) break;
+    const part = body.subarray(start + delimiter.length + 2, next - 2);
+    const headerEnd = part.indexOf('\r\n\r\n');
+    if (headerEnd !== -1) {
+      const headers = part.subarray(0, headerEnd).toString('utf8');
+      const name = /name="([^"]+)"/.exec(headers);
+      const type = /Content-Type:\s*([^\r\n]+)/i.exec(headers);
+      if (name) {
+        parts[name[1]] = { type: type ? type[1].trim() : 'text/plain', data: part.subarray(headerEnd + 4) };
+      }
+    }
+    start = next;
+  }
+  return parts;
+};
+
+const handleRequest = async (request, response, options) => {
+  const { pathname } = new URL(request.url, 'http://localhost');
+  console.log(`[mock-inpainting] ${request.method} ${pathname}`);
+
+  if (request.method === 'OPTIONS') {
+    response.writeHead(204, corsHeaders);
+    response.end();
+    return;
+  }
+  if (options.token && request.headers.authorization !== `Bearer ${options.token}`) {
+    send(response, 401, { error: 'Unauthorized' });
+    return;
+  }
+  if (options.failStatus) {
+    send(response, options.failStatus, { error: 'Simulated failure' });
+    return;
+  }
+  if (options.delayMs) {
+    await new Promise(resolve => setTimeout(resolve, options.delayMs));
+  }
+
+  if (request.method === 'GET' && pathname === '/sdapi/v1/options') {
+    send(response, 200, { sd_model_checkpoint: 'mock-inpainting' });
+  } else if (request.method === 'POST' && pathname === '/sdapi/v1/img2img') {
+    const payload = JSON.parse((await readBody(request)).toString('utf8'));
+    if (!payload.init_images?.[0] || !payload.mask) {
+      send(response, 422, { error: 'init_images and mask are required' });
+      return;
+    }
+    const seed = resolveSeed(payload.seed);
+    const count = Math.max(1, Math.min(8, Number(payload.batch_size) || 1));
+    const allSeeds = Array.from({ length: count }, (_, index) => seed + index);
+    send(response, 200, {
+      images: allSeeds.map(() => payload.init_images[0]),
+      parameters: {},
+      info: JSON.stringify({ seed, all_seeds: allSeeds })
+    });
+  } else if (request.method === 'POST' && pathname === '/inpaint') {
+    const parts = parseMultipart(await readBody(request), request.headers['content-type']);
+    if (!parts.image || !parts.mask) {
+      send(response, 422, { error: 'image and mask fields are required' });
+      return;
+    }
+    const seed = resolveSeed(parts.seed?.data.toString('utf8'));
+    send(response, 200, parts.image.data, parts.image.type, { 'X-Seed': String(seed) });
+  } else {
+    send(response, 404, { error: 'Not found' });
+  }
+};
+
+export const startMockInpaintingServer = ({ port = 8787, token = '', delayMs = 0, failStatus = 0 } = {}) =>
+  new Promise(resolve => {
+    const options = { token, delayMs, failStatus };
+    const server = createServer((request, response) => {
+      handleRequest(request, response, options).catch(error => {
+        console.error('[mock-inpainting]', error);
+        send(response, 500, { error: 'Mock server error' });
+      });
+    });
+    server.listen(port, '127.0.0.1', () => resolve(server));
+  });
+
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  const server = await startMockInpaintingServer({
+    port: Number(process.env.MOCK_PORT) || 8787,
+    token: process.env.MOCK_TOKEN || '',
+    delayMs: Number(process.env.MOCK_DELAY_MS) || 0,
+    failStatus: Number(process.env.MOCK_FAIL_STATUS) || 0
+  });
+  const { port } = server.address();
+  console.log(`[mock-inpainting] Listening on http://127.0.0.1:${port}`);
+  console.log(`[mock-inpainting] AUTOMATIC1111: http://127.0.0.1:${port}  Generic: http://127.0.0.1:${port}/inpaint`);
+}
@@ -1,698 +0,0 @@
-
-import { pipeline, env } from '@huggingface/transformers';
-
-// 配置transformers.js
-env.allowLocalModels = false;
-env.useBrowserCache = true;
-
-export class AdvancedWatermarkProcessor {
-  private generator: any = null;
-  private discriminator: any = null;
-  private segmenter: any = null;
-  private inpainter: any = null;
-  private isInitialized = false;
-  private worker: Worker | null = null;
-
-  constructor() {
-    this.initializeModels();
-    this.initializeWorker();
-  }
-
-  private async initializeModels() {
-    try {
-      console.log('正在初始化高级深度学习模型...');
-      
-      // 加载图像分割模型（用于精确检测水印区域）
-      this.segmenter = await pipeline(
-        'image-segmentation', 
-        'Xenova/segformer-b0-finetuned-ade-512-512',
-        { device: 'webgpu' }
-      );
-      
-      // 加载图像修复模型（充当生成器）
-      this.inpainter = await pipeline(
-        'image-to-image',
-        'Xenova/stable-diffusion-2-inpainting',
-        { device: 'webgpu' }
-      );
-      
-      this.isInitialized = true;
-      console.log('高级深度学习模型初始化完成');
-    } catch (error) {
-      console.warn('WebGPU不可用，使用优化的CPU模式');
-      try {
-        this.segmenter = await pipeline(
-          'image-segmentation', 
-          'Xenova/segformer-b0-finetuned-ade-512-512'
-        );
-        this.isInitialized = true;
-      } catch (fallbackError) {
-        console.error('模型加载失败，使用传统算法');
-        this.isInitialized = false;
-      }
-    }
-  }
-
-  private initializeWorker() {
-    try {
-      this.worker = new Worker('/watermark-worker.js');
-    } catch (error) {
-      console.warn('Web Worker不可用');
-    }
-  }
-
-  async removeWatermark(
-    file: File,
-    onProgress?: (progress: number) => void
-  ): Promise<Blob> {
-    onProgress?.(5);
-    
-    // 加载并预处理图像
-    const imageElement = await this.loadImage(file);
-    const canvas = await this.preprocessImage(imageElement);
-    
-    onProgress?.(15);
-    
-    // 第一阶段：AI驱动的水印检测
-    const watermarkMask = await this.aiWatermarkDetection(canvas);
-    onProgress?.(30);
-    
-    // 第二阶段：生成对抗网络修复
-    const ganRepairedCanvas = await this.ganBasedRepair(canvas, watermarkMask);
-    onProgress?.(60);
-    
-    // 第三阶段：扩散模型纹理生成
-    const diffusionCanvas = await this.diffusionModelRepair(ganRepairedCanvas, watermarkMask);
-    onProgress?.(80);
-    
-    // 第四阶段：多尺度融合与后处理
-    const finalCanvas = await this.multiScaleFusion(diffusionCanvas, canvas, watermarkMask);
-    onProgress?.(95);
-    
-    // 最终质量增强
-    await this.finalQualityEnhancement(finalCanvas);
-    onProgress?.(100);
-    
-    return new Promise((resolve) => {
-      finalCanvas.toBlob((blob) => {
-        resolve(blob!);
-      }, 'image/jpeg', 0.98);
-    });
-  }
-
-  private async loadImage(file: File): Promise<HTMLImageElement> {
-    return new Promise((resolve, reject) => {
-      const img = new Image();
-      img.onload = () => resolve(img);
-      img.onerror = reject;
-      img.src = URL.createObjectURL(file);
-    });
-  }
-
-  private async preprocessImage(img: HTMLImageElement): Promise<HTMLCanvasElement> {
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d')!;
-    
-    // 智能尺寸调整
-    const optimalSize = this.calculateOptimalSize(img.width, img.height);
-    canvas.width = optimalSize.width;
-    canvas.height = optimalSize.height;
-    
-    // 高质量重采样
-    ctx.imageSmoothingEnabled = true;
-    ctx.imageSmoothingQuality = 'high';
-    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
-    
-    // 预处理增强
-    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-    this.applyPreprocessingFilters(imageData);
-    ctx.putImageData(imageData, 0, 0);
-    
-    return canvas;
-  }
-
-  private calculateOptimalSize(width: number, height: number) {
-    const maxDimension = 1024;
-    const minDimension = 512;
-    
-    const maxSize = Math.max(width, height);
-    const minSize = Math.min(width, height);
-    
-    if (maxSize > maxDimension) {
-      const scale = maxDimension / maxSize;
-      return {
-        width: Math.round(width * scale),
-        height: Math.round(height * scale)
-      };
-    }
-    
-    if (minSize < minDimension) {
-      const scale = minDimension / minSize;
-      return {
-        width: Math.round(width * scale),
-        height: Math.round(height * scale)
-      };
-    }
-    
-    return { width, height };
-  }
-
-  private applyPreprocessingFilters(imageData: ImageData) {
-    // 自适应直方图均衡化
-    this.applyAdaptiveHistogramEqualization(imageData);
-    
-    // 边缘保持去噪
-    this.applyEdgePreservingDenoising(imageData);
-    
-    // 对比度增强
-    this.applyContrastEnhancement(imageData);
-  }
-
-  private async aiWatermarkDetection(canvas: HTMLCanvasElement): Promise<ImageData> {
-    const ctx = canvas.getContext('2d')!;
-    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-    
-    // 创建高精度水印掩码
-    const mask = new ImageData(canvas.width, canvas.height);
-    
-    // 多层次检测策略
-    const detectionLayers = [
-      this.detectTransparencyWatermarks(imageData),
-      this.detectTextWatermarks(imageData),
-      this.detectLogoWatermarks(imageData),
-      this.detectRepeatedPatterns(imageData),
-      this.detectColorAnomalies(imageData)
-    ];
-    
-    // 融合检测结果
-    this.fuseMaskLayers(mask, detectionLayers);
-    
-    // 形态学优化
-    this.advancedMorphologicalProcessing(mask);
-    
-    // AI分割模型验证
-    if (this.segmenter) {
-      await this.aiMaskRefinement(canvas, mask);
-    }
-    
-    return mask;
-  }
-
-  private detectTransparencyWatermarks(imageData: ImageData): ImageData {
-    const mask = new ImageData(imageData.width, imageData.height);
-    const data = imageData.data;
-    
-    for (let i = 0; i < data.length; i += 4) {
-      const a = data[i + 3];
-      const transparency = 255 - a;
-      
-      // 检测半透明区域
-      if (transparency > 10 && transparency < 200) {
-        const confidence = Math.min(transparency / 100, 1);
-        mask.data[i] = Math.round(255 * confidence);
-        mask.data[i + 1] = Math.round(255 * confidence);
-        mask.data[i + 2] = Math.round(255 * confidence);
-        mask.data[i + 3] = 255;
-      }
-    }
-    
-    return mask;
-  }
-
-  private detectTextWatermarks(imageData: ImageData): ImageData {
-    const mask = new ImageData(imageData.width, imageData.height);
-    const width = imageData.width;
-    const height = imageData.height;
-    
-    for (let y = 2; y < height - 2; y++) {
-      for (let x = 2; x < width - 2; x++) {
-        const textScore = this.calculateTextLikelihood(imageData, x, y);
-        
-        if (textScore > 0.6) {
-          const i = (y * width + x) * 4;
-          const confidence = textScore;
-          mask.data[i] = Math.round(255 * confidence);
-          mask.data[i + 1] = Math.round(255 * confidence);
-          mask.data[i + 2] = Math.round(255 * confidence);
-          mask.data[i + 3] = 255;
-        }
-      }
-    }
-    
-    return mask;
-  }
-
-  private calculateTextLikelihood(imageData: ImageData, x: number, y: number): number {
-    const width = imageData.width;
-    const data = imageData.data;
-    
-    // 计算局部特征
-    const edgeStrength = this.calculateEdgeStrength(imageData, x, y);
-    const colorUniformity = this.calculateColorUniformity(imageData, x, y);
-    const strokePattern = this.detectStrokePattern(imageData, x, y);
-    const aspectRatio = this.calculateLocalAspectRatio(imageData, x, y);
-    
-    // 综合评分
-    let score = 0;
-    score += Math.min(edgeStrength / 50, 0.3);
-    score += Math.min(colorUniformity, 0.25);
-    score += Math.min(strokePattern, 0.25);
-    score += Math.min(aspectRatio, 0.2);
-    
-    return Math.min(score, 1);
-  }
-
-  private detectLogoWatermarks(imageData: ImageData): ImageData {
-    const mask = new ImageData(imageData.width, imageData.height);
-    const width = imageData.width;
-    const height = imageData.height;
-    
-    // 检测规则形状和重复模式
-    for (let y = 5; y < height - 5; y++) {
-      for (let x = 5; x < width - 5; x++) {
-        const logoScore = this.calculateLogoLikelihood(imageData, x, y);
-        
-        if (logoScore > 0.5) {
-          const i = (y * width + x) * 4;
-          mask.data[i] = Math.round(255 * logoScore);
-          mask.data[i + 1] = Math.round(255 * logoScore);
-          mask.data[i + 2] = Math.round(255 * logoScore);
-          mask.data[i + 3] = 255;
-        }
-      }
-    }
-    
-    return mask;
-  }
-
-  private calculateLogoLikelihood(imageData: ImageData, x: number, y: number): number {
-    // 检测几何形状特征
-    const circularFeature = this.detectCircularPattern(imageData, x, y);
-    const rectangularFeature = this.detectRectangularPattern(imageData, x, y);
-    const symmetryFeature = this.detectSymmetry(imageData, x, y);
-    
-    return Math.max(circularFeature, rectangularFeature, symmetryFeature);
-  }
-
-  private detectRepeatedPatterns(imageData: ImageData): ImageData {
-    const mask = new ImageData(imageData.width, imageData.height);
-    // 实现重复模式检测算法
-    // ... 省略具体实现
-    return mask;
-  }
-
-  private detectColorAnomalies(imageData: ImageData): ImageData {
-    const mask = new ImageData(imageData.width, imageData.height);
-    // 实现颜色异常检测
-    // ... 省略具体实现
-    return mask;
-  }
-
-  private fuseMaskLayers(targetMask: ImageData, layers: ImageData[]) {
-    for (let i = 0; i < targetMask.data.length; i += 4) {
-      let maxConfidence = 0;
-      
-      for (const layer of layers) {
-        const confidence = layer.data[i] / 255;
-        maxConfidence = Math.max(maxConfidence, confidence);
-      }
-      
-      targetMask.data[i] = Math.round(255 * maxConfidence);
-      targetMask.data[i + 1] = Math.round(255 * maxConfidence);
-      targetMask.data[i + 2] = Math.round(255 * maxConfidence);
-      targetMask.data[i + 3] = 255;
-    }
-  }
-
-  private async ganBasedRepair(canvas: HTMLCanvasElement, mask: ImageData): Promise<HTMLCanvasElement> {
-    const ctx = canvas.getContext('2d')!;
-    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-    
-    // 模拟GAN生成器
-    for (let iteration = 0; iteration < 5; iteration++) {
-      this.generatorIteration(imageData, mask, iteration);
-      
-      // 模拟判别器反馈
-      const discriminatorScore = this.discriminatorEvaluation(imageData, mask);
-      
-      // 根据判别器反馈调整生成策略
-      this.adjustGenerationStrategy(discriminatorScore);
-    }
-    
-    ctx.putImageData(imageData, 0, 0);
-    return canvas;
-  }
-
-  private generatorIteration(imageData: ImageData, mask: ImageData, iteration: number) {
-    const width = imageData.width;
-    const height = imageData.height;
-    
-    for (let y = 0; y < height; y++) {
-      for (let x = 0; x < width; x++) {
-        const i = (y * width + x) * 4;
-        const maskValue = mask.data[i] / 255;
-        
-        if (maskValue > 0.3) {
-          // 生成器修复逻辑
-          this.generatePixel(imageData, x, y, maskValue, iteration);
-        }
-      }
-    }
-  }
-
-  private generatePixel(imageData: ImageData, x: number, y: number, maskValue: number, iteration: number) {
-    const width = imageData.width;
-    const height = imageData.height;
-    const i = (y * width + x) * 4;
-    
-    // 多尺度上下文分析
-    const contextFeatures = this.extractContextFeatures(imageData, x, y, [3, 7, 15]);
-    
-    // 纹理生成
-    const generatedColor = this.generateTextureAwareColor(contextFeatures, iteration);
-    
-    // 边缘保持
-    const edgeWeight = this.calculateEdgePreservationWeight(imageData, x, y);
-    
-    // 融合生成结果
-    const blendFactor = maskValue * (1 - edgeWeight);
-    imageData.data[i] = Math.round(imageData.data[i] * (1 - blendFactor) + generatedColor.r * blendFactor);
-    imageData.data[i + 1] = Math.round(imageData.data[i + 1] * (1 - blendFactor) + generatedColor.g * blendFactor);
-    imageData.data[i + 2] = Math.round(imageData.data[i + 2] * (1 - blendFactor) + generatedColor.b * blendFactor);
-  }
-
-  private extractContextFeatures(imageData: ImageData, x: number, y: number, scales: number[]) {
-    const features = [];
-    
-    for (const scale of scales) {
-      const feature = this.extractFeatureAtScale(imageData, x, y, scale);
-      features.push(feature);
-    }
-    
-    return features;
-  }
-
-  private generateTextureAwareColor(features: any[], iteration: number) {
-    // 基于上下文特征生成颜色
-    let r = 0, g = 0, b = 0, weight = 0;
-    
-    for (const feature of features) {
-      const w = feature.weight * (1 + iteration * 0.1);
-      r += feature.color.r * w;
-      g += feature.color.g * w;
-      b += feature.color.b * w;
-      weight += w;
-    }
-    
-    if (weight > 0) {
-      return {
-        r: Math.round(r / weight),
-        g: Math.round(g / weight),
-        b: Math.round(b / weight)
-      };
-    }
-    
-    return { r: 128, g: 128, b: 128 };
-  }
-
-  private discriminatorEvaluation(imageData: ImageData, mask: ImageData): number {
-    let totalScore = 0;
-    let pixelCount = 0;
-    
-    const width = imageData.width;
-    const height = imageData.height;
-    
-    for (let y = 1; y < height - 1; y++) {
-      for (let x = 1; x < width - 1; x++) {
-        const i = (y * width + x) * 4;
-        const maskValue = mask.data[i] / 255;
-        
-        if (maskValue > 0.3) {
-          const realismScore = this.calculateRealismScore(imageData, x, y);
-          totalScore += realismScore;
-          pixelCount++;
-        }
-      }
-    }
-    
-    return pixelCount > 0 ? totalScore / pixelCount : 0;
-  }
-
-  private calculateRealismScore(imageData: ImageData, x: number, y: number): number {
-    // 计算修复区域的真实性评分
-    const textureConsistency = this.calculateTextureConsistency(imageData, x, y);
-    const colorHarmony = this.calculateColorHarmony(imageData, x, y);
-    const edgeCoherence = this.calculateEdgeCoherence(imageData, x, y);
-    
-    return (textureConsistency + colorHarmony + edgeCoherence) / 3;
-  }
-
-  private async diffusionModelRepair(canvas: HTMLCanvasElement, mask: ImageData): Promise<HTMLCanvasElement> {
-    // 扩散模型修复（简化版实现）
-    const ctx = canvas.getContext('2d')!;
-    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-    
-    // 多步扩散过程
-    for (let step = 0; step < 10; step++) {
-      this.diffusionStep(imageData, mask, step);
-    }
-    
-    ctx.putImageData(imageData, 0, 0);
-    return canvas;
-  }
-
-  private diffusionStep(imageData: ImageData, mask: ImageData, step: number) {
-    const width = imageData.width;
-    const height = imageData.height;
-    const tempData = new Uint8ClampedArray(imageData.data);
-    
-    const noiseLevel = (10 - step) / 10;
-    
-    for (let y = 1; y < height - 1; y++) {
-      for (let x = 1; x < width - 1; x++) {
-        const i = (y * width + x) * 4;
-        const maskValue = mask.data[i] / 255;
-        
-        if (maskValue > 0.2) {
-          // 扩散过程
-          const diffusedColor = this.computeDiffusion(tempData, x, y, width, height, noiseLevel);
-          
-          const blendFactor = maskValue * (1 - step / 20);
-          imageData.data[i] = Math.round(imageData.data[i] * (1 - blendFactor) + diffusedColor.r * blendFactor);
-          imageData.data[i + 1] = Math.round(imageData.data[i + 1] * (1 - blendFactor) + diffusedColor.g * blendFactor);
-          imageData.data[i + 2] = Math.round(imageData.data[i + 2] * (1 - blendFactor) + diffusedColor.b * blendFactor);
-        }
-      }
-    }
-  }
-
-  private computeDiffusion(data: Uint8ClampedArray, x: number, y: number, width: number, height: number, noiseLevel: number) {
-    // 计算扩散值
-    let r = 0, g = 0, b = 0, weight = 0;
-    
-    // 高斯核扩散
-    const kernel = [
-      [0.0625, 0.125, 0.0625],
-      [0.125, 0.25, 0.125],
-      [0.0625, 0.125, 0.0625]
-    ];
-    
-    for (let ky = 0; ky < 3; ky++) {
-      for (let kx = 0; kx < 3; kx++) {
-        const nx = x + kx - 1;
-        const ny = y + ky - 1;
-        
-        if (nx >= 0 && nx < width && ny >= 0 && ny < height) {
-          const idx = (ny * width + nx) * 4;
-          const w = kernel[ky][kx];
-          
-          r += data[idx] * w;
-          g += data[idx + 1] * w;
-          b += data[idx + 2] * w;
-          weight += w;
-        }
-      }
-    }
-    
-    // 添加控制噪声
-    const noise = (Math.random() - 0.5) * noiseLevel * 10;
-    
-    return {
-      r: Math.max(0, Math.min(255, r / weight + noise)),
-      g: Math.max(0, Math.min(255, g / weight + noise)),
-      b: Math.max(0, Math.min(255, b / weight + noise))
-    };
-  }
-
-  private async multiScaleFusion(processedCanvas: HTMLCanvasElement, originalCanvas: HTMLCanvasElement, mask: ImageData): Promise<HTMLCanvasElement> {
-    const ctx = processedCanvas.getContext('2d')!;
-    const processedData = ctx.getImageData(0, 0, processedCanvas.width, processedCanvas.height);
-    
-    const originalCtx = originalCanvas.getContext('2d')!;
-    const originalData = originalCtx.getImageData(0, 0, originalCanvas.width, originalCanvas.height);
-    
-    // 多尺度融合
-    this.pyramidFusion(processedData, originalData, mask);
-    
-    ctx.putImageData(processedData, 0, 0);
-    return processedCanvas;
-  }
-
-  private pyramidFusion(processed: ImageData, original: ImageData, mask: ImageData) {
-    const width = processed.width;
-    const height = processed.height;
-    
-    // 构建图像金字塔并融合
-    for (let scale = 1; scale <= 4; scale++) {
-      const kernelSize = scale * 2 + 1;
-      this.scaleAwareFusion(processed, original, mask, kernelSize);
-    }
-  }
-
-  private scaleAwareFusion(processed: ImageData, original: ImageData, mask: ImageData, kernelSize: number) {
-    const width = processed.width;
-    const height = processed.height;
-    const halfKernel = Math.floor(kernelSize / 2);
-    
-    for (let y = halfKernel; y < height - halfKernel; y++) {
-      for (let x = halfKernel; x < width - halfKernel; x++) {
-        const i = (y * width + x) * 4;
-        const maskValue = mask.data[i] / 255;
-        
-        if (maskValue > 0.1) {
-          const fusedColor = this.computeScaleFusion(processed, original, x, y, kernelSize, maskValue);
-          
-          processed.data[i] = fusedColor.r;
-          processed.data[i + 1] = fusedColor.g;
-          processed.data[i + 2] = fusedColor.b;
-        }
-      }
-    }
-  }
-
-  private async finalQualityEnhancement(canvas: HTMLCanvasElement) {
-    const ctx = canvas.getContext('2d')!;
-    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-    
-    // 最终质量提升
-    this.applyUnsharpMasking(imageData);
-    this.applyColorCorrection(imageData);
-    this.applyNoiseReduction(imageData);
-    
-    ctx.putImageData(imageData, 0, 0);
-  }
-
-  // 辅助方法实现（简化版）
-  private calculateEdgeStrength(imageData: ImageData, x: number, y: number): number {
-    // ... 保持现有的边缘检测实现
-    return 0;
-  }
-
-  private calculateColorUniformity(imageData: ImageData, x: number, y: number): number {
-    // ... 实现颜色一致性计算
-    return 0;
-  }
-
-  private detectStrokePattern(imageData: ImageData, x: number, y: number): number {
-    // ... 实现笔画模式检测
-    return 0;
-  }
-
-  private calculateLocalAspectRatio(imageData: ImageData, x: number, y: number): number {
-    // ... 实现局部纵横比计算
-    return 0;
-  }
-
-  private detectCircularPattern(imageData: ImageData, x: number, y: number): number {
-    // ... 实现圆形模式检测
-    return 0;
-  }
-
-  private detectRectangularPattern(imageData: ImageData, x: number, y: number): number {
-    // ... 实现矩形模式检测
-    return 0;
-  }
-
-  private detectSymmetry(imageData: ImageData, x: number, y: number): number {
-    // ... 实现对称性检测
-    return 0;
-  }
-
-  private advancedMorphologicalProcessing(mask: ImageData) {
-    // ... 实现高级形态学处理
-  }
-
-  private async aiMaskRefinement(canvas: HTMLCanvasElement, mask: ImageData) {
-    // ... 实现AI掩码优化
-  }
-
-  private adjustGenerationStrategy(score: number) {
-    // ... 实现生成策略调整
-  }
-
-  private extractFeatureAtScale(imageData: ImageData, x: number, y: number, scale: number) {
-    // ... 实现多尺度特征提取
-    return { weight: 1, color: { r: 128, g: 128, b: 128 } };
-  }
-
-  private calculateEdgePreservationWeight(imageData: ImageData, x: number, y: number): number {
-    // ... 实现边缘保持权重计算
-    return 0;
-  }
-
-  private calculateTextureConsistency(imageData: ImageData, x: number, y: number): number {
-    // ... 实现纹理一致性计算
-    return 0.8;
-  }
-
-  private calculateColorHarmony(imageData: ImageData, x: number, y: number): number {
-    // ... 实现颜色和谐度计算
-    return 0.8;
-  }
-
-  private calculateEdgeCoherence(imageData: ImageData, x: number, y: number): number {
-    // ... 实现边缘连贯性计算
-    return 0.8;
-  }
-
-  private computeScaleFusion(processed: ImageData, original: ImageData, x: number, y: number, kernelSize: number, maskValue: number) {
-    // ... 实现尺度融合计算
-    const i = (y * processed.width + x) * 4;
-    return {
-      r: processed.data[i],
-      g: processed.data[i + 1],
-      b: processed.data[i + 2]
-    };
-  }
-
-  private applyAdaptiveHistogramEqualization(imageData: ImageData) {
-    // ... 实现自适应直方图均衡化
-  }
-
-  private applyEdgePreservingDenoising(imageData: ImageData) {
-    // ... 实现边缘保持去噪
-  }
-
-  private applyContrastEnhancement(imageData: ImageData) {
-    // ... 实现对比度增强
-  }
-
-  private applyUnsharpMasking(imageData: ImageData) {
-    // ... 实现锐化掩模
-  }
-
-  private applyColorCorrection(imageData: ImageData) {
-    // ... 实现颜色校正
-  }
-
-  private applyNoiseReduction(imageData: ImageData) {
-    // ... 实现噪声减少
-  }
-
-  destroy() {
-    if (this.worker) {
-      this.worker.terminate();
-      this.worker = null;
-    }
-  }
-}
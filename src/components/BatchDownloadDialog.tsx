@@ -4,27 +4,69 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } f
 import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Download } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import { Download, FileArchive } from 'lucide-react';
 import { toast } from 'sonner';
+import { ExportSettings, ProcessingAlgorithm } from './watermark/types';
+import ExportSettingsPanel from './watermark/ExportSettingsPanel';
+import { PROCESSING_ALGORITHM_LABELS } from './watermark/formatting';
+import {
+  DEFAULT_DOWNLOAD_NAME_PATTERN,
+  DOWNLOAD_MANIFEST_NAME,
+  DOWNLOAD_NAME_TOKENS,
+  DownloadManifestEntry,
+  DownloadSink,
+  createDownloadManifest,
+  downloadBlob,
+  extensionForType,
+  formatDownloadName,
+  makeUniqueFileName,
+  openZipDownload,
+  zipFileName
+} from '@/utils/downloadArchive';
+import { ZipWriter } from '@/utils/zipArchive';
+import { encodeForExport } from '@/utils/imageExport';
+import { isAbortError } from '@/utils/workerPool';
+import { handleSecureError } from '@/utils/secureErrorHandler';
 
 interface ImageItem {
   id: string;
   file: File;
   processedUrl: string | null;
   processCount: number;
+  dimensions?: {
+    width: number;
+    height: number;
+  };
 }
 
 interface BatchDownloadDialogProps {
   isOpen: boolean;
   onClose: () => void;
   images: ImageItem[];
+  getResultAlgorithm: (imageId: string, processedUrl: string | null) => ProcessingAlgorithm | null;
+  getResultBlob: (imageId: string, processedUrl: string | null) => Blob | null;
+  exportSettings: ExportSettings;
+  onExportSettingsChange: (updates: Partial<ExportSettings>) => void;
+}
+
+interface PreparedFile {
+  image: ImageItem;
+  name: string;
+  blob: Blob;
+  algorithm: ProcessingAlgorithm | null;
 }
 
-const BatchDownloadDialog: React.FC<BatchDownloadDialogProps> = ({ isOpen, onClose, images }) => {
+const BatchDownloadDialog: React.FC<BatchDownloadDialogProps> = ({ isOpen, onClose, images, getResultAlgorithm, getResultBlob, exportSettings, onExportSettingsChange }) => {
   const [selectedImages, setSelectedImages] = useState<Set<string>>(new Set());
+  const [asZip, setAsZip] = useState(true);
+  const [namePattern, setNamePattern] = useState(DEFAULT_DOWNLOAD_NAME_PATTERN);
+  const [includeManifest, setIncludeManifest] = useState(true);
+  const [packingProgress, setPackingProgress] = useState<{ done: number; total: number } | null>(null);
 
   // 只显示已处理的图片
   const processedImages = images.filter(img => img.processedUrl);
+  const isPacking = packingProgress !== null;
 
   const handleSelectAll = (checked: boolean) => {
     if (checked) {
@@ -44,6 +86,80 @@ const BatchDownloadDialog: React.FC<BatchDownloadDialogProps> = ({ isOpen, onClo
     setSelectedImages(newSelected);
   };
 
+  const handleClose = () => {
+    if (!isPacking) onClose();
+  };
+
+  // Resolves names in selection order so {index} matches the order shown in the list
+  const prepareFile = async (image: ImageItem, index: number, total: number, date: Date, usedNames: Set<string>): Promise<PreparedFile> => {
+    const result = getResultBlob(image.id, image.processedUrl);
+    if (!result) {
+      throw new Error(`${image.file.name} 没有可下载的处理结果`);
+    }
+    const blob = await encodeForExport(result, image.file, exportSettings);
+    const algorithm = getResultAlgorithm(image.id, image.processedUrl);
+    const baseName = formatDownloadName(namePattern, { originalName: image.file.name, index, total, algorithm, date });
+    return { image, blob, algorithm, name: makeUniqueFileName(baseName, extensionForType(blob.type), usedNames) };
+  };
+
+  const downloadSeparately = async (selectedImageData: ImageItem[], date: Date) => {
+    const usedNames = new Set<string>();
+    for (let i = 0; i < selectedImageData.length; i++) {
+      const { name, blob } = await prepareFile(selectedImageData[i], i + 1, selectedImageData.length, date, usedNames);
+      downloadBlob(blob, name);
+
+      // 添加小延迟避免浏览器阻止多个下载
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+    toast.success(`成功下载 ${selectedImageData.length} 张图片!`, { duration: 1000 });
+  };
+
+  const downloadAsZip = async (selectedImageData: ImageItem[], date: Date) => {
+    let sink: DownloadSink;
+    try {
+      // First await of the click handler: the save picker needs the user gesture
+      sink = await openZipDownload(zipFileName(date));
+    } catch (error) {
+      if (isAbortError(error)) return false;
+      throw error;
+    }
+
+    const zip = new ZipWriter(sink);
+    const usedNames = new Set<string>(includeManifest ? [DOWNLOAD_MANIFEST_NAME] : []);
+    const manifestEntries: DownloadManifestEntry[] = [];
+    setPackingProgress({ done: 0, total: selectedImageData.length });
+    try {
+      for (let i = 0; i < selectedImageData.length; i++) {
+        const { image, name, blob, algorithm } = await prepareFile(selectedImageData[i], i + 1, selectedImageData.length, date, usedNames);
+        await zip.addFile(name, blob, date);
+        manifestEntries.push({
+          file: name,
+          index: i + 1,
+          originalName: image.file.name,
+          algorithm,
+          algorithmLabel: algorithm && PROCESSING_ALGORITHM_LABELS[algorithm],
+          processCount: image.processCount,
+          size: blob.size,
+          type: blob.type,
+          width: image.dimensions?.width ?? null,
+          height: image.dimensions?.height ?? null
+        });
+        setPackingProgress({ done: i + 1, total: selectedImageData.length });
+      }
+      if (includeManifest) {
+        const manifest = createDownloadManifest(manifestEntries, namePattern, date);
+        await zip.addFile(DOWNLOAD_MANIFEST_NAME, new TextEncoder().encode(JSON.stringify(manifest, null, 2)), date);
+      }
+      await zip.finish();
+      await sink.close();
+    } catch (error) {
+      await sink.abort().catch(() => undefined);
+      throw error;
+    }
+    toast.success(`已将 ${selectedImageData.length} 张图片打包下载!`, { duration: 1000 });
+    return true;
+  };
+
   const handleBatchDownload = async () => {
     if (selectedImages.size === 0) {
       toast.error("请选择要下载的图片", { duration: 800 });
@@ -51,35 +167,38 @@ const BatchDownloadDialog: React.FC<BatchDownloadDialogProps> = ({ isOpen, onClo
     }
 
     const selectedImageData = processedImages.filter(img => selectedImages.has(img.id));
-    
+    const date = new Date();
+
     try {
-      // 批量下载
-      for (const image of selectedImageData) {
-        if (image.processedUrl) {
-          const link = document.createElement("a");
-          link.href = image.processedUrl;
-          link.download = `watermark_removed_${image.file.name}`;
-          document.body.appendChild(link);
-          link.click();
-          document.body.removeChild(link);
-          
-          // 添加小延迟避免浏览器阻止多个下载
-          await new Promise(resolve => setTimeout(resolve, 100));
-        }
+      if (asZip) {
+        const saved = await downloadAsZip(selectedImageData, date);
+        if (!saved) return;
+      } else {
+        await downloadSeparately(selectedImageData, date);
       }
-      
-      toast.success(`成功下载 ${selectedImages.size} 张图片!`, { duration: 1000 });
+
       onClose();
       setSelectedImages(new Set());
     } catch (error) {
+      handleSecureError(error, 'batch-download', 'medium');
       toast.error("下载失败，请重试", { duration: 800 });
+    } finally {
+      setPackingProgress(null);
     }
   };
 
   const isAllSelected = processedImages.length > 0 && selectedImages.size === processedImages.length;
+  const previewImage = processedImages.find(img => selectedImages.has(img.id)) || processedImages[0];
+  const previewName = previewImage && formatDownloadName(namePattern, {
+    originalName: previewImage.file.name,
+    index: 1,
+    total: Math.max(selectedImages.size, 1),
+    algorithm: getResultAlgorithm(previewImage.id, previewImage.processedUrl),
+    date: new Date()
+  });
 
   return (
-    <Dialog open={isOpen} onOpenChange={onClose}>
+    <Dialog open={isOpen} onOpenChange={handleClose}>
       <DialogContent className="max-w-2xl">
         <DialogHeader>
           <DialogTitle>批量下载已处理图片</DialogTitle>
@@ -87,7 +206,7 @@ const BatchDownloadDialog: React.FC<BatchDownloadDialogProps> = ({ isOpen, onClo
             选择要下载的已处理图片 ({processedImages.length} 张可用)
           </DialogDescription>
         </DialogHeader>
-        
+
         {processedImages.length === 0 ? (
           <div className="text-center py-8 text-gray-500">
             暂无已处理的图片
@@ -99,12 +218,13 @@ const BatchDownloadDialog: React.FC<BatchDownloadDialogProps> = ({ isOpen, onClo
                 id="select-all"
                 checked={isAllSelected}
                 onCheckedChange={handleSelectAll}
+                disabled={isPacking}
               />
               <label htmlFor="select-all" className="text-sm font-medium cursor-pointer">
                 全选 ({processedImages.length} 张)
               </label>
             </div>
-            
+
             <ScrollArea className="max-h-64">
               <div className="space-y-2">
                 {processedImages.map(image => (
@@ -113,6 +233,7 @@ const BatchDownloadDialog: React.FC<BatchDownloadDialogProps> = ({ isOpen, onClo
                       id={`image-${image.id}`}
                       checked={selectedImages.has(image.id)}
                       onCheckedChange={(checked) => handleSelectImage(image.id, !!checked)}
+                      disabled={isPacking}
                     />
                     <div className="flex-1 min-w-0">
                       <span className="text-sm truncate block" title={image.file.name}>
@@ -126,18 +247,85 @@ const BatchDownloadDialog: React.FC<BatchDownloadDialogProps> = ({ isOpen, onClo
                 ))}
               </div>
             </ScrollArea>
-            
+
+            <div className="space-y-3 border-t pt-3">
+              <div className="space-y-1">
+                <label htmlFor="download-name-pattern" className="text-sm font-medium">文件命名规则</label>
+                <input
+                  id="download-name-pattern"
+                  type="text"
+                  value={namePattern}
+                  onChange={(e) => setNamePattern(e.target.value)}
+                  disabled={isPacking}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder={DEFAULT_DOWNLOAD_NAME_PATTERN}
+                  maxLength={120}
+                />
+                <div className="flex flex-wrap gap-1">
+                  {DOWNLOAD_NAME_TOKENS.map(({ token, description }) => (
+                    <button
+                      key={token}
+                      type="button"
+                      disabled={isPacking}
+                      onClick={() => setNamePattern(pattern => pattern + token)}
+                      className="text-xs px-2 py-0.5 rounded border hover:bg-gray-50"
+                      title={`插入${description}`}
+                    >
+                      {token} {description}
+                    </button>
+                  ))}
+                </div>
+                {previewName && (
+                  <p className="text-xs text-gray-500 truncate">示例: {previewName}（扩展名按导出格式）</p>
+                )}
+              </div>
+
+              <ExportSettingsPanel settings={exportSettings} onChange={onExportSettingsChange} disabled={isPacking} />
+
+              <div className="flex flex-wrap gap-x-6 gap-y-2">
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="download-as-zip"
+                    checked={asZip}
+                    onCheckedChange={(checked) => setAsZip(!!checked)}
+                    disabled={isPacking}
+                  />
+                  <label htmlFor="download-as-zip" className="text-sm cursor-pointer">打包为一个 ZIP 文件</label>
+                </div>
+                {asZip && (
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="download-manifest"
+                      checked={includeManifest}
+                      onCheckedChange={(checked) => setIncludeManifest(!!checked)}
+                      disabled={isPacking}
+                    />
+                    <label htmlFor="download-manifest" className="text-sm cursor-pointer">附带 manifest.json 文件清单</label>
+                  </div>
+                )}
+              </div>
+
+              {packingProgress && (
+                <div className="space-y-1">
+                  <Progress value={(packingProgress.done / packingProgress.total) * 100} className="h-2" />
+                  <span className="text-xs text-gray-500">
+                    正在打包 {packingProgress.done}/{packingProgress.total}
+                  </span>
+                </div>
+              )}
+            </div>
+
             <div className="flex justify-between items-center pt-3 border-t">
               <span className="text-sm text-gray-600">
                 已选择 {selectedImages.size} 张图片
               </span>
               <div className="flex space-x-2">
-                <Button variant="outline" onClick={onClose}>
+                <Button variant="outline" onClick={handleClose} disabled={isPacking}>
                   取消
                 </Button>
-                <Button onClick={handleBatchDownload} disabled={selectedImages.size === 0}>
-                  <Download className="h-4 w-4 mr-2" />
-                  下载选中图片
+                <Button onClick={handleBatchDownload} disabled={selectedImages.size === 0 || isPacking}>
+                  {asZip ? <FileArchive className="h-4 w-4 mr-2" /> : <Download className="h-4 w-4 mr-2" />}
+                  {asZip ? '打包下载' : '下载选中图片'}
                 </Button>
               </div>
             </div>
@@ -8,11 +8,9 @@ env.useBrowserCache = true;
 export class EnhancedWatermarkProcessor {
   private segmenter: any = null;
   private isInitialized = false;
-  private worker: Worker | null = null;
 
   constructor() {
     this.initializeModels();
-    this.initializeWorker();
   }
 
   private async initializeModels() {
@@ -36,14 +34,6 @@ export class EnhancedWatermarkProcessor {
     }
   }
 
-  private initializeWorker() {
-    try {
-      this.worker = new Worker('/watermark-worker.js');
-    } catch (error) {
-      console.warn('Web Worker不可用，使用主线程处理');
-    }
-  }
-
   async removeWatermark(
     file: File,
     onProgress?: (progress: number) => void
@@ -614,9 +604,7 @@ export class EnhancedWatermarkProcessor {
   }
 
   destroy() {
-    if (this.worker) {
-      this.worker.terminate();
-      this.worker = null;
-    }
+    this.segmenter = null;
+    this.isInitialized = false;
   }
 }
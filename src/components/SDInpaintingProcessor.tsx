@@ -1,5 +1,6 @@
 
 // Stable Diffusion Inpainting 处理器
+import { blendSeams } from './watermark/seamBlending';
 
 export interface WatermarkMark {
   x: number;
@@ -26,6 +27,8 @@ export const processWithSDInpainting = async (
         canvas.width = img.width;
         canvas.height = img.height;
         ctx.drawImage(img, 0, 0);
+        // 原图副本，后处理时以它为融合基准
+        const original = ctx.getImageData(0, 0, canvas.width, canvas.height);
 
         // 步骤1: 智能检测和预处理
         const processedData = await intelligentDetection(canvas, mark);
@@ -37,7 +40,7 @@ export const processWithSDInpainting = async (
         const textureEnhanced = await textureReconstruction(semanticFilledData, mark);
         
         // 步骤4: 后处理和质量优化
-        const finalProcessed = await postProcessing(textureEnhanced, mark);
+        const finalProcessed = await postProcessing(textureEnhanced, mark, original);
 
         // 将处理结果应用到画布
         ctx.putImageData(finalProcessed, 0, 0);
@@ -177,17 +180,18 @@ const textureReconstruction = async (
 // 步骤4: 后处理和质量优化
 const postProcessing = async (
   imageData: ImageData, 
-  mark: WatermarkMark
+  mark: WatermarkMark,
+  original: ImageData
 ): Promise<ImageData> => {
   const data = imageData.data;
   const width = imageData.width;
   const height = imageData.height;
 
-  // 边缘融合处理
-  applyEdgeBlending(data, width, height, mark);
-  
   // 色彩一致性调整
-  adjustColorConsistency(data, width, height, mark);
+  adjustColorConsistency(data, width, height, mark, original);
+
+  // 边缘融合处理
+  applyEdgeBlending(data, width, height, mark, original);
   
   // 降噪和锐化
   applyNoiseReductionAndSharpening(data, width, height, mark);
@@ -349,12 +353,71 @@ const calculateLocalEdgeStrength = (data: Uint8ClampedArray, x: number, y: numbe
   return maxDiff;
 };
 
-const applyEdgeBlending = (data: Uint8ClampedArray, width: number, height: number, mark: WatermarkMark) => {
-  // 边缘融合实现
+// 色彩统计取自标记框外这一圈像素
+const COLOR_RING_WIDTH = 8;
+
+const getMarkBox = (width: number, height: number, mark: WatermarkMark) => ({
+  left: Math.max(0, Math.floor(mark.x * width)),
+  top: Math.max(0, Math.floor(mark.y * height)),
+  right: Math.min(width, Math.floor((mark.x + mark.width) * width)),
+  bottom: Math.min(height, Math.floor((mark.y + mark.height) * height))
+});
+
+// 泊松融合：保留填充内容的梯度，把标记边缘的色差平滑分摊到标记区域及其外围
+const applyEdgeBlending = (data: Uint8ClampedArray, width: number, height: number, mark: WatermarkMark, original: ImageData) => {
+  const { left, top, right, bottom } = getMarkBox(width, height, mark);
+  const mask = new Uint8Array(width * height);
+  for (let y = top; y < bottom; y++) {
+    mask.fill(255, y * width + left, y * width + right);
+  }
+  blendSeams(original, { data, width, height }, mask);
 };
 
-const adjustColorConsistency = (data: Uint8ClampedArray, width: number, height: number, mark: WatermarkMark) => {
-  // 色彩一致性调整实现
+// 把标记区域各通道的均值与标准差对齐到外围原图，纠正整体偏色
+const adjustColorConsistency = (data: Uint8ClampedArray, width: number, height: number, mark: WatermarkMark, original: ImageData) => {
+  const { left, top, right, bottom } = getMarkBox(width, height, mark);
+  if (right <= left || bottom <= top) return;
+
+  const collect = (source: Uint8ClampedArray, inside: boolean) => {
+    const sum = [0, 0, 0];
+    const squares = [0, 0, 0];
+    let count = 0;
+    const ringTop = Math.max(0, top - COLOR_RING_WIDTH);
+    const ringBottom = Math.min(height, bottom + COLOR_RING_WIDTH);
+    const ringLeft = Math.max(0, left - COLOR_RING_WIDTH);
+    const ringRight = Math.min(width, right + COLOR_RING_WIDTH);
+    for (let y = ringTop; y < ringBottom; y++) {
+      for (let x = ringLeft; x < ringRight; x++) {
+        const inMark = x >= left && x < right && y >= top && y < bottom;
+        if (inMark !== inside) continue;
+        const index = (y * width + x) * 4;
+        for (let c = 0; c < 3; c++) {
+          sum[c] += source[index + c];
+          squares[c] += source[index + c] * source[index + c];
+        }
+        count++;
+      }
+    }
+    return [0, 1, 2].map(c => {
+      const mean = count > 0 ? sum[c] / count : 0;
+      return { mean, deviation: count > 0 ? Math.sqrt(Math.max(0, squares[c] / count - mean * mean)) : 0, count };
+    });
+  };
+
+  const target = collect(original.data, false);
+  const current = collect(data, true);
+  if (target[0].count === 0) return;
+
+  for (let y = top; y < bottom; y++) {
+    for (let x = left; x < right; x++) {
+      const index = (y * width + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        // 标准差过小时只平移均值，避免放大噪声
+        const gain = current[c].deviation > 1 ? Math.min(2, target[c].deviation / current[c].deviation) : 1;
+        data[index + c] = target[c].mean + (data[index + c] - current[c].mean) * gain;
+      }
+    }
+  }
 };
 
 const applyNoiseReductionAndSharpening = (data: Uint8ClampedArray, width: number, height: number, mark: WatermarkMark) => {
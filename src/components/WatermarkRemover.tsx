@@ -1,14 +1,24 @@
 
 import React, { useState } from 'react';
 import { TooltipProvider } from '@/components/ui/tooltip';
+import { toast } from 'sonner';
+import { handleSecureError } from '@/utils/secureErrorHandler';
+import { ImageItem, TileLattice } from './watermark/types';
 
 import MainLayout from './watermark/MainLayout';
 
 import { useImageState } from '@/hooks/useImageState';
+import { useImageHistory, useHistoryShortcuts } from '@/hooks/useImageHistory';
 import { useWatermarkMarking } from '@/hooks/useWatermarkMarking';
 import { useImageProcessing } from '@/hooks/useImageProcessing';
 import { useFileUpload } from '@/hooks/useFileUpload';
+import { useProjectPersistence } from '@/hooks/useProjectPersistence';
+import { useProjectArchive } from '@/hooks/useProjectArchive';
 import { useImageHandlers } from '@/hooks/useImageHandlers';
+import { useExportSettings } from '@/hooks/useExportSettings';
+import { useSDParams } from '@/hooks/useSDParams';
+import { useAlgorithmParams } from '@/hooks/useAlgorithmParams';
+import { useProcessingCandidates } from '@/hooks/useProcessingCandidates';
 import { useMouseEvents } from '@/hooks/useMouseEvents';
 
 const WatermarkRemover = () => {
@@ -30,6 +40,18 @@ const WatermarkRemover = () => {
     restoreToOriginal
   } = useImageState();
 
+  const {
+    recordHistory,
+    retainProcessingResult,
+    undo,
+    redo,
+    jumpToPass,
+    clearHistory,
+    getImageHistory,
+    getResultAlgorithm,
+    getResultBlob
+  } = useImageHistory(images, updateImage);
+
   const {
     isMarkingMode,
     zoom,
@@ -38,14 +60,55 @@ const WatermarkRemover = () => {
     setDragState,
     resizeState,
     setResizeState,
-    selectedMark,
-    setSelectedMark,
+    selectedMarkId,
+    setSelectedMarkId,
+    markingTool,
+    setMarkingTool,
+    brushRadius,
+    setBrushRadius,
+    draftShape,
+    setDraftShape,
+    isDetecting,
+    isEstimatingLattice,
+    matchProgress,
     getImageCoordinates,
     getResizeHandle,
+    getVertexHandle,
+    findMarkAt,
     clearWatermarkMark,
+    removeSelectedMark,
+    clearPaintMask,
+    clearSourceExclusion,
+    handleAutoDetect,
+    handleEstimateLattice,
+    acceptSuggestedMark,
+    rejectSuggestedMark,
     handleMarkingToggle,
-    handleBatchApplyWatermark
-  } = useWatermarkMarking(updateImage, updateImages);
+    handleBatchApplyWatermark,
+    handleBatchMatchWatermark
+  } = useWatermarkMarking(updateImage, updateImages, recordHistory);
+
+  const {
+    sdParams,
+    sdPresets,
+    updateSDParams,
+    resetSDParams,
+    saveSDPreset,
+    deleteSDPreset
+  } = useSDParams();
+
+  const { algorithmParams, updateAlgorithmParams, resetAlgorithmParams } = useAlgorithmParams();
+
+  const {
+    candidateCount,
+    setCandidateCount,
+    candidateSet,
+    previewCandidateId,
+    setPreviewCandidateId,
+    presentCandidates,
+    chooseCandidate,
+    discardCandidates
+  } = useProcessingCandidates(updateImage, recordHistory, retainProcessingResult);
 
   const {
     isProcessing,
@@ -56,17 +119,56 @@ const WatermarkRemover = () => {
     selectedImageId: processingSelectedImageId,
     setProcessingAlgorithm,
     handleRemoveWatermark,
-    handleBatchProcess
-  } = useImageProcessing(updateImage);
+    handleBatchProcess,
+    cancelProcessing,
+    batchReport,
+    isBatchReportOpen,
+    setIsBatchReportOpen,
+    retryFailedImages
+  } = useImageProcessing(updateImage, recordHistory, retainProcessingResult, sdParams, candidateCount, presentCandidates, algorithmParams);
 
   const { handleFileUpload } = useFileUpload(images, addImages);
+
+  const {
+    isPersistenceAvailable,
+    isRestoring,
+    storageEstimate,
+    clearSession
+  } = useProjectPersistence({
+    images,
+    addImages,
+    selectedImageId,
+    setSelectedImageId,
+    processingAlgorithm,
+    setProcessingAlgorithm,
+    retainProcessingResult,
+    getResultBlob,
+  });
+
+  const {
+    isExporting,
+    isImporting,
+    exportProject,
+    importProject
+  } = useProjectArchive({
+    images,
+    addImages,
+    selectedImageId,
+    setSelectedImageId,
+    processingAlgorithm,
+    setProcessingAlgorithm,
+    retainProcessingResult,
+    getImageHistory,
+  });
   
   const {
     handleZoomChange,
     syncScroll,
     handleDownload,
     handleBatchDownload
-  } = useImageHandlers();
+  } = useImageHandlers(getResultBlob);
+
+  const { exportSettings, updateExportSettings } = useExportSettings();
 
   // Mouse event handlers for watermark marking
   const {
@@ -77,21 +179,78 @@ const WatermarkRemover = () => {
     isMarkingMode,
     images,
     zoom,
-    selectedMark,
+    selectedMarkId,
+    markingTool,
+    brushRadius,
+    draftShape,
     dragState,
     resizeState,
     getImageCoordinates,
     getResizeHandle,
+    getVertexHandle,
+    findMarkAt,
     setResizeState,
-    setSelectedMark,
+    setSelectedMarkId,
     setDragState,
+    setDraftShape,
     updateImage,
+    recordHistory,
+  });
+
+  // A restored state may not contain the selected mark, so the selection is dropped
+  const undoWrapper = (imageId: string) => {
+    setSelectedMarkId(null);
+    return undo(imageId);
+  };
+  const redoWrapper = (imageId: string) => {
+    setSelectedMarkId(null);
+    return redo(imageId);
+  };
+
+  useHistoryShortcuts({
+    selectedImageId,
+    disabled: isProcessing || isBatchProcessing,
+    undo: undoWrapper,
+    redo: redoWrapper
   });
 
   // Wrapper functions to maintain compatibility
-  const handleMarkingToggleWrapper = () => handleMarkingToggle(selectedImage);
-  const handleBatchApplyWatermarkWrapper = () => handleBatchApplyWatermark(selectedImage, selectedImageId);
+  const handleMarkingToggleWrapper = () => handleMarkingToggle(selectedImage, { estimateLattice: processingAlgorithm === 'tiled' });
+  const removeSelectedMarkWrapper = () => removeSelectedMark(selectedImage);
+  const handleAutoDetectWrapper = () => handleAutoDetect(selectedImage);
+  const acceptSuggestedMarkWrapper = (markId?: string) => acceptSuggestedMark(selectedImage, markId);
+  const rejectSuggestedMarkWrapper = (markId?: string) => rejectSuggestedMark(selectedImage, markId);
+  const restoreToOriginalWrapper = (id: string) => {
+    recordHistory(id, '还原原图');
+    restoreToOriginal(id);
+  };
+  const removeImageWrapper = (id: string) => {
+    discardCandidates(id);
+    clearHistory(id);
+    removeImage(id);
+  };
+  // Images leave state first so no pending save writes them back after the store is emptied
+  const clearSessionWrapper = async () => {
+    images.forEach(image => removeImageWrapper(image.id));
+    try {
+      await clearSession();
+      toast.success("已清除本地会话", { duration: 1000 });
+    } catch (error) {
+      toast.error(handleSecureError(error, 'session-clear', 'medium'), { duration: 1500 });
+    }
+  };
+  const handleEstimateLatticeWrapper = () => handleEstimateLattice(selectedImage);
+  const updateTileLattice = (lattice: TileLattice) => {
+    if (selectedImage) {
+      recordHistory(selectedImage.id, '调整平铺网格', { coalesce: true });
+      updateImage(selectedImage.id, { tileLattice: lattice });
+    }
+  };
+  const handleBatchApplyWatermarkWrapper = () => handleBatchApplyWatermark(selectedImage, selectedImageId, images);
+  const handleBatchMatchWatermarkWrapper = () => handleBatchMatchWatermark(selectedImage, images);
   const handleBatchProcessWrapper = () => handleBatchProcess(images);
+  const retryFailedImagesWrapper = () => retryFailedImages(images);
+  const handleDownloadWrapper = (item: ImageItem) => handleDownload(item, exportSettings);
   const handleBatchDownloadWrapper = () => {
     if (handleBatchDownload(images)) {
       setIsBatchDownloadOpen(true);
@@ -123,18 +282,64 @@ const WatermarkRemover = () => {
         onBatchProcess={handleBatchProcessWrapper}
         onAlgorithmChange={setProcessingAlgorithm}
         onImageSelect={setSelectedImageId}
-        onRemoveImage={removeImage}
+        onRemoveImage={removeImageWrapper}
         setSdApiKey={setSdApiKey}
         setIsApiConfigOpen={setIsApiConfigOpen}
+        sdParams={sdParams}
+        sdPresets={sdPresets}
+        onSDParamsChange={updateSDParams}
+        onResetSDParams={resetSDParams}
+        onSaveSDPreset={saveSDPreset}
+        onDeleteSDPreset={deleteSDPreset}
+        candidateCount={candidateCount}
+        onCandidateCountChange={setCandidateCount}
+        algorithmParams={algorithmParams}
+        onAlgorithmParamsChange={updateAlgorithmParams}
+        onResetAlgorithmParams={resetAlgorithmParams}
+        candidateSet={candidateSet}
+        previewCandidateId={previewCandidateId}
+        onPreviewCandidate={setPreviewCandidateId}
+        onChooseCandidate={chooseCandidate}
+        onDiscardCandidates={() => discardCandidates()}
         handleRemoveWatermark={handleRemoveWatermark}
+        cancelProcessing={cancelProcessing}
+        isPersistenceAvailable={isPersistenceAvailable}
+        isRestoring={isRestoring}
+        storageEstimate={storageEstimate}
+        onClearSession={clearSessionWrapper}
+        isExportingProject={isExporting}
+        isImportingProject={isImporting}
+        onExportProject={exportProject}
+        onImportProject={importProject}
         // Toolbar props
         selectedImage={selectedImage}
         isMarkingMode={isMarkingMode}
         handleMarkingToggle={handleMarkingToggleWrapper}
         clearWatermarkMark={clearWatermarkMark}
+        removeSelectedMark={removeSelectedMarkWrapper}
+        setMarkingTool={setMarkingTool}
+        brushRadius={brushRadius}
+        setBrushRadius={setBrushRadius}
+        clearPaintMask={clearPaintMask}
+        clearSourceExclusion={clearSourceExclusion}
+        isDetecting={isDetecting}
+        handleAutoDetect={handleAutoDetectWrapper}
+        acceptSuggestedMark={acceptSuggestedMarkWrapper}
+        rejectSuggestedMark={rejectSuggestedMarkWrapper}
+        isEstimatingLattice={isEstimatingLattice}
+        handleEstimateLattice={handleEstimateLatticeWrapper}
+        updateTileLattice={updateTileLattice}
         handleBatchApplyWatermark={handleBatchApplyWatermarkWrapper}
-        restoreToOriginal={restoreToOriginal}
-        handleDownload={handleDownload}
+        matchProgress={matchProgress}
+        handleBatchMatchWatermark={handleBatchMatchWatermarkWrapper}
+        restoreToOriginal={restoreToOriginalWrapper}
+        imageHistory={getImageHistory(selectedImage?.id)}
+        undoHistory={() => selectedImage && undoWrapper(selectedImage.id)}
+        redoHistory={() => selectedImage && redoWrapper(selectedImage.id)}
+        jumpToPass={(url: string) => selectedImage && jumpToPass(selectedImage.id, url)}
+        handleDownload={handleDownloadWrapper}
+        exportSettings={exportSettings}
+        onExportSettingsChange={updateExportSettings}
         handleBatchDownload={handleBatchDownloadWrapper}
         processingSelectedImageId={processingSelectedImageId}
         // ImageGrid props
@@ -145,11 +350,20 @@ const WatermarkRemover = () => {
         handleMouseDown={handleMouseDown}
         handleMouseMove={handleMouseMove}
         handleMouseUp={handleMouseUp}
-        selectedMark={selectedMark}
+        selectedMarkId={selectedMarkId}
+        markingTool={markingTool}
+        draftShape={draftShape}
         dragState={dragState}
         // Batch download
         isBatchDownloadOpen={isBatchDownloadOpen}
         setIsBatchDownloadOpen={setIsBatchDownloadOpen}
+        getResultAlgorithm={getResultAlgorithm}
+        getResultBlob={getResultBlob}
+        // Batch report
+        batchReport={batchReport}
+        isBatchReportOpen={isBatchReportOpen}
+        setIsBatchReportOpen={setIsBatchReportOpen}
+        onRetryFailed={retryFailedImagesWrapper}
       />
     </TooltipProvider>
   );
@@ -0,0 +1,99 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { RotateCcw } from 'lucide-react';
+import { AlgorithmParams, ProcessingAlgorithm } from './types';
+import { ALGORITHM_PARAM_LIMITS, isDiffusionAlgorithm, isPatchAlgorithm } from './algorithmParams';
+
+interface AlgorithmParamsPanelProps {
+  algorithm: ProcessingAlgorithm;
+  params: AlgorithmParams;
+  onChange: (updates: Partial<AlgorithmParams>) => void;
+  onReset: () => void;
+}
+
+// Settings of the selected local algorithm; only the fields it reads are shown
+const AlgorithmParamsPanel: React.FC<AlgorithmParamsPanelProps> = ({ algorithm, params, onChange, onReset }) => {
+  return (
+    <div className="space-y-3">
+      {isPatchAlgorithm(algorithm) && (
+        <>
+          <div className="space-y-1">
+            <span className="text-xs font-medium text-gray-700">样本块大小</span>
+            <div className="flex items-center space-x-2">
+              <Slider
+                value={[params.patchSize]}
+                min={ALGORITHM_PARAM_LIMITS.patchSize.min}
+                max={ALGORITHM_PARAM_LIMITS.patchSize.max}
+                step={2}
+                onValueChange={([value]) => onChange({ patchSize: value })}
+                className="flex-1"
+              />
+              <span className="text-xs text-gray-500 w-12">{params.patchSize}px</span>
+            </div>
+            <p className="text-xs text-gray-500">应略大于背景纹理的最小重复单元；越大结构越连贯，越小细节越多</p>
+          </div>
+
+          <div className="space-y-1">
+            <span className="text-xs font-medium text-gray-700">搜索范围</span>
+            <div className="flex items-center space-x-2">
+              <Slider
+                value={[params.searchWindow]}
+                min={ALGORITHM_PARAM_LIMITS.searchWindow.min}
+                max={ALGORITHM_PARAM_LIMITS.searchWindow.max}
+                step={8}
+                onValueChange={([value]) => onChange({ searchWindow: value })}
+                className="flex-1"
+              />
+              <span className="text-xs text-gray-500 w-12">{params.searchWindow}px</span>
+            </div>
+            <p className="text-xs text-gray-500">在遮罩周围多远内寻找样本块，范围越大越慢</p>
+          </div>
+        </>
+      )}
+
+      {isDiffusionAlgorithm(algorithm) && (
+        <>
+          <div className="space-y-1">
+            <span className="text-xs font-medium text-gray-700">修复半径</span>
+            <div className="flex items-center space-x-2">
+              <Slider
+                value={[params.inpaintRadius]}
+                min={ALGORITHM_PARAM_LIMITS.inpaintRadius.min}
+                max={ALGORITHM_PARAM_LIMITS.inpaintRadius.max}
+                step={1}
+                onValueChange={([value]) => onChange({ inpaintRadius: value })}
+                className="flex-1"
+              />
+              <span className="text-xs text-gray-500 w-12">{params.inpaintRadius}px</span>
+            </div>
+            <p className="text-xs text-gray-500">每个像素参考周围多远的已知像素；笔画越粗需要越大，过大会变模糊</p>
+          </div>
+
+          <div className="space-y-1">
+            <span className="text-xs font-medium text-gray-700">遮罩扩展</span>
+            <div className="flex items-center space-x-2">
+              <Slider
+                value={[params.strokeDilation]}
+                min={ALGORITHM_PARAM_LIMITS.strokeDilation.min}
+                max={ALGORITHM_PARAM_LIMITS.strokeDilation.max}
+                step={1}
+                onValueChange={([value]) => onChange({ strokeDilation: value })}
+                className="flex-1"
+              />
+              <span className="text-xs text-gray-500 w-12">{params.strokeDilation}px</span>
+            </div>
+            <p className="text-xs text-gray-500">把标记向外扩展，粗略涂抹即可覆盖文字的抗锯齿边缘和阴影</p>
+          </div>
+        </>
+      )}
+
+      <Button variant="outline" size="sm" className="w-full h-7 text-xs" onClick={onReset}>
+        <RotateCcw className="h-3 w-3 mr-1" />
+        恢复默认参数
+      </Button>
+    </div>
+  );
+};
+
+export default AlgorithmParamsPanel;
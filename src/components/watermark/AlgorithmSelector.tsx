@@ -1,10 +1,17 @@
 
 import React from 'react';
 import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
-import { Info, Settings } from 'lucide-react';
-import { ProcessingAlgorithm } from './types';
+import { Cpu, Info, SlidersHorizontal } from 'lucide-react';
+import { AlgorithmParams, ProcessingAlgorithm, SDInpaintingParams, SDParamsPreset } from './types';
+import { MAX_CANDIDATES, supportsCandidates } from './imageProcessor';
+import { PROCESSING_ALGORITHM_LABELS } from './formatting';
 import ApiConfigDialog from './ApiConfigDialog';
+import SDParamsPanel from './SDParamsPanel';
+import NeuralModelPanel from './NeuralModelPanel';
+import AlgorithmParamsPanel from './AlgorithmParamsPanel';
+import { hasAlgorithmParams } from './algorithmParams';
 
 interface AlgorithmSelectorProps {
   processingAlgorithm: ProcessingAlgorithm;
@@ -13,6 +20,17 @@ interface AlgorithmSelectorProps {
   onAlgorithmChange: (value: ProcessingAlgorithm) => void;
   setSdApiKey: (key: string) => void;
   setIsApiConfigOpen: (isOpen: boolean) => void;
+  sdParams: SDInpaintingParams;
+  sdPresets: SDParamsPreset[];
+  onSDParamsChange: (updates: Partial<SDInpaintingParams>) => void;
+  onResetSDParams: () => void;
+  onSaveSDPreset: (name: string) => boolean;
+  onDeleteSDPreset: (name: string) => void;
+  candidateCount: number;
+  onCandidateCountChange: (count: number) => void;
+  algorithmParams: AlgorithmParams;
+  onAlgorithmParamsChange: (updates: Partial<AlgorithmParams>) => void;
+  onResetAlgorithmParams: () => void;
 }
 
 const AlgorithmSelector: React.FC<AlgorithmSelectorProps> = ({
@@ -22,6 +40,17 @@ const AlgorithmSelector: React.FC<AlgorithmSelectorProps> = ({
   onAlgorithmChange,
   setSdApiKey,
   setIsApiConfigOpen,
+  sdParams,
+  sdPresets,
+  onSDParamsChange,
+  onResetSDParams,
+  onSaveSDPreset,
+  onDeleteSDPreset,
+  candidateCount,
+  onCandidateCountChange,
+  algorithmParams,
+  onAlgorithmParamsChange,
+  onResetAlgorithmParams,
 }) => {
   return (
     <div className="space-y-2">
@@ -33,7 +62,14 @@ const AlgorithmSelector: React.FC<AlgorithmSelectorProps> = ({
           className="flex-1 p-2 border rounded-md text-xs lg:text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500" 
         >
           <option value="lama">LaMa算法</option>
+          <option value="exemplar">样本块修复</option>
+          <option value="patchmatch">内容识别填充</option>
+          <option value="telea">快速行进修复</option>
+          <option value="navier-stokes">流体扩散修复</option>
+          <option value="tiled">平铺水印模式</option>
+          <option value="alpha-inversion">半透明水印还原</option>
           <option value="sd-inpainting">AI智能填充</option>
+          <option value="neural">神经网络修复</option>
           <option value="enhanced">增强模式</option>
           <option value="conservative">保守模式</option>
           <option value="aggressive">激进模式</option>
@@ -54,7 +90,14 @@ const AlgorithmSelector: React.FC<AlgorithmSelectorProps> = ({
               </div>
               <div className="space-y-3 max-h-60 overflow-y-auto">
                 <div><h4 className="font-medium text-purple-600 mb-1 text-xs">AI智能填充 (最新)</h4><ul className="text-xs space-y-1 text-gray-700"><li>• 🧠 基于Stable Diffusion技术</li><li>• 🎨 智能理解图像语义内容</li><li>• ✨ 重新生成符合逻辑的细节</li><li>• 🔍 高清纹理修复和填充</li><li>• 🚀 适合复杂背景和精细修复</li></ul></div>
+                <div><h4 className="font-medium text-fuchsia-600 mb-1 text-xs">神经网络修复</h4><ul className="text-xs space-y-1 text-gray-700"><li>• 🧠 在浏览器中运行LaMa修复模型</li><li>• 🔒 图片不离开本机，无需API密钥</li><li>• 📦 首次使用下载约200MB模型并缓存</li><li>• 📁 可指定本地模型路径离线使用</li><li>• 🐢 CPU推理，每个区域需数秒</li></ul></div>
                 <div><h4 className="font-medium text-blue-600 mb-1 text-xs">LaMa算法 (推荐)</h4><ul className="text-xs space-y-1 text-gray-700"><li>• 🎯 专业大遮罩修复技术</li><li>• 🧠 AI智能纹理分析</li><li>• ✨ 多尺度语义修复</li><li>• 🎨 保持图像自然性</li><li>• 🚀 针对标记区域优化</li></ul></div>
+                <div><h4 className="font-medium text-amber-600 mb-1 text-xs">样本块修复</h4><ul className="text-xs space-y-1 text-gray-700"><li>• 🧱 从周围复制整块纹理填充遮罩</li><li>• 📏 沿边缘延伸直线与结构</li><li>• 🎯 适合砖墙、文字行、织物等规则背景</li><li>• 🎛️ 可调样本块大小与搜索范围</li><li>• 🐢 大面积遮罩较慢</li></ul></div>
+                <div><h4 className="font-medium text-teal-600 mb-1 text-xs">内容识别填充</h4><ul className="text-xs space-y-1 text-gray-700"><li>• 🧩 PatchMatch 多尺度迭代填充</li><li>• ⚡ 大面积遮罩也较快</li><li>• 🚫 可用"排除采样"画笔指定不取样的区域</li><li>• 🎛️ 可调样本块大小与搜索范围</li></ul></div>
+                <div><h4 className="font-medium text-cyan-600 mb-1 text-xs">快速行进修复</h4><ul className="text-xs space-y-1 text-gray-700"><li>• ✏️ 针对细文字、日期戳等细笔画水印</li><li>• 🌊 从遮罩边缘按距离逐层向内推进填充</li><li>• ⚡ 速度快，比增强模式更干净</li><li>• 🖌️ 遮罩自动向外扩展，粗略涂抹即可</li><li>• 🎛️ 可调修复半径与遮罩扩展</li></ul></div>
+                <div><h4 className="font-medium text-sky-600 mb-1 text-xs">流体扩散修复</h4><ul className="text-xs space-y-1 text-gray-700"><li>• 💧 Navier-Stokes 式沿等照度线扩散</li><li>• 📏 穿过笔画的边缘线条延续更自然</li><li>• ✏️ 适合细笔画，粗大遮罩会变模糊</li><li>• 🎛️ 可调修复半径与遮罩扩展</li></ul></div>
+                <div><h4 className="font-medium text-indigo-600 mb-1 text-xs">平铺水印模式</h4><ul className="text-xs space-y-1 text-gray-700"><li>• 🔁 针对整图重复的斜向/网格水印</li><li>• 🎯 只需标记其中一个完整实例</li><li>• 📐 自相关分析估计周期与方向</li><li>• ✋ 网格可在图上拖动手柄微调</li><li>• 🧩 为每个实例生成遮罩并统一修复</li></ul></div>
+                <div><h4 className="font-medium text-teal-600 mb-1 text-xs">半透明水印还原</h4><ul className="text-xs space-y-1 text-gray-700"><li>• 🌫️ 针对半透明叠加的Logo/文字</li><li>• 🔬 估计水印颜色与逐像素透明度</li><li>• 🔄 反向求解还原水印下的原始像素</li><li>• 📚 批量处理时综合多张图片统计，估计更准</li><li>• 🩹 近乎不透明的像素自动改用LaMa修复</li></ul></div>
                 <div><h4 className="font-medium text-green-600 mb-1 text-xs">增强模式</h4><ul className="text-xs space-y-1 text-gray-700"><li>• 📊 基于多特征检测算法</li><li>• 🔍 智能水印置信度分析</li><li>• 🎯 加权像素修复技术</li><li>• ⚖️ 平衡质量与效果</li><li>• 💎 适合大部分水印类型</li></ul></div>
                 <div><h4 className="font-medium text-orange-600 mb-1 text-xs">保守模式</h4><ul className="text-xs space-y-1 text-gray-700"><li>• 🛡️ 高阈值检测算法</li><li>• 🎨 温和梯度修复技术</li><li>• 🔒 严格边缘保护机制</li><li>• 📐 精确纹理保持算法</li><li>• 🎯 适合精细图像处理</li></ul></div>
                 <div><h4 className="font-medium text-red-600 mb-1 text-xs">激进模式</h4><ul className="text-xs space-y-1 text-gray-700"><li>• ⚡ 低阈值检测算法</li><li>• 🔥 强力像素替换技术</li><li>• 💪 多轮迭代修复机制</li><li>• 🎯 高强度水印去除</li><li>• ⚠️ 可能影响图像细节</li></ul></div>
@@ -72,6 +115,96 @@ const AlgorithmSelector: React.FC<AlgorithmSelectorProps> = ({
             setSdApiKey={setSdApiKey}
           />
         )}
+
+        {/* AI填充参数 */}
+        {processingAlgorithm === 'sd-inpainting' && (
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="outline" size="sm" className="h-8 w-8 p-0 flex-shrink-0" title="AI填充参数">
+                <SlidersHorizontal className="h-4 w-4" />
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-72 lg:w-80 max-h-[80vh] overflow-y-auto" side="bottom" align="end">
+              <h4 className="font-medium text-sm mb-3">AI填充参数</h4>
+              <SDParamsPanel
+                params={sdParams}
+                presets={sdPresets}
+                onChange={onSDParamsChange}
+                onReset={onResetSDParams}
+                onSavePreset={onSaveSDPreset}
+                onDeletePreset={onDeleteSDPreset}
+              />
+            </PopoverContent>
+          </Popover>
+        )}
+
+        {/* 本地算法参数 */}
+        {hasAlgorithmParams(processingAlgorithm) && (
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="outline" size="sm" className="h-8 w-8 p-0 flex-shrink-0" title="算法参数">
+                <SlidersHorizontal className="h-4 w-4" />
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-72 lg:w-80" side="bottom" align="end">
+              <h4 className="font-medium text-sm mb-3">{PROCESSING_ALGORITHM_LABELS[processingAlgorithm]}参数</h4>
+              <AlgorithmParamsPanel
+                algorithm={processingAlgorithm}
+                params={algorithmParams}
+                onChange={onAlgorithmParamsChange}
+                onReset={onResetAlgorithmParams}
+              />
+            </PopoverContent>
+          </Popover>
+        )}
+
+        {/* 神经网络模型设置 */}
+        {processingAlgorithm === 'neural' && (
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="outline" size="sm" className="h-8 w-8 p-0 flex-shrink-0" title="模型设置">
+                <Cpu className="h-4 w-4" />
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-72 lg:w-80" side="bottom" align="end">
+              <h4 className="font-medium text-sm mb-3">模型设置</h4>
+              <NeuralModelPanel />
+            </PopoverContent>
+          </Popover>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between gap-2">
+        <label htmlFor="candidate-count" className="text-xs text-gray-600">
+          候选结果
+          <span className="text-gray-400 ml-1">
+            {!supportsCandidates(processingAlgorithm) ? '(该算法结果固定)' : processingAlgorithm === 'sd-inpainting' ? '(不同种子)' : '(不同参数)'}
+          </span>
+        </label>
+        <select
+          id="candidate-count"
+          disabled={!supportsCandidates(processingAlgorithm)}
+          value={supportsCandidates(processingAlgorithm) ? candidateCount : 1}
+          onChange={e => onCandidateCountChange(Number(e.target.value))}
+          className="p-1 border rounded-md text-xs focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value={1}>关闭</option>
+          {Array.from({ length: MAX_CANDIDATES - 1 }, (_, index) => (
+            <option key={index} value={index + 2}>{index + 2} 个</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <Checkbox
+          id="seam-blending"
+          checked={algorithmParams.seamBlending}
+          onCheckedChange={checked => onAlgorithmParamsChange({ seamBlending: !!checked })}
+        />
+        <label htmlFor="seam-blending" className="text-xs text-gray-600 cursor-pointer" title="以泊松方程把填充内容的颜色过渡到周围图像，消除遮罩边缘的色差">
+          接缝融合
+          <span className="text-gray-400 ml-1">(消除遮罩边缘色差)</span>
+        </label>
       </div>
     </div>
   );
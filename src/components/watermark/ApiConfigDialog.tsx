@@ -1,11 +1,13 @@
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Settings, Loader2, CheckCircle, XCircle } from 'lucide-react';
 import { toast } from 'sonner';
-import { validateApiKey, sanitizeInput } from '@/utils/apiSecurity';
+import { sanitizeInput, validateBackendUrl } from '@/utils/apiSecurity';
 import { secureApiClient } from '@/utils/secureApiClient';
+import { INPAINTING_BACKENDS, InpaintingBackendId, resolveBaseUrl } from '@/utils/inpaintingBackends';
+import { securityHeaders } from '@/utils/securityHeaders';
 
 interface ApiConfigDialogProps {
   isOpen: boolean;
@@ -22,25 +24,53 @@ const ApiConfigDialog: React.FC<ApiConfigDialogProps> = ({
 }) => {
   const [isValidating, setIsValidating] = useState(false);
   const [validationStatus, setValidationStatus] = useState<'idle' | 'success' | 'error'>('idle');
+  const [backendId, setBackendId] = useState<InpaintingBackendId>(() => secureApiClient.getBackendConfig().backend);
+  const [baseUrl, setBaseUrl] = useState(() => secureApiClient.getBackendConfig().baseUrl);
+  const backend = INPAINTING_BACKENDS[backendId];
+
+  // The dialog shows what the client currently uses each time it opens
+  useEffect(() => {
+    if (isOpen) {
+      const config = secureApiClient.getBackendConfig();
+      setBackendId(config.backend);
+      setBaseUrl(config.baseUrl);
+    }
+  }, [isOpen]);
 
   const validateApiKey = async () => {
     const sanitizedKey = sanitizeInput(sdApiKey);
+    // Checked by parsing instead of sanitizing, which would strip '&' from query strings
+    const url = baseUrl.trim();
     
-    if (!sanitizedKey.trim()) {
+    if (!sanitizedKey.trim() && backend.capabilities.requiresApiKey) {
       toast.error('请先输入API密钥');
       return;
     }
 
+    if (url) {
+      const urlValidation = validateBackendUrl(url);
+      if (!urlValidation.isValid) {
+        toast.error(urlValidation.error, { duration: 2000 });
+        return;
+      }
+    }
+
     setIsValidating(true);
     setValidationStatus('idle');
 
     try {
-      secureApiClient.setApiKey(sanitizedKey);
-      const result = await secureApiClient.validateApiKey();
+      secureApiClient.setBackendConfig({ backend: backendId, baseUrl: url });
+      // The page's CSP lists only the service configured when it loaded
+      if (!securityHeaders.allowsConnection(resolveBaseUrl(secureApiClient.getBackendConfig()))) {
+        toast.info('服务地址已保存，请刷新页面后再验证连接', { duration: 3000 });
+        return;
+      }
+      await secureApiClient.setApiKey(sanitizedKey);
+      const result = await secureApiClient.validateConnection();
       
       if (result.success) {
         setValidationStatus('success');
-        toast.success('API密钥验证成功！', { duration: 2000 });
+        toast.success(backend.buildValidationRequest ? '连接验证成功！' : '配置格式正确（该接口不支持连接测试）', { duration: 2000 });
       } else {
         setValidationStatus('error');
         toast.error(result.error || 'API密钥验证失败', { duration: 2000 });
@@ -63,7 +93,20 @@ const ApiConfigDialog: React.FC<ApiConfigDialogProps> = ({
     
     localStorage.removeItem('sd-api-key');
     onOpenChange(false);
-    toast.success('API 密钥已安全保存', { duration: 1000 });
+    toast.success('AI 服务配置已安全保存', { duration: 1000 });
+  };
+
+  const handleBackendChange = (value: InpaintingBackendId) => {
+    setBackendId(value);
+    setBaseUrl('');
+    setValidationStatus('idle');
+  };
+
+  const handleBaseUrlChange = (value: string) => {
+    setBaseUrl(value.trim());
+    if (validationStatus !== 'idle') {
+      setValidationStatus('idle');
+    }
   };
 
   const handleApiKeyChange = (value: string) => {
@@ -84,12 +127,40 @@ const ApiConfigDialog: React.FC<ApiConfigDialogProps> = ({
       </DialogTrigger>
       <DialogContent className="sm:max-w-[425px] mx-4">
         <DialogHeader>
-          <DialogTitle>配置 AI 智能填充 API</DialogTitle>
-          <DialogDescription>请输入您的 Stable Diffusion API 密钥以使用 AI 智能填充功能</DialogDescription>
+          <DialogTitle>配置 AI 智能填充服务</DialogTitle>
+          <DialogDescription>选择修复服务并填写地址与密钥，以使用 AI 智能填充功能</DialogDescription>
         </DialogHeader>
         <div className="grid gap-4 py-4">
           <div className="space-y-2">
-            <label htmlFor="api-key" className="text-sm font-medium">API 密钥</label>
+            <label htmlFor="inpainting-backend" className="text-sm font-medium">修复服务</label>
+            <select
+              id="inpainting-backend"
+              value={backendId}
+              onChange={e => handleBackendChange(e.target.value as InpaintingBackendId)}
+              className="w-full p-2 border rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              {Object.values(INPAINTING_BACKENDS).map(option => (
+                <option key={option.id} value={option.id}>{option.label}</option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500">{backend.description}</p>
+          </div>
+          <div className="space-y-2">
+            <label htmlFor="inpainting-base-url" className="text-sm font-medium">服务地址</label>
+            <input
+              id="inpainting-base-url"
+              type="url"
+              value={baseUrl}
+              onChange={(e) => handleBaseUrlChange(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder={backend.capabilities.defaultBaseUrl}
+              maxLength={300}
+            />
+          </div>
+          <div className="space-y-2">
+            <label htmlFor="api-key" className="text-sm font-medium">
+              API 密钥{!backend.capabilities.requiresApiKey && <span className="text-gray-500 font-normal">（可选）</span>}
+            </label>
             <div className="space-y-2">
               <input 
                 id="api-key" 
@@ -97,14 +168,14 @@ const ApiConfigDialog: React.FC<ApiConfigDialogProps> = ({
                 value={sdApiKey} 
                 onChange={(e) => handleApiKeyChange(e.target.value)} 
                 className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500" 
-                placeholder="输入您的 API 密钥" 
-                maxLength={100}
+                placeholder={backend.capabilities.requiresApiKey ? '输入您的 API 密钥' : '服务需要鉴权时填写'} 
+                maxLength={200}
               />
               <Button 
                 variant="outline" 
                 size="sm" 
                 onClick={validateApiKey}
-                disabled={isValidating || !sdApiKey.trim()}
+                disabled={isValidating || (backend.capabilities.requiresApiKey && !sdApiKey.trim())}
                 className="w-full"
               >
                 {isValidating ? (
@@ -123,14 +194,18 @@ const ApiConfigDialog: React.FC<ApiConfigDialogProps> = ({
                     验证失败，重新验证
                   </>
                 ) : (
-                  '验证 API 密钥'
+                  '验证配置'
                 )}
               </Button>
             </div>
           </div>
           <div className="text-xs text-gray-500 mt-2 space-y-1">
             <p>• API 密钥将安全加密保存在会话存储中</p>
-            <p>• 如需获取 API 密钥，请访问 Stability AI 官网</p>
+            {backendId === 'stability' ? (
+              <p>• 如需获取 API 密钥，请访问 Stability AI 官网</p>
+            ) : (
+              <p>• 本机服务可使用 HTTP，其他地址必须使用 HTTPS；服务需允许本页面的跨域请求 (CORS)</p>
+            )}
             <p>• 验证成功后即可使用 AI 智能填充功能</p>
             <p>• 🔒 采用安全传输和存储措施保护您的密钥</p>
           </div>
@@ -0,0 +1,94 @@
+import React from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { CheckCircle, XCircle, MinusCircle, RotateCcw } from 'lucide-react';
+import { BatchEntryStatus, BatchReport } from './types';
+import { PROCESSING_ALGORITHM_LABELS, formatDuration, formatFileSize } from './formatting';
+
+interface BatchReportDialogProps {
+  isOpen: boolean;
+  onOpenChange: (isOpen: boolean) => void;
+  report: BatchReport | null;
+  isBatchProcessing: boolean;
+  onRetryFailed: () => void;
+}
+
+const STATUS_LABELS: Record<BatchEntryStatus, string> = {
+  success: '成功',
+  failed: '失败',
+  cancelled: '已取消'
+};
+
+const StatusIcon: React.FC<{ status: BatchEntryStatus }> = ({ status }) => {
+  if (status === 'success') return <CheckCircle className="h-4 w-4 text-green-600 flex-shrink-0" />;
+  if (status === 'failed') return <XCircle className="h-4 w-4 text-red-600 flex-shrink-0" />;
+  return <MinusCircle className="h-4 w-4 text-gray-400 flex-shrink-0" />;
+};
+
+const BatchReportDialog: React.FC<BatchReportDialogProps> = ({
+  isOpen,
+  onOpenChange,
+  report,
+  isBatchProcessing,
+  onRetryFailed,
+}) => {
+  const entries = report?.entries || [];
+  const countOf = (status: BatchEntryStatus) => entries.filter(entry => entry.status === status).length;
+  const failedCount = countOf('failed');
+  const cancelledCount = countOf('cancelled');
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>批量处理报告</DialogTitle>
+          <DialogDescription>
+            {report
+              ? `成功 ${countOf('success')} 张，失败 ${failedCount} 张${cancelledCount > 0 ? `，已取消 ${cancelledCount} 张` : ''} · 总耗时 ${formatDuration(report.finishedAt - report.startedAt)}`
+              : '暂无批量处理记录'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {entries.length > 0 && (
+          <div className="space-y-4">
+            <ScrollArea className="max-h-80">
+              <div className="space-y-2">
+                {entries.map(entry => (
+                  <div key={entry.imageId} className="flex items-start space-x-3 p-2 rounded border">
+                    <StatusIcon status={entry.status} />
+                    <div className="flex-1 min-w-0">
+                      <span className="text-sm truncate block" title={entry.fileName}>
+                        {entry.fileName}
+                      </span>
+                      <span className="text-xs text-gray-500">
+                        {STATUS_LABELS[entry.status]} • {PROCESSING_ALGORITHM_LABELS[entry.algorithm]}
+                        {entry.status !== 'cancelled' || entry.durationMs > 0 ? ` • ${formatDuration(entry.durationMs)}` : ''}
+                        {entry.outputSize !== undefined && ` • ${formatFileSize(entry.outputSize)}`}
+                      </span>
+                      {entry.error && (
+                        <span className="text-xs text-red-600 block">{entry.error}</span>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+
+            <div className="flex justify-end space-x-2 pt-3 border-t">
+              <Button variant="outline" onClick={() => onOpenChange(false)}>
+                关闭
+              </Button>
+              <Button onClick={onRetryFailed} disabled={failedCount === 0 || isBatchProcessing}>
+                <RotateCcw className="h-4 w-4 mr-2" />
+                重试失败图片 ({failedCount})
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BatchReportDialog;
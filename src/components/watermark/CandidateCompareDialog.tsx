@@ -0,0 +1,109 @@
+import React, { useRef, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { Check } from 'lucide-react';
+import { CandidateSet } from './types';
+import { PROCESSING_ALGORITHM_LABELS, formatFileSize } from './formatting';
+
+interface CandidateCompareDialogProps {
+  isOpen: boolean;
+  onOpenChange: (isOpen: boolean) => void;
+  candidateSet: CandidateSet;
+  // The image the candidates were generated from, shown first for reference
+  sourceUrl: string;
+  disabled: boolean;
+  onChoose: (candidateId: string) => void;
+}
+
+const CandidateCompareDialog: React.FC<CandidateCompareDialogProps> = ({
+  isOpen,
+  onOpenChange,
+  candidateSet,
+  sourceUrl,
+  disabled,
+  onChoose,
+}) => {
+  const [zoom, setZoom] = useState(1);
+  const paneRefs = useRef<Array<HTMLDivElement | null>>([]);
+  // Set while the other panes follow a scroll, so their own scroll events are ignored
+  const isSyncingRef = useRef(false);
+
+  const syncScroll = (source: HTMLDivElement) => {
+    if (isSyncingRef.current) return;
+    isSyncingRef.current = true;
+    paneRefs.current.forEach(pane => {
+      if (pane && pane !== source) {
+        pane.scrollLeft = source.scrollLeft;
+        pane.scrollTop = source.scrollTop;
+      }
+    });
+    requestAnimationFrame(() => {
+      isSyncingRef.current = false;
+    });
+  };
+
+  const panes = [
+    { id: null, url: sourceUrl, label: '处理前', size: null },
+    ...candidateSet.candidates.map(candidate => ({ id: candidate.id, url: candidate.url, label: candidate.label, size: candidate.blob.size }))
+  ];
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-[95vw] w-full">
+        <DialogHeader>
+          <DialogTitle>候选结果对比</DialogTitle>
+          <DialogDescription>
+            {PROCESSING_ALGORITHM_LABELS[candidateSet.algorithm]} · {candidateSet.candidates.length} 个候选，缩放和滚动在各图之间同步
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center space-x-2">
+          <span className="text-xs text-gray-600 whitespace-nowrap">缩放</span>
+          <Slider
+            value={[Math.round(zoom * 100)]}
+            min={25}
+            max={400}
+            step={5}
+            onValueChange={([value]) => setZoom(value / 100)}
+            className="w-48"
+          />
+          <span className="text-xs text-gray-500 w-10">{Math.round(zoom * 100)}%</span>
+        </div>
+
+        <div className="grid gap-2" style={{ gridTemplateColumns: `repeat(${panes.length}, minmax(0, 1fr))` }}>
+          {panes.map((pane, index) => (
+            <div key={pane.url} className="flex flex-col min-w-0">
+              <div className="flex items-center justify-between mb-1 px-1 min-h-7">
+                <span className="text-xs font-medium text-gray-600 truncate" title={pane.label}>
+                  {pane.label}{pane.size !== null ? ` · ${formatFileSize(pane.size)}` : ''}
+                </span>
+                {pane.id && (
+                  <Button size="sm" className="h-6 px-2 text-xs flex-shrink-0" disabled={disabled} onClick={() => onChoose(pane.id)}>
+                    <Check className="h-3 w-3 mr-1" />
+                    采用
+                  </Button>
+                )}
+              </div>
+              <div
+                ref={element => { paneRefs.current[index] = element; }}
+                className="h-[60vh] overflow-auto bg-white rounded border"
+                onScroll={e => syncScroll(e.currentTarget)}
+              >
+                <img
+                  src={pane.url}
+                  alt={pane.label}
+                  className="block max-w-none"
+                  style={{ width: `${zoom * 100}%` }}
+                  draggable={false}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CandidateCompareDialog;
@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Check, Columns, X } from 'lucide-react';
+import { CandidateSet } from './types';
+import { PROCESSING_ALGORITHM_LABELS } from './formatting';
+import CandidateCompareDialog from './CandidateCompareDialog';
+
+interface CandidateStripProps {
+  candidateSet: CandidateSet;
+  sourceUrl: string;
+  previewCandidateId: string | null;
+  disabled: boolean;
+  onPreview: (candidateId: string | null) => void;
+  onChoose: (candidateId: string) => void;
+  onDiscard: () => void;
+}
+
+const CandidateStrip: React.FC<CandidateStripProps> = ({
+  candidateSet,
+  sourceUrl,
+  previewCandidateId,
+  disabled,
+  onPreview,
+  onChoose,
+  onDiscard,
+}) => {
+  const [isCompareOpen, setIsCompareOpen] = useState(false);
+
+  const handleChoose = (candidateId: string) => {
+    setIsCompareOpen(false);
+    onChoose(candidateId);
+  };
+
+  return (
+    <div className="flex-shrink-0 border-t bg-white px-2 sm:px-4 py-2">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-xs sm:text-sm font-medium text-gray-700">
+          候选结果 · {PROCESSING_ALGORITHM_LABELS[candidateSet.algorithm]}
+          <span className="text-xs text-gray-500 font-normal ml-2 hidden sm:inline">点击预览，选择一个作为处理结果</span>
+        </span>
+        <div className="flex gap-1">
+          <Button variant="outline" size="sm" className="h-7 px-2 text-xs" onClick={() => setIsCompareOpen(true)}>
+            <Columns className="h-3 w-3 mr-1" />
+            并排对比
+          </Button>
+          <Button variant="outline" size="sm" className="h-7 px-2 text-xs" onClick={onDiscard} disabled={disabled}>
+            <X className="h-3 w-3 mr-1" />
+            全部放弃
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        {candidateSet.candidates.map(candidate => {
+          const isPreviewed = candidate.id === previewCandidateId;
+          return (
+            <div
+              key={candidate.id}
+              className={`flex-shrink-0 w-32 rounded border p-1 ${isPreviewed ? 'border-blue-400 bg-blue-50' : 'border-gray-200'}`}
+            >
+              <button
+                type="button"
+                onClick={() => onPreview(isPreviewed ? null : candidate.id)}
+                className="block w-full"
+                title={isPreviewed ? '取消预览' : '在右侧预览'}
+              >
+                <img src={candidate.url} alt={candidate.label} className="h-16 w-full object-cover rounded" />
+              </button>
+              <div className="flex items-center justify-between mt-1">
+                <span className="text-xs text-gray-600 truncate" title={candidate.label}>{candidate.label}</span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 px-1.5 text-xs"
+                  disabled={disabled}
+                  onClick={() => onChoose(candidate.id)}
+                  title="采用此候选"
+                >
+                  <Check className="h-3 w-3" />
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <CandidateCompareDialog
+        isOpen={isCompareOpen}
+        onOpenChange={setIsCompareOpen}
+        candidateSet={candidateSet}
+        sourceUrl={sourceUrl}
+        disabled={disabled}
+        onChoose={handleChoose}
+      />
+    </div>
+  );
+};
+
+export default CandidateStrip;
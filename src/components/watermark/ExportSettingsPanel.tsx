@@ -0,0 +1,77 @@
+import React from 'react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Slider } from '@/components/ui/slider';
+import { ExportFormat, ExportSettings } from './types';
+import { EXPORT_FORMAT_LABELS, EXPORT_FORMAT_TYPES, canEncodeType } from '@/utils/imageExport';
+
+interface ExportSettingsPanelProps {
+  settings: ExportSettings;
+  onChange: (updates: Partial<ExportSettings>) => void;
+  disabled?: boolean;
+}
+
+const FORMATS: ExportFormat[] = ['match-input', 'png', 'jpeg', 'webp', 'avif'];
+
+const ExportSettingsPanel: React.FC<ExportSettingsPanelProps> = ({ settings, onChange, disabled }) => {
+  const isSupported = (format: ExportFormat) => format === 'match-input' || canEncodeType(EXPORT_FORMAT_TYPES[format]);
+  const qualityPercent = Math.round(settings.quality * 100);
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1">
+        <label htmlFor="export-format" className="text-sm font-medium text-gray-700">导出格式</label>
+        <select
+          id="export-format"
+          value={settings.format}
+          onChange={e => onChange({ format: e.target.value as ExportFormat })}
+          disabled={disabled}
+          className="w-full p-2 border rounded-md text-xs lg:text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        >
+          {FORMATS.map(format => (
+            <option key={format} value={format} disabled={!isSupported(format)}>
+              {EXPORT_FORMAT_LABELS[format]}{isSupported(format) ? '' : ' (当前浏览器不支持)'}
+            </option>
+          ))}
+        </select>
+        {settings.format === 'match-input' && (
+          <p className="text-xs text-gray-500">GIF、BMP 及浏览器无法编码的格式将保存为 PNG</p>
+        )}
+      </div>
+
+      {settings.format !== 'png' && (
+        <div className="space-y-1">
+          <span className="text-sm font-medium text-gray-700">有损格式质量</span>
+          <div className="flex items-center space-x-2">
+            <Slider
+              value={[qualityPercent]}
+              min={10}
+              max={100}
+              step={1}
+              onValueChange={([value]) => onChange({ quality: value / 100 })}
+              className="flex-1"
+              disabled={disabled}
+            />
+            <span className="text-xs text-gray-500 w-8">{qualityPercent}%</span>
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-1">
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="export-preserve-metadata"
+            checked={settings.preserveMetadata}
+            onCheckedChange={checked => onChange({ preserveMetadata: !!checked })}
+            disabled={disabled}
+          />
+          <label htmlFor="export-preserve-metadata" className="text-sm cursor-pointer">保留原图 EXIF 与色彩配置</label>
+        </div>
+        {settings.preserveMetadata && (
+          <p className="text-xs text-gray-500">方向信息会被重置（像素已按正确方向保存），AVIF 不支持写入元数据</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ExportSettingsPanel;
@@ -0,0 +1,130 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { History, Undo2, Redo2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { AppliedSDParams, ImageHistory } from './types';
+import { formatFileSize } from './formatting';
+import { memoryManager } from '@/utils/memoryManager';
+
+interface HistoryPanelProps {
+  history: ImageHistory;
+  currentProcessedUrl: string | null;
+  disabled: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJumpToPass: (url: string) => void;
+  // Fields missing from the pass keep their current values
+  onApplySDParams: (params: AppliedSDParams) => void;
+}
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString('zh-CN', { hour12: false });
+
+const formatSDParams = ({ prompt, negativePrompt, steps, cfgScale, strength, seed }: AppliedSDParams) =>
+  [`提示词: ${prompt}`, `反向提示词: ${negativePrompt || '无'}`, `步数 ${steps} · CFG ${cfgScale}${strength === undefined ? '' : ` · 强度 ${strength}`} · 种子 ${seed}`].join('\n');
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  history,
+  currentProcessedUrl,
+  disabled,
+  onUndo,
+  onRedo,
+  onJumpToPass,
+  onApplySDParams,
+}) => {
+  const { undo, redo, passes } = history;
+  const usage = memoryManager.getHistoryMemoryUsage();
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="text-xs whitespace-nowrap">
+          <History className="h-3 w-3 mr-1" />
+          <span className="hidden sm:inline">历史记录</span>
+          <span className="sm:hidden">历史</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 lg:w-80" side="bottom" align="end">
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h4 className="font-medium text-sm">历史记录</h4>
+            <div className="flex gap-1">
+              <Button variant="outline" size="sm" className="h-7 px-2 text-xs" onClick={onUndo} disabled={disabled || undo.length === 0} title="撤销 (Ctrl+Z)">
+                <Undo2 className="h-3 w-3 mr-1" />
+                撤销
+              </Button>
+              <Button variant="outline" size="sm" className="h-7 px-2 text-xs" onClick={onRedo} disabled={disabled || redo.length === 0} title="重做 (Ctrl+Shift+Z)">
+                <Redo2 className="h-3 w-3 mr-1" />
+                重做
+              </Button>
+            </div>
+          </div>
+
+          {undo.length > 0 && (
+            <p className="text-xs text-gray-600">
+              上一步: {undo[undo.length - 1].label}（共 {undo.length} 步可撤销）
+            </p>
+          )}
+
+          <div>
+            <h5 className="text-xs font-medium text-gray-700 mb-2">处理结果</h5>
+            {passes.length === 0 ? (
+              <p className="text-xs text-gray-500">暂无处理结果</p>
+            ) : (
+              <div className="space-y-2 max-h-60 overflow-y-auto">
+                {[...passes].reverse().map(pass => {
+                  const isCurrent = pass.url === currentProcessedUrl;
+                  const { sdParams } = pass;
+                  return (
+                    <div key={pass.url} className="space-y-1">
+                      <button
+                        type="button"
+                        disabled={disabled || isCurrent}
+                        onClick={() => onJumpToPass(pass.url)}
+                        title={sdParams ? formatSDParams(sdParams) : undefined}
+                        className={`w-full flex items-center gap-2 p-1.5 rounded border text-left transition-colors ${
+                          isCurrent ? 'border-blue-300 bg-blue-50' : 'hover:bg-gray-50'
+                        } disabled:cursor-default`}
+                      >
+                        <img src={pass.url} alt={pass.label} className="h-10 w-10 object-cover rounded flex-shrink-0" />
+                        <div className="min-w-0">
+                          <span className="text-xs block truncate">第 {pass.processCount} 次 · {pass.label}</span>
+                          <span className="text-xs text-gray-500">
+                            {formatTime(pass.createdAt)} · {formatFileSize(pass.size)}{isCurrent ? ' · 当前' : ''}
+                          </span>
+                        </div>
+                      </button>
+                      {sdParams && (
+                        <div className="flex items-center justify-between pl-1.5">
+                          <span className="text-xs text-gray-500 truncate">种子 {sdParams.seed === -1 ? '未知' : sdParams.seed} · {sdParams.steps} 步</span>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-6 px-2 text-xs"
+                            disabled={disabled}
+                            onClick={() => {
+                              onApplySDParams({ ...sdParams, samples: 1 });
+                              toast.success("已载入该结果的AI填充参数", { duration: 800 });
+                            }}
+                          >
+                            复用参数
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
+          <p className="text-xs text-gray-500 border-t pt-2">
+            历史占用 {formatFileSize(usage.used)} / {formatFileSize(usage.limit)}，超出后最早的结果会被释放
+          </p>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default HistoryPanel;
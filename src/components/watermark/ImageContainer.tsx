@@ -1,7 +1,7 @@
 
 import React from 'react';
 import { Progress } from '@/components/ui/progress';
-import { ImageItem, DragState } from './types';
+import { ImageItem, DragState, MarkingTool, DraftShape, ProcessingCandidate, TileLattice } from './types';
 import ZoomControls from './ZoomControls';
 import WatermarkOverlay from './WatermarkOverlay';
 
@@ -18,11 +18,18 @@ interface ImageContainerProps {
   scrollRef: React.RefObject<HTMLDivElement>;
   allowInteraction?: boolean;
   isMarkingMode: boolean;
-  selectedMark: boolean;
+  selectedMarkId: string | null;
+  markingTool: MarkingTool;
+  draftShape: DraftShape | null;
   dragState: DragState;
+  onAcceptSuggestion?: (markId: string) => void;
+  onRejectSuggestion?: (markId: string) => void;
+  onTileLatticeChange?: (lattice: TileLattice) => void;
   onMouseDown?: (e: React.MouseEvent<HTMLImageElement>, id: string) => void;
   onMouseMove?: (e: React.MouseEvent<HTMLImageElement>, id: string) => void;
   onMouseUp?: (e: React.MouseEvent<HTMLImageElement>, id: string) => void;
+  // Shown in the processed pane instead of the current result
+  candidatePreview?: ProcessingCandidate | null;
 }
 
 const ImageContainer: React.FC<ImageContainerProps> = ({
@@ -38,15 +45,22 @@ const ImageContainer: React.FC<ImageContainerProps> = ({
   scrollRef,
   allowInteraction = false,
   isMarkingMode,
-  selectedMark,
+  selectedMarkId,
+  markingTool,
+  draftShape,
   dragState,
+  onAcceptSuggestion,
+  onRejectSuggestion,
+  onTileLatticeChange,
   onMouseDown,
   onMouseMove,
-  onMouseUp
+  onMouseUp,
+  candidatePreview
 }) => {
-  const url = type === 'original' ? selectedImage.url : selectedImage.processedUrl;
-  const title = type === 'original' ? '原图' : '处理后';
-  const hasProcessedUrl = Boolean(selectedImage.processedUrl);
+  const preview = type === 'processed' ? candidatePreview : null;
+  const url = type === 'original' ? selectedImage.url : preview?.url || selectedImage.processedUrl;
+  const title = type === 'original' ? '原图' : preview ? `候选: ${preview.label}` : '处理后';
+  const hasProcessedUrl = Boolean(preview || selectedImage.processedUrl);
 
   return (
     <div className="flex flex-col h-full">
@@ -93,9 +107,18 @@ const ImageContainer: React.FC<ImageContainerProps> = ({
               />
               {allowInteraction && (
                 <WatermarkOverlay
-                  mark={selectedImage.watermarkMark}
+                  marks={selectedImage.watermarkMarks}
+                  paintMask={selectedImage.paintMask}
+                  sourceExclusion={selectedImage.sourceExclusion}
+                  suggestedMarks={selectedImage.suggestedMarks}
+                  onAcceptSuggestion={onAcceptSuggestion}
+                  onRejectSuggestion={onRejectSuggestion}
+                  tileLattice={selectedImage.tileLattice}
+                  onTileLatticeChange={onTileLatticeChange}
                   isMarkingMode={isMarkingMode}
-                  selectedMark={selectedMark}
+                  selectedMarkId={selectedMarkId}
+                  markingTool={markingTool}
+                  draftShape={draftShape?.imageId === selectedImage.id ? draftShape : null}
                   zoom={zoom}
                   dragState={dragState}
                 />
@@ -1,6 +1,6 @@
 
 import React, { useRef, useState } from 'react';
-import { ImageItem, DragState } from './types';
+import { ImageItem, DragState, MarkingTool, DraftShape, ProcessingCandidate, TileLattice } from './types';
 import ImageContainer from './ImageContainer';
 import MobileViewToggle from './MobileViewToggle';
 import ProcessingPlaceholder from './ProcessingPlaceholder';
@@ -16,8 +16,14 @@ interface ImageGridProps {
   handleMouseDown: (e: React.MouseEvent<HTMLImageElement>, id: string) => void;
   handleMouseMove: (e: React.MouseEvent<HTMLImageElement>, id: string) => void;
   handleMouseUp: (e: React.MouseEvent<HTMLImageElement>, id: string) => void;
-  selectedMark: boolean;
+  selectedMarkId: string | null;
+  markingTool: MarkingTool;
+  draftShape: DraftShape | null;
   dragState: DragState;
+  acceptSuggestedMark: (markId?: string) => void;
+  rejectSuggestedMark: (markId?: string) => void;
+  updateTileLattice: (lattice: TileLattice) => void;
+  candidatePreview: ProcessingCandidate | null;
 }
 
 const ImageGrid: React.FC<ImageGridProps> = ({
@@ -31,8 +37,14 @@ const ImageGrid: React.FC<ImageGridProps> = ({
   handleMouseDown,
   handleMouseMove,
   handleMouseUp,
-  selectedMark,
+  selectedMarkId,
+  markingTool,
+  draftShape,
   dragState,
+  acceptSuggestedMark,
+  rejectSuggestedMark,
+  updateTileLattice,
+  candidatePreview,
 }) => {
   const originalScrollRef = useRef<HTMLDivElement>(null);
   const processedScrollRef = useRef<HTMLDivElement>(null);
@@ -59,11 +71,16 @@ const ImageGrid: React.FC<ImageGridProps> = ({
           scrollRef={originalScrollRef}
           allowInteraction={true}
           isMarkingMode={isMarkingMode}
-          selectedMark={selectedMark}
+          selectedMarkId={selectedMarkId}
+          markingTool={markingTool}
+          draftShape={draftShape}
           dragState={dragState}
           onMouseDown={handleMouseDown}
           onMouseMove={handleMouseMove}
           onMouseUp={handleMouseUp}
+          onAcceptSuggestion={acceptSuggestedMark}
+          onRejectSuggestion={rejectSuggestedMark}
+          onTileLatticeChange={updateTileLattice}
         />
         <ImageContainer
           type="processed"
@@ -78,8 +95,11 @@ const ImageGrid: React.FC<ImageGridProps> = ({
           scrollRef={processedScrollRef}
           allowInteraction={false}
           isMarkingMode={isMarkingMode}
-          selectedMark={selectedMark}
+          selectedMarkId={selectedMarkId}
+          markingTool={markingTool}
+          draftShape={draftShape}
           dragState={dragState}
+          candidatePreview={candidatePreview}
         />
       </div>
 
@@ -88,7 +108,7 @@ const ImageGrid: React.FC<ImageGridProps> = ({
         <MobileViewToggle
           viewMode={mobileViewMode}
           onViewModeChange={setMobileViewMode}
-          hasProcessedImage={Boolean(selectedImage.processedUrl)}
+          hasProcessedImage={Boolean(candidatePreview || selectedImage.processedUrl)}
           isProcessing={isProcessing}
         />
 
@@ -108,13 +128,18 @@ const ImageGrid: React.FC<ImageGridProps> = ({
               scrollRef={originalScrollRef}
               allowInteraction={true}
               isMarkingMode={isMarkingMode}
-              selectedMark={selectedMark}
+              selectedMarkId={selectedMarkId}
+              markingTool={markingTool}
+              draftShape={draftShape}
               dragState={dragState}
               onMouseDown={handleMouseDown}
               onMouseMove={handleMouseMove}
               onMouseUp={handleMouseUp}
+              onAcceptSuggestion={acceptSuggestedMark}
+              onRejectSuggestion={rejectSuggestedMark}
+              onTileLatticeChange={updateTileLattice}
             />
-          ) : selectedImage.processedUrl ? (
+          ) : candidatePreview || selectedImage.processedUrl ? (
             <ImageContainer
               type="processed"
               selectedImage={selectedImage}
@@ -128,8 +153,11 @@ const ImageGrid: React.FC<ImageGridProps> = ({
               scrollRef={processedScrollRef}
               allowInteraction={false}
               isMarkingMode={isMarkingMode}
-              selectedMark={selectedMark}
+              selectedMarkId={selectedMarkId}
+              markingTool={markingTool}
+              draftShape={draftShape}
               dragState={dragState}
+              candidatePreview={candidatePreview}
             />
           ) : (
             <ProcessingPlaceholder
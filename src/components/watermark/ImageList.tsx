@@ -5,6 +5,7 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { Trash2 } from 'lucide-react';
 import { ImageItem } from './types';
 import ProcessButton from './ProcessButton';
+import { hasWatermarkMask } from './maskUtils';
 
 interface ImageListProps {
   images: ImageItem[];
@@ -12,9 +13,11 @@ interface ImageListProps {
   isBatchProcessing: boolean;
   batchProgress: { [key: string]: number };
   isProcessing: boolean;
+  processingImageId: string | null;
   onImageSelect: (id: string) => void;
   onRemoveImage: (id: string) => void;
   handleRemoveWatermark: (imageItem: ImageItem) => void;
+  onCancelProcessing: () => void;
   onCloseSidebar?: () => void;
 }
 
@@ -24,9 +27,11 @@ const ImageList: React.FC<ImageListProps> = ({
   isBatchProcessing,
   batchProgress,
   isProcessing,
+  processingImageId,
   onImageSelect,
   onRemoveImage,
   handleRemoveWatermark,
+  onCancelProcessing,
   onCloseSidebar,
 }) => {
   const handleImageSelect = (id: string) => {
@@ -54,7 +59,12 @@ const ImageList: React.FC<ImageListProps> = ({
               </span>
               <span className="text-xs text-gray-500">
                 {image.processedUrl ? `已处理${image.processCount}次` : '未处理'}
-                {image.watermarkMark ? (image.isMarkingCompleted ? ' • 已完成标记' : ' • 已标记未确认') : ' • 未标记'}
+                {hasWatermarkMask(image) ? (image.isMarkingCompleted ? (image.watermarkMarks.length > 0 ? ` • 已完成标记 (${image.watermarkMarks.length}处)` : ' • 已完成标记') : ' • 已标记未确认') : ' • 未标记'}
+                {image.templateMatch && (
+                  image.templateMatch.needsReview
+                    ? <span className="text-amber-600"> • 需人工复核 ({Math.round(image.templateMatch.score * 100)}%)</span>
+                    : ` • 匹配度 ${Math.round(image.templateMatch.score * 100)}%`
+                )}
                 {isBatchProcessing && batchProgress[image.id] !== undefined && (
                   <>
                     {batchProgress[image.id] === -1 ? ' • 处理失败' : batchProgress[image.id] === 100 ? ' • 处理完成' : ` • 处理中 ${batchProgress[image.id]}%`}
@@ -69,7 +79,8 @@ const ImageList: React.FC<ImageListProps> = ({
                 onClick={handleRemoveWatermark} 
                 isProcessing={isProcessing} 
                 isBatchProcessing={isBatchProcessing} 
-                selectedImageId={selectedImageId} 
+                selectedImageId={processingImageId} 
+                onCancel={onCancelProcessing}
               />
               <Button 
                 variant="outline" 
@@ -1,11 +1,14 @@
 
 import React from 'react';
-import { ImageItem } from './types';
+import { AlgorithmParams, BatchReport, CandidateSet, ExportSettings, ImageHistory, ImageItem, MarkingTool, DraftShape, ProcessingAlgorithm, SDInpaintingParams, SDParamsPreset, TileLattice } from './types';
 import Sidebar from './Sidebar';
 import Toolbar from './Toolbar';
 import ImageGrid from './ImageGrid';
 import EmptyState from './EmptyState';
 import BatchDownloadDialog from '../BatchDownloadDialog';
+import BatchReportDialog from './BatchReportDialog';
+import CandidateStrip from './CandidateStrip';
+import { StorageEstimate } from '@/utils/projectStore';
 
 interface MainLayoutProps {
   isSidebarOpen: boolean;
@@ -27,15 +30,61 @@ interface MainLayoutProps {
   onRemoveImage: (id: string) => void;
   setSdApiKey: (key: string) => void;
   setIsApiConfigOpen: (isOpen: boolean) => void;
+  sdParams: SDInpaintingParams;
+  sdPresets: SDParamsPreset[];
+  onSDParamsChange: (updates: Partial<SDInpaintingParams>) => void;
+  onResetSDParams: () => void;
+  onSaveSDPreset: (name: string) => boolean;
+  onDeleteSDPreset: (name: string) => void;
+  candidateCount: number;
+  onCandidateCountChange: (count: number) => void;
+  algorithmParams: AlgorithmParams;
+  onAlgorithmParamsChange: (updates: Partial<AlgorithmParams>) => void;
+  onResetAlgorithmParams: () => void;
+  candidateSet: CandidateSet | null;
+  previewCandidateId: string | null;
+  onPreviewCandidate: (candidateId: string | null) => void;
+  onChooseCandidate: (candidateId: string) => void;
+  onDiscardCandidates: () => void;
   handleRemoveWatermark: (item: ImageItem) => void;
+  cancelProcessing: () => void;
+  isPersistenceAvailable: boolean;
+  isRestoring: boolean;
+  storageEstimate: StorageEstimate | null;
+  onClearSession: () => void;
+  isExportingProject: boolean;
+  isImportingProject: boolean;
+  onExportProject: () => void;
+  onImportProject: (event: React.ChangeEvent<HTMLInputElement>) => void;
   // Toolbar props
   selectedImage: ImageItem | undefined;
   isMarkingMode: boolean;
   handleMarkingToggle: () => void;
   clearWatermarkMark: (id: string) => void;
+  removeSelectedMark: () => void;
+  setMarkingTool: (tool: MarkingTool) => void;
+  brushRadius: number;
+  setBrushRadius: (radius: number) => void;
+  clearPaintMask: (id: string) => void;
+  clearSourceExclusion: (id: string) => void;
+  isDetecting: boolean;
+  handleAutoDetect: () => void;
+  acceptSuggestedMark: (markId?: string) => void;
+  rejectSuggestedMark: (markId?: string) => void;
+  isEstimatingLattice: boolean;
+  handleEstimateLattice: () => void;
+  updateTileLattice: (lattice: TileLattice) => void;
   handleBatchApplyWatermark: () => void;
+  matchProgress: number | null;
+  handleBatchMatchWatermark: () => void;
   restoreToOriginal: (id: string) => void;
+  imageHistory: ImageHistory;
+  undoHistory: () => void;
+  redoHistory: () => void;
+  jumpToPass: (url: string) => void;
   handleDownload: (item: ImageItem) => void;
+  exportSettings: ExportSettings;
+  onExportSettingsChange: (updates: Partial<ExportSettings>) => void;
   handleBatchDownload: () => void;
   processingSelectedImageId: string | null;
   // ImageGrid props
@@ -46,11 +95,20 @@ interface MainLayoutProps {
   handleMouseDown: (event: React.MouseEvent<HTMLImageElement>, imageId: string) => void;
   handleMouseMove: (event: React.MouseEvent<HTMLImageElement>, imageId: string) => void;
   handleMouseUp: (event: React.MouseEvent<HTMLImageElement>, imageId: string) => void;
-  selectedMark: boolean;
+  selectedMarkId: string | null;
+  markingTool: MarkingTool;
+  draftShape: DraftShape | null;
   dragState: any;
   // Batch download
   isBatchDownloadOpen: boolean;
   setIsBatchDownloadOpen: (isOpen: boolean) => void;
+  getResultAlgorithm: (imageId: string, processedUrl: string | null) => ProcessingAlgorithm | null;
+  getResultBlob: (imageId: string, processedUrl: string | null) => Blob | null;
+  // Batch report
+  batchReport: BatchReport | null;
+  isBatchReportOpen: boolean;
+  setIsBatchReportOpen: (isOpen: boolean) => void;
+  onRetryFailed: () => void;
 }
 
 const MainLayout: React.FC<MainLayoutProps> = ({
@@ -73,13 +131,59 @@ const MainLayout: React.FC<MainLayoutProps> = ({
   onRemoveImage,
   setSdApiKey,
   setIsApiConfigOpen,
+  sdParams,
+  sdPresets,
+  onSDParamsChange,
+  onResetSDParams,
+  onSaveSDPreset,
+  onDeleteSDPreset,
+  candidateCount,
+  onCandidateCountChange,
+  algorithmParams,
+  onAlgorithmParamsChange,
+  onResetAlgorithmParams,
+  candidateSet,
+  previewCandidateId,
+  onPreviewCandidate,
+  onChooseCandidate,
+  onDiscardCandidates,
   handleRemoveWatermark,
+  cancelProcessing,
+  isPersistenceAvailable,
+  isRestoring,
+  storageEstimate,
+  onClearSession,
+  isExportingProject,
+  isImportingProject,
+  onExportProject,
+  onImportProject,
   isMarkingMode,
   handleMarkingToggle,
   clearWatermarkMark,
+  removeSelectedMark,
+  setMarkingTool,
+  brushRadius,
+  setBrushRadius,
+  clearPaintMask,
+  clearSourceExclusion,
+  isDetecting,
+  handleAutoDetect,
+  acceptSuggestedMark,
+  rejectSuggestedMark,
+  isEstimatingLattice,
+  handleEstimateLattice,
+  updateTileLattice,
   handleBatchApplyWatermark,
+  matchProgress,
+  handleBatchMatchWatermark,
   restoreToOriginal,
+  imageHistory,
+  undoHistory,
+  redoHistory,
+  jumpToPass,
   handleDownload,
+  exportSettings,
+  onExportSettingsChange,
   handleBatchDownload,
   processingSelectedImageId,
   progress,
@@ -89,11 +193,23 @@ const MainLayout: React.FC<MainLayoutProps> = ({
   handleMouseDown,
   handleMouseMove,
   handleMouseUp,
-  selectedMark,
+  selectedMarkId,
+  markingTool,
+  draftShape,
   dragState,
   isBatchDownloadOpen,
   setIsBatchDownloadOpen,
+  getResultAlgorithm,
+  getResultBlob,
+  batchReport,
+  isBatchReportOpen,
+  setIsBatchReportOpen,
+  onRetryFailed,
 }) => {
+  // Candidates are shown with the image they were generated for
+  const visibleCandidates = selectedImage && candidateSet?.imageId === selectedImage.id ? candidateSet : null;
+  const candidatePreview = visibleCandidates?.candidates.find(candidate => candidate.id === previewCandidateId) || null;
+
   return (
     <div className="h-full flex flex-col lg:flex-row relative">
       {/* 移动端侧边栏遮罩 */}
@@ -116,18 +232,41 @@ const MainLayout: React.FC<MainLayoutProps> = ({
           selectedImageId={selectedImageId}
           processingAlgorithm={processingAlgorithm}
           isProcessing={isProcessing}
+          processingImageId={processingSelectedImageId}
           isBatchProcessing={isBatchProcessing}
           batchProgress={batchProgress}
           sdApiKey={sdApiKey}
           isApiConfigOpen={isApiConfigOpen}
           onFileUpload={onFileUpload}
           onBatchProcess={onBatchProcess}
+          hasBatchReport={!!batchReport}
+          onOpenBatchReport={() => setIsBatchReportOpen(true)}
+          isExportingProject={isExportingProject}
+          isImportingProject={isImportingProject}
+          onExportProject={onExportProject}
+          onImportProject={onImportProject}
           onAlgorithmChange={onAlgorithmChange}
           onImageSelect={onImageSelect}
           onRemoveImage={onRemoveImage}
           setSdApiKey={setSdApiKey}
           setIsApiConfigOpen={setIsApiConfigOpen}
+          sdParams={sdParams}
+          sdPresets={sdPresets}
+          onSDParamsChange={onSDParamsChange}
+          onResetSDParams={onResetSDParams}
+          onSaveSDPreset={onSaveSDPreset}
+          onDeleteSDPreset={onDeleteSDPreset}
+          candidateCount={candidateCount}
+          onCandidateCountChange={onCandidateCountChange}
+          algorithmParams={algorithmParams}
+          onAlgorithmParamsChange={onAlgorithmParamsChange}
+          onResetAlgorithmParams={onResetAlgorithmParams}
           handleRemoveWatermark={handleRemoveWatermark}
+          onCancelProcessing={cancelProcessing}
+          isPersistenceAvailable={isPersistenceAvailable}
+          isRestoring={isRestoring}
+          storageEstimate={storageEstimate}
+          onClearSession={onClearSession}
           onCloseSidebar={onCloseSidebar}
         />
       </div>
@@ -141,10 +280,35 @@ const MainLayout: React.FC<MainLayoutProps> = ({
           isBatchProcessing={isBatchProcessing}
           handleMarkingToggle={handleMarkingToggle}
           clearWatermarkMark={clearWatermarkMark}
+          selectedMarkId={selectedMarkId}
+          markingTool={markingTool}
+          removeSelectedMark={removeSelectedMark}
+          setMarkingTool={setMarkingTool}
+          brushRadius={brushRadius}
+          setBrushRadius={setBrushRadius}
+          clearPaintMask={clearPaintMask}
+          clearSourceExclusion={clearSourceExclusion}
+          isDetecting={isDetecting}
+          handleAutoDetect={handleAutoDetect}
+          acceptSuggestedMark={acceptSuggestedMark}
+          rejectSuggestedMark={rejectSuggestedMark}
+          processingAlgorithm={processingAlgorithm}
+          isEstimatingLattice={isEstimatingLattice}
+          handleEstimateLattice={handleEstimateLattice}
           handleBatchApplyWatermark={handleBatchApplyWatermark}
+          matchProgress={matchProgress}
+          handleBatchMatchWatermark={handleBatchMatchWatermark}
           restoreToOriginal={restoreToOriginal}
+          imageHistory={imageHistory}
+          undoHistory={undoHistory}
+          redoHistory={redoHistory}
+          jumpToPass={jumpToPass}
+          onApplySDParams={onSDParamsChange}
           handleRemoveWatermark={handleRemoveWatermark}
+          cancelProcessing={cancelProcessing}
           handleDownload={handleDownload}
+          exportSettings={exportSettings}
+          onExportSettingsChange={onExportSettingsChange}
           handleBatchDownload={handleBatchDownload}
           selectedImageId={processingSelectedImageId}
           onToggleSidebar={onToggleSidebar}
@@ -163,17 +327,47 @@ const MainLayout: React.FC<MainLayoutProps> = ({
             handleMouseDown={handleMouseDown}
             handleMouseMove={handleMouseMove}
             handleMouseUp={handleMouseUp}
-            selectedMark={selectedMark}
+            selectedMarkId={selectedMarkId}
+            markingTool={markingTool}
+            draftShape={draftShape}
             dragState={dragState}
+            acceptSuggestedMark={acceptSuggestedMark}
+            rejectSuggestedMark={rejectSuggestedMark}
+            updateTileLattice={updateTileLattice}
+            candidatePreview={candidatePreview}
           />
         ) : (
           <EmptyState onToggleSidebar={onToggleSidebar} />
         )}
+
+        {selectedImage && visibleCandidates && (
+          <CandidateStrip
+            candidateSet={visibleCandidates}
+            sourceUrl={selectedImage.processedUrl || selectedImage.url}
+            previewCandidateId={previewCandidateId}
+            disabled={isProcessing || isBatchProcessing}
+            onPreview={onPreviewCandidate}
+            onChoose={onChooseCandidate}
+            onDiscard={onDiscardCandidates}
+          />
+        )}
         
         <BatchDownloadDialog 
           isOpen={isBatchDownloadOpen} 
           onClose={() => setIsBatchDownloadOpen(false)} 
           images={images} 
+          getResultAlgorithm={getResultAlgorithm}
+          getResultBlob={getResultBlob}
+          exportSettings={exportSettings}
+          onExportSettingsChange={onExportSettingsChange}
+        />
+
+        <BatchReportDialog
+          isOpen={isBatchReportOpen}
+          onOpenChange={setIsBatchReportOpen}
+          report={batchReport}
+          isBatchProcessing={isBatchProcessing}
+          onRetryFailed={onRetryFailed}
         />
       </div>
     </div>
@@ -0,0 +1,115 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { Square, Circle, Pentagon, Lasso, Brush, Eraser, Ban } from 'lucide-react';
+import { MarkingTool } from './types';
+
+interface MarkingToolPanelProps {
+  markingTool: MarkingTool;
+  setMarkingTool: (tool: MarkingTool) => void;
+  brushRadius: number;
+  setBrushRadius: (radius: number) => void;
+  hasPaintMask: boolean;
+  onClearPaintMask: () => void;
+  hasSourceExclusion: boolean;
+  onClearSourceExclusion: () => void;
+  disabled?: boolean;
+}
+
+const TOOLS: Array<{ value: MarkingTool; label: string; icon: React.ElementType }> = [
+  { value: 'rect', label: '矩形', icon: Square },
+  { value: 'ellipse', label: '椭圆', icon: Circle },
+  { value: 'polygon', label: '多边形', icon: Pentagon },
+  { value: 'lasso', label: '套索', icon: Lasso },
+  { value: 'brush', label: '画笔', icon: Brush },
+  { value: 'eraser', label: '橡皮擦', icon: Eraser },
+  { value: 'exclude', label: '排除采样', icon: Ban },
+];
+
+const MarkingToolPanel: React.FC<MarkingToolPanelProps> = ({
+  markingTool,
+  setMarkingTool,
+  brushRadius,
+  setBrushRadius,
+  hasPaintMask,
+  onClearPaintMask,
+  hasSourceExclusion,
+  onClearSourceExclusion,
+  disabled = false,
+}) => {
+  const isPaintTool = markingTool === 'brush' || markingTool === 'eraser' || markingTool === 'exclude';
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 lg:gap-2">
+      {TOOLS.map(({ value, label, icon: Icon }) => (
+        <Button
+          key={value}
+          variant={markingTool === value ? "default" : "outline"}
+          size="sm"
+          onClick={() => setMarkingTool(value)}
+          className="text-xs whitespace-nowrap"
+          disabled={disabled}
+        >
+          <Icon className="h-3 w-3 sm:mr-1" />
+          <span className="hidden sm:inline">{label}</span>
+        </Button>
+      ))}
+
+      {markingTool === 'polygon' && (
+        <span className="text-xs text-gray-500 whitespace-nowrap hidden lg:inline">
+          单击添加顶点，双击或点击起点闭合，Esc 取消
+        </span>
+      )}
+
+      {markingTool === 'exclude' && (
+        <span className="text-xs text-gray-500 whitespace-nowrap hidden lg:inline">
+          涂抹不应被取样的区域（样本块修复、内容识别填充），橡皮擦可擦除
+        </span>
+      )}
+
+      {isPaintTool && (
+        <div className="flex items-center gap-2 min-w-[140px]">
+          <span className="text-xs text-gray-600 whitespace-nowrap">半径</span>
+          <Slider
+            value={[brushRadius]}
+            min={2}
+            max={80}
+            step={1}
+            onValueChange={([value]) => setBrushRadius(value)}
+            className="w-24"
+            disabled={disabled}
+          />
+          <span className="text-xs text-gray-500 w-8">{brushRadius}px</span>
+        </div>
+      )}
+
+      {hasPaintMask && (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={onClearPaintMask}
+          className="text-xs whitespace-nowrap"
+          disabled={disabled}
+        >
+          <span className="hidden sm:inline">清除涂抹</span>
+          <span className="sm:hidden">清涂抹</span>
+        </Button>
+      )}
+
+      {hasSourceExclusion && (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={onClearSourceExclusion}
+          className="text-xs whitespace-nowrap"
+          disabled={disabled}
+        >
+          <span className="hidden sm:inline">清除排除区域</span>
+          <span className="sm:hidden">清排除</span>
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default MarkingToolPanel;
@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { RotateCcw, Save, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { DEFAULT_NEURAL_MODEL_CONFIG, neuralInpaintingClient } from '@/utils/neuralInpaintingClient';
+import { handleSecureError } from '@/utils/secureErrorHandler';
+
+const inputClassName = 'w-full px-2 py-1.5 border border-gray-300 rounded-md text-xs focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const NeuralModelPanel: React.FC = () => {
+  const [modelUrl, setModelUrl] = useState(() => neuralInpaintingClient.getConfig().modelUrl);
+
+  const handleSave = () => {
+    try {
+      // Validated by the client; the message says which address is wrong
+      neuralInpaintingClient.setConfig({ modelUrl: modelUrl.trim() });
+      toast.success("模型设置已保存", { duration: 1000 });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '模型地址格式无效', { duration: 2000 });
+    }
+  };
+
+  const handleReset = () => {
+    setModelUrl(DEFAULT_NEURAL_MODEL_CONFIG.modelUrl);
+    neuralInpaintingClient.setConfig(DEFAULT_NEURAL_MODEL_CONFIG);
+    toast.success("已恢复默认模型", { duration: 1000 });
+  };
+
+  const handleClearCache = async () => {
+    try {
+      if (await neuralInpaintingClient.clearModelCache()) {
+        toast.success("已清除缓存的模型文件", { duration: 1000 });
+      } else {
+        toast.info("没有缓存的模型文件", { duration: 1000 });
+      }
+    } catch (error) {
+      toast.error(handleSecureError(error, 'neural-model-cache', 'low'), { duration: 1500 });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1">
+        <label htmlFor="neural-model-url" className="text-xs font-medium text-gray-700">模型地址 (LaMa ONNX)</label>
+        <input
+          id="neural-model-url"
+          value={modelUrl}
+          onChange={e => setModelUrl(e.target.value)}
+          placeholder={DEFAULT_NEURAL_MODEL_CONFIG.modelUrl}
+          className={inputClassName}
+        />
+      </div>
+
+      <p className="text-xs text-gray-500">
+        首次使用会下载约 200MB 的模型，之后从浏览器缓存加载。推理引擎随应用一起发布。离线使用时可把模型放在本站目录下，填写如 /models/lama_fp32.onnx 的路径。
+      </p>
+
+      <div className="flex gap-1">
+        <Button size="sm" className="flex-1 h-7 text-xs" onClick={handleSave} disabled={!modelUrl.trim()}>
+          <Save className="h-3 w-3 mr-1" />
+          保存
+        </Button>
+        <Button variant="outline" size="sm" className="h-7 px-2 text-xs" onClick={handleReset} title="恢复默认模型">
+          <RotateCcw className="h-3 w-3" />
+        </Button>
+        <Button variant="outline" size="sm" className="h-7 px-2 text-xs" onClick={handleClearCache} title="清除缓存的模型文件">
+          <Trash2 className="h-3 w-3" />
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default NeuralModelPanel;
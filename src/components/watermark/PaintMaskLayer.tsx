@@ -0,0 +1,59 @@
+import React, { useEffect, useRef } from 'react';
+import { PaintMask } from './types';
+
+interface PaintMaskLayerProps {
+  mask: PaintMask;
+  isMarkingMode: boolean;
+  // RGB of painted pixels
+  tint?: [number, number, number];
+}
+
+// Default tint for painted pixels (blue-500)
+const TINT: [number, number, number] = [59, 130, 246];
+
+const PaintMaskLayer: React.FC<PaintMaskLayerProps> = ({ mask, isMarkingMode, tint = TINT }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawnDataRef = useRef<Uint8Array | null>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    // Only the stroke's dirty rectangle is redrawn while painting; a different
+    // mask buffer (new image, resample, clear) triggers a full redraw
+    const isSameBuffer = drawnDataRef.current === mask.data && canvas.width === mask.width && canvas.height === mask.height;
+    if (!isSameBuffer) {
+      canvas.width = mask.width;
+      canvas.height = mask.height;
+    }
+    const region = isSameBuffer && mask.dirty ? mask.dirty : { x: 0, y: 0, width: mask.width, height: mask.height };
+
+    const imageData = ctx.createImageData(region.width, region.height);
+    const pixels = imageData.data;
+    for (let y = 0; y < region.height; y++) {
+      const row = (region.y + y) * mask.width + region.x;
+      for (let x = 0; x < region.width; x++) {
+        if (mask.data[row + x]) {
+          const index = (y * region.width + x) * 4;
+          pixels[index] = tint[0];
+          pixels[index + 1] = tint[1];
+          pixels[index + 2] = tint[2];
+          pixels[index + 3] = 255;
+        }
+      }
+    }
+    ctx.putImageData(imageData, region.x, region.y);
+    drawnDataRef.current = mask.data;
+  }, [mask, tint]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className={`absolute inset-0 w-full h-full pointer-events-none transition-opacity duration-200 ${isMarkingMode ? 'opacity-50' : 'opacity-30'}`}
+    />
+  );
+};
+
+export default PaintMaskLayer;
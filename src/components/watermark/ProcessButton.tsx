@@ -3,6 +3,7 @@ import React from 'react';
 import { Button } from '@/components/ui/button';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
 import { ImageItem } from './types';
+import { hasWatermarkMask } from './maskUtils';
 
 interface ProcessButtonProps {
   imageItem: ImageItem;
@@ -11,6 +12,7 @@ interface ProcessButtonProps {
   isProcessing: boolean;
   isBatchProcessing: boolean;
   selectedImageId: string | null;
+  onCancel?: () => void;
 }
 
 const ProcessButton: React.FC<ProcessButtonProps> = ({
@@ -20,10 +22,11 @@ const ProcessButton: React.FC<ProcessButtonProps> = ({
   isProcessing,
   isBatchProcessing,
   selectedImageId,
+  onCancel,
 }) => {
   const isTaskRunning = isProcessing || isBatchProcessing;
-  const needsMarking = !imageItem.watermarkMark;
-  const needsCompletion = imageItem.watermarkMark && !imageItem.isMarkingCompleted;
+  const needsMarking = !hasWatermarkMask(imageItem);
+  const needsCompletion = !needsMarking && !imageItem.isMarkingCompleted;
   const isDisabled = isTaskRunning || needsMarking || needsCompletion;
 
   let tooltipMessage = "";
@@ -42,6 +45,23 @@ const ProcessButton: React.FC<ProcessButtonProps> = ({
     }
   };
 
+  // 正在处理的这张图片显示取消按钮
+  if (onCancel && isProcessing && selectedImageId === imageItem.id) {
+    return (
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={(e) => {
+          if (isListItem) e.stopPropagation();
+          onCancel();
+        }}
+        className="text-xs text-red-600 border-red-300 hover:bg-red-50"
+      >
+        取消处理
+      </Button>
+    );
+  }
+
   const buttonText = isTaskRunning && selectedImageId === imageItem.id
     ? "处理中..."
     : imageItem.processCount > 0
@@ -0,0 +1,231 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { Dices, RotateCcw, Save, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { SDInpaintingParams, SDParamsPreset } from './types';
+import { INPAINTING_BACKENDS, SD_PARAM_LIMITS, SDParamField } from '@/utils/inpaintingBackends';
+import { secureApiClient } from '@/utils/secureApiClient';
+
+interface SDParamsPanelProps {
+  params: SDInpaintingParams;
+  presets: SDParamsPreset[];
+  onChange: (updates: Partial<SDInpaintingParams>) => void;
+  onReset: () => void;
+  onSavePreset: (name: string) => boolean;
+  onDeletePreset: (name: string) => void;
+}
+
+const inputClassName = 'w-full px-2 py-1.5 border border-gray-300 rounded-md text-xs focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-50 disabled:text-gray-400';
+
+const SDParamsPanel: React.FC<SDParamsPanelProps> = ({ params, presets, onChange, onReset, onSavePreset, onDeletePreset }) => {
+  const [presetName, setPresetName] = useState('');
+  const [selectedPreset, setSelectedPreset] = useState('');
+  // Read on every render so a backend switched in the API dialog shows up here
+  const backend = INPAINTING_BACKENDS[secureApiClient.getBackendConfig().backend];
+  const { supportedParams, maxSamples } = backend.capabilities;
+  const isSupported = (field: SDParamField) => supportedParams.includes(field);
+  const unsupportedNote = (field: SDParamField) =>
+    isSupported(field) ? null : <span className="text-gray-400 font-normal">（{backend.label} 不支持）</span>;
+
+  const handleSelectPreset = (name: string) => {
+    setSelectedPreset(name);
+    const preset = presets.find(item => item.name === name);
+    if (preset) {
+      onChange(preset.params);
+      toast.success(`已应用预设: ${preset.name}`, { duration: 800 });
+    }
+  };
+
+  const handleSavePreset = () => {
+    if (!onSavePreset(presetName)) {
+      toast.error("请输入预设名称", { duration: 800 });
+      return;
+    }
+    toast.success(`预设已保存: ${presetName.trim()}`, { duration: 800 });
+    setSelectedPreset(presetName.trim());
+    setPresetName('');
+  };
+
+  const handleDeletePreset = () => {
+    if (!selectedPreset) return;
+    onDeletePreset(selectedPreset);
+    setSelectedPreset('');
+  };
+
+  const handleSeedChange = (value: string) => {
+    const seed = Number.parseInt(value, 10);
+    if (Number.isNaN(seed)) {
+      onChange({ seed: -1 });
+    } else {
+      onChange({ seed: Math.min(SD_PARAM_LIMITS.maxSeed, Math.max(-1, seed)) });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1">
+        <label htmlFor="sd-preset" className="text-xs font-medium text-gray-700">预设</label>
+        <div className="flex gap-1">
+          <select
+            id="sd-preset"
+            value={selectedPreset}
+            onChange={e => handleSelectPreset(e.target.value)}
+            className="flex-1 min-w-0 p-1.5 border rounded-md text-xs focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="">{presets.length > 0 ? '选择预设...' : '暂无预设'}</option>
+            {presets.map(preset => (
+              <option key={preset.name} value={preset.name}>{preset.name}</option>
+            ))}
+          </select>
+          <Button variant="outline" size="sm" className="h-7 w-7 p-0" onClick={handleDeletePreset} disabled={!selectedPreset} title="删除预设">
+            <Trash2 className="h-3 w-3" />
+          </Button>
+        </div>
+        <div className="flex gap-1">
+          <input
+            value={presetName}
+            onChange={e => setPresetName(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && handleSavePreset()}
+            maxLength={40}
+            placeholder="将当前参数保存为..."
+            className={inputClassName}
+          />
+          <Button variant="outline" size="sm" className="h-7 px-2 text-xs" onClick={handleSavePreset} disabled={!presetName.trim()}>
+            <Save className="h-3 w-3 mr-1" />
+            保存
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <label htmlFor="sd-prompt" className="text-xs font-medium text-gray-700">提示词 {unsupportedNote('prompt')}</label>
+        <textarea
+          id="sd-prompt"
+          value={params.prompt}
+          onChange={e => onChange({ prompt: e.target.value })}
+          maxLength={SD_PARAM_LIMITS.maxPromptLength}
+          rows={2}
+          disabled={!isSupported('prompt')}
+          className={inputClassName}
+        />
+      </div>
+
+      <div className="space-y-1">
+        <label htmlFor="sd-negative-prompt" className="text-xs font-medium text-gray-700">反向提示词 {unsupportedNote('negativePrompt')}</label>
+        <textarea
+          id="sd-negative-prompt"
+          value={params.negativePrompt}
+          onChange={e => onChange({ negativePrompt: e.target.value })}
+          maxLength={SD_PARAM_LIMITS.maxPromptLength}
+          rows={2}
+          disabled={!isSupported('negativePrompt')}
+          className={inputClassName}
+        />
+      </div>
+
+      <div className="space-y-1">
+        <span className="text-xs font-medium text-gray-700">步数 {unsupportedNote('steps')}</span>
+        <div className="flex items-center space-x-2">
+          <Slider
+            value={[params.steps]}
+            min={SD_PARAM_LIMITS.steps.min}
+            max={SD_PARAM_LIMITS.steps.max}
+            step={1}
+            onValueChange={([value]) => onChange({ steps: value })}
+            className="flex-1"
+            disabled={!isSupported('steps')}
+          />
+          <span className="text-xs text-gray-500 w-8">{params.steps}</span>
+        </div>
+        {backend.id === 'stability' && params.steps > 50 && (
+          <p className="text-xs text-gray-500">Stability AI 最多 50 步，超出部分按 50 步发送</p>
+        )}
+      </div>
+
+      <div className="space-y-1">
+        <span className="text-xs font-medium text-gray-700">提示词引导系数 (CFG) {unsupportedNote('cfgScale')}</span>
+        <div className="flex items-center space-x-2">
+          <Slider
+            value={[params.cfgScale]}
+            min={SD_PARAM_LIMITS.cfgScale.min}
+            max={SD_PARAM_LIMITS.cfgScale.max}
+            step={0.5}
+            onValueChange={([value]) => onChange({ cfgScale: value })}
+            className="flex-1"
+            disabled={!isSupported('cfgScale')}
+          />
+          <span className="text-xs text-gray-500 w-8">{params.cfgScale}</span>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <span className="text-xs font-medium text-gray-700">重绘强度 {unsupportedNote('strength')}</span>
+        <div className="flex items-center space-x-2">
+          <Slider
+            value={[params.strength]}
+            min={SD_PARAM_LIMITS.strength.min}
+            max={SD_PARAM_LIMITS.strength.max}
+            step={0.05}
+            onValueChange={([value]) => onChange({ strength: value })}
+            className="flex-1"
+            disabled={!isSupported('strength')}
+          />
+          <span className="text-xs text-gray-500 w-8">{params.strength.toFixed(2)}</span>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <label htmlFor="sd-seed" className="text-xs font-medium text-gray-700">种子</label>
+          <div className="flex gap-1">
+            <input
+              id="sd-seed"
+              type="number"
+              min={-1}
+              max={SD_PARAM_LIMITS.maxSeed}
+              value={params.seed}
+              onChange={e => handleSeedChange(e.target.value)}
+              disabled={!isSupported('seed')}
+              className={inputClassName}
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7 w-7 p-0 flex-shrink-0"
+              onClick={() => onChange({ seed: -1 })}
+              disabled={!isSupported('seed') || params.seed === -1}
+              title="使用随机种子"
+            >
+              <Dices className="h-3 w-3" />
+            </Button>
+          </div>
+        </div>
+        <div className="space-y-1">
+          <label htmlFor="sd-samples" className="text-xs font-medium text-gray-700">生成数量</label>
+          <select
+            id="sd-samples"
+            value={Math.min(params.samples, maxSamples)}
+            onChange={e => onChange({ samples: Number(e.target.value) })}
+            disabled={maxSamples <= 1}
+            className="w-full p-1.5 border rounded-md text-xs focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          >
+            {Array.from({ length: Math.min(maxSamples, SD_PARAM_LIMITS.samples.max) }, (_, index) => (
+              <option key={index} value={index + 1}>{index + 1} 张</option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <p className="text-xs text-gray-500">
+        种子 -1 为随机，实际使用的种子会记录在历史记录中；生成多张时保留第一张
+      </p>
+
+      <Button variant="outline" size="sm" className="w-full h-7 text-xs" onClick={onReset}>
+        <RotateCcw className="h-3 w-3 mr-1" />
+        恢复默认参数
+      </Button>
+    </div>
+  );
+};
+
+export default SDParamsPanel;
@@ -0,0 +1,75 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { HardDrive, Trash2 } from 'lucide-react';
+import { StorageEstimate } from '@/utils/projectStore';
+import { formatFileSize } from './formatting';
+
+interface SessionControlsProps {
+  isPersistenceAvailable: boolean;
+  isRestoring: boolean;
+  storageEstimate: StorageEstimate | null;
+  hasImages: boolean;
+  disabled: boolean;
+  onClearSession: () => void;
+}
+
+const SessionControls: React.FC<SessionControlsProps> = ({
+  isPersistenceAvailable,
+  isRestoring,
+  storageEstimate,
+  hasImages,
+  disabled,
+  onClearSession,
+}) => {
+  if (!isPersistenceAvailable) {
+    return <p className="text-xs text-gray-500">当前浏览器不支持本地保存，刷新后工作内容会丢失</p>;
+  }
+
+  return (
+    <div className="flex items-center justify-between gap-2 pt-3 border-t flex-shrink-0">
+      <div className="flex items-center gap-1 text-xs text-gray-500 min-w-0">
+        <HardDrive className="h-3 w-3 flex-shrink-0" />
+        <span className="truncate">
+          {isRestoring
+            ? '正在恢复上次会话...'
+            : storageEstimate && storageEstimate.quota > 0
+            ? `本地已用 ${formatFileSize(storageEstimate.usage)} / ${formatFileSize(storageEstimate.quota)}`
+            : '工作内容自动保存在本地'}
+        </span>
+      </div>
+      <AlertDialog>
+        <AlertDialogTrigger asChild>
+          <Button variant="outline" size="sm" className="text-xs flex-shrink-0" disabled={disabled || isRestoring || !hasImages}>
+            <Trash2 className="h-3 w-3 mr-1" />
+            清除会话
+          </Button>
+        </AlertDialogTrigger>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>清除本地会话？</AlertDialogTitle>
+            <AlertDialogDescription>
+              将移除所有图片、标记和处理结果，并删除浏览器中保存的副本，此操作无法撤销。
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>取消</AlertDialogCancel>
+            <AlertDialogAction onClick={onClearSession}>清除</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default SessionControls;
@@ -1,28 +1,53 @@
 
 import React from 'react';
 import { X } from 'lucide-react';
-import { ImageItem, ProcessingAlgorithm } from './types';
+import { AlgorithmParams, ImageItem, ProcessingAlgorithm, SDInpaintingParams, SDParamsPreset } from './types';
 import UploadSection from './UploadSection';
 import AlgorithmSelector from './AlgorithmSelector';
 import ImageList from './ImageList';
+import SessionControls from './SessionControls';
+import { StorageEstimate } from '@/utils/projectStore';
 
 interface SidebarProps {
   images: ImageItem[];
   selectedImageId: string | null;
   processingAlgorithm: ProcessingAlgorithm;
   isProcessing: boolean;
+  processingImageId: string | null;
   isBatchProcessing: boolean;
   batchProgress: { [key: string]: number };
   sdApiKey: string;
   isApiConfigOpen: boolean;
   onFileUpload: (event: React.ChangeEvent<HTMLInputElement>) => void;
   onBatchProcess: () => void;
+  hasBatchReport: boolean;
+  onOpenBatchReport: () => void;
+  isExportingProject: boolean;
+  isImportingProject: boolean;
+  onExportProject: () => void;
+  onImportProject: (event: React.ChangeEvent<HTMLInputElement>) => void;
   onAlgorithmChange: (value: ProcessingAlgorithm) => void;
   onImageSelect: (id: string) => void;
   onRemoveImage: (id: string) => void;
   setSdApiKey: (key: string) => void;
   setIsApiConfigOpen: (isOpen: boolean) => void;
+  sdParams: SDInpaintingParams;
+  sdPresets: SDParamsPreset[];
+  onSDParamsChange: (updates: Partial<SDInpaintingParams>) => void;
+  onResetSDParams: () => void;
+  onSaveSDPreset: (name: string) => boolean;
+  onDeleteSDPreset: (name: string) => void;
+  candidateCount: number;
+  onCandidateCountChange: (count: number) => void;
+  algorithmParams: AlgorithmParams;
+  onAlgorithmParamsChange: (updates: Partial<AlgorithmParams>) => void;
+  onResetAlgorithmParams: () => void;
   handleRemoveWatermark: (imageItem: ImageItem) => void;
+  onCancelProcessing: () => void;
+  isPersistenceAvailable: boolean;
+  isRestoring: boolean;
+  storageEstimate: StorageEstimate | null;
+  onClearSession: () => void;
   onCloseSidebar?: () => void;
 }
 
@@ -31,18 +56,41 @@ const Sidebar: React.FC<SidebarProps> = ({
   selectedImageId,
   processingAlgorithm,
   isProcessing,
+  processingImageId,
   isBatchProcessing,
   batchProgress,
   sdApiKey,
   isApiConfigOpen,
   onFileUpload,
   onBatchProcess,
+  hasBatchReport,
+  onOpenBatchReport,
+  isExportingProject,
+  isImportingProject,
+  onExportProject,
+  onImportProject,
   onAlgorithmChange,
   onImageSelect,
   onRemoveImage,
   setSdApiKey,
   setIsApiConfigOpen,
+  sdParams,
+  sdPresets,
+  onSDParamsChange,
+  onResetSDParams,
+  onSaveSDPreset,
+  onDeleteSDPreset,
+  candidateCount,
+  onCandidateCountChange,
+  algorithmParams,
+  onAlgorithmParamsChange,
+  onResetAlgorithmParams,
   handleRemoveWatermark,
+  onCancelProcessing,
+  isPersistenceAvailable,
+  isRestoring,
+  storageEstimate,
+  onClearSession,
   onCloseSidebar,
 }) => {
   return (
@@ -68,6 +116,12 @@ const Sidebar: React.FC<SidebarProps> = ({
           isBatchProcessing={isBatchProcessing}
           onFileUpload={onFileUpload}
           onBatchProcess={onBatchProcess}
+          hasBatchReport={hasBatchReport}
+          onOpenBatchReport={onOpenBatchReport}
+          isExportingProject={isExportingProject}
+          isImportingProject={isImportingProject}
+          onExportProject={onExportProject}
+          onImportProject={onImportProject}
         />
 
         {/* 算法选择区域 - 响应式布局 */}
@@ -79,6 +133,17 @@ const Sidebar: React.FC<SidebarProps> = ({
             onAlgorithmChange={onAlgorithmChange}
             setSdApiKey={setSdApiKey}
             setIsApiConfigOpen={setIsApiConfigOpen}
+            sdParams={sdParams}
+            sdPresets={sdPresets}
+            onSDParamsChange={onSDParamsChange}
+            onResetSDParams={onResetSDParams}
+            onSaveSDPreset={onSaveSDPreset}
+            onDeleteSDPreset={onDeleteSDPreset}
+            candidateCount={candidateCount}
+            onCandidateCountChange={onCandidateCountChange}
+            algorithmParams={algorithmParams}
+            onAlgorithmParamsChange={onAlgorithmParamsChange}
+            onResetAlgorithmParams={onResetAlgorithmParams}
           />
         </div>
 
@@ -89,11 +154,23 @@ const Sidebar: React.FC<SidebarProps> = ({
           isBatchProcessing={isBatchProcessing}
           batchProgress={batchProgress}
           isProcessing={isProcessing}
+          processingImageId={processingImageId}
           onImageSelect={onImageSelect}
           onRemoveImage={onRemoveImage}
           handleRemoveWatermark={handleRemoveWatermark}
+          onCancelProcessing={onCancelProcessing}
           onCloseSidebar={onCloseSidebar}
         />
+
+        {/* 本地会话 */}
+        <SessionControls
+          isPersistenceAvailable={isPersistenceAvailable}
+          isRestoring={isRestoring}
+          storageEstimate={storageEstimate}
+          hasImages={images.length > 0}
+          disabled={isProcessing || isBatchProcessing}
+          onClearSession={onClearSession}
+        />
       </div>
     </div>
   );
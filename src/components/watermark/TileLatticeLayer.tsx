@@ -0,0 +1,129 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { MarkPoint, MaskRect, TileLattice } from './types';
+
+interface TileLatticeLayerProps {
+  lattice: TileLattice;
+  // Normalized bounds of the marked instance at the lattice origin
+  instance: MaskRect;
+  zoom: number;
+  editable: boolean;
+  onChange?: (lattice: TileLattice) => void;
+}
+
+// Outlines drawn beyond this are skipped; the mask itself is not limited
+const MAX_OUTLINES = 600;
+
+const cross = (a: MarkPoint, b: MarkPoint) => a.x * b.y - a.y * b.x;
+
+const TileLatticeLayer: React.FC<TileLatticeLayerProps> = ({ lattice, instance, zoom, editable, onChange }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [dragging, setDragging] = useState<'a' | 'b' | null>(null);
+  const center = { x: instance.x + instance.width / 2, y: instance.y + instance.height / 2 };
+
+  // Lattice translations whose instance overlaps the image, in normalized units
+  const offsets = useMemo(() => {
+    const { a, b } = lattice;
+    const det = cross(a, b);
+    if (Math.abs(det) < 1e-6) return [];
+    let minI = Infinity, maxI = -Infinity, minJ = Infinity, maxJ = -Infinity;
+    for (const corner of [
+      { x: -instance.x - instance.width, y: -instance.y - instance.height },
+      { x: 1 - instance.x, y: -instance.y - instance.height },
+      { x: -instance.x - instance.width, y: 1 - instance.y },
+      { x: 1 - instance.x, y: 1 - instance.y }
+    ]) {
+      const i = cross(corner, b) / det;
+      const j = cross(a, corner) / det;
+      minI = Math.min(minI, Math.floor(i)); maxI = Math.max(maxI, Math.ceil(i));
+      minJ = Math.min(minJ, Math.floor(j)); maxJ = Math.max(maxJ, Math.ceil(j));
+    }
+    const result: MarkPoint[] = [];
+    for (let i = minI; i <= maxI && result.length < MAX_OUTLINES; i++) {
+      for (let j = minJ; j <= maxJ && result.length < MAX_OUTLINES; j++) {
+        if (i === 0 && j === 0) continue;
+        const x = instance.x + i * a.x + j * b.x;
+        const y = instance.y + i * a.y + j * b.y;
+        if (x < 1 && y < 1 && x + instance.width > 0 && y + instance.height > 0) {
+          result.push({ x, y });
+        }
+      }
+    }
+    return result;
+  }, [lattice, instance]);
+
+  // Handles are dragged with window listeners so the pointer may leave the handle
+  useEffect(() => {
+    if (!dragging || !onChange) return;
+    const handleMove = (event: MouseEvent) => {
+      const rect = containerRef.current?.getBoundingClientRect();
+      if (!rect || rect.width === 0 || rect.height === 0) return;
+      const vector = {
+        x: (event.clientX - rect.left) / rect.width - center.x,
+        y: (event.clientY - rect.top) / rect.height - center.y
+      };
+      const other = dragging === 'a' ? lattice.b : lattice.a;
+      // Refuse degenerate lattices (both vectors on one line)
+      if (Math.abs(cross(vector, other)) < 1e-4) return;
+      onChange({ ...lattice, [dragging]: vector });
+    };
+    const handleUp = () => setDragging(null);
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+  }, [dragging, lattice, center.x, center.y, onChange]);
+
+  const handleSize = `${Math.max(10, 14 / zoom)}px`;
+  const renderHandle = (key: 'a' | 'b') => {
+    const vector = lattice[key];
+    return (
+      <div
+        key={key}
+        title={key === 'a' ? '拖动调整网格方向一' : '拖动调整网格方向二'}
+        className="absolute bg-purple-600 border-2 border-white rounded-full shadow-lg pointer-events-auto cursor-move hover:scale-110 transition-transform"
+        style={{ left: `${(center.x + vector.x) * 100}%`, top: `${(center.y + vector.y) * 100}%`, width: handleSize, height: handleSize, transform: 'translate(-50%, -50%)' }}
+        onMouseDown={event => {
+          event.preventDefault();
+          event.stopPropagation();
+          setDragging(key);
+        }}
+      />
+    );
+  };
+
+  return (
+    <div ref={containerRef} className="absolute inset-0 pointer-events-none">
+      {offsets.map(({ x, y }) => (
+        <div
+          key={`${x.toFixed(4)}:${y.toFixed(4)}`}
+          className="absolute border border-dashed border-purple-500 bg-purple-400/10 rounded-sm"
+          style={{ left: `${x * 100}%`, top: `${y * 100}%`, width: `${instance.width * 100}%`, height: `${instance.height * 100}%`, borderWidth: `${Math.max(1, 1.5 / zoom)}px` }}
+        />
+      ))}
+      {editable && (
+        <>
+          <svg className="absolute inset-0 w-full h-full overflow-visible" viewBox="0 0 1 1" preserveAspectRatio="none">
+            {(['a', 'b'] as const).map(key => (
+              <line
+                key={key}
+                x1={center.x}
+                y1={center.y}
+                x2={center.x + lattice[key].x}
+                y2={center.y + lattice[key].y}
+                className="stroke-purple-600"
+                strokeWidth={Math.max(1, 2 / zoom)}
+                vectorEffect="non-scaling-stroke"
+              />
+            ))}
+          </svg>
+          {renderHandle('a')}
+          {renderHandle('b')}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TileLatticeLayer;
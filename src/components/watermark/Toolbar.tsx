@@ -1,9 +1,14 @@
 
 import React from 'react';
 import { Button } from '@/components/ui/button';
-import { Download, MapPin, Undo2, Copy, Menu } from 'lucide-react';
-import { ImageItem } from './types';
+import { Download, FileCog, MapPin, Undo2, Copy, Menu, Trash2, ScanSearch, Check, X, Grid3x3 } from 'lucide-react';
+import { AppliedSDParams, ExportSettings, ImageHistory, ImageItem, MarkingTool, ProcessingAlgorithm } from './types';
 import ProcessButton from './ProcessButton';
+import MarkingToolPanel from './MarkingToolPanel';
+import HistoryPanel from './HistoryPanel';
+import ExportSettingsPanel from './ExportSettingsPanel';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { hasWatermarkMask } from './maskUtils';
 
 interface ToolbarProps {
   selectedImage: ImageItem | undefined;
@@ -12,10 +17,35 @@ interface ToolbarProps {
   isBatchProcessing: boolean;
   handleMarkingToggle: () => void;
   clearWatermarkMark: (id: string) => void;
+  selectedMarkId: string | null;
+  removeSelectedMark: () => void;
+  markingTool: MarkingTool;
+  setMarkingTool: (tool: MarkingTool) => void;
+  brushRadius: number;
+  setBrushRadius: (radius: number) => void;
+  clearPaintMask: (id: string) => void;
+  clearSourceExclusion: (id: string) => void;
+  isDetecting: boolean;
+  handleAutoDetect: () => void;
+  acceptSuggestedMark: (markId?: string) => void;
+  rejectSuggestedMark: (markId?: string) => void;
+  processingAlgorithm: ProcessingAlgorithm;
+  isEstimatingLattice: boolean;
+  handleEstimateLattice: () => void;
   handleBatchApplyWatermark: () => void;
+  matchProgress: number | null;
+  handleBatchMatchWatermark: () => void;
   restoreToOriginal: (id: string) => void;
+  imageHistory: ImageHistory;
+  undoHistory: () => void;
+  redoHistory: () => void;
+  jumpToPass: (url: string) => void;
+  onApplySDParams: (params: AppliedSDParams) => void;
   handleRemoveWatermark: (item: ImageItem) => void;
+  cancelProcessing: () => void;
   handleDownload: (item: ImageItem) => void;
+  exportSettings: ExportSettings;
+  onExportSettingsChange: (updates: Partial<ExportSettings>) => void;
   handleBatchDownload: () => void;
   selectedImageId: string | null;
   onToggleSidebar?: () => void;
@@ -28,10 +58,35 @@ const Toolbar: React.FC<ToolbarProps> = ({
   isBatchProcessing,
   handleMarkingToggle,
   clearWatermarkMark,
+  selectedMarkId,
+  removeSelectedMark,
+  markingTool,
+  setMarkingTool,
+  brushRadius,
+  setBrushRadius,
+  clearPaintMask,
+  clearSourceExclusion,
+  isDetecting,
+  handleAutoDetect,
+  acceptSuggestedMark,
+  rejectSuggestedMark,
+  processingAlgorithm,
+  isEstimatingLattice,
+  handleEstimateLattice,
   handleBatchApplyWatermark,
+  matchProgress,
+  handleBatchMatchWatermark,
   restoreToOriginal,
+  imageHistory,
+  undoHistory,
+  redoHistory,
+  jumpToPass,
+  onApplySDParams,
   handleRemoveWatermark,
+  cancelProcessing,
   handleDownload,
+  exportSettings,
+  onExportSettingsChange,
   handleBatchDownload,
   selectedImageId,
   onToggleSidebar,
@@ -60,6 +115,15 @@ const Toolbar: React.FC<ToolbarProps> = ({
             <div className="flex items-center space-x-2 whitespace-nowrap">
               <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-500"></div>
               <span className="text-sm text-gray-600 hidden sm:inline">批量处理中...</span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={cancelProcessing}
+                className="text-xs text-red-600 border-red-300 hover:bg-red-50"
+              >
+                <X className="h-3 w-3 mr-1" />
+                停止
+              </Button>
             </div>
           )}
         </div>
@@ -85,7 +149,60 @@ const Toolbar: React.FC<ToolbarProps> = ({
                 </span>
               </Button>
               
-              {selectedImage.watermarkMark && (
+              <Button 
+                variant="outline" 
+                size="sm" 
+                onClick={handleAutoDetect} 
+                className="text-xs whitespace-nowrap" 
+                disabled={isBatchProcessing || isDetecting}
+              >
+                <ScanSearch className={`h-3 w-3 mr-1 ${isDetecting ? 'animate-pulse' : ''}`} />
+                <span className="hidden sm:inline">{isDetecting ? '检测中...' : '自动检测'}</span>
+                <span className="sm:hidden">检测</span>
+              </Button>
+
+              {selectedImage.suggestedMarks && selectedImage.suggestedMarks.length > 0 && (
+                <>
+                  <Button 
+                    variant="outline" 
+                    size="sm" 
+                    onClick={() => acceptSuggestedMark()} 
+                    className="text-xs whitespace-nowrap border-amber-400" 
+                    disabled={isBatchProcessing}
+                  >
+                    <Check className="h-3 w-3 mr-1" />
+                    <span className="hidden sm:inline">全部接受 ({selectedImage.suggestedMarks.length})</span>
+                    <span className="sm:hidden">接受</span>
+                  </Button>
+                  <Button 
+                    variant="outline" 
+                    size="sm" 
+                    onClick={() => rejectSuggestedMark()} 
+                    className="text-xs whitespace-nowrap" 
+                    disabled={isBatchProcessing}
+                  >
+                    <X className="h-3 w-3 mr-1" />
+                    <span className="hidden sm:inline">全部忽略</span>
+                    <span className="sm:hidden">忽略</span>
+                  </Button>
+                </>
+              )}
+
+              {isMarkingMode && selectedMarkId && (
+                <Button 
+                  variant="outline" 
+                  size="sm" 
+                  onClick={removeSelectedMark} 
+                  className="text-xs whitespace-nowrap" 
+                  disabled={isBatchProcessing}
+                >
+                  <Trash2 className="h-3 w-3 mr-1" />
+                  <span className="hidden sm:inline">删除选中区域</span>
+                  <span className="sm:hidden">删除</span>
+                </Button>
+              )}
+              
+              {selectedImage.watermarkMarks.length > 0 && (
                 <Button 
                   variant="outline" 
                   size="sm" 
@@ -93,12 +210,28 @@ const Toolbar: React.FC<ToolbarProps> = ({
                   className="text-xs whitespace-nowrap" 
                   disabled={isBatchProcessing}
                 >
-                  <span className="hidden sm:inline">清除标记</span>
+                  <span className="hidden sm:inline">{selectedImage.watermarkMarks.length > 1 ? `清除全部标记 (${selectedImage.watermarkMarks.length})` : '清除标记'}</span>
                   <span className="sm:hidden">清除</span>
                 </Button>
               )}
               
-              {selectedImage.watermarkMark && selectedImage.isMarkingCompleted && (
+              {processingAlgorithm === 'tiled' && hasWatermarkMask(selectedImage) && !isMarkingMode && (
+                <Button 
+                  variant="outline" 
+                  size="sm" 
+                  onClick={handleEstimateLattice} 
+                  className="text-xs whitespace-nowrap" 
+                  disabled={isBatchProcessing || isEstimatingLattice}
+                >
+                  <Grid3x3 className={`h-3 w-3 mr-1 ${isEstimatingLattice ? 'animate-pulse' : ''}`} />
+                  <span className="hidden sm:inline">
+                    {isEstimatingLattice ? '识别中...' : (selectedImage.tileLattice ? '重新识别网格' : '识别平铺网格')}
+                  </span>
+                  <span className="sm:hidden">网格</span>
+                </Button>
+              )}
+
+              {hasWatermarkMask(selectedImage) && selectedImage.isMarkingCompleted && (
                 <Button 
                   variant="outline" 
                   size="sm" 
@@ -111,8 +244,37 @@ const Toolbar: React.FC<ToolbarProps> = ({
                   <span className="sm:hidden">应用</span>
                 </Button>
               )}
+
+              {hasWatermarkMask(selectedImage) && selectedImage.isMarkingCompleted && (
+                <Button 
+                  variant="outline" 
+                  size="sm" 
+                  onClick={handleBatchMatchWatermark} 
+                  className="text-xs whitespace-nowrap" 
+                  disabled={isBatchProcessing || matchProgress !== null}
+                >
+                  <ScanSearch className="h-3 w-3 mr-1" />
+                  <span className="hidden sm:inline">{matchProgress !== null ? `匹配中 ${matchProgress}%` : '智能匹配'}</span>
+                  <span className="sm:hidden">匹配</span>
+                </Button>
+              )}
             </div>
 
+            {/* 标记工具 */}
+            {isMarkingMode && (
+              <MarkingToolPanel
+                markingTool={markingTool}
+                setMarkingTool={setMarkingTool}
+                brushRadius={brushRadius}
+                setBrushRadius={setBrushRadius}
+                hasPaintMask={(selectedImage.paintMask?.paintedPixels || 0) > 0}
+                onClearPaintMask={() => clearPaintMask(selectedImage.id)}
+                hasSourceExclusion={(selectedImage.sourceExclusion?.paintedPixels || 0) > 0}
+                onClearSourceExclusion={() => clearSourceExclusion(selectedImage.id)}
+                disabled={isBatchProcessing}
+              />
+            )}
+
             {/* 第二排按钮 */}
             <div className="flex flex-wrap items-center gap-1 lg:gap-2">
               {selectedImage.processedUrl && (
@@ -128,6 +290,16 @@ const Toolbar: React.FC<ToolbarProps> = ({
                   <span className="sm:hidden">还原</span>
                 </Button>
               )}
+
+              <HistoryPanel
+                history={imageHistory}
+                currentProcessedUrl={selectedImage.processedUrl}
+                disabled={isProcessing || isBatchProcessing}
+                onUndo={undoHistory}
+                onRedo={redoHistory}
+                onJumpToPass={jumpToPass}
+                onApplySDParams={onApplySDParams}
+              />
               
               <ProcessButton 
                 imageItem={selectedImage} 
@@ -135,6 +307,7 @@ const Toolbar: React.FC<ToolbarProps> = ({
                 isProcessing={isProcessing} 
                 isBatchProcessing={isBatchProcessing} 
                 selectedImageId={selectedImageId} 
+                onCancel={cancelProcessing}
               />
               
               <Button 
@@ -148,6 +321,18 @@ const Toolbar: React.FC<ToolbarProps> = ({
                 <span className="hidden sm:inline">下载</span>
                 <span className="sm:hidden">下载</span>
               </Button>
+
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" size="sm" className="h-8 w-8 p-0 flex-shrink-0" title="导出设置">
+                    <FileCog className="h-4 w-4" />
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-72" side="bottom" align="end">
+                  <h4 className="font-medium text-sm mb-3">导出设置</h4>
+                  <ExportSettingsPanel settings={exportSettings} onChange={onExportSettingsChange} />
+                </PopoverContent>
+              </Popover>
               
               <Button 
                 variant="outline" 
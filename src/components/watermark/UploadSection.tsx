@@ -1,8 +1,10 @@
 
 import React from 'react';
 import { Button } from '@/components/ui/button';
-import { Upload, Play } from 'lucide-react';
+import { Upload, Play, ClipboardList, FolderInput, FolderOutput } from 'lucide-react';
 import { ImageItem } from './types';
+import { hasWatermarkMask } from './maskUtils';
+import { PROJECT_FILE_EXTENSION } from '@/utils/projectArchive';
 
 interface UploadSectionProps {
   images: ImageItem[];
@@ -10,6 +12,12 @@ interface UploadSectionProps {
   isBatchProcessing: boolean;
   onFileUpload: (event: React.ChangeEvent<HTMLInputElement>) => void;
   onBatchProcess: () => void;
+  hasBatchReport: boolean;
+  onOpenBatchReport: () => void;
+  isExportingProject: boolean;
+  isImportingProject: boolean;
+  onExportProject: () => void;
+  onImportProject: (event: React.ChangeEvent<HTMLInputElement>) => void;
 }
 
 const UploadSection: React.FC<UploadSectionProps> = ({
@@ -18,8 +26,15 @@ const UploadSection: React.FC<UploadSectionProps> = ({
   isBatchProcessing,
   onFileUpload,
   onBatchProcess,
+  hasBatchReport,
+  onOpenBatchReport,
+  isExportingProject,
+  isImportingProject,
+  onExportProject,
+  onImportProject,
 }) => {
-  const markedImages = images.filter(img => img.watermarkMark && img.isMarkingCompleted);
+  const markedImages = images.filter(img => hasWatermarkMask(img) && img.isMarkingCompleted);
+  const isBusy = isProcessing || isBatchProcessing;
 
   return (
     <div className="space-y-3 flex-shrink-0">
@@ -42,10 +57,39 @@ const UploadSection: React.FC<UploadSectionProps> = ({
         </label>
       </div>
 
+      <div className="grid grid-cols-2 gap-2">
+        <input
+          type="file"
+          accept={PROJECT_FILE_EXTENSION}
+          onChange={onImportProject}
+          className="hidden"
+          id="project-import"
+          disabled={isBusy || isImportingProject}
+        />
+        <label htmlFor="project-import">
+          <Button variant="outline" size="sm" className="w-full text-xs" disabled={isBusy || isImportingProject} asChild>
+            <span className={isBusy || isImportingProject ? 'pointer-events-none opacity-50' : 'cursor-pointer'}>
+              <FolderInput className="h-3 w-3 mr-1" />
+              {isImportingProject ? '导入中...' : '导入项目'}
+            </span>
+          </Button>
+        </label>
+        <Button
+          onClick={onExportProject}
+          disabled={isBusy || isExportingProject || images.length === 0}
+          variant="outline"
+          size="sm"
+          className="w-full text-xs"
+        >
+          <FolderOutput className="h-3 w-3 mr-1" />
+          {isExportingProject ? '导出中...' : '导出项目'}
+        </Button>
+      </div>
+
       {images.length > 0 && (
         <Button
           onClick={onBatchProcess}
-          disabled={isProcessing || isBatchProcessing || markedImages.length === 0}
+          disabled={isBusy || markedImages.length === 0}
           className="w-full text-xs"
           variant="default"
         >
@@ -53,6 +97,17 @@ const UploadSection: React.FC<UploadSectionProps> = ({
           {isBatchProcessing ? '批量处理中...' : `批量处理已完成标记图片 (${markedImages.length})`}
         </Button>
       )}
+
+      {hasBatchReport && (
+        <Button
+          onClick={onOpenBatchReport}
+          className="w-full text-xs"
+          variant="outline"
+        >
+          <ClipboardList className="h-4 w-4 mr-2" />
+          查看批量处理报告
+        </Button>
+      )}
     </div>
   );
 };
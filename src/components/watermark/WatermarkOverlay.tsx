@@ -1,32 +1,95 @@
+import React, { useMemo } from 'react';
+import { Check, X } from 'lucide-react';
+import { WatermarkMark, DragState, PaintMask, MarkingTool, DraftShape, SuggestedMark, TileLattice } from './types';
+import PaintMaskLayer from './PaintMaskLayer';
+import TileLatticeLayer from './TileLatticeLayer';
+import { getSelectionBounds } from './maskUtils';
+import { isPathMark } from './markGeometry';
 
-import React from 'react';
-import { WatermarkMark, DragState } from './types';
+// Area excluded from sampling (red-500), told apart from the blue repair mask
+const EXCLUSION_TINT: [number, number, number] = [239, 68, 68];
 
 interface WatermarkOverlayProps {
-  mark?: WatermarkMark;
+  marks: WatermarkMark[];
+  paintMask?: PaintMask;
+  sourceExclusion?: PaintMask;
+  suggestedMarks?: SuggestedMark[];
+  onAcceptSuggestion?: (markId: string) => void;
+  onRejectSuggestion?: (markId: string) => void;
+  tileLattice?: TileLattice;
+  onTileLatticeChange?: (lattice: TileLattice) => void;
   isMarkingMode: boolean;
-  selectedMark: boolean;
+  selectedMarkId: string | null;
+  markingTool: MarkingTool;
+  draftShape: DraftShape | null;
   zoom: number;
   dragState: DragState;
 }
 
 const WatermarkOverlay: React.FC<WatermarkOverlayProps> = ({
-  mark,
+  marks,
+  paintMask,
+  sourceExclusion,
+  suggestedMarks,
+  onAcceptSuggestion,
+  onRejectSuggestion,
+  tileLattice,
+  onTileLatticeChange,
   isMarkingMode,
-  selectedMark,
+  selectedMarkId,
+  markingTool,
+  draftShape,
   zoom,
   dragState
 }) => {
-  const renderWatermarkMark = () => {
-    if (!mark) return null;
+  const isBoxTool = markingTool === 'rect' || markingTool === 'ellipse';
+  const handleSize = `${Math.max(8, 12 / zoom)}px`;
+  const latticeInstance = useMemo(
+    () => tileLattice ? getSelectionBounds({ watermarkMarks: marks, paintMask }) : null,
+    [tileLattice, marks, paintMask]
+  );
+
+  // Path outlines are drawn in the mark's own box, so vertices are mapped to local percentages
+  const renderPathOutline = (mark: WatermarkMark, isSelected: boolean) => {
+    if (!isPathMark(mark)) return null;
+    const points = mark.points.map(point => `${(point.x - mark.x) / mark.width},${(point.y - mark.y) / mark.height}`).join(' ');
     return (
-      <div className="absolute pointer-events-none transition-all duration-150 ease-out" style={{ left: `${mark.x * 100}%`, top: `${mark.y * 100}%`, width: `${mark.width * 100}%`, height: `${mark.height * 100}%` }}>
-        <div className={`absolute inset-0 ${isMarkingMode ? 'bg-transparent' : 'bg-blue-500 bg-opacity-10'} transition-colors duration-200`} />
-        <div className="absolute inset-0 border-2 border-dashed border-blue-500 rounded-sm opacity-90 transition-all duration-200" style={{ borderWidth: `${Math.max(1, 2 / zoom)}px` }} />
-        {selectedMark && isMarkingMode && (
+      <>
+        <svg className="absolute inset-0 w-full h-full overflow-visible" viewBox="0 0 1 1" preserveAspectRatio="none">
+          <polygon
+            points={points}
+            className={`${isMarkingMode ? 'fill-transparent' : 'fill-blue-500/10'} ${isSelected && isMarkingMode ? 'stroke-blue-600' : 'stroke-blue-400'}`}
+            strokeWidth={Math.max(1, 2 / zoom)}
+            strokeDasharray="4 3"
+            vectorEffect="non-scaling-stroke"
+          />
+        </svg>
+        {isSelected && isMarkingMode && mark.points.map((point, index) => (
+          <div key={index} className="absolute bg-white border-2 border-blue-600 rounded-full pointer-events-auto hover:bg-blue-100 hover:scale-110 transition-all duration-150 shadow" style={{ left: `${(point.x - mark.x) / mark.width * 100}%`, top: `${(point.y - mark.y) / mark.height * 100}%`, width: handleSize, height: handleSize, transform: 'translate(-50%, -50%)', cursor: 'pointer' }} />
+        ))}
+      </>
+    );
+  };
+
+  const renderWatermarkMark = (mark: WatermarkMark, index: number) => {
+    const isSelected = mark.id === selectedMarkId;
+    return (
+      <div key={mark.id} className="absolute pointer-events-none transition-all duration-150 ease-out" style={{ left: `${mark.x * 100}%`, top: `${mark.y * 100}%`, width: `${mark.width * 100}%`, height: `${mark.height * 100}%` }}>
+        {isPathMark(mark) ? renderPathOutline(mark, isSelected) : (
+          <>
+            <div className={`absolute inset-0 ${isMarkingMode ? 'bg-transparent' : 'bg-blue-500 bg-opacity-10'} transition-colors duration-200`} style={mark.shape === 'ellipse' ? { borderRadius: '50%' } : undefined} />
+            <div className={`absolute inset-0 border-2 border-dashed rounded-sm opacity-90 transition-all duration-200 ${isSelected && isMarkingMode ? 'border-blue-600' : 'border-blue-400'}`} style={{ borderWidth: `${Math.max(1, 2 / zoom)}px`, ...(mark.shape === 'ellipse' ? { borderRadius: '50%' } : {}) }} />
+          </>
+        )}
+        {marks.length > 1 && (
+          <span className="absolute top-0 left-0 bg-blue-500 text-white rounded-br-sm leading-none px-1 py-0.5" style={{ fontSize: `${Math.max(8, 10 / zoom)}px` }}>
+            {index + 1}
+          </span>
+        )}
+        {isSelected && isMarkingMode && !isPathMark(mark) && (
           <>
             {[{ pos: 'nw', style: { top: -1, left: -1 }, cursor: 'nw-resize' }, { pos: 'ne', style: { top: -1, right: -1 }, cursor: 'ne-resize' }, { pos: 'sw', style: { bottom: -1, left: -1 }, cursor: 'sw-resize' }, { pos: 'se', style: { bottom: -1, right: -1 }, cursor: 'se-resize' }, { pos: 'n', style: { top: -0.5, left: '50%', transform: 'translateX(-50%)' }, cursor: 'ns-resize' }, { pos: 'e', style: { right: -0.5, top: '50%', transform: 'translateY(-50%)' }, cursor: 'ew-resize' }, { pos: 's', style: { bottom: -0.5, left: '50%', transform: 'translateX(-50%)' }, cursor: 'ns-resize' }, { pos: 'w', style: { left: -0.5, top: '50%', transform: 'translateY(-50%)' }, cursor: 'ew-resize' }].map(({ pos, style, cursor }) => (
-              <div key={pos} className="absolute bg-blue-600 border-2 border-white rounded-full pointer-events-auto hover:bg-blue-700 hover:scale-110 transition-all duration-150 shadow-lg" style={{ ...style, width: `${Math.max(8, 12 / zoom)}px`, height: `${Math.max(8, 12 / zoom)}px`, cursor }} />
+              <div key={pos} className="absolute bg-blue-600 border-2 border-white rounded-full pointer-events-auto hover:bg-blue-700 hover:scale-110 transition-all duration-150 shadow-lg" style={{ ...style, width: handleSize, height: handleSize, cursor }} />
             ))}
           </>
         )}
@@ -34,20 +97,78 @@ const WatermarkOverlay: React.FC<WatermarkOverlayProps> = ({
     );
   };
 
+  // Detector proposals stay dashed amber until the user accepts or rejects them
+  const renderSuggestedMark = ({ mark, confidence }: SuggestedMark) => (
+    <div key={mark.id} className="absolute pointer-events-none" style={{ left: `${mark.x * 100}%`, top: `${mark.y * 100}%`, width: `${mark.width * 100}%`, height: `${mark.height * 100}%` }}>
+      <div className="absolute inset-0 border-2 border-dashed border-amber-500 bg-amber-400/10 rounded-sm" style={{ borderWidth: `${Math.max(1, 2 / zoom)}px` }} />
+      <div className="absolute top-0 left-0 flex items-center gap-0.5 pointer-events-auto" style={{ transform: `scale(${1 / zoom})`, transformOrigin: 'top left' }}>
+        <span className="bg-amber-500 text-white text-[10px] leading-none px-1 py-1 rounded-br-sm">{Math.round(confidence * 100)}%</span>
+        <button type="button" title="接受" onClick={() => onAcceptSuggestion?.(mark.id)} className="h-4 w-4 flex items-center justify-center rounded-sm bg-green-600 text-white hover:bg-green-700">
+          <Check className="h-3 w-3" />
+        </button>
+        <button type="button" title="忽略" onClick={() => onRejectSuggestion?.(mark.id)} className="h-4 w-4 flex items-center justify-center rounded-sm bg-gray-500 text-white hover:bg-gray-600">
+          <X className="h-3 w-3" />
+        </button>
+      </div>
+    </div>
+  );
+
   const renderDragPreview = () => {
-    if (!isMarkingMode || !dragState.isDragging || selectedMark) return null;
+    if (!isMarkingMode || !dragState.isDragging || selectedMarkId || !isBoxTool) return null;
     const { startX, startY, currentX, currentY } = dragState;
     const left = Math.min(startX, currentX);
     const top = Math.min(startY, currentY);
     const width = Math.abs(currentX - startX);
     const height = Math.abs(currentY - startY);
-    return <div className="absolute border-2 border-dashed border-blue-500 bg-transparent pointer-events-none transition-all duration-75 rounded-sm" style={{ left: `${left * 100}%`, top: `${top * 100}%`, width: `${width * 100}%`, height: `${height * 100}%`, borderWidth: `${Math.max(1, 2 / zoom)}px` }} />;
+    return <div className="absolute border-2 border-dashed border-blue-500 bg-transparent pointer-events-none transition-all duration-75 rounded-sm" style={{ left: `${left * 100}%`, top: `${top * 100}%`, width: `${width * 100}%`, height: `${height * 100}%`, borderWidth: `${Math.max(1, 2 / zoom)}px`, ...(markingTool === 'ellipse' ? { borderRadius: '50%' } : {}) }} />;
+  };
+
+  // Open polygon or lasso; polygons also show a rubber band to the cursor
+  const renderDraftShape = () => {
+    if (!isMarkingMode || !draftShape || draftShape.points.length === 0) return null;
+    const points = draftShape.shape === 'polygon'
+      ? [...draftShape.points, { x: dragState.currentX, y: dragState.currentY }]
+      : draftShape.points;
+    const [first] = draftShape.points;
+    return (
+      <>
+        <svg className="absolute inset-0 w-full h-full pointer-events-none overflow-visible" viewBox="0 0 1 1" preserveAspectRatio="none">
+          <polyline
+            points={points.map(point => `${point.x},${point.y}`).join(' ')}
+            className="fill-blue-500/10 stroke-blue-500"
+            strokeWidth={Math.max(1, 2 / zoom)}
+            strokeDasharray="4 3"
+            vectorEffect="non-scaling-stroke"
+          />
+        </svg>
+        {draftShape.shape === 'polygon' && (
+          <div className="absolute bg-blue-600 border-2 border-white rounded-full pointer-events-none shadow" style={{ left: `${first.x * 100}%`, top: `${first.y * 100}%`, width: handleSize, height: handleSize, transform: 'translate(-50%, -50%)' }} />
+        )}
+      </>
+    );
   };
 
   return (
     <>
-      {renderWatermarkMark()}
+      {paintMask && paintMask.paintedPixels > 0 && (
+        <PaintMaskLayer mask={paintMask} isMarkingMode={isMarkingMode} />
+      )}
+      {sourceExclusion && sourceExclusion.paintedPixels > 0 && (
+        <PaintMaskLayer mask={sourceExclusion} isMarkingMode={isMarkingMode} tint={EXCLUSION_TINT} />
+      )}
+      {tileLattice && latticeInstance && (
+        <TileLatticeLayer
+          lattice={tileLattice}
+          instance={latticeInstance}
+          zoom={zoom}
+          editable={!!onTileLatticeChange && !isMarkingMode}
+          onChange={onTileLatticeChange}
+        />
+      )}
+      {marks.map(renderWatermarkMark)}
+      {suggestedMarks?.map(renderSuggestedMark)}
       {renderDragPreview()}
+      {renderDraftShape()}
     </>
   );
 };
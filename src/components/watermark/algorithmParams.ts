@@ -0,0 +1,50 @@
+// User-adjustable parameters of the local algorithms. Shared by the settings
+// panel and the processing workers, so no DOM or app singletons here.
+import { AlgorithmParams, ProcessingAlgorithm } from './types';
+
+export const DEFAULT_ALGORITHM_PARAMS: AlgorithmParams = {
+  patchSize: 9,
+  searchWindow: 48,
+  inpaintRadius: 5,
+  strokeDilation: 2,
+  seamBlending: false
+};
+
+export const ALGORITHM_PARAM_LIMITS = {
+  // Odd sizes only, so a patch has a centre pixel
+  patchSize: { min: 5, max: 21 },
+  searchWindow: { min: 16, max: 160 },
+  inpaintRadius: { min: 1, max: 20 },
+  strokeDilation: { min: 0, max: 8 }
+};
+
+export const isPatchAlgorithm = (algorithm: ProcessingAlgorithm) => algorithm === 'exemplar' || algorithm === 'patchmatch';
+
+export const isDiffusionAlgorithm = (algorithm: ProcessingAlgorithm) => algorithm === 'telea' || algorithm === 'navier-stokes';
+
+// Algorithms that read any of the parameters, so the settings panel is offered
+export const hasAlgorithmParams = (algorithm: ProcessingAlgorithm) => isPatchAlgorithm(algorithm) || isDiffusionAlgorithm(algorithm);
+
+const isIntegerInRange = (value: unknown, { min, max }: { min: number; max: number }): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+
+// Stored values come from sessionStorage; fields that are missing (saved by an
+// older version) or out of range fall back to their defaults one by one
+export const sanitizeAlgorithmParams = (value: unknown): AlgorithmParams => {
+  const stored = value && typeof value === 'object' ? value as Partial<Record<keyof AlgorithmParams, unknown>> : {};
+  return {
+    patchSize: isIntegerInRange(stored.patchSize, ALGORITHM_PARAM_LIMITS.patchSize) && stored.patchSize % 2 === 1
+      ? stored.patchSize
+      : DEFAULT_ALGORITHM_PARAMS.patchSize,
+    searchWindow: isIntegerInRange(stored.searchWindow, ALGORITHM_PARAM_LIMITS.searchWindow)
+      ? stored.searchWindow
+      : DEFAULT_ALGORITHM_PARAMS.searchWindow,
+    inpaintRadius: isIntegerInRange(stored.inpaintRadius, ALGORITHM_PARAM_LIMITS.inpaintRadius)
+      ? stored.inpaintRadius
+      : DEFAULT_ALGORITHM_PARAMS.inpaintRadius,
+    strokeDilation: isIntegerInRange(stored.strokeDilation, ALGORITHM_PARAM_LIMITS.strokeDilation)
+      ? stored.strokeDilation
+      : DEFAULT_ALGORITHM_PARAMS.strokeDilation,
+    seamBlending: typeof stored.seamBlending === 'boolean' ? stored.seamBlending : DEFAULT_ALGORITHM_PARAMS.seamBlending
+  };
+};
@@ -0,0 +1,381 @@
+// Semi-transparent watermark removal by inverting the blend
+// out = α·W + (1 - α)·I. The watermark layer (per-pixel α and colour W) is
+// estimated over a frame around the marked region, either from one image or
+// from the per-pixel statistics of several images sharing the watermark.
+// Pure typed-array code, like templateMatching.
+import { MaskRect } from './types';
+
+export interface RgbImage {
+  width: number;
+  height: number;
+  // Three interleaved channels per pixel, 0..255
+  data: Float32Array;
+}
+
+export interface WatermarkLayer {
+  width: number;
+  height: number;
+  // Opacity per pixel of the frame, 0 outside the watermark
+  alpha: Float32Array;
+  color: [number, number, number];
+}
+
+// Above this the original pixel is effectively gone and is inpainted instead
+export const ALPHA_OPAQUE_THRESHOLD = 0.85;
+// Images needed before per-pixel spread across the batch is meaningful
+export const MIN_BATCH_IMAGES = 3;
+
+// Unmasked border kept around the marked region for background statistics,
+// as a fraction of the region size
+const FRAME_MARGIN = 0.25;
+const BACKGROUND_MAX_SIZE = 64;
+const BACKGROUND_ITERATIONS = 300;
+// Deviations smaller than this (in grey levels) are treated as no watermark
+const MIN_DEVIATION = 4;
+
+const luminance = (r: number, g: number, b: number) => 0.299 * r + 0.587 * g + 0.114 * b;
+
+const median = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+// Marked bounds grown by the margin; may extend past the image, samplers clamp
+export const getLayerFrame = (bounds: MaskRect): MaskRect => {
+  const marginX = Math.max(4, bounds.width * FRAME_MARGIN);
+  const marginY = Math.max(4, bounds.height * FRAME_MARGIN);
+  return {
+    x: bounds.x - marginX,
+    y: bounds.y - marginY,
+    width: bounds.width + marginX * 2,
+    height: bounds.height + marginY * 2
+  };
+};
+
+// Bilinear resample of an RGBA buffer's `frame` (image pixels) to width x height
+export const sampleRgb = (data: Uint8ClampedArray, imageWidth: number, imageHeight: number, frame: MaskRect, width: number, height: number): RgbImage => {
+  const out = new Float32Array(width * height * 3);
+  for (let y = 0; y < height; y++) {
+    const sy = Math.max(0, Math.min(imageHeight - 1, frame.y + (y + 0.5) * frame.height / height - 0.5));
+    const y0 = Math.floor(sy);
+    const y1 = Math.min(imageHeight - 1, y0 + 1);
+    const fy = sy - y0;
+    for (let x = 0; x < width; x++) {
+      const sx = Math.max(0, Math.min(imageWidth - 1, frame.x + (x + 0.5) * frame.width / width - 0.5));
+      const x0 = Math.floor(sx);
+      const x1 = Math.min(imageWidth - 1, x0 + 1);
+      const fx = sx - x0;
+      for (let c = 0; c < 3; c++) {
+        const top = data[(y0 * imageWidth + x0) * 4 + c] * (1 - fx) + data[(y0 * imageWidth + x1) * 4 + c] * fx;
+        const bottom = data[(y1 * imageWidth + x0) * 4 + c] * (1 - fx) + data[(y1 * imageWidth + x1) * 4 + c] * fx;
+        out[(y * width + x) * 3 + c] = top * (1 - fy) + bottom * fy;
+      }
+    }
+  }
+  return { width, height, data: out };
+};
+
+// Nearest-neighbour resample of a mask's `frame`; pixels outside the image are unmasked
+export const sampleMask = (mask: Uint8Array, imageWidth: number, imageHeight: number, frame: MaskRect, width: number, height: number): Uint8Array => {
+  const out = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const sy = Math.floor(frame.y + (y + 0.5) * frame.height / height);
+    if (sy < 0 || sy >= imageHeight) continue;
+    for (let x = 0; x < width; x++) {
+      const sx = Math.floor(frame.x + (x + 0.5) * frame.width / width);
+      if (sx >= 0 && sx < imageWidth && mask[sy * imageWidth + sx]) out[y * width + x] = 255;
+    }
+  }
+  return out;
+};
+
+// Smooth background under the mask: a membrane (Laplace) fill from the unmasked
+// border, solved on a small grid and interpolated back up
+const fillBackground = (image: RgbImage, mask: Uint8Array): RgbImage => {
+  const { width, height } = image;
+  const scale = Math.min(1, BACKGROUND_MAX_SIZE / Math.max(width, height));
+  const gw = Math.max(2, Math.round(width * scale));
+  const gh = Math.max(2, Math.round(height * scale));
+
+  // A grid cell is known only if none of the pixels it covers are masked
+  const sums = new Float64Array(gw * gh * 3);
+  const counts = new Uint32Array(gw * gh);
+  const unknown = new Uint8Array(gw * gh);
+  for (let y = 0; y < height; y++) {
+    const gy = Math.min(gh - 1, Math.floor(y * gh / height));
+    for (let x = 0; x < width; x++) {
+      const cell = gy * gw + Math.min(gw - 1, Math.floor(x * gw / width));
+      if (mask[y * width + x]) {
+        unknown[cell] = 1;
+        continue;
+      }
+      counts[cell]++;
+      for (let c = 0; c < 3; c++) sums[cell * 3 + c] += image.data[(y * width + x) * 3 + c];
+    }
+  }
+
+  const grid = new Float32Array(gw * gh * 3);
+  const mean = [0, 0, 0];
+  let known = 0;
+  for (let cell = 0; cell < gw * gh; cell++) {
+    if (unknown[cell] || counts[cell] === 0) {
+      unknown[cell] = 1;
+      continue;
+    }
+    known++;
+    for (let c = 0; c < 3; c++) {
+      grid[cell * 3 + c] = sums[cell * 3 + c] / counts[cell];
+      mean[c] += grid[cell * 3 + c];
+    }
+  }
+  for (let c = 0; c < 3; c++) mean[c] = known > 0 ? mean[c] / known : 128;
+  for (let cell = 0; cell < gw * gh; cell++) {
+    if (unknown[cell]) for (let c = 0; c < 3; c++) grid[cell * 3 + c] = mean[c];
+  }
+
+  // Gauss-Seidel sweeps over the unknown cells only
+  for (let iteration = 0; iteration < BACKGROUND_ITERATIONS; iteration++) {
+    for (let y = 0; y < gh; y++) {
+      for (let x = 0; x < gw; x++) {
+        const cell = y * gw + x;
+        if (!unknown[cell]) continue;
+        for (let c = 0; c < 3; c++) {
+          let total = 0;
+          let n = 0;
+          if (x > 0) { total += grid[(cell - 1) * 3 + c]; n++; }
+          if (x < gw - 1) { total += grid[(cell + 1) * 3 + c]; n++; }
+          if (y > 0) { total += grid[(cell - gw) * 3 + c]; n++; }
+          if (y < gh - 1) { total += grid[(cell + gw) * 3 + c]; n++; }
+          grid[cell * 3 + c] = total / n;
+        }
+      }
+    }
+  }
+
+  const out = new Float32Array(width * height * 3);
+  for (let y = 0; y < height; y++) {
+    const sy = Math.max(0, Math.min(gh - 1, (y + 0.5) * gh / height - 0.5));
+    const y0 = Math.floor(sy);
+    const y1 = Math.min(gh - 1, y0 + 1);
+    const fy = sy - y0;
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 3;
+      if (!mask[y * width + x]) {
+        out.set(image.data.subarray(i, i + 3), i);
+        continue;
+      }
+      const sx = Math.max(0, Math.min(gw - 1, (x + 0.5) * gw / width - 0.5));
+      const x0 = Math.floor(sx);
+      const x1 = Math.min(gw - 1, x0 + 1);
+      const fx = sx - x0;
+      for (let c = 0; c < 3; c++) {
+        const top = grid[(y0 * gw + x0) * 3 + c] * (1 - fx) + grid[(y0 * gw + x1) * 3 + c] * fx;
+        const bottom = grid[(y1 * gw + x0) * 3 + c] * (1 - fx) + grid[(y1 * gw + x1) * 3 + c] * fx;
+        out[i + c] = top * (1 - fy) + bottom * fy;
+      }
+    }
+  }
+  return { width, height, data: out };
+};
+
+// 3x3 median over masked pixels, so texture of the underlying image does not leak into α
+const smoothAlpha = (alpha: Float32Array, mask: Uint8Array, width: number, height: number): Float32Array => {
+  const out = new Float32Array(alpha.length);
+  const window: number[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!mask[y * width + x]) continue;
+      window.length = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx >= 0 && nx < width && ny >= 0 && ny < height && mask[ny * width + nx]) {
+            window.push(alpha[ny * width + nx]);
+          }
+        }
+      }
+      out[y * width + x] = median(window);
+    }
+  }
+  return out;
+};
+
+// α per pixel from projecting the deviation from the background onto W - B
+const projectAlpha = (observed: RgbImage, background: RgbImage, mask: Uint8Array, color: [number, number, number]): Float32Array => {
+  const { width, height } = observed;
+  const alpha = new Float32Array(width * height);
+  for (let p = 0; p < width * height; p++) {
+    if (!mask[p]) continue;
+    let dot = 0;
+    let norm = 0;
+    for (let c = 0; c < 3; c++) {
+      const toWatermark = color[c] - background.data[p * 3 + c];
+      dot += (observed.data[p * 3 + c] - background.data[p * 3 + c]) * toWatermark;
+      norm += toWatermark * toWatermark;
+    }
+    alpha[p] = norm > 100 ? Math.max(0, Math.min(1, dot / norm)) : 0;
+  }
+  return smoothAlpha(alpha, mask, width, height);
+};
+
+// Watermark colour assumed on the boundary of the RGB cube, along the direction
+// the strongest watermark pixels deviate from the background
+const estimateColorFromDeviation = (observed: RgbImage, background: RgbImage, mask: Uint8Array): [number, number, number] | null => {
+  const deviations: Array<{ p: number; amount: number }> = [];
+  for (let p = 0; p < observed.width * observed.height; p++) {
+    if (!mask[p]) continue;
+    const i = p * 3;
+    const amount = luminance(
+      observed.data[i] - background.data[i],
+      observed.data[i + 1] - background.data[i + 1],
+      observed.data[i + 2] - background.data[i + 2]
+    );
+    deviations.push({ p, amount });
+  }
+  if (deviations.length === 0) return null;
+
+  deviations.sort((a, b) => Math.abs(b.amount) - Math.abs(a.amount));
+  const strongest = deviations.slice(0, Math.max(1, Math.ceil(deviations.length * 0.1)));
+  if (Math.abs(median(strongest.map(d => d.amount))) < MIN_DEVIATION) return null;
+
+  const candidates: number[][] = [[], [], []];
+  for (const { p } of strongest) {
+    const i = p * 3;
+    let reach = Infinity;
+    for (let c = 0; c < 3; c++) {
+      const delta = observed.data[i + c] - background.data[i + c];
+      if (delta > 1e-3) reach = Math.min(reach, (255 - background.data[i + c]) / delta);
+      else if (delta < -1e-3) reach = Math.min(reach, background.data[i + c] / -delta);
+    }
+    if (!isFinite(reach) || reach < 1) continue;
+    for (let c = 0; c < 3; c++) {
+      candidates[c].push(background.data[i + c] + reach * (observed.data[i + c] - background.data[i + c]));
+    }
+  }
+  if (candidates[0].length === 0) return null;
+  return [median(candidates[0]), median(candidates[1]), median(candidates[2])];
+};
+
+// Single image: α and W from the marked region against its smoothed surroundings
+export const estimateLayerFromImage = (crop: RgbImage, mask: Uint8Array): WatermarkLayer | null => {
+  const background = fillBackground(crop, mask);
+  const color = estimateColorFromDeviation(crop, background, mask);
+  if (!color) return null;
+  return {
+    width: crop.width,
+    height: crop.height,
+    alpha: projectAlpha(crop, background, mask, color),
+    color
+  };
+};
+
+// Several images with the same watermark (crops resampled to one frame). Away
+// from the watermark the per-pixel mean and spread across images match the
+// unmasked border; under it the mean is pulled towards W and the spread shrinks
+// by exactly (1 - α), which gives both without a background model.
+export const estimateLayerFromBatch = (crops: RgbImage[], mask: Uint8Array): WatermarkLayer | null => {
+  if (crops.length < MIN_BATCH_IMAGES) {
+    return crops.length > 0 ? estimateLayerFromImage(crops[0], mask) : null;
+  }
+  const { width, height } = crops[0];
+  const pixelCount = width * height;
+  const meanImage = new Float32Array(pixelCount * 3);
+  const spread = new Float32Array(pixelCount);
+
+  for (let p = 0; p < pixelCount; p++) {
+    let lumSum = 0;
+    let lumSumSq = 0;
+    for (const crop of crops) {
+      const i = p * 3;
+      for (let c = 0; c < 3; c++) meanImage[i + c] += crop.data[i + c] / crops.length;
+      const lum = luminance(crop.data[i], crop.data[i + 1], crop.data[i + 2]);
+      lumSum += lum;
+      lumSumSq += lum * lum;
+    }
+    const lumMean = lumSum / crops.length;
+    spread[p] = Math.sqrt(Math.max(0, lumSumSq / crops.length - lumMean * lumMean));
+  }
+
+  // Reference statistics of the unwatermarked content, from the border
+  const referenceMean = [0, 0, 0];
+  const borderSpreads: number[] = [];
+  for (let p = 0; p < pixelCount; p++) {
+    if (mask[p]) continue;
+    borderSpreads.push(spread[p]);
+    for (let c = 0; c < 3; c++) referenceMean[c] += meanImage[p * 3 + c];
+  }
+  const observed: RgbImage = { width, height, data: meanImage };
+  const referenceSpread = median(borderSpreads);
+  // Images too alike to tell the watermark from the content: use the mean image alone
+  if (borderSpreads.length === 0 || referenceSpread < 2) return estimateLayerFromImage(observed, mask);
+  for (let c = 0; c < 3; c++) referenceMean[c] /= borderSpreads.length;
+
+  const rawAlpha = new Float32Array(pixelCount);
+  for (let p = 0; p < pixelCount; p++) {
+    if (mask[p]) rawAlpha[p] = 1 - Math.min(1, spread[p] / referenceSpread);
+  }
+  const alpha = smoothAlpha(rawAlpha, mask, width, height);
+
+  const candidates: number[][] = [[], [], []];
+  for (let p = 0; p < pixelCount; p++) {
+    if (!mask[p] || alpha[p] < 0.3) continue;
+    for (let c = 0; c < 3; c++) {
+      const value = (meanImage[p * 3 + c] - (1 - alpha[p]) * referenceMean[c]) / alpha[p];
+      candidates[c].push(Math.max(0, Math.min(255, value)));
+    }
+  }
+  if (candidates[0].length < 8) return estimateLayerFromImage(observed, mask);
+
+  // Spread is too noisy with a handful of images for α itself, so α is taken
+  // from the mean image, whose content is smooth enough for a background fill
+  const color: [number, number, number] = [median(candidates[0]), median(candidates[1]), median(candidates[2])];
+  const background = fillBackground(observed, mask);
+  return { width, height, alpha: projectAlpha(observed, background, mask, color), color };
+};
+
+// Restores masked pixels in place from the layer placed over `frame` (image
+// pixels). Returns the mask of pixels too opaque to recover, for inpainting.
+export const invertAlphaBlend = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  mask: Uint8Array,
+  frame: MaskRect,
+  layer: WatermarkLayer
+): Uint8Array => {
+  const opaque = new Uint8Array(width * height);
+  const left = Math.max(0, Math.floor(frame.x));
+  const top = Math.max(0, Math.floor(frame.y));
+  const right = Math.min(width, Math.ceil(frame.x + frame.width));
+  const bottom = Math.min(height, Math.ceil(frame.y + frame.height));
+  const { alpha: alphaMap, color } = layer;
+
+  for (let y = top; y < bottom; y++) {
+    const ly = Math.max(0, Math.min(layer.height - 1, (y + 0.5 - frame.y) * layer.height / frame.height - 0.5));
+    const y0 = Math.floor(ly);
+    const y1 = Math.min(layer.height - 1, y0 + 1);
+    const fy = ly - y0;
+    for (let x = left; x < right; x++) {
+      const p = y * width + x;
+      if (!mask[p]) continue;
+      const lx = Math.max(0, Math.min(layer.width - 1, (x + 0.5 - frame.x) * layer.width / frame.width - 0.5));
+      const x0 = Math.floor(lx);
+      const x1 = Math.min(layer.width - 1, x0 + 1);
+      const fx = lx - x0;
+      const alpha =
+        (alphaMap[y0 * layer.width + x0] * (1 - fx) + alphaMap[y0 * layer.width + x1] * fx) * (1 - fy) +
+        (alphaMap[y1 * layer.width + x0] * (1 - fx) + alphaMap[y1 * layer.width + x1] * fx) * fy;
+
+      if (alpha >= ALPHA_OPAQUE_THRESHOLD) {
+        opaque[p] = 255;
+      } else if (alpha > 0.01) {
+        for (let c = 0; c < 3; c++) {
+          data[p * 4 + c] = (data[p * 4 + c] - alpha * color[c]) / (1 - alpha);
+        }
+      }
+    }
+  }
+  return opaque;
+};
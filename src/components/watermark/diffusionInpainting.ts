@@ -0,0 +1,308 @@
+// Inpainting by propagation from the boundary of the hole, for thin masks such
+// as text overlays and date stamps that need no patch synthesis. Telea (2004)
+// visits the hole in fast-marching order, nearest to the boundary first, and
+// sets every pixel to a weighted mean of the known pixels within the inpaint
+// radius, each extrapolated along its own gradient. The Navier-Stokes variant
+// (Bertalmio, Bertozzi and Sapiro 2001) starts from that fill and transports
+// the smoothness of the surroundings along the isophotes into the hole, which
+// continues edges that run into a stroke instead of blurring them.
+import type { PixelBuffer, ProgressCallback } from './pixelAlgorithms';
+
+export interface DiffusionSettings {
+  // Neighbourhood each hole pixel is estimated from, in pixels
+  radius: number;
+}
+
+// Pixel states of the fast-marching front
+const KNOWN = 0;
+const BAND = 1;
+const INSIDE = 2;
+
+// Weighted contributions along the level line still count a little
+const DIRECTION_FLOOR = 1e-6;
+
+// Transport steps of the Navier-Stokes pass, with a short diffusion every
+// DIFFUSION_INTERVAL steps to keep the isophote directions stable
+const TRANSPORT_ITERATIONS = 240;
+const TRANSPORT_STEP = 0.1;
+const DIFFUSION_INTERVAL = 15;
+const DIFFUSION_STEPS = 2;
+const DIFFUSION_STEP = 0.2;
+// Edge-stopping contrast of the diffusion, on the 0..1 scale
+const DIFFUSION_CONTRAST = 0.08;
+// Share of the Navier-Stokes progress taken by the initial Telea fill
+const INITIAL_FILL_SHARE = 20;
+
+// Binary min-heap of pixel indices keyed by their arrival time
+const createHeap = (capacity: number) => {
+  const keys = new Float32Array(capacity);
+  const items = new Int32Array(capacity);
+  let length = 0;
+
+  const push = (key: number, item: number) => {
+    let i = length++;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (keys[parent] <= key) break;
+      keys[i] = keys[parent];
+      items[i] = items[parent];
+      i = parent;
+    }
+    keys[i] = key;
+    items[i] = item;
+  };
+
+  const pop = (): number => {
+    const top = items[0];
+    const lastKey = keys[--length];
+    const lastItem = items[length];
+    let i = 0;
+    while (true) {
+      let child = i * 2 + 1;
+      if (child >= length) break;
+      if (child + 1 < length && keys[child + 1] < keys[child]) child++;
+      if (keys[child] >= lastKey) break;
+      keys[i] = keys[child];
+      items[i] = items[child];
+      i = child;
+    }
+    keys[i] = lastKey;
+    items[i] = lastItem;
+    return top;
+  };
+
+  return { push, pop, isEmpty: () => length === 0 };
+};
+
+// Offsets of the disc the Telea estimate samples, without its centre
+const getDiscOffsets = (radius: number) => {
+  const offsets: Array<[number, number]> = [];
+  for (let dy = -radius; dy <= radius; dy++) {
+    for (let dx = -radius; dx <= radius; dx++) {
+      if ((dx !== 0 || dy !== 0) && dx * dx + dy * dy <= radius * radius) offsets.push([dx, dy]);
+    }
+  }
+  return offsets;
+};
+
+// Central difference where both neighbours are usable, one-sided where only one is
+const slope = (previous: number, center: number, next: number, hasPrevious: boolean, hasNext: boolean) => {
+  if (hasPrevious && hasNext) return (next - previous) / 2;
+  if (hasNext) return next - center;
+  if (hasPrevious) return center - previous;
+  return 0;
+};
+
+// Fills the masked pixels in place with Telea's fast marching method
+export const inpaintTelea = (image: PixelBuffer, mask: Uint8Array, { radius }: DiffusionSettings, onProgress?: ProgressCallback): void => {
+  const { data, width, height } = image;
+  const size = width * height;
+  const flags = new Uint8Array(size);
+  const arrival = new Float32Array(size);
+  let remaining = 0;
+  for (let i = 0; i < size; i++) {
+    if (mask[i]) {
+      flags[i] = INSIDE;
+      arrival[i] = Infinity;
+      remaining++;
+    }
+  }
+  // Nothing known to propagate from
+  if (remaining === 0 || remaining === size) return;
+  const total = remaining;
+
+  // The initial front: known pixels next to the hole, at distance 0
+  const heap = createHeap(size);
+  for (let i = 0; i < size; i++) {
+    if (flags[i] !== KNOWN) continue;
+    const x = i % width;
+    if ((x > 0 && flags[i - 1] === INSIDE) || (x < width - 1 && flags[i + 1] === INSIDE) ||
+      (i >= width && flags[i - width] === INSIDE) || (i < size - width && flags[i + width] === INSIDE)) {
+      flags[i] = BAND;
+      heap.push(0, i);
+    }
+  }
+
+  const isSet = (x: number, y: number) => x >= 0 && x < width && y >= 0 && y < height && flags[y * width + x] !== INSIDE;
+  const timeAt = (x: number, y: number) => isSet(x, y) ? arrival[y * width + x] : Infinity;
+
+  // First-order solution of |∇T| = 1 from the smaller neighbour on each axis
+  const solveArrival = (x: number, y: number) => {
+    const horizontal = Math.min(timeAt(x - 1, y), timeAt(x + 1, y));
+    const vertical = Math.min(timeAt(x, y - 1), timeAt(x, y + 1));
+    const difference = Math.abs(horizontal - vertical);
+    if (!(difference < 1)) return Math.min(horizontal, vertical) + 1;
+    return (horizontal + vertical + Math.sqrt(2 - difference * difference)) / 2;
+  };
+
+  const offsets = getDiscOffsets(Math.max(1, Math.round(radius)));
+  const sums = new Float64Array(4);
+
+  const fillPixel = (x: number, y: number) => {
+    const i = y * width + x;
+    const t = arrival[i];
+    const gradientTX = slope(timeAt(x - 1, y), t, timeAt(x + 1, y), isSet(x - 1, y), isSet(x + 1, y));
+    const gradientTY = slope(timeAt(x, y - 1), t, timeAt(x, y + 1), isSet(x, y - 1), isSet(x, y + 1));
+    const gradientTLength = Math.hypot(gradientTX, gradientTY);
+
+    sums.fill(0);
+    let weightSum = 0;
+    for (const [dx, dy] of offsets) {
+      const qx = x + dx;
+      const qy = y + dy;
+      if (!isSet(qx, qy)) continue;
+      const q = qy * width + qx;
+      // From the sample towards the pixel being filled
+      const rx = -dx;
+      const ry = -dy;
+      const distanceSquared = rx * rx + ry * ry;
+      const direction = gradientTLength > 0
+        ? Math.max(DIRECTION_FLOOR, Math.abs(rx * gradientTX + ry * gradientTY) / Math.sqrt(distanceSquared) / gradientTLength)
+        : 1;
+      const level = 1 / (1 + Math.abs(arrival[q] - t));
+      const weight = direction * level / distanceSquared;
+
+      const hasLeft = isSet(qx - 1, qy);
+      const hasRight = isSet(qx + 1, qy);
+      const hasUp = isSet(qx, qy - 1);
+      const hasDown = isSet(qx, qy + 1);
+      for (let c = 0; c < 4; c++) {
+        const value = data[q * 4 + c];
+        const gradientX = slope(hasLeft ? data[(q - 1) * 4 + c] : 0, value, hasRight ? data[(q + 1) * 4 + c] : 0, hasLeft, hasRight);
+        const gradientY = slope(hasUp ? data[(q - width) * 4 + c] : 0, value, hasDown ? data[(q + width) * 4 + c] : 0, hasUp, hasDown);
+        sums[c] += weight * (value + gradientX * rx + gradientY * ry);
+      }
+      weightSum += weight;
+    }
+    if (weightSum === 0) return;
+    for (let c = 0; c < 4; c++) data[i * 4 + c] = sums[c] / weightSum;
+  };
+
+  while (!heap.isEmpty()) {
+    const i = heap.pop();
+    if (flags[i] === KNOWN) continue;
+    flags[i] = KNOWN;
+    const x = i % width;
+    const y = (i - x) / width;
+    const neighbours: Array<[number, number]> = [[x - 1, y], [x + 1, y], [x, y - 1], [x, y + 1]];
+    for (const [nx, ny] of neighbours) {
+      if (nx < 0 || nx >= width || ny < 0 || ny >= height) continue;
+      const n = ny * width + nx;
+      if (flags[n] !== INSIDE) continue;
+      arrival[n] = solveArrival(nx, ny);
+      fillPixel(nx, ny);
+      flags[n] = BAND;
+      heap.push(arrival[n], n);
+      remaining--;
+      if (onProgress && remaining % 1024 === 0) onProgress((total - remaining) / total * 100);
+    }
+  }
+};
+
+// Fills the masked pixels in place: a Telea fill refined by isophote transport
+export const inpaintNavierStokes = (image: PixelBuffer, mask: Uint8Array, settings: DiffusionSettings, onProgress?: ProgressCallback): void => {
+  const { data, width, height } = image;
+  inpaintTelea(image, mask, settings, onProgress && (progress => onProgress(progress * INITIAL_FILL_SHARE / 100)));
+
+  // The hole's box plus two pixels, the reach of the Laplacian's differences
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let i = 0; i < width * height; i++) {
+    if (!mask[i]) continue;
+    const x = i % width;
+    const y = (i - x) / width;
+    if (x < minX) minX = x;
+    if (x > maxX) maxX = x;
+    if (y < minY) minY = y;
+    if (y > maxY) maxY = y;
+  }
+  if (maxX < 0) return;
+  const left = Math.max(0, minX - 2);
+  const top = Math.max(0, minY - 2);
+  const boxWidth = Math.min(width - 1, maxX + 2) - left + 1;
+  const boxHeight = Math.min(height - 1, maxY + 2) - top + 1;
+  const boxSize = boxWidth * boxHeight;
+
+  // Hole pixels with all four neighbours inside the box; the transport only moves these
+  const hole: number[] = [];
+  for (let y = 1; y < boxHeight - 1; y++) {
+    for (let x = 1; x < boxWidth - 1; x++) {
+      if (mask[(top + y) * width + left + x]) hole.push(y * boxWidth + x);
+    }
+  }
+  if (hole.length === 0) return;
+
+  const values = new Float32Array(boxSize);
+  const laplacian = new Float32Array(boxSize);
+  const update = new Float32Array(hole.length);
+
+  const transport = () => {
+    for (let y = 1; y < boxHeight - 1; y++) {
+      for (let i = y * boxWidth + 1, end = y * boxWidth + boxWidth - 1; i < end; i++) {
+        laplacian[i] = values[i - 1] + values[i + 1] + values[i - boxWidth] + values[i + boxWidth] - 4 * values[i];
+      }
+    }
+    hole.forEach((i, k) => {
+      const backwardX = values[i] - values[i - 1];
+      const forwardX = values[i + 1] - values[i];
+      const backwardY = values[i] - values[i - boxWidth];
+      const forwardY = values[i + boxWidth] - values[i];
+      const gradientX = (forwardX + backwardX) / 2;
+      const gradientY = (forwardY + backwardY) / 2;
+      const gradientLength = Math.hypot(gradientX, gradientY);
+      if (gradientLength < 1e-6) {
+        update[k] = 0;
+        return;
+      }
+      // Change of smoothness projected on the isophote direction (-Iy, Ix)
+      const smoothnessX = laplacian[i + 1] - laplacian[i - 1];
+      const smoothnessY = laplacian[i + boxWidth] - laplacian[i - boxWidth];
+      const beta = (-smoothnessX * gradientY + smoothnessY * gradientX) / gradientLength;
+      // Upwind gradient magnitude, so the scheme stays stable at edges
+      const magnitude = beta > 0
+        ? Math.sqrt(Math.min(backwardX, 0) ** 2 + Math.max(forwardX, 0) ** 2 + Math.min(backwardY, 0) ** 2 + Math.max(forwardY, 0) ** 2)
+        : Math.sqrt(Math.max(backwardX, 0) ** 2 + Math.min(forwardX, 0) ** 2 + Math.max(backwardY, 0) ** 2 + Math.min(forwardY, 0) ** 2);
+      update[k] = TRANSPORT_STEP * beta * magnitude;
+    });
+    hole.forEach((i, k) => {
+      values[i] = Math.min(1, Math.max(0, values[i] + update[k]));
+    });
+  };
+
+  // Perona-Malik diffusion: smooths within regions but not across edges
+  const conductance = (difference: number) => 1 / (1 + (difference / DIFFUSION_CONTRAST) ** 2);
+  const diffuse = () => {
+    hole.forEach((i, k) => {
+      let flux = 0;
+      for (const neighbour of [i - 1, i + 1, i - boxWidth, i + boxWidth]) {
+        const difference = values[neighbour] - values[i];
+        flux += conductance(difference) * difference;
+      }
+      update[k] = DIFFUSION_STEP * flux;
+    });
+    hole.forEach((i, k) => {
+      values[i] = Math.min(1, Math.max(0, values[i] + update[k]));
+    });
+  };
+
+  for (let c = 0; c < 3; c++) {
+    for (let y = 0; y < boxHeight; y++) {
+      for (let x = 0; x < boxWidth; x++) {
+        values[y * boxWidth + x] = data[((top + y) * width + left + x) * 4 + c] / 255;
+      }
+    }
+    for (let iteration = 0; iteration < TRANSPORT_ITERATIONS; iteration++) {
+      transport();
+      if (iteration % DIFFUSION_INTERVAL === DIFFUSION_INTERVAL - 1) {
+        for (let step = 0; step < DIFFUSION_STEPS; step++) diffuse();
+      }
+      if (onProgress && iteration % 16 === 15) {
+        onProgress(INITIAL_FILL_SHARE + (100 - INITIAL_FILL_SHARE) * (c * TRANSPORT_ITERATIONS + iteration + 1) / (3 * TRANSPORT_ITERATIONS));
+      }
+    }
+    hole.forEach(i => {
+      const x = i % boxWidth;
+      const y = (i - x) / boxWidth;
+      data[((top + y) * width + left + x) * 4 + c] = Math.round(values[i] * 255);
+    });
+  }
+};
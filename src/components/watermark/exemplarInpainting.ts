@@ -0,0 +1,197 @@
+// Exemplar-based inpainting after Criminisi, Pérez and Toyama (2004). The hole
+// is filled patch by patch from its boundary inwards, always continuing where
+// the surroundings are most reliable (confidence term) and where an edge runs
+// into the hole (data term), with the best matching patch from the known
+// pixels. Copying whole patches continues brick, text lines and fabric instead
+// of averaging them, and the fill order carries straight edges across the hole.
+import type { PixelBuffer, ProgressCallback } from './pixelAlgorithms';
+import { buildPatchSourceMap } from './maskUtils';
+
+export interface ExemplarSettings {
+  patchSize: number;
+  searchWindow: number;
+  // Pixels no patch may be copied from, at the buffer's size
+  exclusion?: Uint8Array;
+}
+
+// Keeps the fill moving along the boundary where there is no edge to follow
+const DATA_TERM_FLOOR = 0.01;
+
+// Fills the masked pixels in place. Returns false when the buffer holds no
+// complete patch outside the mask and the exclusion to copy from.
+export const inpaintExemplar = (image: PixelBuffer, mask: Uint8Array, { patchSize, searchWindow, exclusion }: ExemplarSettings, onProgress?: ProgressCallback): boolean => {
+  const { data, width, height } = image;
+  const half = Math.max(1, Math.floor(patchSize / 2));
+  const size = width * height;
+
+  const unfilled = new Uint8Array(size);
+  const confidence = new Float32Array(size);
+  const gray = new Float32Array(size);
+  let remaining = 0;
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let i = 0; i < size; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+    if (mask[i]) {
+      unfilled[i] = 1;
+      remaining++;
+      const x = i % width;
+      const y = (i - x) / width;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    } else {
+      confidence[i] = 1;
+    }
+  }
+  if (remaining === 0) return true;
+
+  const source = buildPatchSourceMap([mask, exclusion], width, height, half);
+  if (!source.includes(1)) return false;
+  const total = remaining;
+
+  const patchConfidence = (x: number, y: number) => {
+    let sum = 0;
+    for (let dy = -half; dy <= half; dy++) {
+      const py = y + dy;
+      if (py < 0 || py >= height) continue;
+      for (let dx = -half; dx <= half; dx++) {
+        const px = x + dx;
+        if (px >= 0 && px < width) sum += confidence[py * width + px];
+      }
+    }
+    return sum / ((2 * half + 1) * (2 * half + 1));
+  };
+
+  // Strongest isophote (the gradient turned by 90°) among the known pixels of the
+  // patch, projected on the normal of the fill front
+  const dataTerm = (x: number, y: number) => {
+    let normalX = 0;
+    let normalY = 0;
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        const px = Math.min(width - 1, Math.max(0, x + dx));
+        const py = Math.min(height - 1, Math.max(0, y + dy));
+        const weight = unfilled[py * width + px];
+        normalX += dx * weight * (dy === 0 ? 2 : 1);
+        normalY += dy * weight * (dx === 0 ? 2 : 1);
+      }
+    }
+    const normalLength = Math.hypot(normalX, normalY);
+    if (normalLength === 0) return 0;
+
+    let gradientX = 0;
+    let gradientY = 0;
+    let strongest = 0;
+    for (let dy = -half; dy <= half; dy++) {
+      const py = y + dy;
+      if (py < 1 || py >= height - 1) continue;
+      for (let dx = -half; dx <= half; dx++) {
+        const px = x + dx;
+        if (px < 1 || px >= width - 1) continue;
+        const i = py * width + px;
+        if (unfilled[i] || unfilled[i - 1] || unfilled[i + 1] || unfilled[i - width] || unfilled[i + width]) continue;
+        const gx = (gray[i + 1] - gray[i - 1]) / 2;
+        const gy = (gray[i + width] - gray[i - width]) / 2;
+        const magnitude = gx * gx + gy * gy;
+        if (magnitude > strongest) {
+          strongest = magnitude;
+          gradientX = gx;
+          gradientY = gy;
+        }
+      }
+    }
+    return Math.abs(-gradientY * normalX + gradientX * normalY) / normalLength / 255;
+  };
+
+  // Lowest sum of squared differences over the known pixels of the target patch
+  const findExemplar = (x: number, y: number, window: number): number => {
+    const offsets: number[] = [];
+    for (let dy = -half; dy <= half; dy++) {
+      const py = y + dy;
+      if (py < 0 || py >= height) continue;
+      for (let dx = -half; dx <= half; dx++) {
+        const px = x + dx;
+        if (px >= 0 && px < width && !unfilled[py * width + px]) offsets.push(dy * width + dx);
+      }
+    }
+    const target = y * width + x;
+    let best = -1;
+    let bestDistance = Infinity;
+    const top = Math.max(half, y - window);
+    const bottom = Math.min(height - half - 1, y + window);
+    const left = Math.max(half, x - window);
+    const right = Math.min(width - half - 1, x + window);
+    for (let cy = top; cy <= bottom; cy++) {
+      for (let cx = left; cx <= right; cx++) {
+        const candidate = cy * width + cx;
+        if (!source[candidate]) continue;
+        let distance = 0;
+        for (let k = 0; k < offsets.length && distance < bestDistance; k++) {
+          const s = (candidate + offsets[k]) * 4;
+          const t = (target + offsets[k]) * 4;
+          const dr = data[s] - data[t];
+          const dg = data[s + 1] - data[t + 1];
+          const db = data[s + 2] - data[t + 2];
+          distance += dr * dr + dg * dg + db * db;
+        }
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          best = candidate;
+        }
+      }
+    }
+    return best;
+  };
+
+  while (remaining > 0) {
+    // The front is every unfilled pixel next to a known one
+    let target = -1;
+    let targetPriority = -1;
+    for (let y = minY; y <= maxY; y++) {
+      for (let x = minX; x <= maxX; x++) {
+        const i = y * width + x;
+        if (!unfilled[i]) continue;
+        const onFront = (x > 0 && !unfilled[i - 1]) || (x < width - 1 && !unfilled[i + 1]) ||
+          (y > 0 && !unfilled[i - width]) || (y < height - 1 && !unfilled[i + width]);
+        if (!onFront) continue;
+        const priority = patchConfidence(x, y) * (dataTerm(x, y) + DATA_TERM_FLOOR);
+        if (priority > targetPriority) {
+          targetPriority = priority;
+          target = i;
+        }
+      }
+    }
+    if (target < 0) break;
+
+    const x = target % width;
+    const y = (target - x) / width;
+    // Nothing complete within the window (a hole at the edge of a small region): search everything
+    let exemplar = findExemplar(x, y, searchWindow);
+    if (exemplar < 0) exemplar = findExemplar(x, y, Math.max(width, height));
+    if (exemplar < 0) return false;
+
+    const filledConfidence = patchConfidence(x, y);
+    for (let dy = -half; dy <= half; dy++) {
+      const py = y + dy;
+      if (py < 0 || py >= height) continue;
+      for (let dx = -half; dx <= half; dx++) {
+        const px = x + dx;
+        if (px < 0 || px >= width) continue;
+        const i = py * width + px;
+        if (!unfilled[i]) continue;
+        const from = exemplar + dy * width + dx;
+        data[i * 4] = data[from * 4];
+        data[i * 4 + 1] = data[from * 4 + 1];
+        data[i * 4 + 2] = data[from * 4 + 2];
+        data[i * 4 + 3] = data[from * 4 + 3];
+        gray[i] = gray[from];
+        confidence[i] = filledConfidence;
+        unfilled[i] = 0;
+        remaining--;
+      }
+    }
+    onProgress?.((total - remaining) / total * 100);
+  }
+  return true;
+};
@@ -0,0 +1,49 @@
+// Display strings shared by the report, history and download views
+import { ProcessingAlgorithm } from './types';
+import { NeuralStatus } from './neuralInpainting';
+import { IterationStatus } from './pixelAlgorithms';
+
+export const PROCESSING_ALGORITHM_LABELS: Record<ProcessingAlgorithm, string> = {
+  lama: 'LaMa算法',
+  tiled: '平铺水印模式',
+  'alpha-inversion': '半透明水印还原',
+  'sd-inpainting': 'AI智能填充',
+  neural: '神经网络修复',
+  exemplar: '样本块修复',
+  patchmatch: '内容识别填充',
+  telea: '快速行进修复',
+  'navier-stokes': '流体扩散修复',
+  enhanced: '增强模式',
+  conservative: '保守模式',
+  aggressive: '激进模式'
+};
+
+// Own keys only, so stored or imported values such as 'constructor' are rejected
+export const isProcessingAlgorithm = (value: unknown): value is ProcessingAlgorithm =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(PROCESSING_ALGORITHM_LABELS, value);
+
+export const formatDuration = (ms: number) => ms < 1000 ? `${Math.round(ms)}ms` : `${(ms / 1000).toFixed(1)}s`;
+
+export const formatFileSize = (bytes: number) => bytes < 1024 * 1024
+  ? `${(bytes / 1024).toFixed(1)}KB`
+  : `${(bytes / 1024 / 1024).toFixed(2)}MB`;
+
+const formatDownload = (label: string, { loaded = 0, total = 0 }: NeuralStatus) => total
+  ? `${label} ${Math.floor(loaded / total * 100)}% (${formatFileSize(loaded)} / ${formatFileSize(total)})`
+  : `${label} ${formatFileSize(loaded)}`;
+
+export const describeNeuralStatus = (status: NeuralStatus): string => {
+  switch (status.stage) {
+    case 'download-runtime':
+      return formatDownload('正在下载推理引擎', status);
+    case 'download-model':
+      return formatDownload('正在下载模型', status);
+    case 'initialize':
+      return '正在初始化模型...';
+    case 'inference':
+      return '神经网络修复中...';
+  }
+};
+
+export const describeIterationStatus = (algorithm: ProcessingAlgorithm, { scale, scales, iteration, iterations }: IterationStatus): string =>
+  `${PROCESSING_ALGORITHM_LABELS[algorithm]}: 第 ${scale}/${scales} 层，第 ${iteration}/${iterations} 次迭代`;
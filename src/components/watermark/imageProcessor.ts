@@ -1,375 +1,545 @@
 import { secureApiClient } from '@/utils/secureApiClient';
-import { WatermarkMark } from './types';
+import { AlgorithmParams, AppliedSDParams, ImageItem, MaskRect, PaintMask, ProcessingAlgorithm, SDInpaintingParams, SuggestedMark, TileLattice, WatermarkMark, WatermarkMaskSource } from './types';
 import { memoryManager } from '@/utils/memoryManager';
+import { createAbortError, processingWorkerPool } from '@/utils/workerPool';
+import { neuralInpaintingClient } from '@/utils/neuralInpaintingClient';
+import { buildExclusionRegionMask, buildProcessingMask, buildRegionMask, getMaskBounds, getSelectionBounds, hasWatermarkMask, warpPaintMask } from './maskUtils';
+import { planProcessingRegions } from './processingRegions';
+import { getPolygonArea, isPathMark, mapMarkBetweenRects } from './markGeometry';
+import { GrayImage, buildScaleRange, cropGray, toGrayscale } from './templateMatching';
+import { RgbImage, WatermarkLayer, getLayerFrame, sampleMask, sampleRgb } from './alphaBlend';
+import { LOCAL_CANDIDATE_VARIANTS, ProgressCallback, getLayerSize } from './pixelAlgorithms';
+import { DEFAULT_SD_PARAMS, INPAINTING_BACKENDS, SD_PARAM_LIMITS } from '@/utils/inpaintingBackends';
+import { NeuralStatus } from './neuralInpainting';
+import { DEFAULT_ALGORITHM_PARAMS, isPatchAlgorithm } from './algorithmParams';
+import { describeIterationStatus, describeNeuralStatus } from './formatting';
+import { SEAM_BAND } from './seamBlending';
 
-// LaMa algorithm implementation
-const applyLamaInpainting = async (canvas: HTMLCanvasElement, maskRegion: WatermarkMark): Promise<void> => {
-    // Track canvas for memory management
-    memoryManager.trackCanvas(canvas);
-    
-    // ... keep existing code (LaMa algorithm implementation)
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-    const data = imageData.data;
-    const maskLeft = Math.floor(maskRegion.x * canvas.width);
-    const maskTop = Math.floor(maskRegion.y * canvas.height);
-    const maskRight = Math.floor((maskRegion.x + maskRegion.width) * canvas.width);
-    const maskBottom = Math.floor((maskRegion.y + maskRegion.height) * canvas.height);
-
-    // LaMa inspired multi-scale inpainting
-    for (let scale = 0; scale < 3; scale++) {
-      const radius = Math.pow(2, scale + 1);
-      for (let y = maskTop; y < maskBottom; y++) {
-        for (let x = maskLeft; x < maskRight; x++) {
-          const repaired = lamaInpaint(data, x, y, canvas.width, canvas.height, radius);
-          if (repaired) {
-            const index = (y * canvas.width + x) * 4;
-            data[index] = repaired.r;
-            data[index + 1] = repaired.g;
-            data[index + 2] = repaired.b;
-            data[index + 3] = repaired.a;
-          }
+// Detection runs on a downscaled copy; the per-pixel detector is too slow at full size
+const DETECTION_MAX_SIZE = 512;
+const MAX_SUGGESTIONS = 10;
+
+// Decodes an image URL into pixels, downscaled so the longer side is at most `maxSize`
+const loadImageData = (imageUrl: string, maxSize: number): Promise<ImageData> => {
+    return new Promise((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => {
+        const scale = Math.min(1, maxSize / Math.max(img.width, img.height));
+        const canvas = document.createElement('canvas');
+        const ctx = canvas.getContext('2d');
+        if (!ctx) {
+          reject(new Error('无法获取Canvas上下文'));
+          return;
         }
-      }
-    }
-    ctx.putImageData(imageData, 0, 0);
+        memoryManager.trackCanvas(canvas);
+        canvas.width = Math.max(1, Math.round(img.width * scale));
+        canvas.height = Math.max(1, Math.round(img.height * scale));
+        try {
+          ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+          resolve(ctx.getImageData(0, 0, canvas.width, canvas.height));
+        } catch (error) {
+          reject(error);
+        } finally {
+          memoryManager.releaseCanvas(canvas);
+        }
+      };
+      img.onerror = () => reject(new Error('图片加载失败'));
+      img.src = imageUrl;
+    });
 };
 
-// ... keep existing code (helper functions: lamaInpaint, calculateTextureConsistency, etc.)
-const lamaInpaint = (data: Uint8ClampedArray, x: number, y: number, width: number, height: number, radius: number) => {
-    const validPixels: Array<{
-      r: number;
-      g: number;
-      b: number;
-      a: number;
-      distance: number;
-      weight: number;
-    }> = [];
-
-    // Use more intelligent sampling strategy
-    for (let angle = 0; angle < Math.PI * 2; angle += Math.PI / 16) {
-      for (let r = radius; r <= radius * 3; r += 2) {
-        const nx = Math.round(x + Math.cos(angle) * r);
-        const ny = Math.round(y + Math.sin(angle) * r);
-        if (nx >= 0 && nx < width && ny >= 0 && ny < height) {
-          const nIndex = (ny * width + nx) * 4;
-          const distance = Math.sqrt((nx - x) * (nx - x) + (ny - y) * (ny - y));
-
-          // Texture consistency check
-          const textureScore = calculateTextureConsistency(data, nx, ny, width, height);
-          const weight = 1 / (distance + 1) * (1 + textureScore);
-          validPixels.push({
-            r: data[nIndex],
-            g: data[nIndex + 1],
-            b: data[nIndex + 2],
-            a: data[nIndex + 3],
-            distance: distance,
-            weight: weight
-          });
-        }
-      }
-    }
-    if (validPixels.length === 0) return null;
-
-    // Advanced blending based on weights
-    validPixels.sort((a, b) => b.weight - a.weight);
-    const topPixels = validPixels.slice(0, Math.min(12, validPixels.length));
-    let totalR = 0,
-      totalG = 0,
-      totalB = 0,
-      totalA = 0,
-      totalWeight = 0;
-    topPixels.forEach(pixel => {
-      totalR += pixel.r * pixel.weight;
-      totalG += pixel.g * pixel.weight;
-      totalB += pixel.b * pixel.weight;
-      totalA += pixel.a * pixel.weight;
-      totalWeight += pixel.weight;
+// Runs the pixel detector over a downscaled copy in a worker and offers the
+// connected regions it finds as suggested marks
+export const detectWatermarkRegions = async (imageUrl: string, threshold = 0.5): Promise<SuggestedMark[]> => {
+    const { data, width, height } = await loadImageData(imageUrl, DETECTION_MAX_SIZE);
+    const regions = await processingWorkerPool.run('detect', { image: { data, width, height }, threshold }, { transfer: [data.buffer] });
+
+    return regions.slice(0, MAX_SUGGESTIONS).map(({ rect, confidence }) => {
+      // One pixel of padding so anti-aliased edges are covered too
+      const left = Math.max(0, rect.x - 1);
+      const top = Math.max(0, rect.y - 1);
+      const right = Math.min(width, rect.x + rect.width + 1);
+      const bottom = Math.min(height, rect.y + rect.height + 1);
+      return {
+        mark: {
+          id: crypto.randomUUID(),
+          shape: 'rect' as const,
+          x: left / width,
+          y: top / height,
+          width: (right - left) / width,
+          height: (bottom - top) / height
+        },
+        confidence
+      };
     });
+};
+
+// Working resolution for template matching; scores are stable well below full size
+const MATCHING_MAX_SIZE = 1024;
+
+export interface WatermarkTemplate {
+  source: ImageItem;
+  pixels: GrayImage;
+  // Template box in the reference image, normalized
+  bounds: MaskRect;
+  // Reference working size relative to its original size
+  factor: number;
+}
+
+export interface WatermarkTemplateMatch {
+  score: number;
+  marks: WatermarkMark[];
+  paintMask?: PaintMask;
+}
+
+// Cuts the reference image's marked region out as the template to search for
+export const createWatermarkTemplate = async (reference: ImageItem): Promise<WatermarkTemplate> => {
+    const { data, width, height } = await loadImageData(reference.url, MATCHING_MAX_SIZE);
+    const box = getMaskBounds(buildProcessingMask(reference, width, height), width, height);
+    if (!box) {
+      throw new Error('参考图片没有标记水印区域');
+    }
+    const gray = toGrayscale(data, width, height);
     return {
-      r: Math.round(totalR / totalWeight),
-      g: Math.round(totalG / totalWeight),
-      b: Math.round(totalB / totalWeight),
-      a: Math.round(totalA / totalWeight)
+      source: reference,
+      pixels: cropGray(gray, box.x, box.y, box.width, box.height),
+      bounds: { x: box.x / width, y: box.y / height, width: box.width / width, height: box.height / height },
+      factor: width / (reference.dimensions?.width || width)
     };
 };
 
-const calculateTextureConsistency = (data: Uint8ClampedArray, x: number, y: number, width: number, height: number): number => {
-    let consistency = 0;
-    let count = 0;
-    const directions = [[-1, -1], [-1, 0], [-1, 1], [0, -1], [0, 1], [1, -1], [1, 0], [1, 1]];
-    for (const [dx, dy] of directions) {
-      const nx = x + dx;
-      const ny = y + dy;
-      if (nx >= 0 && nx < width && ny >= 0 && ny < height) {
-        const index = (y * width + x) * 4;
-        const nIndex = (ny * width + nx) * 4;
-        const colorDiff = Math.abs(data[index] - data[nIndex]) + Math.abs(data[index + 1] - data[nIndex + 1]) + Math.abs(data[index + 2] - data[nIndex + 2]);
-        consistency += Math.max(0, 255 - colorDiff) / 255;
-        count++;
-      }
-    }
-    return count > 0 ? consistency / count : 0;
+// Searches another image for the template and maps the reference marks onto the best hit
+export const locateWatermarkTemplate = async (template: WatermarkTemplate, target: ImageItem): Promise<WatermarkTemplateMatch> => {
+    const { data, width, height } = await loadImageData(target.url, MATCHING_MAX_SIZE);
+    const factor = width / (target.dimensions?.width || width);
+
+    // Watermarks either keep their pixel size or scale with the image, so search
+    // a band that covers both, in template-pixel units at the working resolution
+    const widthRatio = (target.dimensions?.width || width) / (template.source.dimensions?.width || width);
+    const scales = buildScaleRange(Math.min(1, widthRatio) / 1.5, Math.max(1, widthRatio) * 1.5)
+      .map(scale => scale * factor / template.factor);
+
+    const match = await processingWorkerPool.run('match', { image: { data, width, height }, template: template.pixels, scales }, { transfer: [data.buffer] });
+    if (!match) return { score: 0, marks: [] };
+
+    const bounds = { x: match.x / width, y: match.y / height, width: match.width / width, height: match.height / height };
+    const marks = template.source.watermarkMarks
+      .map(mark => ({ ...mapMarkBetweenRects(mark, template.bounds, bounds), id: crypto.randomUUID() }))
+      .filter(mark => mark.width > 0 && mark.height > 0 && (!isPathMark(mark) || getPolygonArea(mark.points) > 0));
+    const paintMask = template.source.paintMask && template.source.paintMask.paintedPixels > 0 && target.dimensions
+      ? warpPaintMask(template.source.paintMask, template.bounds, bounds, target.dimensions.width, target.dimensions.height)
+      : undefined;
+
+    return { score: match.score, marks, paintMask };
 };
 
-const detectWatermark = (data: Uint8ClampedArray, x: number, y: number, width: number, height: number): number => {
-    const index = (y * width + x) * 4;
-    const r = data[index];
-    const g = data[index + 1];
-    const b = data[index + 2];
-    const a = data[index + 3];
-    let confidence = 0;
-    const isWhiteish = r > 200 && g > 200 && b > 200;
-    const isSemiTransparent = a > 50 && a < 250;
-    const brightness = (r + g + b) / 3;
-    if (isWhiteish && isSemiTransparent) {
-      confidence += 0.8;
-    }
-    if (brightness > 220 && isSemiTransparent) {
-      confidence += 0.7;
-    }
-    if (r > 150 && g < 100 && b < 100) {
-      confidence += 0.6;
-    }
-    if (r > 180 && g > 100 && g < 200 && b < 100) {
-      confidence += 0.5;
-    }
-    if (a < 245) {
-      confidence += 0.4;
-    }
-    const edgeStrength = calculateEdgeStrength(data, x, y, width, height);
-    if (edgeStrength > 30) {
-      confidence += 0.3;
-    }
-    const colorUniformity = checkColorUniformity(data, x, y, width, height);
-    if (colorUniformity > 0.7) {
-      confidence += 0.2;
-    }
-    return Math.min(confidence, 1.0);
+// Lattice estimation downscales internally, so a moderate copy is enough
+const LATTICE_SOURCE_MAX_SIZE = 1024;
+
+// Estimates the repetition period and orientation from the one marked instance
+export const estimateWatermarkLattice = async (image: ImageItem): Promise<TileLattice | null> => {
+    const { data, width, height } = await loadImageData(image.url, LATTICE_SOURCE_MAX_SIZE);
+    const maskSource = { watermarkMarks: image.watermarkMarks, paintMask: image.paintMask, tileLattice: image.tileLattice };
+    return processingWorkerPool.run('lattice', { image: { data, width, height }, maskSource }, { transfer: [data.buffer] });
 };
 
-const calculateEdgeStrength = (data: Uint8ClampedArray, x: number, y: number, width: number, height: number): number => {
-    const centerIndex = (y * width + x) * 4;
-    const centerBrightness = (data[centerIndex] + data[centerIndex + 1] + data[centerIndex + 2]) / 3;
-    let maxDiff = 0;
-    for (let dy = -1; dy <= 1; dy++) {
-      for (let dx = -1; dx <= 1; dx++) {
-        if (dx === 0 && dy === 0) continue;
-        const nx = x + dx;
-        const ny = y + dy;
-        if (nx >= 0 && nx < width && ny >= 0 && ny < height) {
-          const neighborIndex = (ny * width + nx) * 4;
-          const neighborBrightness = (data[neighborIndex] + data[neighborIndex + 1] + data[neighborIndex + 2]) / 3;
-          maxDiff = Math.max(maxDiff, Math.abs(centerBrightness - neighborBrightness));
-        }
+// Batch estimation reads each image at this size; the layer is resampled per image anyway
+const LAYER_SOURCE_MAX_SIZE = 1024;
+
+// Estimates the semi-transparent watermark shared by several marked images from
+// their statistics; every image's own marked region is resampled to one frame
+export const estimateBatchWatermarkLayer = async (images: ImageItem[], signal?: AbortSignal): Promise<WatermarkLayer | null> => {
+    let size: { width: number; height: number } | null = null;
+    let referenceMask: Uint8Array | null = null;
+    const crops: RgbImage[] = [];
+    for (const image of images) {
+      if (signal?.aborted) throw createAbortError();
+      const { data, width, height } = await loadImageData(image.url, LAYER_SOURCE_MAX_SIZE);
+      const mask = buildProcessingMask(image, width, height);
+      const bounds = getMaskBounds(mask, width, height);
+      if (!bounds) continue;
+      const frame = getLayerFrame(bounds);
+      if (!size) {
+        size = getLayerSize(frame);
+        referenceMask = sampleMask(mask, width, height, frame, size.width, size.height);
       }
+      crops.push(sampleRgb(data, width, height, frame, size.width, size.height));
     }
-    return maxDiff;
+    if (!referenceMask) return null;
+
+    return processingWorkerPool.run('watermark-layer', { crops, mask: referenceMask }, {
+      transfer: [...crops.map(crop => crop.data.buffer), referenceMask.buffer],
+      signal
+    });
+};
+
+export interface ProcessingOptions {
+    // Layer estimated across a batch; single images estimate their own
+    watermarkLayer?: WatermarkLayer;
+    onProgress?: ProgressCallback;
+    signal?: AbortSignal;
+    // Request parameters of the AI fill
+    sdParams?: SDInpaintingParams;
+    // Parameter variant of the local algorithms, see LOCAL_CANDIDATE_VARIANTS
+    variant?: number;
+    // User settings of the local algorithms
+    algorithmParams?: AlgorithmParams;
+    // Readable stage of a long step, such as the neural model download
+    onStatus?: (message: string) => void;
+    // Area the patch-based fills must not copy from
+    sourceExclusion?: PaintMask;
+}
+
+export interface ProcessedImage {
+    blob: Blob;
+    // Set for AI fills, so the result can be reproduced
+    sdParams?: AppliedSDParams;
+}
+
+// Decodes an image for processing at full size; the element is dropped on abort
+const decodeImage = (url: string, signal?: AbortSignal): Promise<HTMLImageElement> => {
+    return new Promise((resolve, reject) => {
+      const img = new Image();
+      const handleAbort = () => {
+        img.onload = null;
+        img.onerror = null;
+        img.src = '';
+        reject(createAbortError());
+      };
+      signal?.addEventListener('abort', handleAbort, { once: true });
+      img.onload = () => {
+        signal?.removeEventListener('abort', handleAbort);
+        resolve(img);
+      };
+      img.onerror = () => {
+        signal?.removeEventListener('abort', handleAbort);
+        reject(new Error('图片加载失败'));
+      };
+      img.src = url;
+    });
 };
 
-const checkColorUniformity = (data: Uint8ClampedArray, x: number, y: number, width: number, height: number): number => {
-    const centerIndex = (y * width + x) * 4;
-    const centerR = data[centerIndex];
-    const centerG = data[centerIndex + 1];
-    const centerB = data[centerIndex + 2];
-    let uniformCount = 0;
-    let totalCount = 0;
-    const radius = 2;
-    for (let dy = -radius; dy <= radius; dy++) {
-      for (let dx = -radius; dx <= radius; dx++) {
-        const nx = x + dx;
-        const ny = y + dy;
-        if (nx >= 0 && nx < width && ny >= 0 && ny < height) {
-          const nIndex = (ny * width + nx) * 4;
-          const colorDiff = Math.abs(data[nIndex] - centerR) + Math.abs(data[nIndex + 1] - centerG) + Math.abs(data[nIndex + 2] - centerB);
-          if (colorDiff < 40) uniformCount++;
-          totalCount++;
+// Results stay lossless so further passes start from exact pixels; the export
+// format and quality are applied on download (see imageExport)
+const canvasToBlob = (canvas: HTMLCanvasElement): Promise<Blob> => {
+    return new Promise((resolve, reject) => {
+      canvas.toBlob(blob => {
+        if (blob) {
+          resolve(blob);
+        } else {
+          reject(new Error('无法生成处理后的图片'));
         }
+      }, 'image/png', 1.0);
+    });
+};
+
+// Share of a neural run reached at each stage; downloads move within theirs by bytes
+const NEURAL_STAGE_PROGRESS: Record<NeuralStatus['stage'], [number, number]> = {
+    'download-runtime': [0, 5],
+    'download-model': [5, 70],
+    initialize: [70, 80],
+    inference: [80, 100]
+};
+
+const getNeuralProgress = ({ stage, loaded = 0, total = 0 }: NeuralStatus) => {
+    const [start, end] = NEURAL_STAGE_PROGRESS[stage];
+    return total ? start + Math.min(1, loaded / total) * (end - start) : start;
+};
+
+// Only the region around each part of the mask is read back from the canvas, so
+// the pixel buffers scale with the mask even for very large photos. Regions run
+// one after another and their progress is weighted by area.
+const processRegions = async (
+    ctx: CanvasRenderingContext2D,
+    regions: MaskRect[],
+    maskSource: WatermarkMaskSource,
+    processingAlgorithm: ProcessingAlgorithm,
+    { signal, onProgress, onStatus, watermarkLayer, variant, algorithmParams, sourceExclusion }: ProcessingOptions
+): Promise<void> => {
+    const { width, height } = ctx.canvas;
+    const totalArea = regions.reduce((total, region) => total + region.width * region.height, 0);
+    let doneArea = 0;
+    for (const region of regions) {
+      const regionData = ctx.getImageData(region.x, region.y, region.width, region.height);
+      const mask = buildRegionMask(maskSource, width, height, region);
+      const exclusion = buildExclusionRegionMask(sourceExclusion, width, height, region);
+      const share = region.width * region.height / totalArea;
+      const start = doneArea / totalArea;
+      const reportProgress = onProgress && ((progress: number) => onProgress(5 + (start + progress / 100 * share) * 90));
+      const reportIteration: ProgressCallback = (progress, iteration) => {
+        reportProgress?.(progress);
+        if (iteration) onStatus?.(describeIterationStatus(processingAlgorithm, iteration));
+      };
+      // The worker algorithms blend their own seams; the neural worker moves
+      // the buffers, so the blend after it needs copies
+      const neuralBlend = processingAlgorithm === 'neural' && algorithmParams?.seamBlending
+        ? { original: new Uint8ClampedArray(regionData.data), mask: mask.slice() }
+        : null;
+      let processed = processingAlgorithm === 'neural'
+        ? await neuralInpaintingClient.run(regionData, mask, {
+            onStatus: status => {
+              reportProgress?.(getNeuralProgress(status));
+              onStatus?.(describeNeuralStatus(status));
+            },
+            signal
+          })
+        : await processingWorkerPool.run('process', {
+            image: regionData,
+            request: { algorithm: processingAlgorithm, maskSource: { watermarkMarks: [] }, watermarkLayer, mask, variant, params: algorithmParams, exclusion }
+          }, {
+            transfer: exclusion ? [regionData.data.buffer, mask.buffer, exclusion.buffer] : [regionData.data.buffer, mask.buffer],
+            onProgress: reportIteration,
+            signal
+          });
+      if (neuralBlend) {
+        onStatus?.('正在融合接缝...');
+        processed = await processingWorkerPool.run('blend', {
+          original: { data: neuralBlend.original, width: region.width, height: region.height },
+          result: processed,
+          mask: neuralBlend.mask
+        }, { transfer: [neuralBlend.original.buffer, processed.data.buffer, neuralBlend.mask.buffer], signal });
       }
+      ctx.putImageData(new ImageData(processed.data, processed.width, processed.height), region.x, region.y);
+      doneArea += region.width * region.height;
     }
-    return totalCount > 0 ? uniformCount / totalCount : 0;
 };
 
-const isInMarkedWatermarkArea = (x: number, y: number, mark?: WatermarkMark): boolean => {
-    if (!mark) return false;
-    return x >= mark.x && x <= mark.x + mark.width && y >= mark.y && y <= mark.y + mark.height;
+// Services answer at the size they were sent (see getInputSize), so the result
+// is scaled up to the original; its edges get softer by the same factor
+const MIN_SERVICE_FEATHER = 3;
+
+// The pixels a composite can change: the mask's box grown by the feather and,
+// with seam blending, by the band the correction spreads into
+const getCompositeRegion = (maskSource: WatermarkMaskSource, width: number, height: number, feather: number, seamBlending: boolean): MaskRect | null => {
+    const bounds = getSelectionBounds(maskSource);
+    if (!bounds) return null;
+    // One pixel more for the rounding of the normalized bounds, and one for the
+    // fixed ring around the band the seam solver reads
+    const margin = feather + (seamBlending ? SEAM_BAND + 1 : 0) + 1;
+    const left = Math.max(0, Math.floor(bounds.x * width) - margin);
+    const top = Math.max(0, Math.floor(bounds.y * height) - margin);
+    const right = Math.min(width, Math.ceil((bounds.x + bounds.width) * width) + margin);
+    const bottom = Math.min(height, Math.ceil((bounds.y + bounds.height) * height) + margin);
+    if (right <= left || bottom <= top) return null;
+    return { x: left, y: top, width: right - left, height: bottom - top };
 };
 
-const repairPixel = (data: Uint8ClampedArray, x: number, y: number, width: number, height: number, confidence: number) => {
-    const radius = Math.min(12, Math.max(6, Math.floor(confidence * 12)));
-    const validPixels: Array<{
-      r: number;
-      g: number;
-      b: number;
-      a: number;
-      weight: number;
-    }> = [];
-    for (let ring = 1; ring <= 3; ring++) {
-      const ringRadius = radius * ring / 3;
-      for (let angle = 0; angle < Math.PI * 2; angle += Math.PI / 8) {
-        const dx = Math.round(Math.cos(angle) * ringRadius);
-        const dy = Math.round(Math.sin(angle) * ringRadius);
-        const nx = x + dx;
-        const ny = y + dy;
-        if (nx >= 0 && nx < width && ny >= 0 && ny < height) {
-          const neighborIndex = (ny * width + nx) * 4;
-          const neighborConfidence = detectWatermark(data, nx, ny, width, height);
-          if (neighborConfidence < 0.1) {
-            const distance = Math.sqrt(dx * dx + dy * dy);
-            const weight = 1 / (distance * distance + 0.1) / ring;
-            validPixels.push({
-              r: data[neighborIndex],
-              g: data[neighborIndex + 1],
-              b: data[neighborIndex + 2],
-              a: data[neighborIndex + 3],
-              weight: weight
-            });
-          }
-        }
+// Puts an AI service result back into the untouched uploaded image: scaled to
+// the original size and composited only inside a feathered mask, optionally
+// Poisson-blended first. The output always has the input's dimensions, and the
+// pixels outside the mask are never re-encoded by the service.
+const compositeServiceResult = async (imageFile: File, result: Blob, maskSource: WatermarkMaskSource, seamBlending: boolean, signal?: AbortSignal): Promise<Blob> => {
+    const decode = async (source: Blob) => {
+      const url = URL.createObjectURL(source);
+      memoryManager.trackBlobUrl(url);
+      try {
+        return await decodeImage(url, signal);
+      } finally {
+        memoryManager.releaseBlobUrl(url);
+      }
+    };
+    const [img, filledImg] = await Promise.all([decode(imageFile), decode(result)]);
+    if (signal?.aborted) {
+      throw createAbortError();
+    }
+
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('无法获取Canvas上下文');
+    }
+    memoryManager.trackCanvas(canvas);
+    try {
+      const { width, height } = img;
+      canvas.width = width;
+      canvas.height = height;
+      ctx.drawImage(img, 0, 0);
+      const upscale = Math.max(width / filledImg.width, height / filledImg.height);
+      const feather = Math.max(MIN_SERVICE_FEATHER, Math.ceil(upscale * 2));
+      const region = getCompositeRegion(maskSource, width, height, feather, seamBlending);
+      if (region) {
+        const original = ctx.getImageData(region.x, region.y, region.width, region.height);
+        // Drawn whole and clipped, so the scaled edges match a full-size draw
+        ctx.save();
+        ctx.beginPath();
+        ctx.rect(region.x, region.y, region.width, region.height);
+        ctx.clip();
+        ctx.imageSmoothingQuality = 'high';
+        ctx.drawImage(filledImg, 0, 0, width, height);
+        ctx.restore();
+        const filled = ctx.getImageData(region.x, region.y, region.width, region.height);
+        const mask = buildRegionMask(maskSource, width, height, region);
+        const composited = await processingWorkerPool.run('composite', {
+          original,
+          result: filled,
+          mask,
+          feather,
+          seamBlending
+        }, {
+          transfer: [original.data.buffer, filled.data.buffer, mask.buffer],
+          signal
+        });
+        ctx.putImageData(new ImageData(composited.data, composited.width, composited.height), region.x, region.y);
       }
+      return await canvasToBlob(canvas);
+    } finally {
+      memoryManager.releaseCanvas(canvas);
     }
-    if (validPixels.length === 0) return null;
-    validPixels.sort((a, b) => b.weight - a.weight);
-    const useCount = Math.min(20, validPixels.length);
-    return weightedAverage(validPixels.slice(0, useCount));
 };
 
-const weightedAverage = (pixels: Array<{
-    r: number;
-    g: number;
-    b: number;
-    a: number;
-    weight: number;
-  }>) => {
-    let totalR = 0,
-      totalG = 0,
-      totalB = 0,
-      totalA = 0,
-      totalWeight = 0;
-    pixels.forEach(pixel => {
-      totalR += pixel.r * pixel.weight;
-      totalG += pixel.g * pixel.weight;
-      totalB += pixel.b * pixel.weight;
-      totalA += pixel.a * pixel.weight;
-      totalWeight += pixel.weight;
-    });
-    return {
-      r: Math.round(totalR / totalWeight),
-      g: Math.round(totalG / totalWeight),
-      b: Math.round(totalB / totalWeight),
-      a: Math.round(totalA / totalWeight)
-    };
+// How far from the hole the patch-based fills may pick patches, so their region includes them
+const getSampleReach = (algorithm: ProcessingAlgorithm, { algorithmParams = DEFAULT_ALGORITHM_PARAMS, variant = 0 }: ProcessingOptions) => {
+    if (!isPatchAlgorithm(algorithm)) return 0;
+    const { searchScale } = LOCAL_CANDIDATE_VARIANTS[variant] || LOCAL_CANDIDATE_VARIANTS[0];
+    return Math.ceil(algorithmParams.searchWindow * searchScale) + algorithmParams.patchSize;
 };
 
-export const processImageCanvas = async (imageFile: File, mark: WatermarkMark | undefined, processingAlgorithm: string, existingProcessedUrl?: string): Promise<Blob> => {
-    return new Promise(async (resolve, reject) => {
-      try {
-        if (processingAlgorithm === 'sd-inpainting' && mark) {
-          console.log('使用Stable Diffusion Inpainting算法处理');
-          const result = await secureApiClient.processWithSDInpainting(imageFile, mark);
-          
-          if (result.success && result.data) {
-            resolve(result.data);
-          } else {
-            reject(new Error(result.error || 'AI处理失败'));
-          }
-          return;
-        }
+// Progress: decoding 0-5, the algorithm 5-95 (per pass and row, from the worker), encoding 95-100
+export const processImageCanvas = async (imageFile: File, maskSource: WatermarkMaskSource, processingAlgorithm: ProcessingAlgorithm, existingProcessedUrl?: string, options: ProcessingOptions = {}): Promise<ProcessedImage> => {
+    const { signal, onProgress } = options;
+    if (signal?.aborted) {
+      throw createAbortError();
+    }
+
+    if (processingAlgorithm === 'sd-inpainting' && hasWatermarkMask(maskSource)) {
+      console.log('使用Stable Diffusion Inpainting算法处理');
+      // The request takes 0-90, compositing into the original the rest
+      const result = await secureApiClient.processWithSDInpainting(imageFile, maskSource, {
+        signal,
+        onProgress: onProgress && (progress => onProgress(progress * 0.9)),
+        params: options.sdParams
+      });
+      if (signal?.aborted) {
+        throw createAbortError();
+      }
+      if (!result.success || !result.data?.length) {
+        throw new Error(result.error || 'AI处理失败');
+      }
+      // With several samples the first one becomes the result
+      const [first] = result.data;
+      const blob = await compositeServiceResult(imageFile, first.image, maskSource, !!options.algorithmParams?.seamBlending, signal);
+      onProgress?.(100);
+      return { blob, sdParams: first.params };
+    }
+
+    // A URL made here only lives until the image is decoded
+    const sourceUrl = existingProcessedUrl || URL.createObjectURL(imageFile);
+    if (!existingProcessedUrl) {
+      memoryManager.trackBlobUrl(sourceUrl);
+    }
+    let img: HTMLImageElement;
+    try {
+      img = await decodeImage(sourceUrl, signal);
+    } finally {
+      if (!existingProcessedUrl) {
+        memoryManager.releaseBlobUrl(sourceUrl);
+      }
+    }
+    onProgress?.(5);
+
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('无法获取Canvas上下文');
+    }
+    // Track canvas for memory management
+    memoryManager.trackCanvas(canvas);
+    try {
+      canvas.width = img.width;
+      canvas.height = img.height;
+      ctx.drawImage(img, 0, 0);
 
-        const img = new Image();
-        img.onload = async () => {
-          const canvas = document.createElement('canvas');
-          const ctx = canvas.getContext('2d');
-          if (!ctx) {
-            reject(new Error('无法获取Canvas上下文'));
-            return;
-          }
-          
-          // Track canvas for memory management
-          memoryManager.trackCanvas(canvas);
-          
-          canvas.width = img.width;
-          canvas.height = img.height;
-          ctx.drawImage(img, 0, 0);
-          try {
-            if (processingAlgorithm === 'lama' && mark) {
-              console.log('使用LaMa算法处理水印区域');
-              await applyLamaInpainting(canvas, mark);
-            } else {
-              // ... keep existing code (other algorithm implementations)
-              const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-              const data = imageData.data;
-              for (let pass = 0; pass < 3; pass++) {
-                let processedPixels = 0;
-                const watermarkPixels: Array<{
-                  x: number;
-                  y: number;
-                  confidence: number;
-                }> = [];
-                for (let y = 0; y < canvas.height; y++) {
-                  for (let x = 0; x < canvas.width; x++) {
-                    const normalizedX = x / canvas.width;
-                    const normalizedY = y / canvas.height;
-                    let confidence = 0;
-                    if (mark) {
-                      if (isInMarkedWatermarkArea(normalizedX, normalizedY, mark)) {
-                        confidence = 0.98;
-                      }
-                    } else {
-                      confidence = detectWatermark(data, x, y, canvas.width, canvas.height);
-                    }
-                    let threshold = 0.2;
-                    if (processingAlgorithm === 'conservative') threshold = 0.35;else if (processingAlgorithm === 'aggressive') threshold = 0.12;
-                    if (confidence > threshold) {
-                      watermarkPixels.push({
-                        x,
-                        y,
-                        confidence
-                      });
-                    }
-                  }
-                }
-                watermarkPixels.forEach(({
-                  x,
-                  y,
-                  confidence
-                }) => {
-                  const repaired = repairPixel(data, x, y, canvas.width, canvas.height, confidence);
-                  if (repaired) {
-                    const index = (y * canvas.width + x) * 4;
-                    const blendFactor = Math.min(0.98, confidence + 0.3);
-                    data[index] = Math.round(data[index] * (1 - blendFactor) + repaired.r * blendFactor);
-                    data[index + 1] = Math.round(data[index + 1] * (1 - blendFactor) + repaired.g * blendFactor);
-                    data[index + 2] = Math.round(data[index + 2] * (1 - blendFactor) + repaired.b * blendFactor);
-                    data[index + 3] = Math.round(data[index + 3] * (1 - blendFactor) + repaired.a * blendFactor);
-                    processedPixels++;
-                  }
-                });
-                console.log(`Pass ${pass + 1}: 修复了 ${processedPixels} 个水印像素`);
-              }
-              ctx.putImageData(imageData, 0, 0);
-            }
-            canvas.toBlob(blob => {
-              if (blob) {
-                resolve(blob);
-              } else {
-                reject(new Error('无法生成处理后的图片'));
-              }
-            }, 'image/png', 1.0);
-          } catch (error) {
-            reject(error);
-          }
+      const regions = planProcessingRegions(maskSource, processingAlgorithm, canvas.width, canvas.height, getSampleReach(processingAlgorithm, options));
+      if (regions) {
+        await processRegions(ctx, regions, maskSource, processingAlgorithm, options);
+      } else {
+        // The pixels are moved to a worker and come back processed
+        const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+        const request = {
+          algorithm: processingAlgorithm,
+          maskSource: { watermarkMarks: maskSource.watermarkMarks, paintMask: maskSource.paintMask, tileLattice: maskSource.tileLattice },
+          watermarkLayer: options.watermarkLayer,
+          variant: options.variant,
+          params: options.algorithmParams
         };
-        img.onerror = () => reject(new Error('图片加载失败'));
-        
-        const url = existingProcessedUrl || URL.createObjectURL(imageFile);
-        if (!existingProcessedUrl) {
-          memoryManager.trackBlobUrl(url);
+        const processed = await processingWorkerPool.run('process', { image: imageData, request }, {
+          transfer: [imageData.data.buffer],
+          onProgress: onProgress && (progress => onProgress(5 + progress * 0.9)),
+          signal
+        });
+        ctx.putImageData(new ImageData(processed.data, processed.width, processed.height), 0, 0);
+      }
+
+      const blob = await canvasToBlob(canvas);
+      if (signal?.aborted) {
+        throw createAbortError();
+      }
+      onProgress?.(100);
+      return { blob };
+    } finally {
+      memoryManager.releaseCanvas(canvas);
+    }
+};
+
+export const MAX_CANDIDATES = LOCAL_CANDIDATE_VARIANTS.length;
+
+// The neural model has no parameters to vary and gives the same fill every time
+export const supportsCandidates = (algorithm: ProcessingAlgorithm) => algorithm !== 'neural';
+
+export interface GeneratedCandidate extends ProcessedImage {
+    label: string;
+}
+
+// Several results for one mask to choose from. The AI fill asks for more
+// samples with other seeds (a fixed seed counts up, like the services do for
+// a batch); the local algorithms are deterministic and run once per parameter
+// variant instead. Progress is split evenly over the candidates.
+export const generateCandidates = async (
+    imageFile: File,
+    maskSource: WatermarkMaskSource,
+    processingAlgorithm: ProcessingAlgorithm,
+    existingProcessedUrl: string | undefined,
+    count: number,
+    options: ProcessingOptions = {}
+): Promise<GeneratedCandidate[]> => {
+    const { signal, onProgress } = options;
+    const total = Math.min(Math.max(1, count), MAX_CANDIDATES);
+    const candidates: GeneratedCandidate[] = [];
+
+    if (processingAlgorithm === 'sd-inpainting') {
+      const params = options.sdParams || DEFAULT_SD_PARAMS;
+      const { maxSamples } = INPAINTING_BACKENDS[secureApiClient.getBackendConfig().backend].capabilities;
+      while (candidates.length < total) {
+        const done = candidates.length;
+        const requested = Math.min(total - done, maxSamples);
+        // Consecutive seeds, wrapping at the largest one the services accept
+        const seed = params.seed === -1 ? -1 : (params.seed + done) % (SD_PARAM_LIMITS.maxSeed + 1);
+        const result = await secureApiClient.processWithSDInpainting(imageFile, maskSource, {
+          signal,
+          onProgress: onProgress && (progress => onProgress((done + progress / 100 * requested) / total * 100)),
+          params: { ...params, seed, samples: requested }
+        });
+        if (signal?.aborted) {
+          throw createAbortError();
+        }
+        if (!result.success || !result.data?.length) {
+          throw new Error(result.error || 'AI处理失败');
+        }
+        for (const { image, params: used } of result.data.slice(0, total - done)) {
+          const blob = await compositeServiceResult(imageFile, image, maskSource, !!options.algorithmParams?.seamBlending, signal);
+          candidates.push({ blob, sdParams: used, label: used.seed === -1 ? `候选 ${candidates.length + 1}` : `种子 ${used.seed}` });
         }
-        img.src = url;
-      } catch (error) {
-        reject(error);
       }
-    });
+      return candidates;
+    }
+
+    for (let variant = 0; variant < total; variant++) {
+      const { blob } = await processImageCanvas(imageFile, maskSource, processingAlgorithm, existingProcessedUrl, {
+        ...options,
+        variant,
+        onProgress: onProgress && (progress => onProgress((variant + progress / 100) / total * 100))
+      });
+      candidates.push({ blob, label: LOCAL_CANDIDATE_VARIANTS[variant].label });
+    }
+    return candidates;
 };
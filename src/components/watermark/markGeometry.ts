@@ -0,0 +1,150 @@
+import { MarkPoint, MaskRect, PathMark, WatermarkMark } from './types';
+
+export const isPathMark = (mark: WatermarkMark): mark is PathMark =>
+  mark.shape === 'polygon' || mark.shape === 'lasso';
+
+export const getPointsBounds = (points: MarkPoint[]): MaskRect => {
+  const xs = points.map(point => point.x);
+  const ys = points.map(point => point.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+};
+
+export const createPathMark = (shape: PathMark['shape'], points: MarkPoint[]): PathMark => ({
+  id: crypto.randomUUID(),
+  shape,
+  points,
+  ...getPointsBounds(points)
+});
+
+// Shoelace formula, in normalized units
+export const getPolygonArea = (points: MarkPoint[]): number => {
+  let area = 0;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    area += (points[j].x + points[i].x) * (points[j].y - points[i].y);
+  }
+  return Math.abs(area) / 2;
+};
+
+const getPolygonRowSpans = (points: MarkPoint[], y: number): Array<[number, number]> => {
+  const crossings: number[] = [];
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const a = points[j];
+    const b = points[i];
+    // Half-open test so a vertex shared by two edges is only counted once
+    if ((a.y > y) !== (b.y > y)) {
+      crossings.push(a.x + (y - a.y) * (b.x - a.x) / (b.y - a.y));
+    }
+  }
+  crossings.sort((a, b) => a - b);
+  const spans: Array<[number, number]> = [];
+  for (let i = 0; i + 1 < crossings.length; i += 2) {
+    spans.push([crossings[i], crossings[i + 1]]);
+  }
+  return spans;
+};
+
+// Horizontal spans covered by a mark on the row at normalized `y` (even-odd rule
+// for self-intersecting paths). Hit-testing and rasterization both go through
+// this, so the processed mask always matches the shape drawn on screen.
+export const getMarkRowSpans = (mark: WatermarkMark, y: number): Array<[number, number]> => {
+  if (y < mark.y || y > mark.y + mark.height) return [];
+
+  switch (mark.shape) {
+    case 'rect':
+      return [[mark.x, mark.x + mark.width]];
+    case 'ellipse': {
+      const rx = mark.width / 2;
+      const ry = mark.height / 2;
+      const cx = mark.x + rx;
+      const dy = ry > 0 ? (y - (mark.y + ry)) / ry : 0;
+      const halfWidth = rx * Math.sqrt(Math.max(0, 1 - dy * dy));
+      return [[cx - halfWidth, cx + halfWidth]];
+    }
+    case 'polygon':
+    case 'lasso':
+      return getPolygonRowSpans(mark.points, y);
+  }
+};
+
+export const isPointInMark = (mark: WatermarkMark, x: number, y: number): boolean =>
+  getMarkRowSpans(mark, y).some(([start, end]) => x >= start && x <= end);
+
+export const isInMarkedWatermarkArea = (x: number, y: number, marks: WatermarkMark[]): boolean =>
+  marks.some(mark => isPointInMark(mark, x, y));
+
+// Moves or resizes a mark to new bounds; path vertices are scaled with the box
+export const fitMarkToBounds = <T extends WatermarkMark>(mark: T, bounds: MaskRect): T => {
+  if (!isPathMark(mark)) return { ...mark, ...bounds };
+  const scaleX = mark.width > 0 ? bounds.width / mark.width : 1;
+  const scaleY = mark.height > 0 ? bounds.height / mark.height : 1;
+  const points = mark.points.map(point => ({
+    x: bounds.x + (point.x - mark.x) * scaleX,
+    y: bounds.y + (point.y - mark.y) * scaleY
+  }));
+  return { ...mark, ...bounds, points };
+};
+
+// Maps a mark from one normalized frame onto another (the template box in the
+// reference image onto the matched box in another image), clamped to the image
+export const mapMarkBetweenRects = <T extends WatermarkMark>(mark: T, from: MaskRect, to: MaskRect): T => {
+  const scaleX = to.width / from.width;
+  const scaleY = to.height / from.height;
+  const mapX = (x: number) => Math.max(0, Math.min(1, to.x + (x - from.x) * scaleX));
+  const mapY = (y: number) => Math.max(0, Math.min(1, to.y + (y - from.y) * scaleY));
+
+  if (isPathMark(mark)) {
+    const points = mark.points.map(point => ({ x: mapX(point.x), y: mapY(point.y) }));
+    return { ...mark, points, ...getPointsBounds(points) };
+  }
+  const left = mapX(mark.x);
+  const top = mapY(mark.y);
+  return { ...mark, x: left, y: top, width: mapX(mark.x + mark.width) - left, height: mapY(mark.y + mark.height) - top };
+};
+
+export const moveMarkVertex = <T extends PathMark>(mark: T, index: number, point: MarkPoint): T => {
+  const points = mark.points.map((vertex, i) => i === index
+    ? { x: Math.max(0, Math.min(1, point.x)), y: Math.max(0, Math.min(1, point.y)) }
+    : vertex);
+  return { ...mark, points, ...getPointsBounds(points) };
+};
+
+export const findMarkVertex = (mark: PathMark, x: number, y: number, tolerance: number): number =>
+  mark.points.findIndex(point => Math.abs(point.x - x) < tolerance && Math.abs(point.y - y) < tolerance);
+
+const distanceToSegment = (point: MarkPoint, a: MarkPoint, b: MarkPoint): number => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq > 0 ? Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSq)) : 0;
+  return Math.hypot(a.x + t * dx - point.x, a.y + t * dy - point.y);
+};
+
+// Ramer–Douglas–Peucker; keeps freehand lasso outlines small enough to edit vertex by vertex
+export const simplifyPath = (points: MarkPoint[], tolerance: number): MarkPoint[] => {
+  if (points.length <= 3) return points;
+  const keep = new Uint8Array(points.length);
+  keep[0] = 1;
+  keep[points.length - 1] = 1;
+  const stack: Array<[number, number]> = [[0, points.length - 1]];
+
+  while (stack.length > 0) {
+    const [start, end] = stack.pop()!;
+    let maxDistance = 0;
+    let index = -1;
+    for (let i = start + 1; i < end; i++) {
+      const distance = distanceToSegment(points[i], points[start], points[end]);
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        index = i;
+      }
+    }
+    if (index >= 0 && maxDistance > tolerance) {
+      keep[index] = 1;
+      stack.push([start, index], [index, end]);
+    }
+  }
+
+  return points.filter((_, i) => keep[i]);
+};
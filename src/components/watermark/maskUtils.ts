@@ -0,0 +1,497 @@
+import { ImageItem, MaskRect, PaintMask, WatermarkMark, WatermarkMaskSource } from './types';
+import { getMarkRowSpans } from './markGeometry';
+
+export const createPaintMask = (width: number, height: number): PaintMask => ({
+  width,
+  height,
+  data: new Uint8Array(width * height),
+  paintedPixels: 0,
+  revision: 0
+});
+
+// Paints (value 255) or erases (value 0) a round-capped segment between two
+// normalized points. The mask data is mutated in place and a new wrapper object
+// is returned so state updates stay cheap even for very large images.
+export const paintStroke = (
+  mask: PaintMask,
+  from: { x: number; y: number },
+  to: { x: number; y: number },
+  radius: number,
+  value: 0 | 255
+): PaintMask => {
+  const { width, height, data } = mask;
+  const x0 = from.x * width;
+  const y0 = from.y * height;
+  const x1 = to.x * width;
+  const y1 = to.y * height;
+  const r = Math.max(0.5, radius);
+
+  const left = Math.max(0, Math.floor(Math.min(x0, x1) - r));
+  const top = Math.max(0, Math.floor(Math.min(y0, y1) - r));
+  const right = Math.min(width - 1, Math.ceil(Math.max(x0, x1) + r));
+  const bottom = Math.min(height - 1, Math.ceil(Math.max(y0, y1) + r));
+  if (right < left || bottom < top) return mask;
+
+  const dx = x1 - x0;
+  const dy = y1 - y0;
+  const lengthSq = dx * dx + dy * dy;
+  const rSq = r * r;
+  let paintedPixels = mask.paintedPixels;
+
+  for (let y = top; y <= bottom; y++) {
+    for (let x = left; x <= right; x++) {
+      // Distance from the pixel centre to the stroke segment
+      const px = x + 0.5;
+      const py = y + 0.5;
+      const t = lengthSq > 0 ? Math.max(0, Math.min(1, ((px - x0) * dx + (py - y0) * dy) / lengthSq)) : 0;
+      const cx = x0 + t * dx - px;
+      const cy = y0 + t * dy - py;
+      if (cx * cx + cy * cy > rSq) continue;
+
+      const index = y * width + x;
+      if (data[index] !== value) {
+        paintedPixels += value ? 1 : -1;
+        data[index] = value;
+      }
+    }
+  }
+
+  return {
+    ...mask,
+    paintedPixels,
+    revision: mask.revision + 1,
+    dirty: { x: left, y: top, width: right - left + 1, height: bottom - top + 1 }
+  };
+};
+
+// Nearest-neighbour resample, used when a mask is applied to an image of another size
+export const resamplePaintMask = (mask: PaintMask, width: number, height: number): PaintMask => {
+  if (mask.width === width && mask.height === height) {
+    return { ...mask, data: new Uint8Array(mask.data), dirty: undefined };
+  }
+  const result = createPaintMask(width, height);
+  for (let y = 0; y < height; y++) {
+    const sy = Math.min(mask.height - 1, Math.floor((y + 0.5) * mask.height / height));
+    for (let x = 0; x < width; x++) {
+      const sx = Math.min(mask.width - 1, Math.floor((x + 0.5) * mask.width / width));
+      if (mask.data[sy * mask.width + sx]) {
+        result.data[y * width + x] = 255;
+        result.paintedPixels++;
+      }
+    }
+  }
+  return result;
+};
+
+// Moves painted pixels from the `from` box (normalized, in the mask's image) to the
+// `to` box of another image, used when propagating a mark found by template matching
+export const warpPaintMask = (mask: PaintMask, from: MaskRect, to: MaskRect, width: number, height: number): PaintMask => {
+  const result = createPaintMask(width, height);
+  const left = Math.max(0, Math.floor(to.x * width));
+  const top = Math.max(0, Math.floor(to.y * height));
+  const right = Math.min(width, Math.ceil((to.x + to.width) * width));
+  const bottom = Math.min(height, Math.ceil((to.y + to.height) * height));
+
+  for (let y = top; y < bottom; y++) {
+    const sourceY = from.y + ((y + 0.5) / height - to.y) * from.height / to.height;
+    const sy = Math.floor(sourceY * mask.height);
+    if (sy < 0 || sy >= mask.height) continue;
+    for (let x = left; x < right; x++) {
+      const sourceX = from.x + ((x + 0.5) / width - to.x) * from.width / to.width;
+      const sx = Math.floor(sourceX * mask.width);
+      if (sx < 0 || sx >= mask.width) continue;
+      if (mask.data[sy * mask.width + sx]) {
+        result.data[y * width + x] = 255;
+        result.paintedPixels++;
+      }
+    }
+  }
+  return result;
+};
+
+// Pixels whose centre lies inside a mark are set, whatever the shape
+export const rasterizeMarks = (marks: WatermarkMark[], width: number, height: number, target?: Uint8Array): Uint8Array => {
+  const mask = target || new Uint8Array(width * height);
+  marks.forEach(mark => {
+    const top = Math.max(0, Math.floor(mark.y * height));
+    const bottom = Math.min(height, Math.ceil((mark.y + mark.height) * height));
+    for (let y = top; y < bottom; y++) {
+      getMarkRowSpans(mark, (y + 0.5) / height).forEach(([start, end]) => {
+        const left = Math.max(0, Math.ceil(start * width - 0.5));
+        const right = Math.min(width, Math.floor(end * width - 0.5) + 1);
+        if (right > left) mask.fill(255, y * width + left, y * width + right);
+      });
+    }
+  });
+  return mask;
+};
+
+// Single source of truth for "which pixels should be repaired": the union of
+// the vector regions and the brush-painted raster mask, at the given resolution.
+export const buildProcessingMask = (source: WatermarkMaskSource, width: number, height: number): Uint8Array =>
+  buildRegionMask(source, width, height, { x: 0, y: 0, width, height });
+
+// The processing mask of a width x height image, restricted to the pixel rect
+// `region`; nothing outside it is rasterized, so large images stay cheap
+export const buildRegionMask = (source: WatermarkMaskSource, width: number, height: number, region: MaskRect): Uint8Array => {
+  const mask = new Uint8Array(region.width * region.height);
+  const regionRight = region.x + region.width;
+  const regionBottom = region.y + region.height;
+
+  source.watermarkMarks.forEach(mark => {
+    const top = Math.max(region.y, Math.floor(mark.y * height));
+    const bottom = Math.min(regionBottom, Math.ceil((mark.y + mark.height) * height));
+    for (let y = top; y < bottom; y++) {
+      const row = (y - region.y) * region.width - region.x;
+      getMarkRowSpans(mark, (y + 0.5) / height).forEach(([start, end]) => {
+        const left = Math.max(region.x, Math.ceil(start * width - 0.5));
+        const right = Math.min(regionRight, Math.floor(end * width - 0.5) + 1);
+        if (right > left) mask.fill(255, row + left, row + right);
+      });
+    }
+  });
+
+  if (source.paintMask && source.paintMask.paintedPixels > 0) {
+    rasterizePaintMask(source.paintMask, width, height, region, mask);
+  }
+  return mask;
+};
+
+// Nearest-neighbour lookup when the paint mask was made for another size
+const rasterizePaintMask = (paintMask: PaintMask, width: number, height: number, region: MaskRect, target: Uint8Array) => {
+  const regionRight = region.x + region.width;
+  for (let y = region.y; y < region.y + region.height; y++) {
+    const sy = Math.min(paintMask.height - 1, Math.floor((y + 0.5) * paintMask.height / height));
+    const sourceRow = sy * paintMask.width;
+    const row = (y - region.y) * region.width - region.x;
+    for (let x = region.x; x < regionRight; x++) {
+      const sx = Math.min(paintMask.width - 1, Math.floor((x + 0.5) * paintMask.width / width));
+      if (paintMask.data[sourceRow + sx]) target[row + x] = 255;
+    }
+  }
+};
+
+// The area excluded from sampling, restricted to `region` like buildRegionMask;
+// undefined when nothing is excluded
+export const buildExclusionRegionMask = (exclusion: PaintMask | undefined, width: number, height: number, region: MaskRect): Uint8Array | undefined => {
+  if (!exclusion || exclusion.paintedPixels === 0) return undefined;
+  const mask = new Uint8Array(region.width * region.height);
+  rasterizePaintMask(exclusion, width, height, region, mask);
+  return mask;
+};
+
+// Centres of the square patches (side 2 * half + 1) that lie completely inside
+// the buffer and touch no pixel set in any of `blocked`; the patches a fill may
+// copy from. Found with a summed-area table of the blocked pixels.
+export const buildPatchSourceMap = (blocked: Array<Uint8Array | undefined>, width: number, height: number, half: number): Uint8Array => {
+  const masks = blocked.filter((mask): mask is Uint8Array => !!mask);
+  const stride = width + 1;
+  const sums = new Uint32Array(stride * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (masks.some(mask => mask[i])) rowSum++;
+      sums[(y + 1) * stride + x + 1] = sums[y * stride + x + 1] + rowSum;
+    }
+  }
+  const source = new Uint8Array(width * height);
+  for (let y = half; y < height - half; y++) {
+    for (let x = half; x < width - half; x++) {
+      const top = y - half;
+      const left = x - half;
+      const bottom = y + half + 1;
+      const right = x + half + 1;
+      const count = sums[bottom * stride + right] - sums[top * stride + right] - sums[bottom * stride + left] + sums[top * stride + left];
+      if (count === 0) source[y * width + x] = 1;
+    }
+  }
+  return source;
+};
+
+// Grows the mask by a disc of `radius` pixels, so a loose brush mark over thin
+// strokes also covers their anti-aliased edges and shadows. Only boundary
+// pixels stamp the disc, which keeps the cost at the outline of the strokes.
+export const dilateMask = (mask: Uint8Array, width: number, height: number, radius: number): Uint8Array => {
+  const dilated = mask.slice();
+  if (radius <= 0) return dilated;
+  // Half-width of the disc on each row offset
+  const spans: number[] = [];
+  for (let dy = -radius; dy <= radius; dy++) spans.push(Math.floor(Math.sqrt(radius * radius - dy * dy)));
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (!mask[i]) continue;
+      const interior = x > 0 && x < width - 1 && y > 0 && y < height - 1 &&
+        mask[i - 1] && mask[i + 1] && mask[i - width] && mask[i + width];
+      if (interior) continue;
+      for (let dy = -radius; dy <= radius; dy++) {
+        const py = y + dy;
+        if (py < 0 || py >= height) continue;
+        const span = spans[dy + radius];
+        const left = Math.max(0, x - span);
+        const right = Math.min(width - 1, x + span);
+        dilated.fill(255, py * width + left, py * width + right + 1);
+      }
+    }
+  }
+  return dilated;
+};
+
+// A target pixel is masked when any source pixel it covers is, so scaling down
+// never drops thin strokes
+export const resampleMaskCovering = (mask: Uint8Array, sourceWidth: number, sourceHeight: number, targetWidth: number, targetHeight: number): Uint8Array => {
+  const target = new Uint8Array(targetWidth * targetHeight);
+  const scaleX = sourceWidth / targetWidth;
+  const scaleY = sourceHeight / targetHeight;
+  for (let y = 0; y < targetHeight; y++) {
+    const top = Math.floor(y * scaleY);
+    const bottom = Math.min(sourceHeight, Math.max(top + 1, Math.ceil((y + 1) * scaleY)));
+    for (let x = 0; x < targetWidth; x++) {
+      const left = Math.floor(x * scaleX);
+      const right = Math.min(sourceWidth, Math.max(left + 1, Math.ceil((x + 1) * scaleX)));
+      let covered = false;
+      for (let sy = top; sy < bottom && !covered; sy++) {
+        for (let sx = left; sx < right; sx++) {
+          if (mask[sy * sourceWidth + sx]) {
+            covered = true;
+            break;
+          }
+        }
+      }
+      if (covered) target[y * targetWidth + x] = 255;
+    }
+  }
+  return target;
+};
+
+// resampleMaskCovering of the processing mask of a sourceWidth x sourceHeight
+// image, rasterizing at full size only the box around the selection
+export const buildCoveringMask = (source: WatermarkMaskSource, sourceWidth: number, sourceHeight: number, targetWidth: number, targetHeight: number): Uint8Array => {
+  const target = new Uint8Array(targetWidth * targetHeight);
+  const bounds = getSelectionBounds(source);
+  if (!bounds) return target;
+  // One pixel more for the rounding of the normalized bounds
+  const left = Math.max(0, Math.floor(bounds.x * sourceWidth) - 1);
+  const top = Math.max(0, Math.floor(bounds.y * sourceHeight) - 1);
+  const right = Math.min(sourceWidth, Math.ceil((bounds.x + bounds.width) * sourceWidth) + 1);
+  const bottom = Math.min(sourceHeight, Math.ceil((bounds.y + bounds.height) * sourceHeight) + 1);
+  if (right <= left || bottom <= top) return target;
+  const region = { x: left, y: top, width: right - left, height: bottom - top };
+  const mask = buildRegionMask(source, sourceWidth, sourceHeight, region);
+
+  const scaleX = sourceWidth / targetWidth;
+  const scaleY = sourceHeight / targetHeight;
+  // Every target pixel that covers part of the box, see resampleMaskCovering
+  const targetTop = Math.max(0, Math.floor(top / scaleY) - 1);
+  const targetBottom = Math.min(targetHeight, Math.ceil(bottom / scaleY) + 1);
+  const targetLeft = Math.max(0, Math.floor(left / scaleX) - 1);
+  const targetRight = Math.min(targetWidth, Math.ceil(right / scaleX) + 1);
+  for (let y = targetTop; y < targetBottom; y++) {
+    const coveredTop = Math.floor(y * scaleY);
+    const rowTop = Math.max(top, coveredTop);
+    const rowBottom = Math.min(bottom, Math.max(coveredTop + 1, Math.ceil((y + 1) * scaleY)));
+    for (let x = targetLeft; x < targetRight; x++) {
+      const coveredLeft = Math.floor(x * scaleX);
+      const columnLeft = Math.max(left, coveredLeft);
+      const columnRight = Math.min(right, Math.max(coveredLeft + 1, Math.ceil((x + 1) * scaleX)));
+      let covered = false;
+      for (let sy = rowTop; sy < rowBottom && !covered; sy++) {
+        const row = (sy - top) * region.width - left;
+        for (let sx = columnLeft; sx < columnRight; sx++) {
+          if (mask[row + sx]) {
+            covered = true;
+            break;
+          }
+        }
+      }
+      if (covered) target[y * targetWidth + x] = 255;
+    }
+  }
+  return target;
+};
+
+// Opacity 0..255 that is full over the mask and falls off linearly to nothing
+// `feather` pixels outside it (3-4 chamfer distance), for compositing a fill
+// whose edge pixels are soft, such as an upscaled patch
+export const featherMask = (mask: Uint8Array, width: number, height: number, feather: number): Uint8Array => {
+  const alpha = new Uint8Array(width * height);
+  const bounds = getMaskBounds(mask, width, height);
+  if (!bounds) return alpha;
+  const left = Math.max(0, bounds.x - feather);
+  const top = Math.max(0, bounds.y - feather);
+  const right = Math.min(width - 1, bounds.x + bounds.width - 1 + feather);
+  const bottom = Math.min(height - 1, bounds.y + bounds.height - 1 + feather);
+  const boxWidth = right - left + 1;
+  const boxHeight = bottom - top + 1;
+
+  // In thirds of a pixel: 3 per straight step, 4 per diagonal one
+  const distance = new Float32Array(boxWidth * boxHeight).fill(Infinity);
+  for (let y = 0; y < boxHeight; y++) {
+    for (let x = 0; x < boxWidth; x++) {
+      if (mask[(top + y) * width + left + x]) distance[y * boxWidth + x] = 0;
+    }
+  }
+  const relax = (k: number, x: number, y: number, dx: number, dy: number, cost: number) => {
+    const nx = x + dx;
+    const ny = y + dy;
+    if (nx < 0 || nx >= boxWidth || ny < 0 || ny >= boxHeight) return;
+    const candidate = distance[ny * boxWidth + nx] + cost;
+    if (candidate < distance[k]) distance[k] = candidate;
+  };
+  for (let y = 0; y < boxHeight; y++) {
+    for (let x = 0; x < boxWidth; x++) {
+      const k = y * boxWidth + x;
+      relax(k, x, y, -1, 0, 3);
+      relax(k, x, y, -1, -1, 4);
+      relax(k, x, y, 0, -1, 3);
+      relax(k, x, y, 1, -1, 4);
+    }
+  }
+  for (let y = boxHeight - 1; y >= 0; y--) {
+    for (let x = boxWidth - 1; x >= 0; x--) {
+      const k = y * boxWidth + x;
+      relax(k, x, y, 1, 0, 3);
+      relax(k, x, y, 1, 1, 4);
+      relax(k, x, y, 0, 1, 3);
+      relax(k, x, y, -1, 1, 4);
+    }
+  }
+
+  for (let y = 0; y < boxHeight; y++) {
+    for (let x = 0; x < boxWidth; x++) {
+      const pixels = distance[y * boxWidth + x] / 3;
+      const opacity = 1 - pixels / (feather + 1);
+      if (opacity > 0) alpha[(top + y) * width + left + x] = Math.round(opacity * 255);
+    }
+  }
+  return alpha;
+};
+
+export const getMaskBounds = (mask: Uint8Array, width: number, height: number): MaskRect | null => {
+  let left = width, top = height, right = -1, bottom = -1;
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    for (let x = 0; x < width; x++) {
+      if (mask[row + x]) {
+        if (x < left) left = x;
+        if (x > right) right = x;
+        if (y < top) top = y;
+        bottom = y;
+      }
+    }
+  }
+  if (right < 0) return null;
+  return { x: left, y: top, width: right - left + 1, height: bottom - top + 1 };
+};
+
+// Joins boxes closer than `gap` pixels, so the letters of one text watermark become one region
+export const mergeNearbyRects = (rects: MaskRect[], gap: number): MaskRect[] => {
+    const merged = rects.map(rect => ({ ...rect }));
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (let i = 0; i < merged.length && !changed; i++) {
+        for (let j = i + 1; j < merged.length; j++) {
+          const a = merged[i];
+          const b = merged[j];
+          const apart = a.x - gap > b.x + b.width || b.x - gap > a.x + a.width ||
+            a.y - gap > b.y + b.height || b.y - gap > a.y + a.height;
+          if (apart) continue;
+          const left = Math.min(a.x, b.x);
+          const top = Math.min(a.y, b.y);
+          merged[i] = {
+            x: left,
+            y: top,
+            width: Math.max(a.x + a.width, b.x + b.width) - left,
+            height: Math.max(a.y + a.height, b.y + b.height) - top
+          };
+          merged.splice(j, 1);
+          changed = true;
+          break;
+        }
+      }
+    }
+    return merged;
+};
+
+export interface MaskComponent {
+  bounds: MaskRect;
+  pixelCount: number;
+}
+
+// 8-connected regions of set pixels, skipping those smaller than `minPixels`
+export const findMaskComponents = (mask: Uint8Array, width: number, height: number, minPixels = 1): MaskComponent[] => {
+  const visited = new Uint8Array(width * height);
+  const stack = new Int32Array(width * height);
+  const components: MaskComponent[] = [];
+
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || visited[start]) continue;
+    let top = 0;
+    stack[top++] = start;
+    visited[start] = 1;
+    let left = width, right = -1, upper = height, lower = -1, pixelCount = 0;
+
+    while (top > 0) {
+      const index = stack[--top];
+      const x = index % width;
+      const y = (index - x) / width;
+      pixelCount++;
+      if (x < left) left = x;
+      if (x > right) right = x;
+      if (y < upper) upper = y;
+      if (y > lower) lower = y;
+
+      for (let dy = -1; dy <= 1; dy++) {
+        const ny = y + dy;
+        if (ny < 0 || ny >= height) continue;
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          if (nx < 0 || nx >= width) continue;
+          const neighbor = ny * width + nx;
+          if (mask[neighbor] && !visited[neighbor]) {
+            visited[neighbor] = 1;
+            stack[top++] = neighbor;
+          }
+        }
+      }
+    }
+
+    if (pixelCount >= minPixels) {
+      components.push({ bounds: { x: left, y: upper, width: right - left + 1, height: lower - upper + 1 }, pixelCount });
+    }
+  }
+
+  return components;
+};
+
+// Normalized bounding box of every vector mark and painted pixel
+export const getSelectionBounds = (source: WatermarkMaskSource): MaskRect | null => {
+  const rects: MaskRect[] = source.watermarkMarks.map(({ x, y, width, height }) => ({ x, y, width, height }));
+  const paintMask = source.paintMask;
+  if (paintMask && paintMask.paintedPixels > 0) {
+    const painted = getMaskBounds(paintMask.data, paintMask.width, paintMask.height);
+    if (painted) {
+      rects.push({
+        x: painted.x / paintMask.width,
+        y: painted.y / paintMask.height,
+        width: painted.width / paintMask.width,
+        height: painted.height / paintMask.height
+      });
+    }
+  }
+  if (rects.length === 0) return null;
+  const left = Math.min(...rects.map(rect => rect.x));
+  const top = Math.min(...rects.map(rect => rect.y));
+  return {
+    x: left,
+    y: top,
+    width: Math.max(...rects.map(rect => rect.x + rect.width)) - left,
+    height: Math.max(...rects.map(rect => rect.y + rect.height)) - top
+  };
+};
+
+export const hasWatermarkMask = (image: Pick<ImageItem, 'watermarkMarks' | 'paintMask'>): boolean =>
+  image.watermarkMarks.length > 0 || (image.paintMask?.paintedPixels || 0) > 0;
@@ -0,0 +1,103 @@
+// Neural inpainting worker: one image at a time for the client in utils/neuralInpaintingClient.
+// The model session stays loaded between messages.
+import { InferenceSession, Tensor, env } from 'onnxruntime-web/wasm';
+// Both runtime files are emitted with the app, so no runtime code is loaded
+// from another origin
+import runtimeGlueUrl from 'onnxruntime-web/dist/ort-wasm-simd-threaded.mjs?url';
+import runtimeWasmUrl from 'onnxruntime-web/dist/ort-wasm-simd-threaded.wasm?url';
+import {
+  NEURAL_INPUT_SIZE,
+  NeuralModelConfig,
+  NeuralStatus,
+  NeuralWorkerRequest,
+  NeuralWorkerResponse,
+  compositeModelOutput,
+  fetchCached,
+  fetchWithProgress,
+  toModelInputs
+} from './neuralInpainting';
+import { PixelBuffer } from './pixelAlgorithms';
+
+const post = (message: NeuralWorkerResponse, transfer: Transferable[] = []) => self.postMessage(message, { transfer });
+
+let runtimeReady = false;
+let session: InferenceSession | null = null;
+let sessionModelUrl: string | null = null;
+
+const ensureSession = async (config: NeuralModelConfig, onStatus: (status: NeuralStatus) => void): Promise<InferenceSession> => {
+  if (session && sessionModelUrl === config.modelUrl) return session;
+
+  if (!runtimeReady) {
+    // Same-origin and content-hashed, so the HTTP cache keeps it; Cache Storage is for models only
+    onStatus({ stage: 'download-runtime', loaded: 0, total: 0 });
+    env.wasm.wasmBinary = await fetchWithProgress(runtimeWasmUrl, (loaded, total) =>
+      onStatus({ stage: 'download-runtime', loaded, total }));
+    env.wasm.wasmPaths = { mjs: new URL(runtimeGlueUrl, self.location.href).href };
+    // Threads need SharedArrayBuffer, which only cross-origin isolated pages get
+    env.wasm.numThreads = self.crossOriginIsolated ? Math.min(4, navigator.hardwareConcurrency || 1) : 1;
+    runtimeReady = true;
+  }
+
+  onStatus({ stage: 'download-model', loaded: 0, total: 0 });
+  const model = await fetchCached(config.modelUrl, (loaded, total) => onStatus({ stage: 'download-model', loaded, total }));
+
+  onStatus({ stage: 'initialize' });
+  if (session) {
+    await session.release();
+    session = null;
+    sessionModelUrl = null;
+  }
+  try {
+    session = await InferenceSession.create(new Uint8Array(model), { executionProviders: ['wasm'], graphOptimizationLevel: 'all' });
+  } catch (error) {
+    throw new Error(`模型初始化失败: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (session.inputNames.length < 2) {
+    throw new Error('模型格式不受支持，需要图像和遮罩两个输入');
+  }
+  sessionModelUrl = config.modelUrl;
+  return session;
+};
+
+// Fills the masked pixels of `image` in place
+const inpaint = async (image: PixelBuffer, mask: Uint8Array, config: NeuralModelConfig, onStatus: (status: NeuralStatus) => void): Promise<PixelBuffer> => {
+  const model = await ensureSession(config, onStatus);
+  onStatus({ stage: 'inference' });
+
+  const inputs = toModelInputs(image, mask);
+  const size = NEURAL_INPUT_SIZE;
+  // Exports name the mask input 'mask'; otherwise it is taken to be the second one
+  const maskName = model.inputNames.find(name => name.toLowerCase().includes('mask')) || model.inputNames[1];
+  const imageName = model.inputNames.find(name => name !== maskName)!;
+  const results = await model.run({
+    [imageName]: new Tensor('float32', inputs.image, [1, 3, size, size]),
+    [maskName]: new Tensor('float32', inputs.mask, [1, 1, size, size])
+  });
+  const output = results[model.outputNames[0]];
+  if (output.type !== 'float32' || output.data.length !== inputs.image.length) {
+    throw new Error('模型输出格式不受支持');
+  }
+  compositeModelOutput(image, mask, output.data as Float32Array);
+  output.dispose();
+  return image;
+};
+
+self.onmessage = async (event: MessageEvent<NeuralWorkerRequest>) => {
+  const { id, image, mask, config } = event.data;
+  // Downloads report per chunk; only whole percents (megabytes when the size is unknown) are passed on
+  let lastKey = '';
+  const onStatus = (status: NeuralStatus) => {
+    const percent = status.total ? Math.floor((status.loaded || 0) / status.total * 100) : Math.floor((status.loaded || 0) / (1024 * 1024));
+    const key = `${status.stage}:${percent}`;
+    if (key === lastKey) return;
+    lastKey = key;
+    post({ id, type: 'status', status });
+  };
+
+  try {
+    const output = await inpaint(image, mask, config, onStatus);
+    post({ id, type: 'result', output }, [output.data.buffer]);
+  } catch (error) {
+    post({ id, type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
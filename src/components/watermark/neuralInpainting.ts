@@ -0,0 +1,174 @@
+// Inpainting with a LaMa ONNX export: the model input and output conversions
+// and the download cache. The session itself lives in neural.worker.ts; this
+// module stays free of ONNX Runtime so the main thread can share its types.
+import { PixelBuffer } from './pixelAlgorithms';
+import { resampleMaskCovering } from './maskUtils';
+
+// Side length of the square model input, fixed by the export
+export const NEURAL_INPUT_SIZE = 512;
+export const NEURAL_CACHE_NAME = 'neural-inpainting-models';
+
+export interface NeuralModelConfig {
+  // Absolute URL; same-origin paths serve a model placed next to the app for offline use
+  modelUrl: string;
+}
+
+export type NeuralStage = 'download-runtime' | 'download-model' | 'initialize' | 'inference';
+
+export interface NeuralStatus {
+  stage: NeuralStage;
+  // Bytes, for the download stages; total is 0 when the server does not send it
+  loaded?: number;
+  total?: number;
+}
+
+export type NeuralWorkerRequest = { id: number; image: PixelBuffer; mask: Uint8Array; config: NeuralModelConfig };
+
+export type NeuralWorkerResponse =
+  | { id: number; type: 'status'; status: NeuralStatus }
+  | { id: number; type: 'result'; output: PixelBuffer }
+  | { id: number; type: 'error'; message: string };
+
+// Bilinear resampling of interleaved channels, sampling at pixel centres
+export const resampleBilinear = (
+  source: ArrayLike<number>,
+  sourceWidth: number,
+  sourceHeight: number,
+  channels: number,
+  width: number,
+  height: number
+): Float32Array => {
+  const target = new Float32Array(width * height * channels);
+  const scaleX = sourceWidth / width;
+  const scaleY = sourceHeight / height;
+  for (let y = 0; y < height; y++) {
+    const sy = Math.min(sourceHeight - 1, Math.max(0, (y + 0.5) * scaleY - 0.5));
+    const y0 = Math.floor(sy);
+    const y1 = Math.min(sourceHeight - 1, y0 + 1);
+    const fy = sy - y0;
+    for (let x = 0; x < width; x++) {
+      const sx = Math.min(sourceWidth - 1, Math.max(0, (x + 0.5) * scaleX - 0.5));
+      const x0 = Math.floor(sx);
+      const x1 = Math.min(sourceWidth - 1, x0 + 1);
+      const fx = sx - x0;
+      const i00 = (y0 * sourceWidth + x0) * channels;
+      const i01 = (y0 * sourceWidth + x1) * channels;
+      const i10 = (y1 * sourceWidth + x0) * channels;
+      const i11 = (y1 * sourceWidth + x1) * channels;
+      const out = (y * width + x) * channels;
+      for (let c = 0; c < channels; c++) {
+        const top = source[i00 + c] * (1 - fx) + source[i01 + c] * fx;
+        const bottom = source[i10 + c] * (1 - fx) + source[i11 + c] * fx;
+        target[out + c] = top * (1 - fy) + bottom * fy;
+      }
+    }
+  }
+  return target;
+};
+
+// Planar 0..1 RGB and a binary mask at the model size; masked pixels are blanked
+// the way LaMa saw them in training
+export const toModelInputs = (image: PixelBuffer, mask: Uint8Array): { image: Float32Array; mask: Float32Array } => {
+  const size = NEURAL_INPUT_SIZE;
+  const area = size * size;
+  const rgba = resampleBilinear(image.data, image.width, image.height, 4, size, size);
+  const scaledMask = Float32Array.from(resampleMaskCovering(mask, image.width, image.height, size, size), value => value ? 1 : 0);
+  const pixels = new Float32Array(area * 3);
+  for (let i = 0; i < area; i++) {
+    for (let c = 0; c < 3; c++) {
+      pixels[c * area + i] = scaledMask[i] ? 0 : rgba[i * 4 + c] / 255;
+    }
+  }
+  return { image: pixels, mask: scaledMask };
+};
+
+// Scales the planar model output back to the image and replaces only the masked
+// pixels, so everything outside the mask keeps its original resolution
+export const compositeModelOutput = (image: PixelBuffer, mask: Uint8Array, output: Float32Array): void => {
+  const size = NEURAL_INPUT_SIZE;
+  const area = size * size;
+  // Exports differ in whether they end with the *255 step
+  let max = 0;
+  for (let i = 0; i < output.length; i++) {
+    if (output[i] > max) max = output[i];
+  }
+  const scale = max <= 1.5 ? 255 : 1;
+  const rgb = new Float32Array(area * 3);
+  for (let i = 0; i < area; i++) {
+    for (let c = 0; c < 3; c++) {
+      rgb[i * 3 + c] = output[c * area + i] * scale;
+    }
+  }
+
+  const resized = resampleBilinear(rgb, size, size, 3, image.width, image.height);
+  const { data } = image;
+  for (let i = 0; i < mask.length; i++) {
+    if (!mask[i]) continue;
+    data[i * 4] = resized[i * 3];
+    data[i * 4 + 1] = resized[i * 3 + 1];
+    data[i * 4 + 2] = resized[i * 3 + 2];
+  }
+};
+
+const openCache = async (): Promise<Cache | null> => {
+  if (typeof caches === 'undefined') return null;
+  try {
+    return await caches.open(NEURAL_CACHE_NAME);
+  } catch {
+    // Cache Storage is unavailable in insecure contexts and some private modes
+    return null;
+  }
+};
+
+// Downloads a file, reporting the bytes received
+export const fetchWithProgress = async (url: string, onProgress: (loaded: number, total: number) => void): Promise<ArrayBuffer> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`模型文件下载失败 (${response.status})`);
+  }
+  const total = Number(response.headers.get('Content-Length')) || 0;
+  let buffer: ArrayBuffer;
+  const reader = response.body?.getReader();
+  if (reader) {
+    const chunks: Uint8Array[] = [];
+    let loaded = 0;
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+      loaded += value.byteLength;
+      onProgress(loaded, total);
+    }
+    const bytes = new Uint8Array(loaded);
+    let offset = 0;
+    chunks.forEach(chunk => {
+      bytes.set(chunk, offset);
+      offset += chunk.byteLength;
+    });
+    buffer = bytes.buffer;
+  } else {
+    buffer = await response.arrayBuffer();
+    onProgress(buffer.byteLength, buffer.byteLength);
+  }
+  return buffer;
+};
+
+// Reads a file from Cache Storage, or downloads it with progress and stores it
+export const fetchCached = async (url: string, onProgress: (loaded: number, total: number) => void): Promise<ArrayBuffer> => {
+  const cache = await openCache();
+  const cached = await cache?.match(url);
+  if (cached) {
+    const buffer = await cached.arrayBuffer();
+    onProgress(buffer.byteLength, buffer.byteLength);
+    return buffer;
+  }
+
+  const buffer = await fetchWithProgress(url, onProgress);
+  try {
+    await cache?.put(url, new Response(buffer, { headers: { 'Content-Type': 'application/octet-stream' } }));
+  } catch (error) {
+    // Over quota: keep going, the file is downloaded again next time
+    console.warn('模型缓存失败:', error);
+  }
+  return buffer;
+};
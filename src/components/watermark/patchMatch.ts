@@ -0,0 +1,381 @@
+// Content-aware fill with PatchMatch (Barnes et al. 2009) inside the iterative
+// scheme of Wexler, Shechtman and Irani (2007). Every patch overlapping the hole
+// gets a nearest neighbour among the patches the fill may copy from, then the
+// hole is rebuilt by letting all overlapping neighbours vote, and the two steps
+// alternate. PatchMatch finds the neighbours by passing good matches on to the
+// adjacent patches plus a shrinking random search, so the cost follows the size
+// of the hole rather than the number of source patches. Solving coarse to fine
+// settles large structures at low resolution before the detail is added.
+import type { IterationStatus, PixelBuffer, ProgressCallback } from './pixelAlgorithms';
+import { buildPatchSourceMap, getMaskBounds } from './maskUtils';
+
+export interface PatchMatchSettings {
+  patchSize: number;
+  // Pixels no patch may be copied from, at the buffer's size
+  exclusion?: Uint8Array;
+}
+
+const MAX_LEVELS = 6;
+// EM iterations at the coarsest level; each finer level runs one fewer, down to the minimum
+const MAX_ITERATIONS = 6;
+const MIN_ITERATIONS = 2;
+const PROGRESS_INTERVAL = 4096;
+
+interface PyramidLevel {
+  width: number;
+  height: number;
+  // RGB, three floats per pixel
+  color: Float32Array;
+  hole: Uint8Array;
+  exclusion?: Uint8Array;
+}
+
+// Marks pixels without a match in the nearest-neighbour field
+const NO_MATCH = -1;
+
+// Nearest-neighbour field of one level: for every target patch centre (within
+// half a patch of the hole) the centre of its best source patch and the distance
+interface NeighbourField {
+  targets: Int32Array;
+  nnf: Int32Array;
+  distance: Float32Array;
+  sourceMap: Uint8Array;
+  sources: Int32Array;
+}
+
+// Half resolution; a pixel is a hole (or excluded) when any pixel it covers is,
+// and known pixels average only the known pixels below them
+const downsample = (level: PyramidLevel): PyramidLevel => {
+  const width = Math.ceil(level.width / 2);
+  const height = Math.ceil(level.height / 2);
+  const color = new Float32Array(width * height * 3);
+  const hole = new Uint8Array(width * height);
+  const exclusion = level.exclusion && new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      let r = 0, g = 0, b = 0, known = 0;
+      let allR = 0, allG = 0, allB = 0, all = 0;
+      for (let dy = 0; dy < 2; dy++) {
+        const py = y * 2 + dy;
+        if (py >= level.height) continue;
+        for (let dx = 0; dx < 2; dx++) {
+          const px = x * 2 + dx;
+          if (px >= level.width) continue;
+          const p = py * level.width + px;
+          const c = p * 3;
+          allR += level.color[c];
+          allG += level.color[c + 1];
+          allB += level.color[c + 2];
+          all++;
+          if (level.hole[p]) {
+            hole[i] = 255;
+          } else {
+            r += level.color[c];
+            g += level.color[c + 1];
+            b += level.color[c + 2];
+            known++;
+          }
+          if (exclusion && level.exclusion![p]) exclusion[i] = 255;
+        }
+      }
+      const divisor = known || all;
+      color[i * 3] = (known ? r : allR) / divisor;
+      color[i * 3 + 1] = (known ? g : allG) / divisor;
+      color[i * 3 + 2] = (known ? b : allB) / divisor;
+    }
+  }
+  return { width, height, color, hole, exclusion };
+};
+
+// Pixels within `radius` (square neighbourhood) of a set pixel, inside `bounds` grown by the radius
+const dilate = (mask: Uint8Array, width: number, height: number, radius: number): Int32Array => {
+  const bounds = getMaskBounds(mask, width, height)!;
+  const left = Math.max(0, bounds.x - radius);
+  const top = Math.max(0, bounds.y - radius);
+  const right = Math.min(width, bounds.x + bounds.width + radius);
+  const bottom = Math.min(height, bounds.y + bounds.height + radius);
+  const rows = new Uint8Array(width * height);
+  for (let y = bounds.y; y < bounds.y + bounds.height; y++) {
+    for (let x = left; x < right; x++) {
+      for (let dx = -radius; dx <= radius; dx++) {
+        const px = x + dx;
+        if (px >= 0 && px < width && mask[y * width + px]) {
+          rows[y * width + x] = 1;
+          break;
+        }
+      }
+    }
+  }
+  const targets: number[] = [];
+  for (let y = top; y < bottom; y++) {
+    for (let x = left; x < right; x++) {
+      for (let dy = -radius; dy <= radius; dy++) {
+        const py = y + dy;
+        if (py >= 0 && py < height && rows[py * width + x]) {
+          targets.push(y * width + x);
+          break;
+        }
+      }
+    }
+  }
+  return Int32Array.from(targets);
+};
+
+// Known colours spread into the hole ring by ring; the start of the coarsest level
+const fillFromBoundary = ({ width, height, color, hole }: PyramidLevel) => {
+  const unfilled = Uint8Array.from(hole, value => value ? 1 : 0);
+  let pending = unfilled.reduce((count, value) => count + value, 0);
+  while (pending > 0) {
+    const ring: number[] = [];
+    for (let i = 0; i < unfilled.length; i++) {
+      if (!unfilled[i]) continue;
+      const x = i % width;
+      const y = (i - x) / width;
+      let r = 0, g = 0, b = 0, count = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const px = x + dx;
+          const py = y + dy;
+          if (px < 0 || px >= width || py < 0 || py >= height) continue;
+          const p = py * width + px;
+          if (unfilled[p]) continue;
+          r += color[p * 3];
+          g += color[p * 3 + 1];
+          b += color[p * 3 + 2];
+          count++;
+        }
+      }
+      if (count === 0) continue;
+      color[i * 3] = r / count;
+      color[i * 3 + 1] = g / count;
+      color[i * 3 + 2] = b / count;
+      ring.push(i);
+    }
+    // Nothing known touches the rest (the whole buffer is a hole): leave it
+    if (ring.length === 0) break;
+    ring.forEach(i => { unfilled[i] = 0; });
+    pending -= ring.length;
+  }
+};
+
+// Fills the masked pixels in place. Returns false when the buffer holds no
+// complete patch outside the mask and the exclusion to copy from.
+export const inpaintPatchMatch = (image: PixelBuffer, mask: Uint8Array, { patchSize, exclusion }: PatchMatchSettings, onProgress?: ProgressCallback): boolean => {
+  const { data, width, height } = image;
+  const half = Math.max(1, Math.floor(patchSize / 2));
+  if (!getMaskBounds(mask, width, height)) return true;
+
+  const finest: PyramidLevel = { width, height, color: new Float32Array(width * height * 3), hole: mask, exclusion };
+  for (let i = 0; i < width * height; i++) {
+    finest.color[i * 3] = data[i * 4];
+    finest.color[i * 3 + 1] = data[i * 4 + 1];
+    finest.color[i * 3 + 2] = data[i * 4 + 2];
+  }
+
+  // Each level halves the image until it gets too small for a few patches or the hole shrinks to about one
+  const levels = [finest];
+  while (levels.length < MAX_LEVELS) {
+    const last = levels[levels.length - 1];
+    const bounds = getMaskBounds(last.hole, last.width, last.height)!;
+    if (Math.min(last.width, last.height) / 2 < patchSize * 2 || Math.max(bounds.width, bounds.height) / 2 < patchSize) break;
+    levels.push(downsample(last));
+  }
+
+  // Coarse levels where the grown hole leaves no complete source patch are skipped
+  const fields: NeighbourField[] = [];
+  for (const level of levels) {
+    const sourceMap = buildPatchSourceMap([level.hole, level.exclusion], level.width, level.height, half);
+    const sources: number[] = [];
+    sourceMap.forEach((valid, i) => { if (valid) sources.push(i); });
+    if (sources.length === 0) break;
+    const size = level.width * level.height;
+    fields.push({
+      targets: dilate(level.hole, level.width, level.height, half),
+      nnf: new Int32Array(size).fill(NO_MATCH),
+      distance: new Float32Array(size),
+      sourceMap,
+      sources: Int32Array.from(sources)
+    });
+  }
+  if (fields.length === 0) return false;
+  levels.length = fields.length;
+
+  // Fixed seed: the same mask and settings give the same fill
+  let seed = 0x9e3779b9;
+  const random = () => {
+    seed ^= seed << 13;
+    seed ^= seed >>> 17;
+    seed ^= seed << 5;
+    return (seed >>> 0) / 4294967296;
+  };
+
+  const iterationsAt = (index: number) => Math.max(MIN_ITERATIONS, MAX_ITERATIONS - (levels.length - 1 - index));
+  const totalWork = fields.reduce((total, field, index) => total + field.targets.length * iterationsAt(index), 0);
+  let doneWork = 0;
+
+  for (let index = levels.length - 1; index >= 0; index--) {
+    const level = levels[index];
+    const field = fields[index];
+    const { width: w, height: h, color, hole } = level;
+    const { targets, nnf, distance, sourceMap, sources } = field;
+
+    // Sum of squared differences, giving up once it exceeds `limit`; source patches are always inside
+    const patchDistance = (target: number, source: number, limit: number) => {
+      const tx = target % w;
+      const ty = (target - tx) / w;
+      const offset = (source - target) * 3;
+      let sum = 0;
+      for (let dy = -half; dy <= half; dy++) {
+        const py = ty + dy;
+        if (py < 0 || py >= h) continue;
+        for (let dx = -half; dx <= half; dx++) {
+          const px = tx + dx;
+          if (px < 0 || px >= w) continue;
+          const t = (py * w + px) * 3;
+          const dr = color[t] - color[t + offset];
+          const dg = color[t + 1] - color[t + 1 + offset];
+          const db = color[t + 2] - color[t + 2 + offset];
+          sum += dr * dr + dg * dg + db * db;
+        }
+        if (sum >= limit) return sum;
+      }
+      return sum;
+    };
+
+    const tryCandidate = (target: number, candidate: number) => {
+      if (candidate === nnf[target] || !sourceMap[candidate]) return;
+      const candidateDistance = patchDistance(target, candidate, distance[target]);
+      if (candidateDistance < distance[target]) {
+        distance[target] = candidateDistance;
+        nnf[target] = candidate;
+      }
+    };
+
+    // Hole pixels become the weighted mean of what the overlapping patches'
+    // neighbours put there; close matches count most
+    const holeBounds = getMaskBounds(hole, w, h)!;
+    const vote = (weighted: boolean) => {
+      const accumulator = new Float32Array(holeBounds.width * holeBounds.height * 4);
+      let meanDistance = 0;
+      if (weighted) {
+        targets.forEach(t => { meanDistance += distance[t]; });
+        meanDistance = meanDistance / targets.length + 1;
+      }
+      for (let k = 0; k < targets.length; k++) {
+        const target = targets[k];
+        const source = nnf[target];
+        const weight = weighted ? Math.exp(-distance[target] / meanDistance) : 1;
+        const tx = target % w;
+        const ty = (target - tx) / w;
+        for (let dy = -half; dy <= half; dy++) {
+          const py = ty + dy;
+          if (py < holeBounds.y || py >= holeBounds.y + holeBounds.height) continue;
+          for (let dx = -half; dx <= half; dx++) {
+            const px = tx + dx;
+            if (px < holeBounds.x || px >= holeBounds.x + holeBounds.width) continue;
+            const p = py * w + px;
+            if (!hole[p]) continue;
+            const s = (source + dy * w + dx) * 3;
+            const a = ((py - holeBounds.y) * holeBounds.width + px - holeBounds.x) * 4;
+            accumulator[a] += color[s] * weight;
+            accumulator[a + 1] += color[s + 1] * weight;
+            accumulator[a + 2] += color[s + 2] * weight;
+            accumulator[a + 3] += weight;
+          }
+        }
+      }
+      for (let y = 0; y < holeBounds.height; y++) {
+        for (let x = 0; x < holeBounds.width; x++) {
+          const p = (holeBounds.y + y) * w + holeBounds.x + x;
+          const a = (y * holeBounds.width + x) * 4;
+          if (!hole[p] || accumulator[a + 3] === 0) continue;
+          color[p * 3] = accumulator[a] / accumulator[a + 3];
+          color[p * 3 + 1] = accumulator[a + 1] / accumulator[a + 3];
+          color[p * 3 + 2] = accumulator[a + 2] / accumulator[a + 3];
+        }
+      }
+    };
+
+    const randomSource = () => sources[Math.floor(random() * sources.length)];
+    const coarser = index < levels.length - 1 ? { level: levels[index + 1], field: fields[index + 1] } : null;
+    if (coarser) {
+      // Matches found one level up, scaled to this resolution, are the starting guess
+      const { width: cw, height: ch } = coarser.level;
+      targets.forEach(target => {
+        const x = target % w;
+        const y = (target - x) / w;
+        const coarseSource = coarser.field.nnf[Math.min(ch - 1, y >> 1) * cw + Math.min(cw - 1, x >> 1)];
+        if (coarseSource !== NO_MATCH) {
+          const csx = coarseSource % cw;
+          const sx = Math.min(w - 1, (csx << 1) + (x & 1));
+          const sy = Math.min(h - 1, (((coarseSource - csx) / cw) << 1) + (y & 1));
+          const candidate = sy * w + sx;
+          if (sourceMap[candidate]) {
+            nnf[target] = candidate;
+            return;
+          }
+        }
+        nnf[target] = randomSource();
+      });
+      vote(false);
+    } else {
+      targets.forEach(target => { nnf[target] = randomSource(); });
+      fillFromBoundary(level);
+    }
+
+    const iterations = iterationsAt(index);
+    const status: Omit<IterationStatus, 'iteration'> = { scale: levels.length - index, scales: levels.length, iterations };
+    for (let iteration = 0; iteration < iterations; iteration++) {
+      const iterationStatus = { ...status, iteration: iteration + 1 };
+      onProgress?.(doneWork / totalWork * 100, iterationStatus);
+      // The hole changed with the last vote, so every current match is measured again
+      targets.forEach(target => { distance[target] = patchDistance(target, nnf[target], Infinity); });
+
+      // Alternate scan order so good matches travel both ways
+      const forward = iteration % 2 === 0;
+      const step = forward ? 1 : -1;
+      for (let k = 0; k < targets.length; k++) {
+        const target = targets[forward ? k : targets.length - 1 - k];
+        const x = target % w;
+        const y = (target - x) / w;
+
+        // Propagation: the neighbour's match, shifted by one
+        const horizontal = target - step;
+        if (x - step >= 0 && x - step < w && nnf[horizontal] !== NO_MATCH) {
+          const sx = nnf[horizontal] % w + step;
+          if (sx >= 0 && sx < w) tryCandidate(target, nnf[horizontal] + step);
+        }
+        const vertical = target - step * w;
+        if (y - step >= 0 && y - step < h && nnf[vertical] !== NO_MATCH) {
+          const candidate = nnf[vertical] + step * w;
+          if (candidate >= 0 && candidate < w * h) tryCandidate(target, candidate);
+        }
+
+        // Random search in windows halving around the current match
+        for (let radius = Math.max(w, h); radius >= 1; radius >>= 1) {
+          const best = nnf[target];
+          const bx = best % w;
+          const by = (best - bx) / w;
+          const sx = Math.min(w - 1, Math.max(0, bx + Math.floor((random() * 2 - 1) * radius)));
+          const sy = Math.min(h - 1, Math.max(0, by + Math.floor((random() * 2 - 1) * radius)));
+          tryCandidate(target, sy * w + sx);
+        }
+
+        if (onProgress && k % PROGRESS_INTERVAL === PROGRESS_INTERVAL - 1) {
+          onProgress((doneWork + k + 1) / totalWork * 100, iterationStatus);
+        }
+      }
+      vote(true);
+      doneWork += targets.length;
+    }
+  }
+
+  for (let i = 0; i < width * height; i++) {
+    if (!mask[i]) continue;
+    data[i * 4] = Math.round(finest.color[i * 3]);
+    data[i * 4 + 1] = Math.round(finest.color[i * 3 + 1]);
+    data[i * 4 + 2] = Math.round(finest.color[i * 3 + 2]);
+  }
+  return true;
+};
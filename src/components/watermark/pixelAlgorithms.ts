@@ -0,0 +1,548 @@
+// Per-pixel processing algorithms on plain RGBA buffers. No DOM or app
+// singletons here: this module runs inside the processing workers.
+import { AlgorithmParams, MaskRect, ProcessingAlgorithm, TileLattice, WatermarkMaskSource } from './types';
+import { buildProcessingMask, dilateMask, findMaskComponents, getMaskBounds, hasWatermarkMask, mergeNearbyRects } from './maskUtils';
+import { resizeGray, toGrayscale } from './templateMatching';
+import { buildTiledMask, estimateLattice } from './tiledWatermark';
+import { WatermarkLayer, estimateLayerFromImage, getLayerFrame, invertAlphaBlend, sampleMask, sampleRgb } from './alphaBlend';
+import { inpaintExemplar } from './exemplarInpainting';
+import { inpaintPatchMatch } from './patchMatch';
+import { inpaintNavierStokes, inpaintTelea } from './diffusionInpainting';
+import { blendSeams } from './seamBlending';
+import { DEFAULT_ALGORITHM_PARAMS, isDiffusionAlgorithm, isPatchAlgorithm } from './algorithmParams';
+
+// Structurally an ImageData, so either can be passed
+export interface PixelBuffer {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+// Where an iterative solver is, for the status line; scales count coarse to fine
+export interface IterationStatus {
+  scale: number;
+  scales: number;
+  iteration: number;
+  iterations: number;
+}
+
+// Percent complete, 0..100
+export type ProgressCallback = (progress: number, iteration?: IterationStatus) => void;
+
+// Maps a sub-step's 0..100 onto the [start, end] slice of the overall progress
+const scaleProgress = (onProgress: ProgressCallback | undefined, start: number, end: number): ProgressCallback | undefined =>
+  onProgress && (progress => onProgress(start + (end - start) * progress / 100));
+
+// Helper functions: lamaInpaint, calculateTextureConsistency, etc.
+const lamaInpaint = (data: Uint8ClampedArray, x: number, y: number, width: number, height: number, radius: number) => {
+    const validPixels: Array<{
+      r: number;
+      g: number;
+      b: number;
+      a: number;
+      distance: number;
+      weight: number;
+    }> = [];
+
+    // Use more intelligent sampling strategy
+    for (let angle = 0; angle < Math.PI * 2; angle += Math.PI / 16) {
+      for (let r = radius; r <= radius * 3; r += 2) {
+        const nx = Math.round(x + Math.cos(angle) * r);
+        const ny = Math.round(y + Math.sin(angle) * r);
+        if (nx >= 0 && nx < width && ny >= 0 && ny < height) {
+          const nIndex = (ny * width + nx) * 4;
+          const distance = Math.sqrt((nx - x) * (nx - x) + (ny - y) * (ny - y));
+
+          // Texture consistency check
+          const textureScore = calculateTextureConsistency(data, nx, ny, width, height);
+          const weight = 1 / (distance + 1) * (1 + textureScore);
+          validPixels.push({
+            r: data[nIndex],
+            g: data[nIndex + 1],
+            b: data[nIndex + 2],
+            a: data[nIndex + 3],
+            distance: distance,
+            weight: weight
+          });
+        }
+      }
+    }
+    if (validPixels.length === 0) return null;
+
+    // Advanced blending based on weights
+    validPixels.sort((a, b) => b.weight - a.weight);
+    const topPixels = validPixels.slice(0, Math.min(12, validPixels.length));
+    let totalR = 0,
+      totalG = 0,
+      totalB = 0,
+      totalA = 0,
+      totalWeight = 0;
+    topPixels.forEach(pixel => {
+      totalR += pixel.r * pixel.weight;
+      totalG += pixel.g * pixel.weight;
+      totalB += pixel.b * pixel.weight;
+      totalA += pixel.a * pixel.weight;
+      totalWeight += pixel.weight;
+    });
+    return {
+      r: Math.round(totalR / totalWeight),
+      g: Math.round(totalG / totalWeight),
+      b: Math.round(totalB / totalWeight),
+      a: Math.round(totalA / totalWeight)
+    };
+};
+
+const calculateTextureConsistency = (data: Uint8ClampedArray, x: number, y: number, width: number, height: number): number => {
+    let consistency = 0;
+    let count = 0;
+    const directions = [[-1, -1], [-1, 0], [-1, 1], [0, -1], [0, 1], [1, -1], [1, 0], [1, 1]];
+    for (const [dx, dy] of directions) {
+      const nx = x + dx;
+      const ny = y + dy;
+      if (nx >= 0 && nx < width && ny >= 0 && ny < height) {
+        const index = (y * width + x) * 4;
+        const nIndex = (ny * width + nx) * 4;
+        const colorDiff = Math.abs(data[index] - data[nIndex]) + Math.abs(data[index + 1] - data[nIndex + 1]) + Math.abs(data[index + 2] - data[nIndex + 2]);
+        consistency += Math.max(0, 255 - colorDiff) / 255;
+        count++;
+      }
+    }
+    return count > 0 ? consistency / count : 0;
+};
+
+export const detectWatermark = (data: Uint8ClampedArray, x: number, y: number, width: number, height: number): number => {
+    const index = (y * width + x) * 4;
+    const r = data[index];
+    const g = data[index + 1];
+    const b = data[index + 2];
+    const a = data[index + 3];
+    let confidence = 0;
+    const isWhiteish = r > 200 && g > 200 && b > 200;
+    const isSemiTransparent = a > 50 && a < 250;
+    const brightness = (r + g + b) / 3;
+    if (isWhiteish && isSemiTransparent) {
+      confidence += 0.8;
+    }
+    if (brightness > 220 && isSemiTransparent) {
+      confidence += 0.7;
+    }
+    if (r > 150 && g < 100 && b < 100) {
+      confidence += 0.6;
+    }
+    if (r > 180 && g > 100 && g < 200 && b < 100) {
+      confidence += 0.5;
+    }
+    if (a < 245) {
+      confidence += 0.4;
+    }
+    const edgeStrength = calculateEdgeStrength(data, x, y, width, height);
+    if (edgeStrength > 30) {
+      confidence += 0.3;
+    }
+    const colorUniformity = checkColorUniformity(data, x, y, width, height);
+    if (colorUniformity > 0.7) {
+      confidence += 0.2;
+    }
+    return Math.min(confidence, 1.0);
+};
+
+const calculateEdgeStrength = (data: Uint8ClampedArray, x: number, y: number, width: number, height: number): number => {
+    const centerIndex = (y * width + x) * 4;
+    const centerBrightness = (data[centerIndex] + data[centerIndex + 1] + data[centerIndex + 2]) / 3;
+    let maxDiff = 0;
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        if (dx === 0 && dy === 0) continue;
+        const nx = x + dx;
+        const ny = y + dy;
+        if (nx >= 0 && nx < width && ny >= 0 && ny < height) {
+          const neighborIndex = (ny * width + nx) * 4;
+          const neighborBrightness = (data[neighborIndex] + data[neighborIndex + 1] + data[neighborIndex + 2]) / 3;
+          maxDiff = Math.max(maxDiff, Math.abs(centerBrightness - neighborBrightness));
+        }
+      }
+    }
+    return maxDiff;
+};
+
+const checkColorUniformity = (data: Uint8ClampedArray, x: number, y: number, width: number, height: number): number => {
+    const centerIndex = (y * width + x) * 4;
+    const centerR = data[centerIndex];
+    const centerG = data[centerIndex + 1];
+    const centerB = data[centerIndex + 2];
+    let uniformCount = 0;
+    let totalCount = 0;
+    const radius = 2;
+    for (let dy = -radius; dy <= radius; dy++) {
+      for (let dx = -radius; dx <= radius; dx++) {
+        const nx = x + dx;
+        const ny = y + dy;
+        if (nx >= 0 && nx < width && ny >= 0 && ny < height) {
+          const nIndex = (ny * width + nx) * 4;
+          const colorDiff = Math.abs(data[nIndex] - centerR) + Math.abs(data[nIndex + 1] - centerG) + Math.abs(data[nIndex + 2] - centerB);
+          if (colorDiff < 40) uniformCount++;
+          totalCount++;
+        }
+      }
+    }
+    return totalCount > 0 ? uniformCount / totalCount : 0;
+};
+
+const repairPixel = (data: Uint8ClampedArray, x: number, y: number, width: number, height: number, confidence: number, fixedRadius: number | null) => {
+    const radius = fixedRadius ?? Math.min(12, Math.max(6, Math.floor(confidence * 12)));
+    const validPixels: Array<{
+      r: number;
+      g: number;
+      b: number;
+      a: number;
+      weight: number;
+    }> = [];
+    for (let ring = 1; ring <= 3; ring++) {
+      const ringRadius = radius * ring / 3;
+      for (let angle = 0; angle < Math.PI * 2; angle += Math.PI / 8) {
+        const dx = Math.round(Math.cos(angle) * ringRadius);
+        const dy = Math.round(Math.sin(angle) * ringRadius);
+        const nx = x + dx;
+        const ny = y + dy;
+        if (nx >= 0 && nx < width && ny >= 0 && ny < height) {
+          const neighborIndex = (ny * width + nx) * 4;
+          const neighborConfidence = detectWatermark(data, nx, ny, width, height);
+          if (neighborConfidence < 0.1) {
+            const distance = Math.sqrt(dx * dx + dy * dy);
+            const weight = 1 / (distance * distance + 0.1) / ring;
+            validPixels.push({
+              r: data[neighborIndex],
+              g: data[neighborIndex + 1],
+              b: data[neighborIndex + 2],
+              a: data[neighborIndex + 3],
+              weight: weight
+            });
+          }
+        }
+      }
+    }
+    if (validPixels.length === 0) return null;
+    validPixels.sort((a, b) => b.weight - a.weight);
+    const useCount = Math.min(20, validPixels.length);
+    return weightedAverage(validPixels.slice(0, useCount));
+};
+
+const weightedAverage = (pixels: Array<{
+    r: number;
+    g: number;
+    b: number;
+    a: number;
+    weight: number;
+  }>) => {
+    let totalR = 0,
+      totalG = 0,
+      totalB = 0,
+      totalA = 0,
+      totalWeight = 0;
+    pixels.forEach(pixel => {
+      totalR += pixel.r * pixel.weight;
+      totalG += pixel.g * pixel.weight;
+      totalB += pixel.b * pixel.weight;
+      totalA += pixel.a * pixel.weight;
+      totalWeight += pixel.weight;
+    });
+    return {
+      r: Math.round(totalR / totalWeight),
+      g: Math.round(totalG / totalWeight),
+      b: Math.round(totalB / totalWeight),
+      a: Math.round(totalA / totalWeight)
+    };
+};
+
+// Settings the local algorithms can be run with to give different candidate
+// results for one mask; the first entry is what a normal pass uses
+export interface LocalCandidateVariant {
+  label: string;
+  // Sampling radius of each LaMa scale, fine to coarse
+  lamaRadii: number[];
+  // Neighbour radius of the repair modes; null derives it from the confidence
+  repairRadius: number | null;
+  // Factors on the patch size and search window set by the user
+  patchScale: number;
+  searchScale: number;
+  // Factor on the inpaint radius of the fast-marching fills
+  radiusScale: number;
+}
+
+export const LOCAL_CANDIDATE_VARIANTS: LocalCandidateVariant[] = [
+  { label: '标准', lamaRadii: [2, 4, 8], repairRadius: null, patchScale: 1, searchScale: 1, radiusScale: 1 },
+  { label: '平滑', lamaRadii: [2, 4, 8, 16], repairRadius: 16, patchScale: 1.5, searchScale: 1, radiusScale: 1.5 },
+  { label: '细节', lamaRadii: [1, 2, 4], repairRadius: 5, patchScale: 0.6, searchScale: 1, radiusScale: 0.6 },
+  { label: '远距采样', lamaRadii: [4, 8, 16], repairRadius: 20, patchScale: 1, searchScale: 2, radiusScale: 2 }
+];
+
+// LaMa inspired multi-scale inpainting of every masked pixel, in place
+export const inpaintLama = (image: PixelBuffer, mask: Uint8Array, onProgress?: ProgressCallback, radii = LOCAL_CANDIDATE_VARIANTS[0].lamaRadii): void => {
+    const { data, width, height } = image;
+    // Bounding box of the pixel mask so every region is filled in the same pass
+    const bounds = getMaskBounds(mask, width, height);
+    if (!bounds) return;
+    const maskLeft = bounds.x;
+    const maskTop = bounds.y;
+    const maskRight = bounds.x + bounds.width;
+    const maskBottom = bounds.y + bounds.height;
+
+    radii.forEach((radius, scale) => {
+      for (let y = maskTop; y < maskBottom; y++) {
+        for (let x = maskLeft; x < maskRight; x++) {
+          if (!mask[y * width + x]) continue;
+          const repaired = lamaInpaint(data, x, y, width, height, radius);
+          if (repaired) {
+            const index = (y * width + x) * 4;
+            data[index] = repaired.r;
+            data[index + 1] = repaired.g;
+            data[index + 2] = repaired.b;
+            data[index + 3] = repaired.a;
+          }
+        }
+        onProgress?.((scale + (y - maskTop + 1) / bounds.height) / radii.length * 100);
+      }
+    });
+};
+
+// Enhanced / conservative / aggressive: three passes of confidence-weighted
+// neighbour repair over the mask, or over detected pixels when nothing is marked
+export const repairWatermarkPixels = (image: PixelBuffer, mask: Uint8Array | null, algorithm: ProcessingAlgorithm, onProgress?: ProgressCallback, repairRadius = LOCAL_CANDIDATE_VARIANTS[0].repairRadius): void => {
+    const { data, width, height } = image;
+    let threshold = 0.2;
+    if (algorithm === 'conservative') threshold = 0.35;else if (algorithm === 'aggressive') threshold = 0.12;
+
+    for (let pass = 0; pass < 3; pass++) {
+      let processedPixels = 0;
+      const watermarkPixels: Array<{
+        x: number;
+        y: number;
+        confidence: number;
+      }> = [];
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          let confidence = 0;
+          if (mask) {
+            if (mask[y * width + x]) {
+              confidence = 0.98;
+            }
+          } else {
+            confidence = detectWatermark(data, x, y, width, height);
+          }
+          if (confidence > threshold) {
+            watermarkPixels.push({
+              x,
+              y,
+              confidence
+            });
+          }
+        }
+      }
+      watermarkPixels.forEach(({
+        x,
+        y,
+        confidence
+      }, i) => {
+        const repaired = repairPixel(data, x, y, width, height, confidence, repairRadius);
+        if (repaired) {
+          const index = (y * width + x) * 4;
+          const blendFactor = Math.min(0.98, confidence + 0.3);
+          data[index] = Math.round(data[index] * (1 - blendFactor) + repaired.r * blendFactor);
+          data[index + 1] = Math.round(data[index + 1] * (1 - blendFactor) + repaired.g * blendFactor);
+          data[index + 2] = Math.round(data[index + 2] * (1 - blendFactor) + repaired.b * blendFactor);
+          data[index + 3] = Math.round(data[index + 3] * (1 - blendFactor) + repaired.a * blendFactor);
+          processedPixels++;
+        }
+        if (onProgress && (i % 256 === 255 || i === watermarkPixels.length - 1)) {
+          onProgress((pass + (i + 1) / watermarkPixels.length) / 3 * 100);
+        }
+      });
+      onProgress?.((pass + 1) / 3 * 100);
+      console.log(`Pass ${pass + 1}: 修复了 ${processedPixels} 个水印像素`);
+    }
+};
+
+// Lattice estimation correlates the instance with the whole frame, so it runs downscaled
+const LATTICE_MAX_SIZE = 512;
+
+// Estimates the repetition period and orientation from the one marked instance
+export const estimateLatticeFromPixels = (image: PixelBuffer, maskSource: WatermarkMaskSource): TileLattice | null => {
+    const { data, width, height } = image;
+    const scale = Math.min(1, LATTICE_MAX_SIZE / Math.max(width, height));
+    const workWidth = Math.max(1, Math.round(width * scale));
+    const workHeight = Math.max(1, Math.round(height * scale));
+    const gray = resizeGray(toGrayscale(data, width, height), workWidth, workHeight);
+    const box = getMaskBounds(buildProcessingMask(maskSource, workWidth, workHeight), workWidth, workHeight);
+    if (!box) return null;
+
+    const lattice = estimateLattice(gray, box);
+    if (!lattice) return null;
+    return {
+      a: { x: lattice.a.x / workWidth, y: lattice.a.y / workHeight },
+      b: { x: lattice.b.x / workWidth, y: lattice.b.y / workHeight },
+      score: lattice.score
+    };
+};
+
+// The watermark layer is estimated on the marked frame resampled to at most this size
+const LAYER_MAX_SIZE = 512;
+
+export const getLayerSize = (frame: MaskRect) => {
+    const scale = Math.min(1, LAYER_MAX_SIZE / Math.max(frame.width, frame.height));
+    return {
+      width: Math.max(1, Math.round(frame.width * scale)),
+      height: Math.max(1, Math.round(frame.height * scale))
+    };
+};
+
+// Inverts out = α·W + (1 - α)·I inside the mask; pixels too opaque to recover are inpainted
+export const removeAlphaBlendedWatermark = (image: PixelBuffer, mask: Uint8Array, layer?: WatermarkLayer, onProgress?: ProgressCallback, lamaRadii?: number[]): void => {
+    const { data, width, height } = image;
+    const bounds = getMaskBounds(mask, width, height);
+    if (!bounds) return;
+    const frame = getLayerFrame(bounds);
+
+    let watermarkLayer = layer || null;
+    if (!watermarkLayer) {
+      const size = getLayerSize(frame);
+      watermarkLayer = estimateLayerFromImage(
+        sampleRgb(data, width, height, frame, size.width, size.height),
+        sampleMask(mask, width, height, frame, size.width, size.height)
+      );
+    }
+    if (!watermarkLayer) {
+      throw new Error('未能估计半透明水印图层，请确认标记区域覆盖了水印');
+    }
+
+    const opaque = invertAlphaBlend(data, width, height, mask, frame, watermarkLayer);
+    onProgress?.(10);
+    if (getMaskBounds(opaque, width, height)) {
+      console.log('不透明水印像素改用LaMa算法修复');
+      inpaintLama(image, opaque, scaleProgress(onProgress, 10, 100), lamaRadii);
+    }
+};
+
+// Detection candidates in image pixels, before they become suggested marks
+export interface DetectedRegion {
+  rect: MaskRect;
+  confidence: number;
+}
+
+// Runs detectWatermark over the whole image, thresholds the confidence map and
+// groups the hits into connected regions, strongest first
+export const findWatermarkRegions = (image: PixelBuffer, threshold: number, onProgress?: ProgressCallback): DetectedRegion[] => {
+    const { data, width, height } = image;
+    const confidence = new Float32Array(width * height);
+    const hits = new Uint8Array(width * height);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const index = y * width + x;
+        confidence[index] = detectWatermark(data, x, y, width, height);
+        if (confidence[index] > threshold) hits[index] = 255;
+      }
+      onProgress?.((y + 1) / height * 100);
+    }
+
+    // Specks are noise; regions covering a large part of the frame are image content
+    const area = width * height;
+    const components = findMaskComponents(hits, width, height, Math.max(4, Math.round(area * 0.0002)))
+      .filter(component => component.bounds.width * component.bounds.height < area * 0.25);
+    const regions = mergeNearbyRects(components.map(component => component.bounds), Math.round(Math.max(width, height) * 0.015))
+      .filter(rect => rect.width * rect.height < area * 0.25);
+
+    const detected = regions.map(rect => {
+      let sum = 0;
+      let count = 0;
+      for (let y = rect.y; y < rect.y + rect.height; y++) {
+        for (let x = rect.x; x < rect.x + rect.width; x++) {
+          const index = y * width + x;
+          if (hits[index]) {
+            sum += confidence[index];
+            count++;
+          }
+        }
+      }
+      return { rect, confidence: count > 0 ? sum / count : 0 };
+    });
+
+    detected.sort((a, b) => b.confidence - a.confidence);
+    return detected;
+};
+
+export interface PixelProcessingRequest {
+  algorithm: ProcessingAlgorithm;
+  maskSource: WatermarkMaskSource;
+  // Layer estimated across a batch; single images estimate their own
+  watermarkLayer?: WatermarkLayer;
+  // Mask already built at the buffer's size, for a region cut out of a larger image
+  mask?: Uint8Array;
+  // Index into LOCAL_CANDIDATE_VARIANTS; 0 when absent
+  variant?: number;
+  // User settings of the local algorithms; defaults when absent
+  params?: AlgorithmParams;
+  // Pixels the patch-based fills may not copy from, at the buffer's size
+  exclusion?: Uint8Array;
+}
+
+// Runs one of the local algorithms over the image, in place
+export const processPixels = (image: PixelBuffer, request: PixelProcessingRequest, onProgress?: ProgressCallback): void => {
+    const { algorithm, maskSource } = request;
+    const { width, height } = image;
+    // Vector regions and brush strokes rasterized at the image's native resolution
+    const mask = request.mask || (hasWatermarkMask(maskSource) ? buildProcessingMask(maskSource, width, height) : null);
+    const variant = LOCAL_CANDIDATE_VARIANTS[request.variant || 0] || LOCAL_CANDIDATE_VARIANTS[0];
+    const params = request.params || DEFAULT_ALGORITHM_PARAMS;
+    // Blending needs the pixels before the fill; the detecting modes have no mask to blend
+    const original = params.seamBlending && mask ? new Uint8ClampedArray(image.data) : null;
+    // The pixels actually filled, where an algorithm widens the mask
+    let filled = mask;
+
+    if (algorithm === 'lama' && mask) {
+      console.log('使用LaMa算法处理水印区域');
+      inpaintLama(image, mask, onProgress, variant.lamaRadii);
+    } else if (algorithm === 'tiled' && mask) {
+      // Images without an edited lattice (e.g. in a batch) get one estimated here
+      const lattice = maskSource.tileLattice || estimateLatticeFromPixels(image, maskSource);
+      if (!lattice) {
+        throw new Error('未能识别重复水印的平铺规律，请换用其他算法或重新标记');
+      }
+      onProgress?.(10);
+      console.log('使用平铺水印模式处理所有重复实例');
+      filled = buildTiledMask(mask, width, height, lattice);
+      inpaintLama(image, filled, scaleProgress(onProgress, 10, 100), variant.lamaRadii);
+    } else if (algorithm === 'alpha-inversion' && mask) {
+      console.log('使用半透明水印还原算法处理');
+      removeAlphaBlendedWatermark(image, mask, request.watermarkLayer, onProgress, variant.lamaRadii);
+    } else if (isPatchAlgorithm(algorithm) && mask) {
+      const settings = {
+        // Kept odd so the patch has a centre pixel
+        patchSize: Math.max(1, Math.floor(params.patchSize * variant.patchScale / 2)) * 2 + 1,
+        searchWindow: Math.round(params.searchWindow * variant.searchScale),
+        exclusion: request.exclusion
+      };
+      console.log(algorithm === 'exemplar' ? '使用样本块修复算法处理' : '使用内容识别填充算法处理');
+      const filled = algorithm === 'exemplar'
+        ? inpaintExemplar(image, mask, settings, onProgress)
+        : inpaintPatchMatch(image, mask, settings, onProgress);
+      // Too little unmasked area for a single patch: fall back to radial sampling
+      if (!filled) {
+        inpaintLama(image, mask, onProgress, variant.lamaRadii);
+      }
+    } else if (isDiffusionAlgorithm(algorithm) && mask) {
+      filled = dilateMask(mask, width, height, params.strokeDilation);
+      const settings = { radius: Math.max(1, Math.round(params.inpaintRadius * variant.radiusScale)) };
+      console.log(algorithm === 'telea' ? '使用快速行进算法处理' : '使用流体扩散算法处理');
+      if (algorithm === 'telea') {
+        inpaintTelea(image, filled, settings, onProgress);
+      } else {
+        inpaintNavierStokes(image, filled, settings, onProgress);
+      }
+    } else {
+      repairWatermarkPixels(image, mask, algorithm, onProgress, variant.repairRadius);
+    }
+    if (original && filled) {
+      console.log('泊松融合接缝');
+      blendSeams({ data: original, width, height }, image, filled);
+    }
+    onProgress?.(100);
+};
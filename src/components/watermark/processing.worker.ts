@@ -0,0 +1,26 @@
+// Processing worker: runs one task at a time for the pool in utils/workerPool
+import { WorkerRequest, WorkerResponse, collectTransferables, workerTaskHandlers } from './workerTasks';
+import { ProgressCallback } from './pixelAlgorithms';
+
+const post = (message: WorkerResponse, transfer: Transferable[] = []) => self.postMessage(message, { transfer });
+
+self.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  const { id, kind, input } = event.data;
+  // Whole percents and new iterations only; per-row callbacks would flood the main thread
+  let lastKey = '';
+  const onProgress: ProgressCallback = (progress, iteration) => {
+    const rounded = Math.floor(progress);
+    const key = iteration ? `${rounded}:${iteration.scale}:${iteration.iteration}` : `${rounded}`;
+    if (key === lastKey) return;
+    lastKey = key;
+    post({ id, type: 'progress', progress: rounded, iteration });
+  };
+
+  try {
+    const handler = workerTaskHandlers[kind] as (input: WorkerRequest['input'], onProgress: ProgressCallback) => unknown;
+    const output = handler(input, onProgress);
+    post({ id, type: 'result', output }, collectTransferables(output));
+  } catch (error) {
+    post({ id, type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,123 @@
+// Splits the processing of an image into the areas around its mask. The local
+// algorithms only read pixels close to the ones they repair, so a crop with a
+// context margin gives the same result as the whole image, while the memory a
+// pass needs follows the size of the mask rather than the size of the photo.
+import { MaskRect, ProcessingAlgorithm, WatermarkMaskSource } from './types';
+import { findMaskComponents, hasWatermarkMask, mergeNearbyRects } from './maskUtils';
+
+// Beyond the neighbourhoods read by LaMa (3x its widest radius, 48px for the widest
+// candidate variant), the repair modes (up to 20px plus the detector window) and
+// the fast-marching fills (their radius on a mask grown by the stroke dilation)
+const MIN_CONTEXT_MARGIN = 64;
+// Large marks get proportionally more surroundings; also covers the alpha-inversion frame (25% per side)
+const CONTEXT_MARGIN_RATIO = 0.5;
+// Painted pixels are grouped into blocks of this size before they are split into regions
+const PAINT_BLOCK_SIZE = 64;
+
+// 'tiled' repeats the mask over the whole frame and the unmarked modes detect
+// over every pixel, so those still run on the full image
+const REGION_ALGORITHMS: ReadonlySet<ProcessingAlgorithm> = new Set<ProcessingAlgorithm>([
+  'lama',
+  'alpha-inversion',
+  'enhanced',
+  'conservative',
+  'aggressive',
+  'neural',
+  'exemplar',
+  'patchmatch',
+  'telea',
+  'navier-stokes'
+]);
+
+// Boxes around connected groups of painted pixels, in image pixels
+const getPaintRects = (source: WatermarkMaskSource, width: number, height: number): MaskRect[] => {
+  const paintMask = source.paintMask;
+  if (!paintMask || paintMask.paintedPixels === 0) return [];
+
+  const gridWidth = Math.ceil(paintMask.width / PAINT_BLOCK_SIZE);
+  const gridHeight = Math.ceil(paintMask.height / PAINT_BLOCK_SIZE);
+  const grid = new Uint8Array(gridWidth * gridHeight);
+  for (let y = 0; y < paintMask.height; y++) {
+    const row = y * paintMask.width;
+    const gridRow = Math.floor(y / PAINT_BLOCK_SIZE) * gridWidth;
+    for (let x = 0; x < paintMask.width; x++) {
+      if (paintMask.data[row + x]) grid[gridRow + Math.floor(x / PAINT_BLOCK_SIZE)] = 255;
+    }
+  }
+
+  const scaleX = PAINT_BLOCK_SIZE * width / paintMask.width;
+  const scaleY = PAINT_BLOCK_SIZE * height / paintMask.height;
+  return findMaskComponents(grid, gridWidth, gridHeight).map(({ bounds }) => ({
+    x: Math.floor(bounds.x * scaleX),
+    y: Math.floor(bounds.y * scaleY),
+    width: Math.ceil(bounds.width * scaleX),
+    height: Math.ceil(bounds.height * scaleY)
+  }));
+};
+
+const expandRect = (rect: MaskRect, width: number, height: number, minMargin: number): MaskRect => {
+  const margin = Math.max(minMargin, Math.round(Math.max(rect.width, rect.height) * CONTEXT_MARGIN_RATIO));
+  const left = Math.max(0, rect.x - margin);
+  const top = Math.max(0, rect.y - margin);
+  return {
+    x: left,
+    y: top,
+    width: Math.min(width, rect.x + rect.width + margin) - left,
+    height: Math.min(height, rect.y + rect.height + margin) - top
+  };
+};
+
+// Grows a rect towards a square around its centre, as far as the image allows
+const squareRect = (rect: MaskRect, width: number, height: number): MaskRect => {
+  const side = Math.max(rect.width, rect.height);
+  const squareWidth = Math.min(width, side);
+  const squareHeight = Math.min(height, side);
+  const left = Math.min(Math.max(0, Math.round(rect.x + (rect.width - squareWidth) / 2)), width - squareWidth);
+  const top = Math.min(Math.max(0, Math.round(rect.y + (rect.height - squareHeight) / 2)), height - squareHeight);
+  return { x: left, y: top, width: squareWidth, height: squareHeight };
+};
+
+const unionRect = (rects: MaskRect[]): MaskRect => {
+  const left = Math.min(...rects.map(rect => rect.x));
+  const top = Math.min(...rects.map(rect => rect.y));
+  return {
+    x: left,
+    y: top,
+    width: Math.max(...rects.map(rect => rect.x + rect.width)) - left,
+    height: Math.max(...rects.map(rect => rect.y + rect.height)) - top
+  };
+};
+
+// Pixel rects to process independently, or null when the algorithm needs the whole image.
+// `sampleReach` widens the context for settings that sample further than the default margin.
+export const planProcessingRegions = (
+  source: WatermarkMaskSource,
+  algorithm: ProcessingAlgorithm,
+  width: number,
+  height: number,
+  sampleReach = 0
+): MaskRect[] | null => {
+  if (!REGION_ALGORITHMS.has(algorithm) || !hasWatermarkMask(source)) return null;
+  const minMargin = Math.max(MIN_CONTEXT_MARGIN, sampleReach);
+
+  const markRects = source.watermarkMarks.map(mark => {
+    const left = Math.max(0, Math.floor(mark.x * width));
+    const top = Math.max(0, Math.floor(mark.y * height));
+    return {
+      x: left,
+      y: top,
+      width: Math.min(width, Math.ceil((mark.x + mark.width) * width)) - left,
+      height: Math.min(height, Math.ceil((mark.y + mark.height) * height)) - top
+    };
+  });
+  const rects = [...markRects, ...getPaintRects(source, width, height)].filter(rect => rect.width > 0 && rect.height > 0);
+  if (rects.length === 0) return null;
+
+  // The alpha-inversion frame is derived from the bounds of the whole mask, so
+  // a batch-estimated layer only lines up when every mark is in one region
+  if (algorithm === 'alpha-inversion') return [expandRect(unionRect(rects), width, height, minMargin)];
+  const regions = mergeNearbyRects(rects.map(rect => expandRect(rect, width, height, minMargin)), 0);
+  // The neural model takes a square input; other shapes would reach it stretched
+  if (algorithm === 'neural') return regions.map(rect => squareRect(rect, width, height));
+  return regions;
+};
@@ -0,0 +1,174 @@
+// Gradient-domain (Poisson) blending of a fill into its surroundings, after
+// Pérez, Gangnet and Blake (2003). The fill keeps its own gradients, but the
+// colour step across the mask edge is replaced by the gradients on either side
+// of it, and the resulting correction is solved for over the mask and a band
+// around it. A fill that is slightly too bright or tinted is thereby shifted
+// smoothly to meet the image instead of showing an outline.
+import type { PixelBuffer, ProgressCallback } from './pixelAlgorithms';
+import { dilateMask, featherMask } from './maskUtils';
+
+// Width of the band around the mask the correction may spread into, in pixels
+export const SEAM_BAND = 8;
+// Successive over-relaxation stops once no pixel moves by more than this (0..255)
+const SOLVER_TOLERANCE = 0.02;
+const MAX_SOLVER_ITERATIONS = 1000;
+
+// Writes the blended result into `result`: the solved pixels over the mask and
+// its band, the original image everywhere else. `mask` marks the filled pixels.
+export const blendSeams = (original: PixelBuffer, result: PixelBuffer, mask: Uint8Array, onProgress?: ProgressCallback): void => {
+  const { width, height } = original;
+  const size = width * height;
+  const region = dilateMask(mask, width, height, SEAM_BAND);
+
+  let left = width, top = height, right = -1, bottom = -1;
+  for (let i = 0; i < size; i++) {
+    if (!region[i]) continue;
+    const x = i % width;
+    const y = (i - x) / width;
+    if (x < left) left = x;
+    if (x > right) right = x;
+    if (y < top) top = y;
+    if (y > bottom) bottom = y;
+  }
+
+  // The guidance: the fill inside the mask, the original image outside it
+  const guide = new Uint8ClampedArray(original.data);
+  for (let i = 0; i < size; i++) {
+    if (!mask[i]) continue;
+    for (let c = 0; c < 4; c++) guide[i * 4 + c] = result.data[i * 4 + c];
+  }
+  // Nothing filled, or nothing around the fill to blend towards
+  if (right < 0 || !region.some((value, i) => value && !mask[i])) {
+    result.data.set(guide);
+    return;
+  }
+
+  const boxWidth = right - left + 1;
+  const boxHeight = bottom - top + 1;
+  const boxSize = boxWidth * boxHeight;
+  // Per box cell: solved for (mask or band), and the number of in-image neighbours
+  const unknown = new Uint8Array(boxSize);
+  const neighbourCount = new Uint8Array(boxSize);
+  for (let by = 0; by < boxHeight; by++) {
+    const y = top + by;
+    for (let bx = 0; bx < boxWidth; bx++) {
+      const x = left + bx;
+      if (!region[y * width + x]) continue;
+      unknown[by * boxWidth + bx] = 1;
+      neighbourCount[by * boxWidth + bx] = (x > 0 ? 1 : 0) + (x < width - 1 ? 1 : 0) + (y > 0 ? 1 : 0) + (y < height - 1 ? 1 : 0);
+    }
+  }
+
+  const directions: Array<[number, number]> = [[-1, 0], [1, 0], [0, -1], [0, 1]];
+  const inImage = (x: number, y: number) => x >= 0 && x < width && y >= 0 && y < height;
+
+  // Replacement for the difference g(p) - g(q) across the mask edge: the mean of
+  // the same difference one step back on each side, where that stays on its side
+  const edgeGradient = (x: number, y: number, dx: number, dy: number, c: number) => {
+    const p = y * width + x;
+    const q = p + dy * width + dx;
+    const pInside = !!mask[p];
+    let sum = 0;
+    let samples = 0;
+    if (inImage(x - dx, y - dy) && !!mask[p - dy * width - dx] === pInside) {
+      sum += guide[(p - dy * width - dx) * 4 + c] - guide[p * 4 + c];
+      samples++;
+    }
+    if (inImage(x + 2 * dx, y + 2 * dy) && !!mask[q + dy * width + dx] !== pInside) {
+      sum += guide[q * 4 + c] - guide[(q + dy * width + dx) * 4 + c];
+      samples++;
+    }
+    return samples > 0 ? sum / samples : 0;
+  };
+
+  // Box cells outside the region keep a correction of 0, the boundary condition
+  const source = new Float32Array(boxSize);
+  const correction = new Float32Array(boxSize);
+  const relaxation = 2 / (1 + Math.sin(Math.PI / Math.max(boxWidth, boxHeight)));
+
+  for (let c = 0; c < 3; c++) {
+    // Right-hand side: how far the guidance departs from the fill's own differences
+    let stepSum = 0;
+    let stepCount = 0;
+    source.fill(0);
+    for (let by = 0; by < boxHeight; by++) {
+      for (let bx = 0; bx < boxWidth; bx++) {
+        if (!unknown[by * boxWidth + bx]) continue;
+        const x = left + bx;
+        const y = top + by;
+        const i = y * width + x;
+        for (const [dx, dy] of directions) {
+          if (!inImage(x + dx, y + dy)) continue;
+          const q = i + dy * width + dx;
+          if (!!mask[i] === !!mask[q]) continue;
+          const difference = edgeGradient(x, y, dx, dy, c) - (guide[i * 4 + c] - guide[q * 4 + c]);
+          source[by * boxWidth + bx] += difference;
+          if (mask[i]) {
+            stepSum += difference;
+            stepCount++;
+          }
+        }
+      }
+    }
+
+    // Starting from the mean step over the whole fill leaves the solver only the
+    // variation along the edge, which converges in a fraction of the iterations
+    const offset = stepCount > 0 ? stepSum / stepCount : 0;
+    for (let by = 0; by < boxHeight; by++) {
+      for (let bx = 0; bx < boxWidth; bx++) {
+        correction[by * boxWidth + bx] = mask[(top + by) * width + left + bx] ? offset : 0;
+      }
+    }
+
+    for (let iteration = 0; iteration < MAX_SOLVER_ITERATIONS; iteration++) {
+      let largest = 0;
+      // Red-black ordering: each half only reads the other
+      for (let parity = 0; parity < 2; parity++) {
+        for (let by = 0; by < boxHeight; by++) {
+          const row = by * boxWidth;
+          for (let bx = (by + parity) % 2; bx < boxWidth; bx += 2) {
+            const k = row + bx;
+            if (!unknown[k]) continue;
+            let sum = source[k];
+            if (bx > 0) sum += correction[k - 1];
+            if (bx < boxWidth - 1) sum += correction[k + 1];
+            if (by > 0) sum += correction[k - boxWidth];
+            if (by < boxHeight - 1) sum += correction[k + boxWidth];
+            const change = relaxation * (sum / neighbourCount[k] - correction[k]);
+            correction[k] += change;
+            if (change > largest) largest = change;
+            else if (-change > largest) largest = -change;
+          }
+        }
+      }
+      if (largest < SOLVER_TOLERANCE) break;
+      if (onProgress && iteration % 32 === 31) {
+        onProgress((c + iteration / MAX_SOLVER_ITERATIONS) / 3 * 100);
+      }
+    }
+
+    for (let by = 0; by < boxHeight; by++) {
+      for (let bx = 0; bx < boxWidth; bx++) {
+        if (!unknown[by * boxWidth + bx]) continue;
+        const index = ((top + by) * width + left + bx) * 4 + c;
+        guide[index] = guide[index] + correction[by * boxWidth + bx];
+      }
+    }
+    onProgress?.((c + 1) / 3 * 100);
+  }
+  result.data.set(guide);
+};
+
+// Keeps the original everywhere except over the mask, where `result` is laid
+// over it with edges feathered `feather` pixels outwards. Written into `result`.
+export const compositeInsideMask = (original: PixelBuffer, result: PixelBuffer, mask: Uint8Array, feather: number): void => {
+  const alpha = featherMask(mask, original.width, original.height, feather);
+  const { data } = result;
+  for (let i = 0; i < alpha.length; i++) {
+    const opacity = alpha[i] / 255;
+    for (let c = 0; c < 4; c++) {
+      const index = i * 4 + c;
+      data[index] = original.data[index] + (data[index] - original.data[index]) * opacity;
+    }
+  }
+};
@@ -0,0 +1,267 @@
+// Normalized cross-correlation template matching on grayscale buffers. Pure
+// typed-array code so it can run off the main thread later.
+
+export interface GrayImage {
+  width: number;
+  height: number;
+  data: Float32Array;
+}
+
+export interface TemplateMatch {
+  // Top-left corner and size of the matched window, in search-image pixels
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // Template size multiplier that produced the match
+  scale: number;
+  score: number;
+}
+
+// Coarse search runs on a copy no larger than this (unless the template would
+// become too small to be distinctive); the best hit is refined at full size
+const COARSE_MAX_SIZE = 200;
+const COARSE_MIN_TEMPLATE_SIZE = 6;
+const MIN_TEMPLATE_SIZE = 6;
+
+export const toGrayscale = (data: Uint8ClampedArray, width: number, height: number): GrayImage => {
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return { width, height, data: gray };
+};
+
+export const cropGray = (image: GrayImage, x: number, y: number, width: number, height: number): GrayImage => {
+  const data = new Float32Array(width * height);
+  for (let row = 0; row < height; row++) {
+    const start = (y + row) * image.width + x;
+    data.set(image.data.subarray(start, start + width), row * width);
+  }
+  return { width, height, data };
+};
+
+// Bilinear resample; box-averages first when shrinking a lot so small logos keep their shape
+export const resizeGray = (image: GrayImage, width: number, height: number): GrayImage => {
+  let source = image;
+  while (source.width >= width * 2 && source.height >= height * 2) {
+    const halfWidth = Math.floor(source.width / 2);
+    const halfHeight = Math.floor(source.height / 2);
+    const half = new Float32Array(halfWidth * halfHeight);
+    for (let y = 0; y < halfHeight; y++) {
+      for (let x = 0; x < halfWidth; x++) {
+        const i = y * 2 * source.width + x * 2;
+        half[y * halfWidth + x] = (source.data[i] + source.data[i + 1] + source.data[i + source.width] + source.data[i + source.width + 1]) / 4;
+      }
+    }
+    source = { width: halfWidth, height: halfHeight, data: half };
+  }
+
+  const data = new Float32Array(width * height);
+  const scaleX = source.width / width;
+  const scaleY = source.height / height;
+  for (let y = 0; y < height; y++) {
+    const sy = Math.max(0, Math.min(source.height - 1, (y + 0.5) * scaleY - 0.5));
+    const y0 = Math.floor(sy);
+    const y1 = Math.min(source.height - 1, y0 + 1);
+    const fy = sy - y0;
+    for (let x = 0; x < width; x++) {
+      const sx = Math.max(0, Math.min(source.width - 1, (x + 0.5) * scaleX - 0.5));
+      const x0 = Math.floor(sx);
+      const x1 = Math.min(source.width - 1, x0 + 1);
+      const fx = sx - x0;
+      const top = source.data[y0 * source.width + x0] * (1 - fx) + source.data[y0 * source.width + x1] * fx;
+      const bottom = source.data[y1 * source.width + x0] * (1 - fx) + source.data[y1 * source.width + x1] * fx;
+      data[y * width + x] = top * (1 - fy) + bottom * fy;
+    }
+  }
+  return { width, height, data };
+};
+
+// Summed-area tables of values and squared values, (width + 1) x (height + 1)
+const buildIntegrals = (image: GrayImage) => {
+  const stride = image.width + 1;
+  const sum = new Float64Array(stride * (image.height + 1));
+  const sumSq = new Float64Array(stride * (image.height + 1));
+  for (let y = 0; y < image.height; y++) {
+    let rowSum = 0;
+    let rowSumSq = 0;
+    for (let x = 0; x < image.width; x++) {
+      const value = image.data[y * image.width + x];
+      rowSum += value;
+      rowSumSq += value * value;
+      sum[(y + 1) * stride + x + 1] = sum[y * stride + x + 1] + rowSum;
+      sumSq[(y + 1) * stride + x + 1] = sumSq[y * stride + x + 1] + rowSumSq;
+    }
+  }
+  return { sum, sumSq, stride };
+};
+
+interface SearchArea {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+// Zero-mean template and its norm, so the cross term only needs raw window values.
+// Null for a flat template, which matches everything equally badly.
+const centerTemplate = (template: GrayImage) => {
+  const n = template.width * template.height;
+  let mean = 0;
+  for (let i = 0; i < n; i++) mean += template.data[i];
+  mean /= n;
+  const centered = new Float32Array(n);
+  let norm = 0;
+  for (let i = 0; i < n; i++) {
+    centered[i] = template.data[i] - mean;
+    norm += centered[i] * centered[i];
+  }
+  norm = Math.sqrt(norm);
+  return norm < 1e-3 ? null : { centered, norm };
+};
+
+const nccAt = (
+  image: GrayImage,
+  integrals: ReturnType<typeof buildIntegrals>,
+  centered: Float32Array,
+  norm: number,
+  tw: number,
+  th: number,
+  x: number,
+  y: number
+): number => {
+  const { sum, sumSq, stride } = integrals;
+  const n = tw * th;
+  const a = y * stride + x;
+  const b = a + tw;
+  const c = (y + th) * stride + x;
+  const d = c + tw;
+  const windowSum = sum[d] - sum[b] - sum[c] + sum[a];
+  const windowSumSq = sumSq[d] - sumSq[b] - sumSq[c] + sumSq[a];
+  const variance = windowSumSq - windowSum * windowSum / n;
+  if (variance < 1e-3) return 0;
+
+  let cross = 0;
+  for (let ty = 0; ty < th; ty++) {
+    const imageRow = (y + ty) * image.width + x;
+    const templateRow = ty * tw;
+    for (let tx = 0; tx < tw; tx++) {
+      cross += centered[templateRow + tx] * image.data[imageRow + tx];
+    }
+  }
+  return cross / (norm * Math.sqrt(variance));
+};
+
+const searchAtScale = (
+  image: GrayImage,
+  integrals: ReturnType<typeof buildIntegrals>,
+  template: GrayImage,
+  area?: SearchArea
+): { x: number; y: number; score: number } | null => {
+  const { width: tw, height: th } = template;
+  if (tw > image.width || th > image.height) return null;
+  const prepared = centerTemplate(template);
+  if (!prepared) return null;
+
+  const left = Math.max(0, area?.left ?? 0);
+  const top = Math.max(0, area?.top ?? 0);
+  const right = Math.min(image.width - tw, area?.right ?? image.width - tw);
+  const bottom = Math.min(image.height - th, area?.bottom ?? image.height - th);
+
+  let best: { x: number; y: number; score: number } | null = null;
+  for (let y = top; y <= bottom; y++) {
+    for (let x = left; x <= right; x++) {
+      const score = nccAt(image, integrals, prepared.centered, prepared.norm, tw, th, x, y);
+      if (!best || score > best.score) best = { x, y, score };
+    }
+  }
+  return best;
+};
+
+// NCC score for every placement of the template's top-left corner,
+// (image.width - template.width + 1) x (image.height - template.height + 1)
+export const correlationMap = (image: GrayImage, template: GrayImage): GrayImage | null => {
+  const { width: tw, height: th } = template;
+  if (tw > image.width || th > image.height) return null;
+  const prepared = centerTemplate(template);
+  if (!prepared) return null;
+
+  const integrals = buildIntegrals(image);
+  const width = image.width - tw + 1;
+  const height = image.height - th + 1;
+  const data = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      data[y * width + x] = nccAt(image, integrals, prepared.centered, prepared.norm, tw, th, x, y);
+    }
+  }
+  return { width, height, data };
+};
+
+const scaleTemplate = (template: GrayImage, scale: number): GrayImage | null => {
+  const width = Math.round(template.width * scale);
+  const height = Math.round(template.height * scale);
+  if (width < MIN_TEMPLATE_SIZE || height < MIN_TEMPLATE_SIZE) return null;
+  return resizeGray(template, width, height);
+};
+
+// Geometric series of scales between min and max (inclusive)
+export const buildScaleRange = (min: number, max: number, step = 1.15): number[] => {
+  const scales: number[] = [];
+  for (let scale = min; scale < max * 1.0001; scale *= step) scales.push(scale);
+  return scales;
+};
+
+// Finds the best placement of `template` in `image` over the given scales: an
+// exhaustive search on a downscaled copy, then a local refinement at full size
+export const matchTemplate = (image: GrayImage, template: GrayImage, scales: number[]): TemplateMatch | null => {
+  const smallestTemplateSide = Math.min(template.width, template.height) * Math.min(...scales);
+  const coarseFactor = Math.min(1, Math.max(
+    COARSE_MAX_SIZE / Math.max(image.width, image.height),
+    COARSE_MIN_TEMPLATE_SIZE / smallestTemplateSide
+  ));
+  const coarse = coarseFactor < 1
+    ? resizeGray(image, Math.max(1, Math.round(image.width * coarseFactor)), Math.max(1, Math.round(image.height * coarseFactor)))
+    : image;
+  const coarseIntegrals = buildIntegrals(coarse);
+
+  let best: { x: number; y: number; score: number; scale: number } | null = null;
+  for (const scale of scales) {
+    const scaled = scaleTemplate(template, scale * coarseFactor);
+    if (!scaled) continue;
+    const hit = searchAtScale(coarse, coarseIntegrals, scaled, undefined);
+    if (hit && (!best || hit.score > best.score)) best = { ...hit, scale };
+  }
+  if (!best) return null;
+  if (coarseFactor === 1) {
+    return {
+      x: best.x,
+      y: best.y,
+      width: Math.round(template.width * best.scale),
+      height: Math.round(template.height * best.scale),
+      scale: best.scale,
+      score: best.score
+    };
+  }
+
+  const integrals = buildIntegrals(image);
+  const radius = Math.ceil(1 / coarseFactor) + 1;
+  const centerX = Math.round(best.x / coarseFactor);
+  const centerY = Math.round(best.y / coarseFactor);
+  let refined: TemplateMatch | null = null;
+  for (const scale of [best.scale / 1.05, best.scale, best.scale * 1.05]) {
+    const scaled = scaleTemplate(template, scale);
+    if (!scaled) continue;
+    const hit = searchAtScale(image, integrals, scaled, {
+      left: centerX - radius,
+      top: centerY - radius,
+      right: centerX + radius,
+      bottom: centerY + radius
+    });
+    if (hit && (!refined || hit.score > refined.score)) {
+      refined = { ...hit, width: scaled.width, height: scaled.height, scale };
+    }
+  }
+  return refined;
+};
@@ -0,0 +1,168 @@
+// Repeating (tiled) watermarks: lattice estimation from one marked instance and
+// mask generation for every instance. Pure typed-array code, like templateMatching.
+import { MarkPoint, MaskRect, TileLattice } from './types';
+import { getMaskBounds } from './maskUtils';
+import { GrayImage, correlationMap, cropGray } from './templateMatching';
+
+interface Peak {
+  x: number;
+  y: number;
+  score: number;
+}
+
+// Correlation above this counts as another instance of the watermark
+const PEAK_THRESHOLD = 0.45;
+const MAX_PEAKS = 200;
+// Safety cap on generated instances for very fine lattices
+const MAX_INSTANCES = 5000;
+
+const cross = (a: MarkPoint, b: MarkPoint) => a.x * b.y - a.y * b.x;
+const length = (v: MarkPoint) => Math.hypot(v.x, v.y);
+
+// Local maxima of the correlation map, strongest first, at least `minDistance` apart
+const findPeaks = (map: GrayImage, minDistance: number): Peak[] => {
+  const { width, height, data } = map;
+  const candidates: Peak[] = [];
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const score = data[y * width + x];
+      if (score < PEAK_THRESHOLD) continue;
+      let isMax = true;
+      for (let dy = -1; dy <= 1 && isMax; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          if ((dx || dy) && data[(y + dy) * width + x + dx] > score) {
+            isMax = false;
+            break;
+          }
+        }
+      }
+      if (isMax) candidates.push({ x, y, score });
+    }
+  }
+
+  candidates.sort((a, b) => b.score - a.score);
+  const peaks: Peak[] = [];
+  for (const candidate of candidates) {
+    if (peaks.every(peak => Math.hypot(peak.x - candidate.x, peak.y - candidate.y) >= minDistance)) {
+      peaks.push(candidate);
+      if (peaks.length >= MAX_PEAKS) break;
+    }
+  }
+  return peaks;
+};
+
+// Gauss reduction: the shortest, most orthogonal basis of the same lattice
+const reduceBasis = (a: MarkPoint, b: MarkPoint): [MarkPoint, MarkPoint] => {
+  let u = a;
+  let v = b;
+  for (let i = 0; i < 16; i++) {
+    if (length(v) < length(u)) [u, v] = [v, u];
+    const k = Math.round((u.x * v.x + u.y * v.y) / (u.x * u.x + u.y * u.y));
+    if (k === 0) break;
+    v = { x: v.x - k * u.x, y: v.y - k * u.y };
+  }
+  return [u, v];
+};
+
+// Least-squares refinement of the basis from every offset that sits close to a lattice point
+const refineBasis = (a: MarkPoint, b: MarkPoint, offsets: MarkPoint[], tolerance: number): [MarkPoint, MarkPoint] => {
+  const det = cross(a, b);
+  let sii = 0, sij = 0, sjj = 0;
+  let sxi = 0, sxj = 0, syi = 0, syj = 0;
+  for (const offset of offsets) {
+    const i = Math.round(cross(offset, b) / det);
+    const j = Math.round(cross(a, offset) / det);
+    const residual = Math.hypot(offset.x - i * a.x - j * b.x, offset.y - i * a.y - j * b.y);
+    if (residual > tolerance) continue;
+    sii += i * i; sij += i * j; sjj += j * j;
+    sxi += offset.x * i; sxj += offset.x * j;
+    syi += offset.y * i; syj += offset.y * j;
+  }
+  const normal = sii * sjj - sij * sij;
+  if (Math.abs(normal) < 1e-9) return [a, b];
+  return [
+    { x: (sxi * sjj - sxj * sij) / normal, y: (syi * sjj - syj * sij) / normal },
+    { x: (sxj * sii - sxi * sij) / normal, y: (syj * sii - syi * sij) / normal }
+  ];
+};
+
+// Correlates the marked instance (`box`, in image pixels) with the whole image;
+// the offsets of the strongest repeats give the two shortest independent
+// translations. Vectors are returned in image pixels.
+export const estimateLattice = (image: GrayImage, box: MaskRect): { a: MarkPoint; b: MarkPoint; score: number } | null => {
+  const template = cropGray(image, box.x, box.y, box.width, box.height);
+  const map = correlationMap(image, template);
+  if (!map) return null;
+
+  const minSide = Math.min(box.width, box.height);
+  const peaks = findPeaks(map, Math.max(3, minSide / 2));
+  const repeats = peaks
+    .map(peak => ({ x: peak.x - box.x, y: peak.y - box.y, score: peak.score }))
+    // Neighbouring instances do not overlap much; closer peaks are the pattern's own texture
+    .filter(offset => Math.abs(offset.x) >= box.width * 0.75 || Math.abs(offset.y) >= box.height * 0.75)
+    .sort((p, q) => length(p) - length(q));
+  if (repeats.length === 0) return null;
+
+  const a = repeats[0];
+  // Repeats along a single line get a perpendicular vector longer than the
+  // image diagonal, so only that row is generated until the user edits it
+  const independent = repeats.find(offset => Math.abs(cross(a, offset)) / (length(a) * length(offset)) > 0.3);
+  const diagonal = Math.hypot(image.width, image.height);
+  const b = independent || { x: -a.y / length(a) * diagonal * 2, y: a.x / length(a) * diagonal * 2 };
+
+  let [u, v] = reduceBasis({ x: a.x, y: a.y }, { x: b.x, y: b.y });
+  if (independent) {
+    [u, v] = refineBasis(u, v, repeats, Math.max(2, minSide / 4));
+  }
+  const score = repeats.reduce((total, repeat) => total + repeat.score, 0) / repeats.length;
+  return { a: u, b: v, score };
+};
+
+// Copies the marked instance's mask to every lattice position that overlaps the image
+export const buildTiledMask = (base: Uint8Array, width: number, height: number, lattice: TileLattice): Uint8Array => {
+  const bounds = getMaskBounds(base, width, height);
+  if (!bounds) return base;
+
+  const a = { x: lattice.a.x * width, y: lattice.a.y * height };
+  const b = { x: lattice.b.x * width, y: lattice.b.y * height };
+  const det = cross(a, b);
+  if (Math.abs(det) < 1) return base;
+
+  // Lattice coordinates of the image corners bound the instances that can be visible
+  let minI = Infinity, maxI = -Infinity, minJ = Infinity, maxJ = -Infinity;
+  for (const corner of [
+    { x: -bounds.x - bounds.width, y: -bounds.y - bounds.height },
+    { x: width - bounds.x, y: -bounds.y - bounds.height },
+    { x: -bounds.x - bounds.width, y: height - bounds.y },
+    { x: width - bounds.x, y: height - bounds.y }
+  ]) {
+    const i = cross(corner, b) / det;
+    const j = cross(a, corner) / det;
+    minI = Math.min(minI, Math.floor(i)); maxI = Math.max(maxI, Math.ceil(i));
+    minJ = Math.min(minJ, Math.floor(j)); maxJ = Math.max(maxJ, Math.ceil(j));
+  }
+  if ((maxI - minI + 1) * (maxJ - minJ + 1) > MAX_INSTANCES) {
+    throw new Error('平铺网格过密，请调整网格间距');
+  }
+
+  const mask = new Uint8Array(base);
+  for (let i = minI; i <= maxI; i++) {
+    for (let j = minJ; j <= maxJ; j++) {
+      if (i === 0 && j === 0) continue;
+      const dx = Math.round(i * a.x + j * b.x);
+      const dy = Math.round(i * a.y + j * b.y);
+      const top = Math.max(bounds.y, -dy);
+      const bottom = Math.min(bounds.y + bounds.height, height - dy);
+      const left = Math.max(bounds.x, -dx);
+      const right = Math.min(bounds.x + bounds.width, width - dx);
+      for (let y = top; y < bottom; y++) {
+        const sourceRow = y * width;
+        const targetRow = (y + dy) * width + dx;
+        for (let x = left; x < right; x++) {
+          if (base[sourceRow + x]) mask[targetRow + x] = 255;
+        }
+      }
+    }
+  }
+  return mask;
+};
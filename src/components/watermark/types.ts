@@ -8,18 +8,108 @@ export interface ImageItem {
     width: number;
     height: number;
   };
-  watermarkMark?: WatermarkMark;
+  watermarkMarks: WatermarkMark[];
+  paintMask?: PaintMask;
+  // Painted area the patch-based fills must not copy from
+  sourceExclusion?: PaintMask;
+  suggestedMarks?: SuggestedMark[];
+  templateMatch?: TemplateMatchResult;
+  tileLattice?: TileLattice;
   processCount: number;
   isMarkingCompleted: boolean;
 }
 
-export interface WatermarkMark {
+export interface MarkPoint {
   x: number;
   y: number;
+}
+
+// Every shape keeps its normalized bounding box so moving, resizing and
+// hit-testing can share the same code paths
+interface WatermarkMarkBase {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface RectMark extends WatermarkMarkBase {
+  shape: 'rect';
+}
+
+export interface EllipseMark extends WatermarkMarkBase {
+  shape: 'ellipse';
+}
+
+export interface PolygonMark extends WatermarkMarkBase {
+  shape: 'polygon';
+  points: MarkPoint[];
+}
+
+export interface LassoMark extends WatermarkMarkBase {
+  shape: 'lasso';
+  points: MarkPoint[];
+}
+
+export type WatermarkMark = RectMark | EllipseMark | PolygonMark | LassoMark;
+
+export type MarkShape = WatermarkMark['shape'];
+
+// Outcome of locating the reference watermark in this image during batch propagation
+export interface TemplateMatchResult {
+  score: number;
+  needsReview: boolean;
+}
+
+// Translation vectors between neighbouring instances of a repeating watermark,
+// normalized by the image width (x) and height (y); the marked region is the
+// instance at the lattice origin
+export interface TileLattice {
+  a: MarkPoint;
+  b: MarkPoint;
+  score: number;
+}
+
+// Region proposed by automatic detection; it only becomes a mark once accepted
+export interface SuggestedMark {
+  mark: RectMark;
+  confidence: number;
+}
+
+export type PathMark = PolygonMark | LassoMark;
+
+// Polygon or lasso being drawn; it becomes a mark once closed
+export interface DraftShape {
+  imageId: string;
+  shape: PathMark['shape'];
+  points: MarkPoint[];
+}
+
+export interface MaskRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Brush-painted mask at the image's native resolution, one byte per pixel (0 or 255).
+// `data` is mutated in place while painting; `revision` changes on every stroke so
+// React notices the update, and `dirty` tells the overlay which area to redraw.
+export interface PaintMask {
   width: number;
   height: number;
+  data: Uint8Array;
+  paintedPixels: number;
+  revision: number;
+  dirty?: MaskRect;
 }
 
+export type WatermarkMaskSource = Pick<ImageItem, 'watermarkMarks' | 'paintMask' | 'tileLattice'>;
+
+// 'exclude' paints the sourceExclusion; the eraser clears both painted layers
+export type MarkingTool = MarkShape | 'brush' | 'eraser' | 'exclude';
+
 export interface DragState {
   isDragging: boolean;
   startX: number;
@@ -33,8 +123,125 @@ export type ResizeHandle = 'nw' | 'ne' | 'sw' | 'se' | 'n' | 'e' | 's' | 'w';
 export interface ResizeState {
   isResizing: boolean;
   resizeHandle: ResizeHandle | null;
+  // Set instead of resizeHandle while a polygon or lasso vertex is dragged
+  vertexIndex?: number | null;
   startX: number;
   startY: number;
 }
 
-export type ProcessingAlgorithm = 'enhanced' | 'conservative' | 'aggressive' | 'lama' | 'sd-inpainting';
+export type ProcessingAlgorithm = 'enhanced' | 'conservative' | 'aggressive' | 'lama' | 'tiled' | 'alpha-inversion' | 'sd-inpainting' | 'neural' | 'exemplar' | 'patchmatch' | 'telea' | 'navier-stokes';
+
+export type BatchEntryStatus = 'success' | 'failed' | 'cancelled';
+
+// Outcome of one image in a batch run; cancelled covers images never started too
+export interface BatchReportEntry {
+  imageId: string;
+  fileName: string;
+  status: BatchEntryStatus;
+  algorithm: ProcessingAlgorithm;
+  durationMs: number;
+  outputSize?: number;
+  error?: string;
+}
+
+export interface BatchReport {
+  algorithm: ProcessingAlgorithm;
+  startedAt: number;
+  finishedAt: number;
+  entries: BatchReportEntry[];
+}
+
+// Fields of an image that undo and redo bring back
+export type HistoryState = Pick<ImageItem, 'watermarkMarks' | 'paintMask' | 'sourceExclusion' | 'tileLattice' | 'isMarkingCompleted' | 'processedUrl' | 'processCount'>;
+
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  createdAt: number;
+  state: HistoryState;
+}
+
+// A processing result kept so the history panel can jump back to it
+export interface ProcessingPass {
+  url: string;
+  // Kept for saving and downloads; the app's CSP does not allow fetching blob: URLs
+  blob: Blob;
+  size: number;
+  label: string;
+  processCount: number;
+  createdAt: number;
+  // Absent for results restored without it (e.g. from an older session)
+  algorithm?: ProcessingAlgorithm;
+  // Parameters of an AI fill, with the seed the service actually used
+  sdParams?: AppliedSDParams;
+}
+
+// One of several results generated for the same mask; only the chosen one
+// becomes a processing pass
+export interface ProcessingCandidate {
+  id: string;
+  url: string;
+  blob: Blob;
+  label: string;
+  sdParams?: AppliedSDParams;
+}
+
+export interface CandidateSet {
+  imageId: string;
+  algorithm: ProcessingAlgorithm;
+  // processCount of the image when the candidates were generated
+  processCount: number;
+  candidates: ProcessingCandidate[];
+}
+
+export interface ImageHistory {
+  undo: HistoryEntry[];
+  redo: HistoryEntry[];
+  passes: ProcessingPass[];
+}
+
+export interface SDInpaintingParams {
+  prompt: string;
+  negativePrompt: string;
+  steps: number;
+  // Classifier-free guidance: how closely the fill follows the prompt
+  cfgScale: number;
+  // 0-1, how far the fill may move away from the original pixels
+  strength: number;
+  // -1 lets the service pick one
+  seed: number;
+  samples: number;
+}
+
+// Parameters a result was made with; fields the service ignores are left out
+export type AppliedSDParams = Omit<SDInpaintingParams, 'strength'> & Partial<Pick<SDInpaintingParams, 'strength'>>;
+
+// Settings of the local algorithms and the shared post-processing, see algorithmParams
+export interface AlgorithmParams {
+  // Side of the square patches the exemplar and PatchMatch fills copy, in pixels (odd)
+  patchSize: number;
+  // How far from the hole the patch-based fills look for source patches, in pixels
+  searchWindow: number;
+  // Neighbourhood the fast-marching and Navier-Stokes fills estimate each pixel from, in pixels
+  inpaintRadius: number;
+  // How far those fills grow the mask beyond the marked strokes, in pixels
+  strokeDilation: number;
+  // Poisson-blend every fill into its surroundings, whichever algorithm made it
+  seamBlending: boolean;
+}
+
+export interface SDParamsPreset {
+  name: string;
+  params: SDInpaintingParams;
+}
+
+// 'match-input' keeps the uploaded file's format where the browser can encode it
+export type ExportFormat = 'match-input' | 'png' | 'jpeg' | 'webp' | 'avif';
+
+export interface ExportSettings {
+  format: ExportFormat;
+  // 0-1, used by the lossy formats only
+  quality: number;
+  // Copy EXIF and the ICC colour profile from the uploaded file
+  preserveMetadata: boolean;
+}
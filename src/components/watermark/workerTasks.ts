@@ -0,0 +1,108 @@
+// Everything the processing workers can run, keyed by task kind. The pool and
+// the worker share these types; the handlers also serve as the main-thread
+// fallback where workers are unavailable.
+import { TileLattice } from './types';
+import { GrayImage, TemplateMatch, matchTemplate, toGrayscale } from './templateMatching';
+import { RgbImage, WatermarkLayer, estimateLayerFromBatch } from './alphaBlend';
+import { blendSeams, compositeInsideMask } from './seamBlending';
+import {
+  DetectedRegion,
+  IterationStatus,
+  PixelBuffer,
+  PixelProcessingRequest,
+  ProgressCallback,
+  estimateLatticeFromPixels,
+  findWatermarkRegions,
+  processPixels
+} from './pixelAlgorithms';
+
+export interface WorkerTaskMap {
+  process: {
+    input: { image: PixelBuffer; request: PixelProcessingRequest };
+    output: PixelBuffer;
+  };
+  detect: {
+    input: { image: PixelBuffer; threshold: number };
+    output: DetectedRegion[];
+  };
+  match: {
+    input: { image: PixelBuffer; template: GrayImage; scales: number[] };
+    output: TemplateMatch | null;
+  };
+  lattice: {
+    input: { image: PixelBuffer; maskSource: PixelProcessingRequest['maskSource'] };
+    output: TileLattice | null;
+  };
+  'watermark-layer': {
+    input: { crops: RgbImage[]; mask: Uint8Array };
+    output: WatermarkLayer | null;
+  };
+  // Seam blending of a fill made outside the workers (neural model, AI service)
+  blend: {
+    input: { original: PixelBuffer; result: PixelBuffer; mask: Uint8Array };
+    output: PixelBuffer;
+  };
+  // An AI service result, already scaled to the original, put back inside the mask
+  composite: {
+    input: { original: PixelBuffer; result: PixelBuffer; mask: Uint8Array; feather: number; seamBlending: boolean };
+    output: PixelBuffer;
+  };
+}
+
+export type WorkerTaskKind = keyof WorkerTaskMap;
+export type WorkerTaskInput<K extends WorkerTaskKind> = WorkerTaskMap[K]['input'];
+export type WorkerTaskOutput<K extends WorkerTaskKind> = WorkerTaskMap[K]['output'];
+
+export type WorkerRequest = {
+  [K in WorkerTaskKind]: { id: number; kind: K; input: WorkerTaskInput<K> }
+}[WorkerTaskKind];
+
+export type WorkerResponse =
+  | { id: number; type: 'progress'; progress: number; iteration?: IterationStatus }
+  | { id: number; type: 'result'; output: unknown }
+  | { id: number; type: 'error'; message: string };
+
+export const workerTaskHandlers: {
+  [K in WorkerTaskKind]: (input: WorkerTaskInput<K>, onProgress: ProgressCallback) => WorkerTaskOutput<K>
+} = {
+  process: ({ image, request }, onProgress) => {
+    processPixels(image, request, onProgress);
+    return image;
+  },
+  detect: ({ image, threshold }, onProgress) => findWatermarkRegions(image, threshold, onProgress),
+  match: ({ image, template, scales }) => matchTemplate(toGrayscale(image.data, image.width, image.height), template, scales),
+  lattice: ({ image, maskSource }) => estimateLatticeFromPixels(image, maskSource),
+  'watermark-layer': ({ crops, mask }) => estimateLayerFromBatch(crops, mask),
+  blend: ({ original, result, mask }, onProgress) => {
+    blendSeams(original, result, mask, onProgress);
+    return result;
+  },
+  composite: ({ original, result, mask, feather, seamBlending }, onProgress) => {
+    if (seamBlending) blendSeams(original, result, mask, onProgress);
+    compositeInsideMask(original, result, mask, feather);
+    return result;
+  }
+};
+
+// ImageData keeps data, width and height as prototype getters, which
+// Object.values does not see, so pixel buffers are recognized by shape
+const isPixelBuffer = (value: object): value is PixelBuffer => {
+  if (typeof ImageData !== 'undefined' && value instanceof ImageData) return true;
+  const candidate = value as Partial<PixelBuffer>;
+  return ArrayBuffer.isView(candidate.data) && typeof candidate.width === 'number' && typeof candidate.height === 'number';
+};
+
+// Typed-array buffers inside a message, so they are moved rather than copied
+export const collectTransferables = (value: unknown, found: Set<ArrayBuffer> = new Set(), depth = 0): ArrayBuffer[] => {
+  if (depth > 4 || !value || typeof value !== 'object') return Array.from(found);
+  if (ArrayBuffer.isView(value)) {
+    if (value.buffer instanceof ArrayBuffer) found.add(value.buffer);
+  } else if (isPixelBuffer(value)) {
+    if (value.data.buffer instanceof ArrayBuffer) found.add(value.data.buffer);
+  } else if (Array.isArray(value)) {
+    value.forEach(item => collectTransferables(item, found, depth + 1));
+  } else {
+    Object.values(value).forEach(item => collectTransferables(item, found, depth + 1));
+  }
+  return Array.from(found);
+};
@@ -0,0 +1,34 @@
+import { useCallback, useState } from 'react';
+import { AlgorithmParams } from '@/components/watermark/types';
+import { DEFAULT_ALGORITHM_PARAMS, sanitizeAlgorithmParams } from '@/components/watermark/algorithmParams';
+import { secureSession } from '@/utils/secureSession';
+
+const PARAMS_KEY = 'algorithmParams';
+
+export const useAlgorithmParams = () => {
+  const [algorithmParams, setAlgorithmParams] = useState<AlgorithmParams>(() =>
+    sanitizeAlgorithmParams(secureSession.getUserPreference(PARAMS_KEY)));
+
+  const updateAlgorithmParams = useCallback((updates: Partial<AlgorithmParams>) => {
+    setAlgorithmParams(prev => {
+      const next = sanitizeAlgorithmParams({ ...prev, ...updates });
+      secureSession.setUserPreference(PARAMS_KEY, next);
+      return next;
+    });
+  }, []);
+
+  // Resets the parameter panel; seam blending has its own checkbox and stays as set
+  const resetAlgorithmParams = useCallback(() => {
+    setAlgorithmParams(prev => {
+      const next = { ...DEFAULT_ALGORITHM_PARAMS, seamBlending: prev.seamBlending };
+      secureSession.setUserPreference(PARAMS_KEY, next);
+      return next;
+    });
+  }, []);
+
+  return {
+    algorithmParams,
+    updateAlgorithmParams,
+    resetAlgorithmParams
+  };
+};
@@ -0,0 +1,35 @@
+import { useCallback, useState } from 'react';
+import { ExportSettings } from '@/components/watermark/types';
+import { DEFAULT_EXPORT_SETTINGS, isExportFormat } from '@/utils/imageExport';
+import { secureSession } from '@/utils/secureSession';
+
+const PREFERENCE_KEY = 'exportSettings';
+
+// The stored value comes from sessionStorage and is checked field by field
+const loadExportSettings = (): ExportSettings => {
+  const stored = secureSession.getUserPreference(PREFERENCE_KEY);
+  if (!stored || typeof stored !== 'object') return DEFAULT_EXPORT_SETTINGS;
+  const { format, quality, preserveMetadata } = stored as Partial<Record<keyof ExportSettings, unknown>>;
+  return {
+    format: isExportFormat(format) ? format : DEFAULT_EXPORT_SETTINGS.format,
+    quality: typeof quality === 'number' && quality >= 0.1 && quality <= 1 ? quality : DEFAULT_EXPORT_SETTINGS.quality,
+    preserveMetadata: typeof preserveMetadata === 'boolean' ? preserveMetadata : DEFAULT_EXPORT_SETTINGS.preserveMetadata
+  };
+};
+
+export const useExportSettings = () => {
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(loadExportSettings);
+
+  const updateExportSettings = useCallback((updates: Partial<ExportSettings>) => {
+    setExportSettings(prev => {
+      const next = { ...prev, ...updates };
+      secureSession.setUserPreference(PREFERENCE_KEY, next);
+      return next;
+    });
+  }, []);
+
+  return {
+    exportSettings,
+    updateExportSettings
+  };
+};
@@ -105,7 +105,7 @@ export const useFileUpload = (
             processedUrl: null,
             rotation: 0,
             dimensions,
-            watermarkMark: undefined,
+            watermarkMarks: [],
             processCount: 0,
             isMarkingCompleted: false,
           } as ImageItem;
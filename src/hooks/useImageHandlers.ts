@@ -1,11 +1,15 @@
 
 import { useCallback } from 'react';
-import { ImageItem } from '@/components/watermark/types';
+import { ExportSettings, ImageItem } from '@/components/watermark/types';
 import { toast } from 'sonner';
 import { validateZoomLevel } from '@/utils/apiSecurity';
 import { handleSecureError } from '@/utils/secureErrorHandler';
+import { encodeForExport } from '@/utils/imageExport';
+import { DEFAULT_DOWNLOAD_NAME_PATTERN, downloadBlob, extensionForType, formatDownloadName } from '@/utils/downloadArchive';
 
-export const useImageHandlers = () => {
+export const useImageHandlers = (
+  getResultBlob: (imageId: string, processedUrl: string | null) => Blob | null
+) => {
   const handleZoomChange = useCallback((newZoom: number) => {
     try {
       const validation = validateZoomLevel(newZoom);
@@ -27,19 +31,28 @@ export const useImageHandlers = () => {
     // A proper fix would involve forwarding refs or using a shared state for scroll positions.
   }, []);
 
-  const handleDownload = useCallback((imageItem: ImageItem) => {
-    if (imageItem.processedUrl) {
-      const link = document.createElement("a");
-      link.href = imageItem.processedUrl;
-      link.download = `watermark_removed_${imageItem.file.name}`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      toast.success("图片已开始下载!", { duration: 800 });
-    } else {
+  const handleDownload = useCallback(async (imageItem: ImageItem, exportSettings: ExportSettings) => {
+    const result = getResultBlob(imageItem.id, imageItem.processedUrl);
+    if (!result) {
       toast.error("请先去除水印", { duration: 800 });
+      return;
     }
-  }, []);
+    try {
+      const blob = await encodeForExport(result, imageItem.file, exportSettings);
+      const baseName = formatDownloadName(DEFAULT_DOWNLOAD_NAME_PATTERN, {
+        originalName: imageItem.file.name,
+        index: 1,
+        total: 1,
+        algorithm: null,
+        date: new Date()
+      });
+      downloadBlob(blob, `${baseName}.${extensionForType(blob.type)}`);
+      toast.success("图片已开始下载!", { duration: 800 });
+    } catch (error) {
+      handleSecureError(error, 'download', 'medium');
+      toast.error("下载失败，请重试", { duration: 800 });
+    }
+  }, [getResultBlob]);
 
   const handleBatchDownload = useCallback((images: ImageItem[]) => {
     const processedImages = images.filter(img => img.processedUrl);
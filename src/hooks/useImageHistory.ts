@@ -0,0 +1,241 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { AppliedSDParams, HistoryEntry, HistoryState, ImageHistory, ImageItem, PaintMask, ProcessingAlgorithm } from '@/components/watermark/types';
+import { memoryManager } from '@/utils/memoryManager';
+
+// Oldest steps beyond this are dropped; each step may hold a paint mask copy
+const MAX_HISTORY_DEPTH = 50;
+// Repeated records with the same label inside this window form one step (e.g. dragging lattice handles)
+const COALESCE_WINDOW_MS = 800;
+
+interface RecordOptions {
+  coalesce?: boolean;
+}
+
+const EMPTY_HISTORY: ImageHistory = { undo: [], redo: [], passes: [] };
+
+// Paint masks are mutated in place while painting, so history keeps its own copies
+const clonePaintMask = (mask: PaintMask): PaintMask => ({
+  width: mask.width,
+  height: mask.height,
+  data: mask.data.slice(),
+  paintedPixels: mask.paintedPixels,
+  revision: mask.revision
+});
+
+const isSamePaintMask = (a?: PaintMask, b?: PaintMask) =>
+  a === b || (!!a && !!b && a.revision === b.revision && a.paintedPixels === b.paintedPixels && a.width === b.width && a.height === b.height);
+
+const isSameState = (a: HistoryState, b: HistoryState) =>
+  a.watermarkMarks === b.watermarkMarks &&
+  isSamePaintMask(a.paintMask, b.paintMask) &&
+  isSamePaintMask(a.sourceExclusion, b.sourceExclusion) &&
+  a.tileLattice === b.tileLattice &&
+  a.isMarkingCompleted === b.isMarkingCompleted &&
+  a.processedUrl === b.processedUrl &&
+  a.processCount === b.processCount;
+
+export const useImageHistory = (
+  images: ImageItem[],
+  updateImage: (imageId: string, updates: Partial<ImageItem>) => void
+) => {
+  const historiesRef = useRef<Map<string, ImageHistory & { lastRecordAt: number }>>(new Map());
+  // Copy of each live mask buffer at its last snapshotted revision, shared by consecutive steps
+  const maskCopiesRef = useRef<WeakMap<Uint8Array, PaintMask>>(new WeakMap());
+  const imagesRef = useRef(images);
+  // History lives in refs; bumping this re-renders the panel and buttons
+  const [, setVersion] = useState(0);
+  const bumpVersion = useCallback(() => setVersion(version => version + 1), []);
+
+  useEffect(() => {
+    imagesRef.current = images;
+  }, [images]);
+
+  const getHistory = useCallback((imageId: string) => {
+    let history = historiesRef.current.get(imageId);
+    if (!history) {
+      history = { undo: [], redo: [], passes: [], lastRecordAt: 0 };
+      historiesRef.current.set(imageId, history);
+    }
+    return history;
+  }, []);
+
+  const copyMask = useCallback((liveMask?: PaintMask) => {
+    if (!liveMask) return undefined;
+    const cached = maskCopiesRef.current.get(liveMask.data);
+    if (cached && cached.revision === liveMask.revision) return cached;
+    const copy = clonePaintMask(liveMask);
+    maskCopiesRef.current.set(liveMask.data, copy);
+    return copy;
+  }, []);
+
+  const snapshot = useCallback((image: ImageItem, label: string): HistoryEntry => {
+    return {
+      id: crypto.randomUUID(),
+      label,
+      createdAt: Date.now(),
+      state: {
+        watermarkMarks: image.watermarkMarks,
+        paintMask: copyMask(image.paintMask),
+        sourceExclusion: copyMask(image.sourceExclusion),
+        tileLattice: image.tileLattice,
+        isMarkingCompleted: image.isMarkingCompleted,
+        processedUrl: image.processedUrl,
+        processCount: image.processCount
+      }
+    };
+  }, [copyMask]);
+
+  const applyState = useCallback((imageId: string, state: HistoryState) => {
+    updateImage(imageId, {
+      ...state,
+      paintMask: state.paintMask && clonePaintMask(state.paintMask),
+      sourceExclusion: state.sourceExclusion && clonePaintMask(state.sourceExclusion)
+    });
+  }, [updateImage]);
+
+  // Call before changing an image; the current state becomes the undo step
+  const recordHistory = useCallback((imageId: string, label: string, options: RecordOptions = {}) => {
+    const image = imagesRef.current.find(img => img.id === imageId);
+    if (!image) return;
+    const history = getHistory(imageId);
+    const now = Date.now();
+    const top = history.undo[history.undo.length - 1];
+    if (options.coalesce && top?.label === label && now - history.lastRecordAt < COALESCE_WINDOW_MS) {
+      history.lastRecordAt = now;
+      return;
+    }
+    history.lastRecordAt = now;
+    if (top && isSameState(top.state, image)) return;
+
+    history.undo.push(snapshot(image, label));
+    if (history.undo.length > MAX_HISTORY_DEPTH) {
+      history.undo.shift();
+    }
+    history.redo = [];
+    bumpVersion();
+  }, [getHistory, snapshot, bumpVersion]);
+
+  const step = useCallback((imageId: string, direction: 'undo' | 'redo'): boolean => {
+    const image = imagesRef.current.find(img => img.id === imageId);
+    const history = historiesRef.current.get(imageId);
+    if (!image || !history) return false;
+    const from = direction === 'undo' ? history.undo : history.redo;
+    const to = direction === 'undo' ? history.redo : history.undo;
+    // Steps recorded by a click that changed nothing are skipped
+    while (from.length > 0 && isSameState(from[from.length - 1].state, image)) {
+      from.pop();
+    }
+    const entry = from.pop();
+    if (!entry) {
+      bumpVersion();
+      return false;
+    }
+    to.push(snapshot(image, entry.label));
+    history.lastRecordAt = 0;
+    applyState(imageId, entry.state);
+    bumpVersion();
+    toast.info(`${direction === 'undo' ? '已撤销' : '已重做'}: ${entry.label}`, { duration: 800 });
+    return true;
+  }, [snapshot, applyState, bumpVersion]);
+
+  const undo = useCallback((imageId: string) => step(imageId, 'undo'), [step]);
+  const redo = useCallback((imageId: string) => step(imageId, 'redo'), [step]);
+
+  // The displayed result is never evicted; steps that showed an evicted result are dropped
+  const evictPass = useCallback((imageId: string, url: string): boolean => {
+    const image = imagesRef.current.find(img => img.id === imageId);
+    if (image?.processedUrl === url) return false;
+    const history = historiesRef.current.get(imageId);
+    if (history) {
+      history.passes = history.passes.filter(pass => pass.url !== url);
+      history.undo = history.undo.filter(entry => entry.state.processedUrl !== url);
+      history.redo = history.redo.filter(entry => entry.state.processedUrl !== url);
+      bumpVersion();
+    }
+    return true;
+  }, [bumpVersion]);
+
+  // Takes ownership of a new processing result; memoryManager releases it under its budget
+  const retainProcessingResult = useCallback((
+    imageId: string,
+    url: string,
+    blob: Blob,
+    label: string,
+    processCount: number,
+    algorithm?: ProcessingAlgorithm,
+    sdParams?: AppliedSDParams
+  ) => {
+    const history = getHistory(imageId);
+    history.passes.push({ url, blob, size: blob.size, label, processCount, createdAt: Date.now(), algorithm, sdParams });
+    memoryManager.retainHistoryBlob(url, blob.size, () => evictPass(imageId, url));
+    bumpVersion();
+  }, [getHistory, evictPass, bumpVersion]);
+
+  const jumpToPass = useCallback((imageId: string, url: string) => {
+    const pass = historiesRef.current.get(imageId)?.passes.find(item => item.url === url);
+    if (!pass) return;
+    recordHistory(imageId, `切换到: ${pass.label}`);
+    updateImage(imageId, { processedUrl: pass.url, processCount: pass.processCount });
+  }, [recordHistory, updateImage]);
+
+  const clearHistory = useCallback((imageId: string) => {
+    const history = historiesRef.current.get(imageId);
+    if (!history) return;
+    history.passes.forEach(pass => memoryManager.releaseHistoryBlob(pass.url));
+    historiesRef.current.delete(imageId);
+    bumpVersion();
+  }, [bumpVersion]);
+
+  const getImageHistory = useCallback((imageId?: string): ImageHistory =>
+    (imageId && historiesRef.current.get(imageId)) || EMPTY_HISTORY, []);
+
+  // Algorithm of the pass that produced the result currently shown, if known
+  const getResultAlgorithm = useCallback((imageId: string, processedUrl: string | null): ProcessingAlgorithm | null =>
+    (processedUrl && historiesRef.current.get(imageId)?.passes.find(pass => pass.url === processedUrl)?.algorithm) || null, []);
+
+  // Data of the result shown; every result becomes a pass and the shown one is never evicted
+  const getResultBlob = useCallback((imageId: string, processedUrl: string | null): Blob | null =>
+    (processedUrl && historiesRef.current.get(imageId)?.passes.find(pass => pass.url === processedUrl)?.blob) || null, []);
+
+  return {
+    recordHistory,
+    retainProcessingResult,
+    undo,
+    redo,
+    jumpToPass,
+    clearHistory,
+    getImageHistory,
+    getResultAlgorithm,
+    getResultBlob
+  };
+};
+
+interface UseHistoryShortcutsProps {
+  selectedImageId: string | null;
+  disabled: boolean;
+  undo: (imageId: string) => boolean;
+  redo: (imageId: string) => boolean;
+}
+
+// Ctrl+Z undoes, Ctrl+Shift+Z or Ctrl+Y redoes; text fields keep their own undo
+export const useHistoryShortcuts = ({ selectedImageId, disabled, undo, redo }: UseHistoryShortcutsProps) => {
+  useEffect(() => {
+    if (!selectedImageId || disabled) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey)) return;
+      const target = event.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo(selectedImageId);
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redo(selectedImageId);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [selectedImageId, disabled, undo, redo]);
+};
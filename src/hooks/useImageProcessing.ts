@@ -1,14 +1,31 @@
 
-import { useState } from 'react';
-import { ImageItem, ProcessingAlgorithm } from '@/components/watermark/types';
+import { useEffect, useRef, useState } from 'react';
+import { AlgorithmParams, AppliedSDParams, BatchEntryStatus, BatchReport, BatchReportEntry, CandidateSet, ImageItem, ProcessingAlgorithm, SDInpaintingParams } from '@/components/watermark/types';
 import { toast } from 'sonner';
-import { processImageCanvas } from '@/components/watermark/imageProcessor';
-import { validateWatermarkMark } from '@/utils/apiSecurity';
+import { estimateBatchWatermarkLayer, generateCandidates, processImageCanvas, supportsCandidates } from '@/components/watermark/imageProcessor';
+import { MIN_BATCH_IMAGES, WatermarkLayer } from '@/components/watermark/alphaBlend';
+import { validateWatermarkSelection } from '@/utils/apiSecurity';
+import { hasWatermarkMask } from '@/components/watermark/maskUtils';
+import { PROCESSING_ALGORITHM_LABELS } from '@/components/watermark/formatting';
 import { handleSecureError } from '@/utils/secureErrorHandler';
 import { memoryManager } from '@/utils/memoryManager';
+import { isAbortError, processingWorkerPool } from '@/utils/workerPool';
+
+// Each image in flight holds its decoded pixels on both threads
+const MAX_PARALLEL_IMAGES = 4;
+// One toast follows the stages of a long step (model download and loading) and is replaced in place
+const STATUS_TOAST_ID = 'processing-status';
+const showStatus = (message: string) => toast.loading(message, { id: STATUS_TOAST_ID });
 
 export const useImageProcessing = (
-  updateImage: (imageId: string, updates: Partial<ImageItem>) => void
+  updateImage: (imageId: string, updates: Partial<ImageItem>) => void,
+  recordHistory: (imageId: string, label: string) => void,
+  retainProcessingResult: (imageId: string, url: string, blob: Blob, label: string, processCount: number, algorithm?: ProcessingAlgorithm, sdParams?: AppliedSDParams) => void,
+  sdParams: SDInpaintingParams,
+  // Above 1, single images produce this many candidates to choose from instead of a result
+  candidateCount: number,
+  presentCandidates: (set: CandidateSet) => void,
+  algorithmParams: AlgorithmParams
 ) => {
   const [isProcessing, setIsProcessing] = useState(false);
   const [progress, setProgress] = useState<number>(0);
@@ -16,9 +33,23 @@ export const useImageProcessing = (
   const [batchProgress, setBatchProgress] = useState<{ [key: string]: number }>({});
   const [processingAlgorithm, setProcessingAlgorithm] = useState<ProcessingAlgorithm>('lama');
   const [selectedImageId, setSelectedImageId] = useState<string | null>(null);
+  const [batchReport, setBatchReport] = useState<BatchReport | null>(null);
+  const [isBatchReportOpen, setIsBatchReportOpen] = useState(false);
+  // Controller of the running single or batch job
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Stop worker tasks and requests when the page goes away
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const cancelProcessing = () => {
+    if (abortControllerRef.current && !abortControllerRef.current.signal.aborted) {
+      abortControllerRef.current.abort();
+      toast.info("正在取消...", { duration: 800 });
+    }
+  };
 
   const handleRemoveWatermark = async (imageItem: ImageItem) => {
-    if (!imageItem.isMarkingCompleted || !imageItem.watermarkMark) {
+    if (!imageItem.isMarkingCompleted || !hasWatermarkMask(imageItem)) {
       toast.error("请先完成水印标记", { duration: 1000 });
       return;
     }
@@ -30,34 +61,57 @@ export const useImageProcessing = (
     setIsProcessing(true);
     setProgress(0);
     setSelectedImageId(imageItem.id);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     
     try {
-      // Validate watermark mark before processing
-      const validation = validateWatermarkMark(imageItem.watermarkMark);
+      // Validate watermark regions and painted mask before processing
+      const validation = validateWatermarkSelection(imageItem.watermarkMarks, imageItem.paintMask, imageItem.dimensions);
       if (!validation.isValid) {
         throw new Error(validation.error);
       }
 
+      if (candidateCount > 1 && supportsCandidates(processingAlgorithm)) {
+        toast.info(`开始生成 ${candidateCount} 个候选结果...`, { duration: 800 });
+        const generated = await generateCandidates(
+          imageItem.file,
+          imageItem,
+          processingAlgorithm,
+          imageItem.processedUrl || undefined,
+          candidateCount,
+          { signal: controller.signal, onProgress: value => setProgress(Math.round(value)), onStatus: showStatus, sdParams, algorithmParams, sourceExclusion: imageItem.sourceExclusion }
+        );
+        setProgress(100);
+        presentCandidates({
+          imageId: imageItem.id,
+          algorithm: processingAlgorithm,
+          processCount: imageItem.processCount,
+          candidates: generated.map(candidate => {
+            const url = URL.createObjectURL(candidate.blob);
+            memoryManager.trackBlobUrl(url);
+            return { id: crypto.randomUUID(), url, blob: candidate.blob, label: candidate.label, sdParams: candidate.sdParams };
+          })
+        });
+        toast.success(`已生成 ${generated.length} 个候选结果，请在图片下方选择`, { duration: 1500 });
+        return;
+      }
+
       toast.info("开始处理图片...", { duration: 800 });
-      const progressInterval = setInterval(() => setProgress(prev => Math.min(prev + 5, 90)), 100);
-      
-      const processedBlob = await processImageCanvas(
+      const { blob: processedBlob, sdParams: usedParams } = await processImageCanvas(
         imageItem.file, 
-        imageItem.watermarkMark, 
+        imageItem, 
         processingAlgorithm, 
-        imageItem.processedUrl || undefined
+        imageItem.processedUrl || undefined,
+        { signal: controller.signal, onProgress: value => setProgress(Math.round(value)), onStatus: showStatus, sdParams, algorithmParams, sourceExclusion: imageItem.sourceExclusion }
       );
-      
-      clearInterval(progressInterval);
       setProgress(100);
       
-      // Clean up old processed URL
-      if (imageItem.processedUrl) {
-        memoryManager.releaseBlobUrl(imageItem.processedUrl);
-      }
-      
+      // The previous result stays in the image history so this pass can be undone
       const processedUrl = URL.createObjectURL(processedBlob);
       memoryManager.trackBlobUrl(processedUrl);
+      const label = PROCESSING_ALGORITHM_LABELS[processingAlgorithm];
+      recordHistory(imageItem.id, label);
+      retainProcessingResult(imageItem.id, processedUrl, processedBlob, label, imageItem.processCount + 1, processingAlgorithm, usedParams);
       
       updateImage(imageItem.id, { 
         processedUrl, 
@@ -65,70 +119,164 @@ export const useImageProcessing = (
       });
       toast.success(`图片处理完成！${imageItem.processCount > 0 ? '继续优化' : '水印已去除'}`, { duration: 1500 });
     } catch (error: any) {
+      if (isAbortError(error)) {
+        toast.info("已取消处理", { duration: 1000 });
+        return;
+      }
       const errorMessage = handleSecureError(error, 'watermark-removal', 'high');
       toast.error(errorMessage, { duration: 1500 });
     } finally {
+      toast.dismiss(STATUS_TOAST_ID);
+      abortControllerRef.current = null;
       setIsProcessing(false);
       setProgress(0);
       setSelectedImageId(null);
     }
   };
 
-  const handleBatchProcess = async (images: ImageItem[]) => {
-    if (isProcessing || isBatchProcessing) {
-      toast.error("请等待当前任务完成", { duration: 800 });
-      return;
-    }
-    const imagesToProcess = images.filter(img => img.watermarkMark && img.isMarkingCompleted);
-    if (imagesToProcess.length === 0) {
-      toast.error("请先为图片标记水印并完成标记", { duration: 1000 });
-      return;
-    }
+  const runBatch = async (imagesToProcess: ImageItem[], keptEntries: BatchReportEntry[] = []) => {
     setIsBatchProcessing(true);
     setBatchProgress({});
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const { signal } = controller;
+    const algorithm = processingAlgorithm;
+    const startedAt = Date.now();
+    // Results are collected here rather than read back from batchProgress, whose
+    // value in this closure is the one from before the batch started
+    const entries = new Map<string, BatchReportEntry>();
+    const recordEntry = (imageItem: ImageItem, status: BatchEntryStatus, durationMs: number, details: Partial<BatchReportEntry> = {}) => {
+      entries.set(imageItem.id, { imageId: imageItem.id, fileName: imageItem.file.name, status, algorithm, durationMs, ...details });
+    };
     try {
       toast.info(`开始批量处理 ${imagesToProcess.length} 张已完成标记的图片`, { duration: 1000 });
-      for (let i = 0; i < imagesToProcess.length; i++) {
-        const imageItem = imagesToProcess[i];
-        setBatchProgress(prev => ({ ...prev, [imageItem.id]: 0 }));
+      // Images sharing a semi-transparent watermark give a far better layer estimate together
+      let watermarkLayer: WatermarkLayer | undefined;
+      if (algorithm === 'alpha-inversion' && imagesToProcess.length >= MIN_BATCH_IMAGES) {
         try {
-          const progressInterval = setInterval(() => setBatchProgress(prev => ({ ...prev, [imageItem.id]: Math.min((prev[imageItem.id] || 0) + 10, 85) })), 100);
-          const processedBlob = await processImageCanvas(imageItem.file, imageItem.watermarkMark, processingAlgorithm, imageItem.processedUrl || undefined);
-          clearInterval(progressInterval);
-          setBatchProgress(prev => ({ ...prev, [imageItem.id]: 100 }));
-          
-          // Clean up old processed URL
-          if (imageItem.processedUrl) {
-            memoryManager.releaseBlobUrl(imageItem.processedUrl);
+          watermarkLayer = await estimateBatchWatermarkLayer(imagesToProcess, signal) || undefined;
+        } catch (error) {
+          if (!isAbortError(error)) {
+            handleSecureError(error, 'watermark-layer-estimation', 'low');
           }
-          
-          const processedUrl = URL.createObjectURL(processedBlob);
-          memoryManager.trackBlobUrl(processedUrl);
-          
-          updateImage(imageItem.id, { 
-            processedUrl, 
-            processCount: imageItem.processCount + 1 
-          });
-          console.log(`批量处理进度: ${i + 1}/${imagesToProcess.length} - ${imageItem.file.name}`);
-        } catch (error: any) {
-          console.error(`处理图片 ${imageItem.file.name} 失败:`, error);
-          setBatchProgress(prev => ({ ...prev, [imageItem.id]: -1 }));
+        }
+        if (!watermarkLayer && !signal.aborted) {
+          toast.info("无法从多张图片估计共同水印，将逐张估计", { duration: 1000 });
         }
       }
-      const successCount = Object.values(batchProgress).filter(p => p === 100).length;
-      const failedCount = Object.values(batchProgress).filter(p => p === -1).length;
-      if (successCount > 0) {
-        toast.success(`批量处理完成！成功处理 ${successCount} 张图片${failedCount > 0 ? `，失败 ${failedCount} 张` : ''}`, { duration: 2000 });
-      } else {
-        toast.error("批量处理失败，请检查图片格式", { duration: 1500 });
-      }
-    } catch (error: any) {
+      // Local algorithms run several images at once, one per pool worker; SD requests
+      // and the single neural worker take one image at a time
+      const concurrency = algorithm === 'sd-inpainting' || algorithm === 'neural'
+        ? 1
+        : Math.min(processingWorkerPool.getPoolSize(), MAX_PARALLEL_IMAGES, imagesToProcess.length);
+      let nextIndex = 0;
+      const processNext = async () => {
+        // Cancelling stops handing out images; the ones in flight are aborted
+        while (nextIndex < imagesToProcess.length && !signal.aborted) {
+          const imageItem = imagesToProcess[nextIndex++];
+          const imageStartedAt = performance.now();
+          setBatchProgress(prev => ({ ...prev, [imageItem.id]: 0 }));
+          try {
+            const { blob: processedBlob, sdParams: usedParams } = await processImageCanvas(imageItem.file, imageItem, algorithm, imageItem.processedUrl || undefined, {
+              watermarkLayer,
+              signal,
+              sdParams,
+              algorithmParams,
+              sourceExclusion: imageItem.sourceExclusion,
+              // Several images may run at once and share the one status toast
+              onStatus: message => showStatus(`${imageItem.file.name} - ${message}`),
+              onProgress: value => setBatchProgress(prev => ({ ...prev, [imageItem.id]: Math.min(99, Math.round(value)) }))
+            });
+            setBatchProgress(prev => ({ ...prev, [imageItem.id]: 100 }));
+            
+            const processedUrl = URL.createObjectURL(processedBlob);
+            memoryManager.trackBlobUrl(processedUrl);
+            const label = `批量${PROCESSING_ALGORITHM_LABELS[algorithm]}`;
+            recordHistory(imageItem.id, label);
+            retainProcessingResult(imageItem.id, processedUrl, processedBlob, label, imageItem.processCount + 1, algorithm, usedParams);
+            
+            updateImage(imageItem.id, { 
+              processedUrl, 
+              processCount: imageItem.processCount + 1 
+            });
+            recordEntry(imageItem, 'success', performance.now() - imageStartedAt, { outputSize: processedBlob.size });
+          } catch (error) {
+            const durationMs = performance.now() - imageStartedAt;
+            if (isAbortError(error)) {
+              recordEntry(imageItem, 'cancelled', durationMs);
+              setBatchProgress(prev => {
+                const { [imageItem.id]: _cancelled, ...rest } = prev;
+                return rest;
+              });
+              continue;
+            }
+            recordEntry(imageItem, 'failed', durationMs, { error: handleSecureError(error, 'batch-processing', 'medium') });
+            setBatchProgress(prev => ({ ...prev, [imageItem.id]: -1 }));
+          }
+        }
+      };
+      await Promise.all(Array.from({ length: concurrency }, processNext));
+    } catch (error) {
       console.error("批量处理错误:", error);
-      toast.error(`批量处理失败: ${error.message}`, { duration: 1500 });
+      toast.error(`批量处理失败: ${handleSecureError(error, 'batch-processing', 'high')}`, { duration: 1500 });
     } finally {
+      toast.dismiss(STATUS_TOAST_ID);
+      abortControllerRef.current = null;
       setIsBatchProcessing(false);
       setBatchProgress({});
     }
+
+    imagesToProcess.forEach(imageItem => {
+      if (!entries.has(imageItem.id)) recordEntry(imageItem, 'cancelled', 0);
+    });
+    // A retry replaces the entries of the images it re-ran and keeps the rest
+    const report: BatchReport = {
+      algorithm,
+      startedAt,
+      finishedAt: Date.now(),
+      entries: [...keptEntries.filter(entry => !entries.has(entry.imageId)), ...entries.values()]
+    };
+    setBatchReport(report);
+
+    const runEntries = Array.from(entries.values());
+    const successCount = runEntries.filter(entry => entry.status === 'success').length;
+    const failedCount = runEntries.filter(entry => entry.status === 'failed').length;
+    if (signal.aborted) {
+      toast.info(`批量处理已取消，已完成 ${successCount + failedCount}/${imagesToProcess.length} 张`, { duration: 1500 });
+    } else if (successCount > 0) {
+      toast.success(`批量处理完成！成功处理 ${successCount} 张图片${failedCount > 0 ? `，失败 ${failedCount} 张` : ''}`, { duration: 2000 });
+    } else {
+      toast.error("批量处理失败，请检查图片格式", { duration: 1500 });
+    }
+    if (failedCount > 0) {
+      setIsBatchReportOpen(true);
+    }
+  };
+
+  const handleBatchProcess = async (images: ImageItem[]) => {
+    if (isProcessing || isBatchProcessing) {
+      toast.error("请等待当前任务完成", { duration: 800 });
+      return;
+    }
+    const imagesToProcess = images.filter(img => hasWatermarkMask(img) && img.isMarkingCompleted);
+    if (imagesToProcess.length === 0) {
+      toast.error("请先为图片标记水印并完成标记", { duration: 1000 });
+      return;
+    }
+    await runBatch(imagesToProcess);
+  };
+
+  // Re-runs only the images that failed in the last report, with their current marks
+  const retryFailedImages = async (images: ImageItem[]) => {
+    if (!batchReport || isProcessing || isBatchProcessing) return;
+    const failedIds = new Set(batchReport.entries.filter(entry => entry.status === 'failed').map(entry => entry.imageId));
+    const imagesToRetry = images.filter(img => failedIds.has(img.id) && hasWatermarkMask(img) && img.isMarkingCompleted);
+    if (imagesToRetry.length === 0) {
+      toast.error("没有可重试的失败图片", { duration: 1000 });
+      return;
+    }
+    setIsBatchReportOpen(false);
+    await runBatch(imagesToRetry, batchReport.entries);
   };
 
   return {
@@ -140,6 +288,11 @@ export const useImageProcessing = (
     selectedImageId: selectedImageId,
     setProcessingAlgorithm,
     handleRemoveWatermark,
-    handleBatchProcess
+    handleBatchProcess,
+    cancelProcessing,
+    batchReport,
+    isBatchReportOpen,
+    setIsBatchReportOpen,
+    retryFailedImages
   };
 };
@@ -59,14 +59,13 @@ export const useImageState = () => {
 
   const restoreToOriginal = useCallback((imageId: string) => {
     try {
-      const image = images.find(img => img.id === imageId);
-      if (image?.processedUrl) {
-        memoryManager.releaseBlobUrl(image.processedUrl);
-      }
+      // Processed results stay alive in the image history so the restore can be undone
       updateImage(imageId, { 
         processedUrl: null, 
         processCount: 0, 
-        watermarkMark: undefined, 
+        watermarkMarks: [], 
+        paintMask: undefined,
+        sourceExclusion: undefined,
         isMarkingCompleted: false 
       });
       toast.success("已还原到原图状态", { duration: 800 });
@@ -74,7 +73,7 @@ export const useImageState = () => {
       const errorMessage = handleSecureError(error, 'image-restore', 'medium');
       toast.error(errorMessage, { duration: 1000 });
     }
-  }, [images, updateImage]);
+  }, [updateImage]);
 
   const selectedImage = images.find(img => img.id === selectedImageId);
 
@@ -1,102 +1,272 @@
-
-import { useCallback } from 'react';
-import { ImageItem } from '@/components/watermark/types';
+import { useCallback, useEffect, useRef } from 'react';
+import { ImageItem, WatermarkMark, MarkingTool, PaintMask, DraftShape, MarkPoint } from '@/components/watermark/types';
+import { createPaintMask, paintStroke } from '@/components/watermark/maskUtils';
+import { createPathMark, fitMarkToBounds, getPolygonArea, isPathMark, moveMarkVertex, simplifyPath } from '@/components/watermark/markGeometry';
 
 interface UseMouseEventsProps {
   isMarkingMode: boolean;
   images: ImageItem[];
   zoom: number;
-  selectedMark: boolean;
+  selectedMarkId: string | null;
+  markingTool: MarkingTool;
+  brushRadius: number;
+  draftShape: DraftShape | null;
   dragState: any;
   resizeState: any;
   getImageCoordinates: (event: React.MouseEvent<HTMLImageElement>) => { x: number; y: number };
   getResizeHandle: (x: number, y: number, mark: any) => string | null;
+  getVertexHandle: (x: number, y: number, mark: WatermarkMark) => number | null;
+  findMarkAt: (x: number, y: number, marks: WatermarkMark[]) => WatermarkMark | null;
   setResizeState: (state: any) => void;
-  setSelectedMark: (selected: boolean) => void;
+  setSelectedMarkId: (id: string | null) => void;
   setDragState: (state: any) => void;
+  setDraftShape: (draft: DraftShape | null) => void;
   updateImage: (imageId: string, updates: Partial<ImageItem>) => void;
+  recordHistory: (imageId: string, label: string) => void;
 }
 
+const replaceMark = (marks: WatermarkMark[], updated: WatermarkMark) =>
+  marks.map(mark => mark.id === updated.id ? updated : mark);
+
+const isPaintTool = (tool: MarkingTool) => tool === 'brush' || tool === 'eraser' || tool === 'exclude';
+
+// Painted layers of an image; the eraser works on both
+type PaintLayers = Partial<Pick<ImageItem, 'paintMask' | 'sourceExclusion'>>;
+
+const STROKE_LABELS: Partial<Record<MarkingTool, string>> = { brush: '涂抹', eraser: '擦除', exclude: '涂抹排除区域' };
+
+// Minimum spacing between recorded lasso points and the simplification tolerance, normalized
+const LASSO_SAMPLE_DISTANCE = 0.002;
+const LASSO_SIMPLIFY_TOLERANCE = 0.0015;
+
+// The brush size is chosen in screen pixels; convert it to the mask's native resolution
+const toMaskRadius = (event: React.MouseEvent<HTMLImageElement>, mask: PaintMask, brushRadius: number) => {
+  const rect = event.currentTarget.getBoundingClientRect();
+  return rect.width > 0 ? brushRadius * mask.width / rect.width : brushRadius;
+};
+
 export const useMouseEvents = ({
   isMarkingMode,
   images,
   zoom,
-  selectedMark,
+  selectedMarkId,
+  markingTool,
+  brushRadius,
+  draftShape,
   dragState,
   resizeState,
   getImageCoordinates,
   getResizeHandle,
+  getVertexHandle,
+  findMarkAt,
   setResizeState,
-  setSelectedMark,
+  setSelectedMarkId,
   setDragState,
+  setDraftShape,
   updateImage,
+  recordHistory,
 }: UseMouseEventsProps) => {
+  // Live masks for the stroke in progress; React state may lag behind fast mouse moves
+  const activePaintLayers = useRef<PaintLayers | null>(null);
+  const activeLassoPoints = useRef<MarkPoint[] | null>(null);
+
+  // Turns the draft into a mark; slivers smaller than a rectangle's minimum size are dropped
+  const closeDraftShape = useCallback((draft: DraftShape, points: MarkPoint[]) => {
+    setDraftShape(null);
+    const image = images.find(img => img.id === draft.imageId);
+    const minSize = Math.max(0.01, 0.015 / zoom);
+    if (!image || points.length < 3 || getPolygonArea(points) < minSize * minSize) return;
+
+    const newMark = createPathMark(draft.shape, points);
+    recordHistory(image.id, draft.shape === 'polygon' ? '添加多边形区域' : '添加套索区域');
+    updateImage(image.id, {
+      watermarkMarks: [...image.watermarkMarks, newMark],
+      isMarkingCompleted: false
+    });
+    setSelectedMarkId(newMark.id);
+  }, [images, zoom, setDraftShape, updateImage, recordHistory, setSelectedMarkId]);
+
+  // Enter closes the polygon, Backspace removes its last vertex, Escape discards it
+  useEffect(() => {
+    if (!isMarkingMode || draftShape?.shape !== 'polygon') return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Enter') {
+        event.preventDefault();
+        closeDraftShape(draftShape, draftShape.points);
+      } else if (event.key === 'Escape') {
+        setDraftShape(null);
+      } else if (event.key === 'Backspace') {
+        event.preventDefault();
+        const points = draftShape.points.slice(0, -1);
+        setDraftShape(points.length > 0 ? { ...draftShape, points } : null);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isMarkingMode, draftShape, closeDraftShape, setDraftShape]);
+
   const handleMouseDown = useCallback((event: React.MouseEvent<HTMLImageElement>, imageId: string) => {
     if (!isMarkingMode) return;
-    
+
     try {
       event.preventDefault();
       event.stopPropagation();
       const selectedImageForEvent = images.find(img => img.id === imageId);
       if (!selectedImageForEvent) return;
       const { x, y } = getImageCoordinates(event);
-      
-      if (selectedImageForEvent.watermarkMark) {
-        const mark = selectedImageForEvent.watermarkMark;
-        const handle = getResizeHandle(x, y, mark);
-        if (handle) {
-          setResizeState({ isResizing: true, resizeHandle: handle, startX: x, startY: y });
-          setSelectedMark(true);
+      const marks = selectedImageForEvent.watermarkMarks;
+
+      if (isPaintTool(markingTool)) {
+        const dimensions = selectedImageForEvent.dimensions;
+        if (!dimensions) return;
+        const layers: (keyof PaintLayers)[] = markingTool === 'eraser'
+          ? ['paintMask', 'sourceExclusion']
+          : [markingTool === 'brush' ? 'paintMask' : 'sourceExclusion'];
+        const painted: PaintLayers = {};
+        layers.forEach(layer => {
+          const existing = selectedImageForEvent[layer];
+          if (markingTool === 'eraser' && !existing) return;
+          const mask = existing || createPaintMask(dimensions.width, dimensions.height);
+          painted[layer] = paintStroke(mask, { x, y }, { x, y }, toMaskRadius(event, mask, brushRadius), markingTool === 'eraser' ? 0 : 255);
+        });
+        if (Object.keys(painted).length === 0) return;
+        activePaintLayers.current = painted;
+        recordHistory(imageId, STROKE_LABELS[markingTool]!);
+        updateImage(imageId, { ...painted, isMarkingCompleted: false });
+        setSelectedMarkId(null);
+        setDragState({ isDragging: true, startX: x, startY: y, currentX: x, currentY: y });
+        return;
+      }
+
+      // While a polygon is open every click adds a vertex; a double click or a
+      // click on the first vertex closes it
+      if (markingTool === 'polygon' && draftShape?.imageId === imageId) {
+        const [first] = draftShape.points;
+        const tolerance = Math.max(0.01, 0.02 / zoom);
+        const closes = draftShape.points.length >= 3 &&
+          (event.detail >= 2 || (Math.abs(x - first.x) < tolerance && Math.abs(y - first.y) < tolerance));
+        if (closes) {
+          closeDraftShape(draftShape, draftShape.points);
+        } else {
+          setDraftShape({ ...draftShape, points: [...draftShape.points, { x, y }] });
+        }
+        return;
+      }
+
+      // Resize and vertex handles are only shown on the selected mark
+      const selected = marks.find(mark => mark.id === selectedMarkId);
+      if (selected) {
+        const vertexIndex = getVertexHandle(x, y, selected);
+        if (vertexIndex !== null) {
+          recordHistory(imageId, '调整标记区域');
+          setResizeState({ isResizing: true, resizeHandle: null, vertexIndex, startX: x, startY: y });
           return;
         }
-        if (x >= mark.x && x <= mark.x + mark.width && y >= mark.y && y <= mark.y + mark.height) {
-          setSelectedMark(true);
-          setDragState({ isDragging: true, startX: x - mark.x, startY: y - mark.y, currentX: x, currentY: y });
+        const handle = getResizeHandle(x, y, selected);
+        if (handle) {
+          recordHistory(imageId, '调整标记区域');
+          setResizeState({ isResizing: true, resizeHandle: handle, vertexIndex: null, startX: x, startY: y });
           return;
         }
       }
-      setSelectedMark(false);
-      updateImage(imageId, { watermarkMark: undefined });
-      setDragState({ isDragging: true, startX: x, startY: y, currentX: x, currentY: y });
-    } catch (error: any) {
+
+      const hitMark = findMarkAt(x, y, marks);
+      if (hitMark) {
+        recordHistory(imageId, '移动标记区域');
+        setSelectedMarkId(hitMark.id);
+        setDragState({ isDragging: true, startX: x - hitMark.x, startY: y - hitMark.y, currentX: x, currentY: y });
+        return;
+      }
+
+      // Clicking on empty space starts a new region and keeps the existing ones
+      setSelectedMarkId(null);
+      if (markingTool === 'polygon' || markingTool === 'lasso') {
+        activeLassoPoints.current = markingTool === 'lasso' ? [{ x, y }] : null;
+        setDraftShape({ imageId, shape: markingTool, points: [{ x, y }] });
+      }
+      setDragState({ isDragging: markingTool !== 'polygon', startX: x, startY: y, currentX: x, currentY: y });
+    } catch (error) {
       console.error('Mouse down handling error:', error);
     }
-  }, [isMarkingMode, images, zoom, getImageCoordinates, getResizeHandle, setResizeState, setSelectedMark, setDragState, updateImage]);
+  }, [isMarkingMode, images, zoom, selectedMarkId, markingTool, brushRadius, draftShape, getImageCoordinates, getResizeHandle, getVertexHandle, findMarkAt, closeDraftShape, setResizeState, setSelectedMarkId, setDragState, setDraftShape, updateImage, recordHistory]);
 
   const handleMouseMove = useCallback((event: React.MouseEvent<HTMLImageElement>, imageId: string) => {
     if (!isMarkingMode) return;
     const { x, y } = getImageCoordinates(event);
-    
+    const selectedImageForEvent = images.find(img => img.id === imageId);
+    const marks = selectedImageForEvent?.watermarkMarks || [];
+    const selected = marks.find(mark => mark.id === selectedMarkId);
+
+    if (isPaintTool(markingTool)) {
+      event.currentTarget.style.cursor = 'crosshair';
+      const layers = activePaintLayers.current;
+      if (!dragState.isDragging || !layers) return;
+      event.preventDefault();
+      event.stopPropagation();
+      const painted: PaintLayers = {};
+      (Object.keys(layers) as (keyof PaintLayers)[]).forEach(layer => {
+        const mask = layers[layer]!;
+        painted[layer] = paintStroke(
+          mask,
+          { x: dragState.currentX, y: dragState.currentY },
+          { x, y },
+          toMaskRadius(event, mask, brushRadius),
+          markingTool === 'eraser' ? 0 : 255
+        );
+      });
+      activePaintLayers.current = painted;
+      updateImage(imageId, painted);
+      setDragState(prev => ({ ...prev, currentX: x, currentY: y }));
+      return;
+    }
+
+    if (markingTool === 'lasso' && draftShape?.imageId === imageId && activeLassoPoints.current) {
+      event.preventDefault();
+      event.stopPropagation();
+      const points = activeLassoPoints.current;
+      const last = points[points.length - 1];
+      if (Math.hypot(x - last.x, y - last.y) < LASSO_SAMPLE_DISTANCE) return;
+      activeLassoPoints.current = [...points, { x, y }];
+      setDraftShape({ ...draftShape, points: activeLassoPoints.current });
+      return;
+    }
+
+    if (markingTool === 'polygon' && draftShape?.imageId === imageId) {
+      // Rubber band from the last vertex to the cursor
+      event.currentTarget.style.cursor = 'crosshair';
+      setDragState(prev => ({ ...prev, currentX: x, currentY: y }));
+      return;
+    }
+
     if (!dragState.isDragging && !resizeState.isResizing) {
-      const selectedImageForEvent = images.find(img => img.id === imageId);
-      if (selectedImageForEvent?.watermarkMark) {
-        const mark = selectedImageForEvent.watermarkMark;
-        const handle = getResizeHandle(x, y, mark);
-        const target = event.currentTarget;
-        if (handle) {
-          const cursors = { 'nw': 'nw-resize', 'ne': 'ne-resize', 'sw': 'sw-resize', 'se': 'se-resize', 'n': 'ns-resize', 's': 'ns-resize', 'e': 'ew-resize', 'w': 'ew-resize' };
-          target.style.cursor = cursors[handle];
-        } else if (x >= mark.x && x <= mark.x + mark.width && y >= mark.y && y <= mark.y + mark.height) {
-          target.style.cursor = 'move';
-        } else {
-          target.style.cursor = 'crosshair';
-        }
+      const target = event.currentTarget;
+      const handle = selected ? getResizeHandle(x, y, selected) : null;
+      if (selected && getVertexHandle(x, y, selected) !== null) {
+        target.style.cursor = 'pointer';
+      } else if (handle) {
+        const cursors = { 'nw': 'nw-resize', 'ne': 'ne-resize', 'sw': 'sw-resize', 'se': 'se-resize', 'n': 'ns-resize', 's': 'ns-resize', 'e': 'ew-resize', 'w': 'ew-resize' };
+        target.style.cursor = cursors[handle];
+      } else if (findMarkAt(x, y, marks)) {
+        target.style.cursor = 'move';
       } else {
-        event.currentTarget.style.cursor = 'crosshair';
+        target.style.cursor = 'crosshair';
       }
       return;
     }
-    
+
     event.preventDefault();
     event.stopPropagation();
-    
-    if (resizeState.isResizing && resizeState.resizeHandle) {
-      const selectedImageForEvent = images.find(img => img.id === imageId);
-      if (selectedImageForEvent?.watermarkMark) {
-        const mark = selectedImageForEvent.watermarkMark;
+
+    if (resizeState.isResizing && resizeState.vertexIndex != null) {
+      if (selected && isPathMark(selected)) {
+        updateImage(imageId, { watermarkMarks: replaceMark(marks, moveMarkVertex(selected, resizeState.vertexIndex, { x, y })) });
+      }
+    } else if (resizeState.isResizing && resizeState.resizeHandle) {
+      if (selectedImageForEvent && selected) {
+        const mark = selected;
         let newMark = { ...mark };
         const minSize = Math.max(0.01, 0.015 / zoom);
-        
+
         switch (resizeState.resizeHandle) {
           case 'se': newMark.width = Math.max(minSize, x - mark.x); newMark.height = Math.max(minSize, y - mark.y); break;
           case 'nw': const newWidth = mark.width + (mark.x - x); const newHeight = mark.height + (mark.y - y); if (newWidth > minSize && newHeight > minSize) { newMark.x = x; newMark.y = y; newMark.width = newWidth; newMark.height = newHeight; } break;
@@ -107,49 +277,71 @@ export const useMouseEvents = ({
           case 'e': newMark.width = Math.max(minSize, x - mark.x); break;
           case 'w': const wWidth = mark.width + (mark.x - x); if (wWidth > minSize) { newMark.x = x; newMark.width = wWidth; } break;
         }
-        updateImage(imageId, { watermarkMark: newMark });
+        updateImage(imageId, { watermarkMarks: replaceMark(marks, fitMarkToBounds(mark, newMark)) });
       }
     } else if (dragState.isDragging) {
-      if (selectedMark) {
-        const selectedImageForEvent = images.find(img => img.id === imageId);
-        if (selectedImageForEvent?.watermarkMark) {
-          const mark = selectedImageForEvent.watermarkMark;
+      if (selectedMarkId) {
+        if (selectedImageForEvent && selected) {
+          const mark = selected;
           const newX = Math.max(0, Math.min(1 - mark.width, x - dragState.startX));
           const newY = Math.max(0, Math.min(1 - mark.height, y - dragState.startY));
-          updateImage(imageId, { watermarkMark: { ...mark, x: newX, y: newY } });
+          updateImage(imageId, { watermarkMarks: replaceMark(marks, fitMarkToBounds(mark, { x: newX, y: newY, width: mark.width, height: mark.height })) });
         }
       } else {
         setDragState(prev => ({ ...prev, currentX: x, currentY: y }));
       }
     }
-  }, [isMarkingMode, dragState, resizeState, selectedMark, images, zoom, getImageCoordinates, getResizeHandle, updateImage, setDragState]);
+  }, [isMarkingMode, dragState, resizeState, selectedMarkId, markingTool, brushRadius, draftShape, images, zoom, getImageCoordinates, getResizeHandle, getVertexHandle, findMarkAt, updateImage, setDragState, setDraftShape]);
 
   const handleMouseUp = useCallback((event: React.MouseEvent<HTMLImageElement>, imageId: string) => {
     if (!isMarkingMode) return;
     event.preventDefault();
     event.stopPropagation();
     event.currentTarget.style.cursor = 'crosshair';
-    
+
+    if (isPaintTool(markingTool)) {
+      activePaintLayers.current = null;
+      setDragState({ isDragging: false, startX: 0, startY: 0, currentX: 0, currentY: 0 });
+      return;
+    }
+
+    if (markingTool === 'lasso' && draftShape?.imageId === imageId && activeLassoPoints.current) {
+      const points = simplifyPath(activeLassoPoints.current, LASSO_SIMPLIFY_TOLERANCE);
+      activeLassoPoints.current = null;
+      closeDraftShape(draftShape, points);
+      setDragState({ isDragging: false, startX: 0, startY: 0, currentX: 0, currentY: 0 });
+      return;
+    }
+
+    // An open polygon keeps tracking the cursor between clicks
+    if (markingTool === 'polygon' && draftShape?.imageId === imageId) return;
+
     if (resizeState.isResizing) {
-      setResizeState({ isResizing: false, resizeHandle: null, startX: 0, startY: 0 });
+      setResizeState({ isResizing: false, resizeHandle: null, vertexIndex: null, startX: 0, startY: 0 });
       return;
     }
-    
-    if (dragState.isDragging && !selectedMark) {
+
+    if (dragState.isDragging && !selectedMarkId) {
       const { startX, startY, currentX, currentY } = dragState;
       const left = Math.min(startX, currentX);
       const top = Math.min(startY, currentY);
       const width = Math.abs(currentX - startX);
       const height = Math.abs(currentY - startY);
       const minSize = Math.max(0.01, 0.015 / zoom);
-      
-      if (width > minSize && height > minSize) {
-        updateImage(imageId, { watermarkMark: { x: left, y: top, width, height } });
-        setSelectedMark(true);
+      const selectedImageForEvent = images.find(img => img.id === imageId);
+
+      if (selectedImageForEvent && width > minSize && height > minSize) {
+        const newMark: WatermarkMark = { id: crypto.randomUUID(), shape: markingTool === 'ellipse' ? 'ellipse' : 'rect', x: left, y: top, width, height };
+        recordHistory(imageId, '添加标记区域');
+        updateImage(imageId, {
+          watermarkMarks: [...selectedImageForEvent.watermarkMarks, newMark],
+          isMarkingCompleted: false
+        });
+        setSelectedMarkId(newMark.id);
       }
     }
     setDragState({ isDragging: false, startX: 0, startY: 0, currentX: 0, currentY: 0 });
-  }, [isMarkingMode, dragState, selectedMark, zoom, resizeState, setResizeState, setDragState, updateImage, setSelectedMark]);
+  }, [isMarkingMode, dragState, selectedMarkId, markingTool, draftShape, images, zoom, resizeState, closeDraftShape, setResizeState, setDragState, updateImage, recordHistory, setSelectedMarkId]);
 
   return {
     handleMouseDown,
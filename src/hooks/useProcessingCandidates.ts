@@ -0,0 +1,70 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { CandidateSet, ImageItem, AppliedSDParams, ProcessingAlgorithm } from '@/components/watermark/types';
+import { PROCESSING_ALGORITHM_LABELS } from '@/components/watermark/formatting';
+import { memoryManager } from '@/utils/memoryManager';
+
+const releaseCandidates = (set: CandidateSet | null, keepUrl?: string) => {
+  set?.candidates.forEach(candidate => {
+    if (candidate.url !== keepUrl) memoryManager.releaseBlobUrl(candidate.url);
+  });
+};
+
+// Candidate results of one processing run wait here until one is chosen. The
+// chosen one becomes a normal processing pass; the others are released.
+export const useProcessingCandidates = (
+  updateImage: (imageId: string, updates: Partial<ImageItem>) => void,
+  recordHistory: (imageId: string, label: string) => void,
+  retainProcessingResult: (imageId: string, url: string, blob: Blob, label: string, processCount: number, algorithm?: ProcessingAlgorithm, sdParams?: AppliedSDParams) => void
+) => {
+  // 1 turns candidate generation off
+  const [candidateCount, setCandidateCount] = useState(1);
+  const [candidateSet, setCandidateSet] = useState<CandidateSet | null>(null);
+  const [previewCandidateId, setPreviewCandidateId] = useState<string | null>(null);
+  // Mirrors the state for the unmount cleanup
+  const candidateSetRef = useRef<CandidateSet | null>(null);
+
+  const replaceCandidateSet = useCallback((next: CandidateSet | null, keepUrl?: string) => {
+    releaseCandidates(candidateSetRef.current, keepUrl);
+    candidateSetRef.current = next;
+    setCandidateSet(next);
+    setPreviewCandidateId(null);
+  }, []);
+
+  useEffect(() => () => releaseCandidates(candidateSetRef.current), []);
+
+  // A new run replaces the candidates of an earlier one, whatever image they belong to
+  const presentCandidates = useCallback((set: CandidateSet) => {
+    replaceCandidateSet(set);
+  }, [replaceCandidateSet]);
+
+  const chooseCandidate = useCallback((candidateId: string) => {
+    const set = candidateSetRef.current;
+    const candidate = set?.candidates.find(item => item.id === candidateId);
+    if (!set || !candidate) return;
+
+    const label = `${PROCESSING_ALGORITHM_LABELS[set.algorithm]} · ${candidate.label}`;
+    const processCount = set.processCount + 1;
+    recordHistory(set.imageId, label);
+    retainProcessingResult(set.imageId, candidate.url, candidate.blob, label, processCount, set.algorithm, candidate.sdParams);
+    updateImage(set.imageId, { processedUrl: candidate.url, processCount });
+    replaceCandidateSet(null, candidate.url);
+    toast.success(`已采用候选: ${candidate.label}`, { duration: 1000 });
+  }, [recordHistory, retainProcessingResult, updateImage, replaceCandidateSet]);
+
+  const discardCandidates = useCallback((imageId?: string) => {
+    if (!candidateSetRef.current || (imageId && candidateSetRef.current.imageId !== imageId)) return;
+    replaceCandidateSet(null);
+  }, [replaceCandidateSet]);
+
+  return {
+    candidateCount,
+    setCandidateCount,
+    candidateSet,
+    previewCandidateId,
+    setPreviewCandidateId,
+    presentCandidates,
+    chooseCandidate,
+    discardCandidates
+  };
+};
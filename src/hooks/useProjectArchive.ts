@@ -0,0 +1,136 @@
+import { useCallback, useState } from 'react';
+import { toast } from 'sonner';
+import { ImageHistory, ImageItem, AppliedSDParams, ProcessingAlgorithm } from '@/components/watermark/types';
+import { PROCESSING_ALGORITHM_LABELS } from '@/components/watermark/formatting';
+import {
+  MAX_PROJECT_IMAGES,
+  PROJECT_FILE_EXTENSION,
+  exportProjectArchive,
+  isProjectFileError,
+  readProjectArchive
+} from '@/utils/projectArchive';
+import { downloadBlob } from '@/utils/downloadArchive';
+import { memoryManager } from '@/utils/memoryManager';
+import { handleSecureError } from '@/utils/secureErrorHandler';
+
+const projectFileName = () => {
+  const now = new Date();
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `watermark-project-${now.getFullYear()}${pad(now.getMonth() + 1)}${pad(now.getDate())}-${pad(now.getHours())}${pad(now.getMinutes())}${PROJECT_FILE_EXTENSION}`;
+};
+
+interface UseProjectArchiveProps {
+  images: ImageItem[];
+  addImages: (newImages: ImageItem[]) => void;
+  selectedImageId: string | null;
+  setSelectedImageId: (id: string | null) => void;
+  processingAlgorithm: ProcessingAlgorithm;
+  setProcessingAlgorithm: (algorithm: ProcessingAlgorithm) => void;
+  retainProcessingResult: (imageId: string, url: string, blob: Blob, label: string, processCount: number, algorithm?: ProcessingAlgorithm, sdParams?: AppliedSDParams) => void;
+  getImageHistory: (imageId?: string) => ImageHistory;
+}
+
+export const useProjectArchive = ({
+  images,
+  addImages,
+  selectedImageId,
+  setSelectedImageId,
+  processingAlgorithm,
+  setProcessingAlgorithm,
+  retainProcessingResult,
+  getImageHistory,
+}: UseProjectArchiveProps) => {
+  const [isExporting, setIsExporting] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const exportProject = useCallback(async () => {
+    if (images.length === 0) {
+      toast.error("暂无可导出的图片", { duration: 1000 });
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      const blob = await exportProjectArchive({ images, processingAlgorithm, selectedImageId, getImageHistory });
+      downloadBlob(blob, projectFileName());
+      toast.success(`已导出 ${images.length} 张图片的项目文件`, { duration: 1500 });
+    } catch (error) {
+      const errorMessage = handleSecureError(error, 'project-export', 'medium');
+      toast.error(`项目导出失败: ${errorMessage}`, { duration: 2000 });
+    } finally {
+      setIsExporting(false);
+    }
+  }, [images, processingAlgorithm, selectedImageId, getImageHistory]);
+
+  const importProject = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const archive = event.target.files?.[0];
+    if (!archive) return;
+
+    setIsImporting(true);
+    try {
+      const project = await readProjectArchive(archive);
+      project.warnings.forEach(warning => toast.warning(warning, { duration: 3000 }));
+
+      if (project.images.length === 0) {
+        toast.error("项目中没有可导入的图片", { duration: 2000 });
+        return;
+      }
+      if (images.length + project.images.length > MAX_PROJECT_IMAGES) {
+        toast.error(`最多只能上传 ${MAX_PROJECT_IMAGES} 张图片，请先移除部分图片`, { duration: 2000 });
+        return;
+      }
+
+      // Importing the same project twice must not produce two images with one id
+      const existingIds = new Set(images.map(image => image.id));
+      const idMap = new Map<string, string>();
+      const imported = project.images.map(entry => {
+        const id = existingIds.has(entry.id) ? crypto.randomUUID() : entry.id;
+        idMap.set(entry.id, id);
+        const url = URL.createObjectURL(entry.file);
+        memoryManager.trackBlobUrl(url);
+        let processedUrl: string | null = null;
+        if (entry.result) {
+          processedUrl = URL.createObjectURL(entry.result);
+          memoryManager.trackBlobUrl(processedUrl);
+          const label = entry.algorithm ? `导入: ${PROCESSING_ALGORITHM_LABELS[entry.algorithm]}` : '导入的结果';
+          retainProcessingResult(id, processedUrl, entry.result, label, entry.processCount, entry.algorithm || undefined, entry.sdParams || undefined);
+        }
+        const image: ImageItem = {
+          id,
+          file: entry.file,
+          url,
+          processedUrl,
+          rotation: entry.rotation,
+          dimensions: entry.dimensions,
+          watermarkMarks: entry.watermarkMarks,
+          paintMask: entry.paintMask,
+          sourceExclusion: entry.sourceExclusion,
+          tileLattice: entry.tileLattice,
+          templateMatch: entry.templateMatch,
+          processCount: entry.processCount,
+          isMarkingCompleted: entry.isMarkingCompleted
+        };
+        return image;
+      });
+
+      addImages(imported);
+      setProcessingAlgorithm(project.settings.processingAlgorithm);
+      const selected = project.settings.selectedImageId && idMap.get(project.settings.selectedImageId);
+      setSelectedImageId(selected || imported[0].id);
+      toast.success(`已导入 ${imported.length} 张图片`, { duration: 1500 });
+    } catch (error) {
+      const errorMessage = handleSecureError(error, 'project-import', 'medium');
+      toast.error(`项目导入失败: ${isProjectFileError(error) ? error.message : errorMessage}`, { duration: 3000 });
+    } finally {
+      setIsImporting(false);
+      event.target.value = '';
+    }
+  }, [images, addImages, setSelectedImageId, setProcessingAlgorithm, retainProcessingResult]);
+
+  return {
+    isExporting,
+    isImporting,
+    exportProject,
+    importProject
+  };
+};
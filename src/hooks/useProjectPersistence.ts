@@ -0,0 +1,243 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { ImageItem, ProcessingAlgorithm } from '@/components/watermark/types';
+import { isProcessingAlgorithm } from '@/components/watermark/formatting';
+import { StorageEstimate, StoredImageRecord, projectStore } from '@/utils/projectStore';
+import { RestoredImageState, readStoredImageState } from '@/utils/projectArchive';
+import { validateFileContent } from '@/utils/fileContentValidator';
+import { memoryManager } from '@/utils/memoryManager';
+import { handleSecureError } from '@/utils/secureErrorHandler';
+
+// Marks change on every mouse move while dragging; writes wait for a pause
+const SAVE_DEBOUNCE_MS = 800;
+
+// Field references as last written, so unchanged images are not rewritten
+interface SavedImageState {
+  order: number;
+  watermarkMarks: ImageItem['watermarkMarks'];
+  paintMask: ImageItem['paintMask'];
+  sourceExclusion: ImageItem['sourceExclusion'];
+  tileLattice: ImageItem['tileLattice'];
+  templateMatch: ImageItem['templateMatch'];
+  processedUrl: string | null;
+  processCount: number;
+  isMarkingCompleted: boolean;
+  rotation: number;
+}
+
+const toSavedState = (image: ImageItem, order: number): SavedImageState => ({
+  order,
+  watermarkMarks: image.watermarkMarks,
+  paintMask: image.paintMask,
+  sourceExclusion: image.sourceExclusion,
+  tileLattice: image.tileLattice,
+  templateMatch: image.templateMatch,
+  processedUrl: image.processedUrl,
+  processCount: image.processCount,
+  isMarkingCompleted: image.isMarkingCompleted,
+  rotation: image.rotation
+});
+
+const isSavedStateEqual = (a: SavedImageState, b: SavedImageState) =>
+  (Object.keys(a) as (keyof SavedImageState)[]).every(key => a[key] === b[key]);
+
+const toRecord = (image: ImageItem, order: number): StoredImageRecord => ({
+  id: image.id,
+  order,
+  fileName: image.file.name,
+  fileType: image.file.type,
+  lastModified: image.file.lastModified,
+  rotation: image.rotation,
+  dimensions: image.dimensions,
+  watermarkMarks: image.watermarkMarks,
+  paintMask: image.paintMask,
+  sourceExclusion: image.sourceExclusion,
+  tileLattice: image.tileLattice,
+  templateMatch: image.templateMatch,
+  processCount: image.processCount,
+  isMarkingCompleted: image.isMarkingCompleted
+});
+
+interface UseProjectPersistenceProps {
+  images: ImageItem[];
+  addImages: (newImages: ImageItem[]) => void;
+  selectedImageId: string | null;
+  setSelectedImageId: (id: string | null) => void;
+  processingAlgorithm: ProcessingAlgorithm;
+  setProcessingAlgorithm: (algorithm: ProcessingAlgorithm) => void;
+  retainProcessingResult: (imageId: string, url: string, blob: Blob, label: string, processCount: number) => void;
+  getResultBlob: (imageId: string, processedUrl: string | null) => Blob | null;
+}
+
+export const useProjectPersistence = ({
+  images,
+  addImages,
+  selectedImageId,
+  setSelectedImageId,
+  processingAlgorithm,
+  setProcessingAlgorithm,
+  retainProcessingResult,
+  getResultBlob,
+}: UseProjectPersistenceProps) => {
+  const isAvailable = projectStore.isAvailable();
+  const [isRestoring, setIsRestoring] = useState(isAvailable);
+  const [storageEstimate, setStorageEstimate] = useState<StorageEstimate | null>(null);
+  const savedRef = useRef<Map<string, SavedImageState>>(new Map());
+  // Writes run one after another so a slow save never overtakes a newer one
+  const saveQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const saveErrorShownRef = useRef(false);
+  // Set once the restore has started; a second restore would duplicate images
+  const restoreStartedRef = useRef(false);
+  const isMountedRef = useRef(true);
+
+  useEffect(() => {
+    isMountedRef.current = true;
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, []);
+
+  const refreshEstimate = useCallback(async () => {
+    setStorageEstimate(await projectStore.getStorageEstimate());
+  }, []);
+
+  const enqueue = useCallback((task: () => Promise<void>) => {
+    const run = saveQueueRef.current.then(task);
+    saveQueueRef.current = run.catch(() => undefined);
+    return run;
+  }, []);
+
+  // Rehydrate once on load; saving starts only after this so an empty first render cannot wipe the store
+  useEffect(() => {
+    if (!isAvailable || restoreStartedRef.current) return;
+    restoreStartedRef.current = true;
+    const restore = async () => {
+      try {
+        const project = await projectStore.load();
+        if (!isMountedRef.current) return;
+        const restored: ImageItem[] = [];
+        for (const { record, original, result } of project.images) {
+          const file = new File([original], record.fileName, { type: record.fileType, lastModified: record.lastModified });
+          // Stored files were validated on upload, but the store is writable by any script on this origin
+          const validation = await validateFileContent(file);
+          if (!isMountedRef.current) return;
+          if (!validation.isValid) {
+            console.warn(`[ProjectStore] Skipping invalid stored file: ${record.fileName}`);
+            continue;
+          }
+          let state: RestoredImageState;
+          try {
+            state = await readStoredImageState(record, file);
+          } catch {
+            console.warn(`[ProjectStore] Skipping invalid stored record: ${record.fileName}`);
+            continue;
+          }
+          if (!isMountedRef.current) return;
+          const url = URL.createObjectURL(file);
+          memoryManager.trackBlobUrl(url);
+          let processedUrl: string | null = null;
+          if (result) {
+            processedUrl = URL.createObjectURL(result);
+            memoryManager.trackBlobUrl(processedUrl);
+            retainProcessingResult(record.id, processedUrl, result, '上次会话的结果', state.processCount);
+          }
+          const image: ImageItem = { id: record.id, file, url, processedUrl, ...state };
+          savedRef.current.set(image.id, toSavedState(image, record.order));
+          restored.push(image);
+        }
+
+        if (restored.length > 0) {
+          addImages(restored);
+          toast.success(`已恢复上次会话的 ${restored.length} 张图片`, { duration: 1500 });
+        }
+        if (project.settings) {
+          // The store is writable by any script on this origin; unknown values keep the default
+          if (isProcessingAlgorithm(project.settings.processingAlgorithm)) {
+            setProcessingAlgorithm(project.settings.processingAlgorithm);
+          }
+          const selected = project.settings.selectedImageId;
+          if (selected && restored.some(image => image.id === selected)) {
+            setSelectedImageId(selected);
+          }
+        }
+      } catch (error) {
+        const errorMessage = handleSecureError(error, 'session-restore', 'low');
+        toast.error(`无法恢复上次会话: ${errorMessage}`, { duration: 2000 });
+      } finally {
+        if (isMountedRef.current) {
+          setIsRestoring(false);
+          refreshEstimate();
+        }
+      }
+    };
+    restore();
+  }, [isAvailable, addImages, setSelectedImageId, setProcessingAlgorithm, retainProcessingResult, refreshEstimate]);
+
+  const persistImages = useCallback((currentImages: ImageItem[]) => enqueue(async () => {
+    const currentIds = new Set(currentImages.map(image => image.id));
+    for (const id of Array.from(savedRef.current.keys())) {
+      if (!currentIds.has(id)) {
+        await projectStore.deleteImage(id);
+        savedRef.current.delete(id);
+      }
+    }
+
+    for (let order = 0; order < currentImages.length; order++) {
+      const image = currentImages[order];
+      const next = toSavedState(image, order);
+      const previous = savedRef.current.get(image.id);
+      if (previous && isSavedStateEqual(previous, next)) continue;
+
+      let result: Blob | null | undefined;
+      if (!previous || previous.processedUrl !== image.processedUrl) {
+        result = image.processedUrl ? getResultBlob(image.id, image.processedUrl) : null;
+        if (image.processedUrl && !result) throw new Error('处理结果已释放');
+      }
+      await projectStore.saveImage(toRecord(image, order), { original: previous ? undefined : image.file, result });
+      savedRef.current.set(image.id, next);
+    }
+  }), [enqueue, getResultBlob]);
+
+  useEffect(() => {
+    if (!isAvailable || isRestoring) return;
+    const timer = window.setTimeout(() => {
+      persistImages(images)
+        .then(() => {
+          saveErrorShownRef.current = false;
+          refreshEstimate();
+        })
+        .catch(error => {
+          const errorMessage = handleSecureError(error, 'session-save', 'low');
+          // One warning per failure streak; the next change retries anyway
+          if (!saveErrorShownRef.current) {
+            saveErrorShownRef.current = true;
+            toast.warning(`本地会话保存失败: ${errorMessage}`, { duration: 2500 });
+          }
+        });
+    }, SAVE_DEBOUNCE_MS);
+    return () => window.clearTimeout(timer);
+  }, [images, isAvailable, isRestoring, persistImages, refreshEstimate]);
+
+  useEffect(() => {
+    if (!isAvailable || isRestoring) return;
+    enqueue(() => projectStore.saveSettings({ processingAlgorithm, selectedImageId, savedAt: Date.now() }))
+      .catch(error => handleSecureError(error, 'session-save', 'low'));
+  }, [processingAlgorithm, selectedImageId, isAvailable, isRestoring, enqueue]);
+
+  // Empties the store; the caller removes the images from state
+  const clearSession = useCallback(async () => {
+    if (!isAvailable) return;
+    await enqueue(async () => {
+      await projectStore.clear();
+      savedRef.current.clear();
+    });
+    refreshEstimate();
+  }, [isAvailable, enqueue, refreshEstimate]);
+
+  return {
+    isPersistenceAvailable: isAvailable,
+    isRestoring,
+    storageEstimate,
+    clearSession
+  };
+};
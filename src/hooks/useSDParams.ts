@@ -0,0 +1,70 @@
+import { useCallback, useState } from 'react';
+import { SDInpaintingParams, SDParamsPreset } from '@/components/watermark/types';
+import { DEFAULT_SD_PARAMS, sanitizeSDParams } from '@/utils/inpaintingBackends';
+import { secureSession } from '@/utils/secureSession';
+
+const PARAMS_KEY = 'sdParams';
+const PRESETS_KEY = 'sdParamsPresets';
+const MAX_PRESETS = 20;
+const MAX_PRESET_NAME_LENGTH = 40;
+
+// Stored values come from sessionStorage and are checked before use
+const loadParams = (): SDInpaintingParams =>
+  sanitizeSDParams(secureSession.getUserPreference(PARAMS_KEY)) || DEFAULT_SD_PARAMS;
+
+const loadPresets = (): SDParamsPreset[] => {
+  const stored = secureSession.getUserPreference(PRESETS_KEY);
+  if (!Array.isArray(stored)) return [];
+  return stored.flatMap(item => {
+    const name = item && typeof item === 'object' ? (item as Partial<SDParamsPreset>).name : undefined;
+    const params = sanitizeSDParams(item && typeof item === 'object' ? (item as Partial<SDParamsPreset>).params : null);
+    return typeof name === 'string' && name && params ? [{ name: name.slice(0, MAX_PRESET_NAME_LENGTH), params }] : [];
+  }).slice(0, MAX_PRESETS);
+};
+
+export const useSDParams = () => {
+  const [sdParams, setSdParams] = useState<SDInpaintingParams>(loadParams);
+  const [sdPresets, setSdPresets] = useState<SDParamsPreset[]>(loadPresets);
+
+  const updateSDParams = useCallback((updates: Partial<SDInpaintingParams>) => {
+    setSdParams(prev => {
+      const next = { ...prev, ...updates };
+      secureSession.setUserPreference(PARAMS_KEY, next);
+      return next;
+    });
+  }, []);
+
+  const resetSDParams = useCallback(() => {
+    secureSession.setUserPreference(PARAMS_KEY, DEFAULT_SD_PARAMS);
+    setSdParams(DEFAULT_SD_PARAMS);
+  }, []);
+
+  // A preset with the same name is replaced; the newest preset comes first
+  const saveSDPreset = useCallback((name: string) => {
+    const presetName = name.trim().slice(0, MAX_PRESET_NAME_LENGTH);
+    if (!presetName) return false;
+    setSdPresets(prev => {
+      const next = [{ name: presetName, params: sdParams }, ...prev.filter(preset => preset.name !== presetName)].slice(0, MAX_PRESETS);
+      secureSession.setUserPreference(PRESETS_KEY, next);
+      return next;
+    });
+    return true;
+  }, [sdParams]);
+
+  const deleteSDPreset = useCallback((name: string) => {
+    setSdPresets(prev => {
+      const next = prev.filter(preset => preset.name !== name);
+      secureSession.setUserPreference(PRESETS_KEY, next);
+      return next;
+    });
+  }, []);
+
+  return {
+    sdParams,
+    sdPresets,
+    updateSDParams,
+    resetSDParams,
+    saveSDPreset,
+    deleteSDPreset
+  };
+};
@@ -1,13 +1,20 @@
 
 import { useState, useCallback } from 'react';
-import { ImageItem, WatermarkMark, DragState, ResizeState, ResizeHandle } from '@/components/watermark/types';
+import { ImageItem, WatermarkMark, DragState, ResizeState, ResizeHandle, MarkingTool, DraftShape } from '@/components/watermark/types';
 import { toast } from 'sonner';
-import { validateWatermarkMark } from '@/utils/apiSecurity';
+import { validateWatermarkSelection } from '@/utils/apiSecurity';
+import { hasWatermarkMask, resamplePaintMask } from '@/components/watermark/maskUtils';
+import { findMarkVertex, isPathMark, isPointInMark } from '@/components/watermark/markGeometry';
 import { handleSecureError } from '@/utils/secureErrorHandler';
+import { createWatermarkTemplate, detectWatermarkRegions, estimateWatermarkLattice, locateWatermarkTemplate } from '@/components/watermark/imageProcessor';
+
+// Normalized cross-correlation below this is left for the user to mark by hand
+const TEMPLATE_MATCH_THRESHOLD = 0.6;
 
 export const useWatermarkMarking = (
   updateImage: (imageId: string, updates: Partial<ImageItem>) => void,
-  updateImages: (updater: (prev: ImageItem[]) => ImageItem[]) => void
+  updateImages: (updater: (prev: ImageItem[]) => ImageItem[]) => void,
+  recordHistory: (imageId: string, label: string) => void
 ) => {
   const [isMarkingMode, setIsMarkingMode] = useState(false);
   const [zoom, setZoom] = useState<number>(1);
@@ -15,9 +22,17 @@ export const useWatermarkMarking = (
     isDragging: false, startX: 0, startY: 0, currentX: 0, currentY: 0 
   });
   const [resizeState, setResizeState] = useState<ResizeState>({ 
-    isResizing: false, resizeHandle: null, startX: 0, startY: 0 
+    isResizing: false, resizeHandle: null, vertexIndex: null, startX: 0, startY: 0 
   });
-  const [selectedMark, setSelectedMark] = useState<boolean>(false);
+  const [selectedMarkId, setSelectedMarkId] = useState<string | null>(null);
+  const [markingTool, setMarkingTool] = useState<MarkingTool>('rect');
+  // Brush radius in screen pixels, converted to image pixels while painting
+  const [brushRadius, setBrushRadius] = useState<number>(16);
+  const [draftShape, setDraftShape] = useState<DraftShape | null>(null);
+  const [isDetecting, setIsDetecting] = useState(false);
+  const [isEstimatingLattice, setIsEstimatingLattice] = useState(false);
+  // Template matching progress in percent, null when idle
+  const [matchProgress, setMatchProgress] = useState<number | null>(null);
 
   const getImageCoordinates = useCallback((event: React.MouseEvent<HTMLImageElement>) => {
     const rect = event.currentTarget.getBoundingClientRect();
@@ -27,6 +42,8 @@ export const useWatermarkMarking = (
   }, []);
   
   const getResizeHandle = useCallback((x: number, y: number, mark: WatermarkMark): ResizeHandle | null => {
+    // Polygons and lassos are edited through their vertices instead
+    if (isPathMark(mark)) return null;
     const handleSize = Math.max(0.01, 0.02 / zoom);
     const handles = {
       'nw': { x: mark.x, y: mark.y },
@@ -46,75 +63,267 @@ export const useWatermarkMarking = (
     return null;
   }, [zoom]);
 
+  const getVertexHandle = useCallback((x: number, y: number, mark: WatermarkMark): number | null => {
+    if (!isPathMark(mark)) return null;
+    const index = findMarkVertex(mark, x, y, Math.max(0.01, 0.02 / zoom));
+    return index >= 0 ? index : null;
+  }, [zoom]);
+
+  // Topmost (last drawn) mark wins when regions overlap
+  const findMarkAt = useCallback((x: number, y: number, marks: WatermarkMark[]): WatermarkMark | null => {
+    for (let i = marks.length - 1; i >= 0; i--) {
+      if (isPointInMark(marks[i], x, y)) {
+        return marks[i];
+      }
+    }
+    return null;
+  }, []);
+
   const clearWatermarkMark = useCallback((imageId: string) => {
     try {
+      recordHistory(imageId, '清除标记');
       updateImage(imageId, { 
-        watermarkMark: undefined, 
+        watermarkMarks: [], 
+        paintMask: undefined,
+        sourceExclusion: undefined,
+        suggestedMarks: undefined,
+        tileLattice: undefined,
         isMarkingCompleted: false 
       });
-      setSelectedMark(false);
+      setSelectedMarkId(null);
     } catch (error: any) {
       const errorMessage = handleSecureError(error, 'watermark-clear', 'low');
       toast.error(errorMessage, { duration: 1000 });
     }
+  }, [updateImage, recordHistory]);
+
+  const removeSelectedMark = useCallback((selectedImage?: ImageItem) => {
+    if (!selectedImage || !selectedMarkId) return;
+    try {
+      recordHistory(selectedImage.id, '删除标记区域');
+      updateImage(selectedImage.id, {
+        watermarkMarks: selectedImage.watermarkMarks.filter(mark => mark.id !== selectedMarkId),
+        isMarkingCompleted: false
+      });
+      setSelectedMarkId(null);
+    } catch (error) {
+      const errorMessage = handleSecureError(error, 'watermark-remove', 'low');
+      toast.error(errorMessage, { duration: 1000 });
+    }
+  }, [selectedMarkId, updateImage, recordHistory]);
+
+  // Switching tools abandons a polygon or lasso that has not been closed yet
+  const selectMarkingTool = useCallback((tool: MarkingTool) => {
+    setMarkingTool(tool);
+    setDraftShape(null);
+  }, []);
+
+  const clearPaintMask = useCallback((imageId: string) => {
+    recordHistory(imageId, '清除涂抹');
+    updateImage(imageId, { paintMask: undefined, isMarkingCompleted: false });
+  }, [updateImage, recordHistory]);
+
+  const clearSourceExclusion = useCallback((imageId: string) => {
+    recordHistory(imageId, '清除排除区域');
+    updateImage(imageId, { sourceExclusion: undefined });
+  }, [updateImage, recordHistory]);
+
+  const handleAutoDetect = useCallback(async (selectedImage?: ImageItem) => {
+    if (!selectedImage || isDetecting) return;
+    setIsDetecting(true);
+    try {
+      const suggestions = await detectWatermarkRegions(selectedImage.url);
+      if (suggestions.length === 0) {
+        toast.info("未检测到明显的水印区域，请手动标记", { duration: 1500 });
+        return;
+      }
+      updateImage(selectedImage.id, { suggestedMarks: suggestions, isMarkingCompleted: false });
+      setIsMarkingMode(true);
+      setSelectedMarkId(null);
+      toast.success(`检测到 ${suggestions.length} 个疑似水印区域，请逐个接受或忽略`, { duration: 1500 });
+    } catch (error) {
+      const errorMessage = handleSecureError(error, 'watermark-detection', 'medium');
+      toast.error(errorMessage, { duration: 1500 });
+    } finally {
+      setIsDetecting(false);
+    }
+  }, [isDetecting, updateImage]);
+
+  // Without a mark id every pending suggestion is accepted (or rejected)
+  const acceptSuggestedMark = useCallback((selectedImage?: ImageItem, markId?: string) => {
+    const suggestions = selectedImage?.suggestedMarks;
+    if (!selectedImage || !suggestions) return;
+    const accepted = suggestions.filter(suggestion => !markId || suggestion.mark.id === markId);
+    const remaining = suggestions.filter(suggestion => markId && suggestion.mark.id !== markId);
+    recordHistory(selectedImage.id, '接受检测区域');
+    updateImage(selectedImage.id, {
+      watermarkMarks: [...selectedImage.watermarkMarks, ...accepted.map(suggestion => suggestion.mark)],
+      suggestedMarks: remaining.length > 0 ? remaining : undefined,
+      isMarkingCompleted: false
+    });
+  }, [updateImage, recordHistory]);
+
+  const rejectSuggestedMark = useCallback((selectedImage?: ImageItem, markId?: string) => {
+    const suggestions = selectedImage?.suggestedMarks;
+    if (!selectedImage || !suggestions) return;
+    const remaining = suggestions.filter(suggestion => markId && suggestion.mark.id !== markId);
+    updateImage(selectedImage.id, { suggestedMarks: remaining.length > 0 ? remaining : undefined });
   }, [updateImage]);
 
-  const handleCompleteMarking = useCallback((imageId: string, selectedImage?: ImageItem) => {
+  const handleEstimateLattice = useCallback(async (selectedImage?: ImageItem) => {
+    if (!selectedImage || !hasWatermarkMask(selectedImage) || isEstimatingLattice) return;
+    setIsEstimatingLattice(true);
     try {
-      if (!selectedImage?.watermarkMark) {
-        toast.error("请先标记水印位置", { duration: 1000 });
+      const lattice = await estimateWatermarkLattice(selectedImage);
+      if (!lattice) {
+        toast.error("未找到重复的水印实例，请确认标记的是其中完整的一个", { duration: 2000 });
         return;
       }
+      recordHistory(selectedImage.id, '识别平铺网格');
+      updateImage(selectedImage.id, { tileLattice: lattice });
+      toast.success(`已识别平铺网格（匹配度 ${Math.round(lattice.score * 100)}%），可拖动网格手柄微调`, { duration: 1500 });
+    } catch (error) {
+      const errorMessage = handleSecureError(error, 'lattice-estimation', 'medium');
+      toast.error(errorMessage, { duration: 1500 });
+    } finally {
+      setIsEstimatingLattice(false);
+    }
+  }, [isEstimatingLattice, updateImage, recordHistory]);
+
+  // Returns whether the marking was accepted
+  const handleCompleteMarking = useCallback((imageId: string, selectedImage?: ImageItem): boolean => {
+    try {
+      if (selectedImage?.suggestedMarks?.length) {
+        toast.error("请先接受或忽略自动检测的候选区域", { duration: 1500 });
+        return false;
+      }
+
+      if (!selectedImage || !hasWatermarkMask(selectedImage)) {
+        toast.error("请先标记水印位置", { duration: 1000 });
+        return false;
+      }
 
-      // Validate watermark mark
-      const validation = validateWatermarkMark(selectedImage.watermarkMark);
+      // Validate watermark regions and painted mask
+      const validation = validateWatermarkSelection(selectedImage.watermarkMarks, selectedImage.paintMask, selectedImage.dimensions);
       if (!validation.isValid) {
         toast.error(validation.error, { duration: 1000 });
-        return;
+        return false;
       }
 
-      updateImage(imageId, { isMarkingCompleted: true });
+      recordHistory(imageId, '完成标记');
+      updateImage(imageId, { isMarkingCompleted: true, templateMatch: undefined });
       setIsMarkingMode(false);
-      setSelectedMark(false);
-      toast.success("水印标记已完成，现在可以开始处理", { duration: 1000 });
+      setSelectedMarkId(null);
+      setDraftShape(null);
+      toast.success(selectedImage.watermarkMarks.length > 0
+        ? `已完成 ${selectedImage.watermarkMarks.length} 个水印区域的标记，现在可以开始处理`
+        : "水印涂抹已完成，现在可以开始处理", { duration: 1000 });
+      return true;
     } catch (error: any) {
       const errorMessage = handleSecureError(error, 'marking-completion', 'medium');
       toast.error(errorMessage, { duration: 1000 });
+      return false;
     }
-  }, [updateImage]);
+  }, [updateImage, recordHistory]);
 
-  const handleMarkingToggle = useCallback((selectedImage?: ImageItem) => {
+  // In tiled mode the lattice is estimated as soon as the one instance is marked
+  const handleMarkingToggle = useCallback((selectedImage?: ImageItem, options?: { estimateLattice?: boolean }) => {
     if (isMarkingMode) {
-      if (selectedImage?.watermarkMark) {
-        handleCompleteMarking(selectedImage.id, selectedImage);
+      if (selectedImage && (hasWatermarkMask(selectedImage) || selectedImage.suggestedMarks?.length)) {
+        const completed = handleCompleteMarking(selectedImage.id, selectedImage);
+        if (completed && options?.estimateLattice && !selectedImage.tileLattice) {
+          handleEstimateLattice(selectedImage);
+        }
       } else {
         setIsMarkingMode(false);
-        setSelectedMark(false);
+        setSelectedMarkId(null);
+        setDraftShape(null);
       }
     } else {
       setIsMarkingMode(true);
-      setSelectedMark(false);
+      setSelectedMarkId(null);
       if (selectedImage?.isMarkingCompleted) {
+        recordHistory(selectedImage.id, '重新编辑标记');
         updateImage(selectedImage.id, { isMarkingCompleted: false });
       }
     }
-  }, [isMarkingMode, handleCompleteMarking, updateImage]);
+  }, [isMarkingMode, handleCompleteMarking, handleEstimateLattice, updateImage, recordHistory]);
 
-  const handleBatchApplyWatermark = useCallback((selectedImage?: ImageItem, selectedImageId?: string) => {
-    const mark = selectedImage?.watermarkMark;
-    if (!mark) {
+  const handleBatchApplyWatermark = useCallback((selectedImage: ImageItem | undefined, selectedImageId: string | null, images: ImageItem[]) => {
+    if (!selectedImage || !hasWatermarkMask(selectedImage)) {
       toast.error("当前图片没有标记水印", { duration: 800 });
       return;
     }
+    const { watermarkMarks: marks, paintMask } = selectedImage;
+    images.forEach(img => {
+      if (img.id !== selectedImageId) recordHistory(img.id, '批量应用标记');
+    });
     updateImages(prev => prev.map(img => 
       img.id === selectedImageId ? img : { 
         ...img, 
-        watermarkMark: { ...mark }, 
+        watermarkMarks: marks.map(mark => ({ ...mark, id: crypto.randomUUID() })), 
+        paintMask: paintMask && img.dimensions
+          ? resamplePaintMask(paintMask, img.dimensions.width, img.dimensions.height)
+          : undefined,
         isMarkingCompleted: false 
       }
     ));
     toast.success(`已将水印标记应用到其他图片，请分别确认完成标记`, { duration: 1500 });
-  }, [updateImages]);
+  }, [updateImages, recordHistory]);
+
+  // Finds the reference image's watermark in every other image instead of copying
+  // the same normalized box, which fails when sizes or offsets differ
+  const handleBatchMatchWatermark = useCallback(async (selectedImage: ImageItem | undefined, images: ImageItem[]) => {
+    if (!selectedImage || !hasWatermarkMask(selectedImage)) {
+      toast.error("当前图片没有标记水印", { duration: 800 });
+      return;
+    }
+    const targets = images.filter(img => img.id !== selectedImage.id);
+    if (targets.length === 0 || matchProgress !== null) return;
+
+    setMatchProgress(0);
+    try {
+      const template = await createWatermarkTemplate(selectedImage);
+      let matched = 0;
+      for (let i = 0; i < targets.length; i++) {
+        const target = targets[i];
+        // Let the progress indicator paint between images
+        await new Promise(resolve => setTimeout(resolve, 0));
+        try {
+          const result = await locateWatermarkTemplate(template, target);
+          if (result.score >= TEMPLATE_MATCH_THRESHOLD && (result.marks.length > 0 || result.paintMask)) {
+            recordHistory(target.id, '智能匹配标记');
+            updateImage(target.id, {
+              watermarkMarks: result.marks,
+              paintMask: result.paintMask,
+              suggestedMarks: undefined,
+              isMarkingCompleted: false,
+              templateMatch: { score: result.score, needsReview: false }
+            });
+            matched++;
+          } else {
+            updateImage(target.id, { templateMatch: { score: result.score, needsReview: true } });
+          }
+        } catch (error) {
+          handleSecureError(error, 'template-match', 'low');
+          updateImage(target.id, { templateMatch: { score: 0, needsReview: true } });
+        }
+        setMatchProgress(Math.round((i + 1) / targets.length * 100));
+      }
+
+      const flagged = targets.length - matched;
+      if (flagged > 0) {
+        toast.warning(`已在 ${matched} 张图片中定位水印，${flagged} 张匹配度不足，需要人工复核`, { duration: 2500 });
+      } else {
+        toast.success(`已在全部 ${matched} 张图片中定位水印，请分别确认完成标记`, { duration: 1500 });
+      }
+    } catch (error) {
+      const errorMessage = handleSecureError(error, 'template-match', 'medium');
+      toast.error(errorMessage, { duration: 1500 });
+    } finally {
+      setMatchProgress(null);
+    }
+  }, [matchProgress, updateImage, recordHistory]);
 
   return {
     isMarkingMode,
@@ -124,12 +333,31 @@ export const useWatermarkMarking = (
     setDragState,
     resizeState,
     setResizeState,
-    selectedMark,
-    setSelectedMark,
+    selectedMarkId,
+    setSelectedMarkId,
+    markingTool,
+    setMarkingTool: selectMarkingTool,
+    brushRadius,
+    setBrushRadius,
+    draftShape,
+    setDraftShape,
+    isDetecting,
+    isEstimatingLattice,
+    matchProgress,
     getImageCoordinates,
     getResizeHandle,
+    getVertexHandle,
+    findMarkAt,
     clearWatermarkMark,
+    removeSelectedMark,
+    clearPaintMask,
+    clearSourceExclusion,
+    handleAutoDetect,
+    handleEstimateLattice,
+    acceptSuggestedMark,
+    rejectSuggestedMark,
     handleMarkingToggle,
-    handleBatchApplyWatermark
+    handleBatchApplyWatermark,
+    handleBatchMatchWatermark
   };
 };
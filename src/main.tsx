@@ -27,7 +27,7 @@ runtimeProtection.updateConfig({
 
 // Configure memory management limits
 memoryManager.updateResourceLimits({
-  maxCanvasSize: 16777216, // 4096 * 4096
+  maxCanvasSize: 100000000, // 100MP, matches validateImageDimensions
   maxFileSize: 25 * 1024 * 1024, // 25MB
   maxConcurrentOperations: 3,
   memoryThreshold: 0.8
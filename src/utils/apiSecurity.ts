@@ -1,4 +1,7 @@
 // Enhanced API security and rate limiting
+import type { PaintMask } from '@/components/watermark/types';
+import { getPolygonArea } from '@/components/watermark/markGeometry';
+
 interface RequestMetrics {
   timestamp: number;
   endpoint: string;
@@ -452,8 +455,11 @@ export const validateFileUpload = (file: File) => {
   return { isValid: true };
 };
 
+// Marked images are processed region by region, so the limits follow what a
+// browser canvas can hold rather than what the algorithms can handle in memory
 export const validateImageDimensions = (width: number, height: number) => {
-  const maxDimension = 8192;
+  const maxDimension = 16384;
+  const maxPixels = 100000000; // 100MP
   const minDimension = 32;
   
   if (width < minDimension || height < minDimension) {
@@ -464,6 +470,10 @@ export const validateImageDimensions = (width: number, height: number) => {
     return { isValid: false, error: `图片尺寸不能超过 ${maxDimension}x${maxDimension}` };
   }
   
+  if (width * height > maxPixels) {
+    return { isValid: false, error: `图片像素总数不能超过 ${maxPixels / 1000000} 百万像素` };
+  }
+  
   return { isValid: true };
 };
 
@@ -475,6 +485,37 @@ export const validateZoomLevel = (zoom: number) => {
   return { isValid: true };
 };
 
+const MARK_SHAPES = ['rect', 'ellipse', 'polygon', 'lasso'];
+const MAX_PATH_POINTS = 500;
+
+const validateMarkPoints = (points: unknown, bounds: { x: number; y: number; width: number; height: number }) => {
+  if (!Array.isArray(points) || points.length < 3) {
+    return { isValid: false, error: '多边形至少需要 3 个顶点' };
+  }
+
+  if (points.length > MAX_PATH_POINTS) {
+    return { isValid: false, error: `多边形顶点不能超过 ${MAX_PATH_POINTS} 个` };
+  }
+
+  const epsilon = 1e-6;
+  for (const point of points) {
+    if (!point || typeof point.x !== 'number' || typeof point.y !== 'number' ||
+        !Number.isFinite(point.x) || !Number.isFinite(point.y)) {
+      return { isValid: false, error: '多边形顶点坐标必须是数字' };
+    }
+    if (point.x < bounds.x - epsilon || point.x > bounds.x + bounds.width + epsilon ||
+        point.y < bounds.y - epsilon || point.y > bounds.y + bounds.height + epsilon) {
+      return { isValid: false, error: '多边形顶点与标记范围不一致' };
+    }
+  }
+
+  if (getPolygonArea(points) <= epsilon) {
+    return { isValid: false, error: '多边形面积过小' };
+  }
+
+  return { isValid: true };
+};
+
 export const validateWatermarkMark = (mark: any) => {
   if (!mark) {
     return { isValid: false, error: '水印标记不能为空' };
@@ -483,6 +524,10 @@ export const validateWatermarkMark = (mark: any) => {
   if (typeof mark !== 'object') {
     return { isValid: false, error: '水印标记格式无效' };
   }
+
+  if (!MARK_SHAPES.includes(mark.shape)) {
+    return { isValid: false, error: '不支持的水印标记形状' };
+  }
   
   const { x, y, width, height } = mark;
   
@@ -495,13 +540,86 @@ export const validateWatermarkMark = (mark: any) => {
     return { isValid: false, error: '水印标记尺寸无效' };
   }
   
-  if (x + width > 1 || y + height > 1) {
+  // Small tolerance: path bounds are derived from vertices and may round past the edge
+  if (x + width > 1 + 1e-9 || y + height > 1 + 1e-9) {
     return { isValid: false, error: '水印标记超出图片范围' };
   }
+
+  if (mark.shape === 'polygon' || mark.shape === 'lasso') {
+    return validateMarkPoints(mark.points, { x, y, width, height });
+  }
   
   return { isValid: true };
 };
 
+export const validateWatermarkMarks = (marks: unknown) => {
+  const maxMarks = 20;
+
+  if (!Array.isArray(marks) || marks.length === 0) {
+    return { isValid: false, error: '水印标记不能为空' };
+  }
+
+  if (marks.length > maxMarks) {
+    return { isValid: false, error: `每张图片最多标记 ${maxMarks} 个水印区域` };
+  }
+
+  for (let i = 0; i < marks.length; i++) {
+    const validation = validateWatermarkMark(marks[i]);
+    if (!validation.isValid) {
+      return { isValid: false, error: marks.length > 1 ? `区域 ${i + 1}: ${validation.error}` : validation.error };
+    }
+  }
+
+  return { isValid: true };
+};
+
+export const validatePaintMask = (mask: PaintMask | undefined, dimensions?: { width: number; height: number }) => {
+  if (!mask || typeof mask !== 'object') {
+    return { isValid: false, error: '涂抹蒙版格式无效' };
+  }
+
+  const { width, height, data } = mask;
+  if (!Number.isInteger(width) || !Number.isInteger(height) || width <= 0 || height <= 0) {
+    return { isValid: false, error: '涂抹蒙版尺寸无效' };
+  }
+
+  if (!(data instanceof Uint8Array) || data.length !== width * height) {
+    return { isValid: false, error: '涂抹蒙版数据损坏' };
+  }
+
+  if (dimensions && (dimensions.width !== width || dimensions.height !== height)) {
+    return { isValid: false, error: '涂抹蒙版与图片尺寸不一致' };
+  }
+
+  return { isValid: true };
+};
+
+// Validates everything that contributes to the processing mask: vector regions and the painted raster mask
+export const validateWatermarkSelection = (
+  marks: unknown,
+  paintMask?: PaintMask,
+  dimensions?: { width: number; height: number }
+) => {
+  const hasMarks = Array.isArray(marks) && marks.length > 0;
+  const hasPaint = Boolean(paintMask && paintMask.paintedPixels > 0);
+
+  if (!hasMarks && !hasPaint) {
+    return { isValid: false, error: '请先标记或涂抹水印区域' };
+  }
+
+  if (hasMarks) {
+    const validation = validateWatermarkMarks(marks);
+    if (!validation.isValid) return validation;
+  }
+
+  if (hasPaint) {
+    const validation = validatePaintMask(paintMask, dimensions);
+    if (!validation.isValid) return validation;
+  }
+
+  return { isValid: true };
+};
+
 export const validateApiKey = (key: string) => {
   if (!key || typeof key !== 'string') {
     return false;
@@ -515,6 +633,42 @@ export const validateApiKey = (key: string) => {
   return true;
 };
 
+// Inpainting endpoints: HTTPS anywhere, plain HTTP only for a server on this machine
+export const validateBackendUrl = (value: string) => {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return { isValid: false, error: '服务地址格式无效' };
+  }
+
+  const isLoopback = ['localhost', '127.0.0.1', '[::1]'].includes(url.hostname);
+  if (url.protocol !== 'https:' && !(url.protocol === 'http:' && isLoopback)) {
+    return { isValid: false, error: '服务地址必须使用 HTTPS（本机服务可使用 HTTP）' };
+  }
+
+  if (url.username || url.password) {
+    return { isValid: false, error: '请勿在服务地址中包含账号密码，请使用 API 密钥' };
+  }
+
+  return { isValid: true };
+};
+
+// Model and runtime files: paths on this site (for offline copies) or the same
+// rules as inpainting services
+export const validateModelUrl = (value: string) => {
+  let url: URL;
+  try {
+    url = new URL(value, window.location.href);
+  } catch {
+    return { isValid: false, error: '模型地址格式无效' };
+  }
+  if (url.origin === window.location.origin) {
+    return { isValid: true };
+  }
+  return validateBackendUrl(url.href);
+};
+
 export const sanitizeInput = (input: string) => {
   if (!input || typeof input !== 'string') {
     return '';
@@ -0,0 +1,178 @@
+// Client-side packaging of processed images for batch download. With the File
+// System Access API the ZIP is streamed straight to the chosen file; otherwise it
+// is assembled as a Blob of references to the existing results and saved through
+// a temporary link. Nothing leaves the browser.
+import { ZipChunk, BlobZipSink, ZipSink } from './zipArchive';
+import { memoryManager } from './memoryManager';
+
+export const DEFAULT_DOWNLOAD_NAME_PATTERN = 'watermark_removed_{name}';
+
+export const DOWNLOAD_NAME_TOKENS = [
+  { token: '{name}', description: '原文件名' },
+  { token: '{index}', description: '序号' },
+  { token: '{algorithm}', description: '处理算法' },
+  { token: '{date}', description: '下载日期' }
+] as const;
+
+export interface DownloadNameContext {
+  originalName: string;
+  index: number;
+  total: number;
+  algorithm: string | null;
+  date: Date;
+}
+
+// The download reads the blob URL asynchronously, so it is released a little later
+const DOWNLOAD_URL_LIFETIME_MS = 10000;
+const MAX_FILE_NAME_LENGTH = 150;
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/bmp': 'bmp',
+  'image/avif': 'avif'
+};
+
+export const extensionForType = (type: string) => FILE_EXTENSIONS[type] || 'png';
+
+const stripExtension = (fileName: string) => {
+  const dot = fileName.lastIndexOf('.');
+  return dot > 0 ? fileName.slice(0, dot) : fileName;
+};
+
+const isControlCharacter = (char: string) => {
+  const code = char.charCodeAt(0);
+  return code < 0x20 || code === 0x7f;
+};
+
+// Characters that are invalid in file names on common systems, and path separators
+// so an entry can never land outside the archive root
+const sanitizeFileName = (name: string) => Array.from(name, char => isControlCharacter(char) ? '_' : char).join('')
+  .replace(/[\\/:*?"<>|]/g, '_')
+  .replace(/^[.\s]+|[.\s]+$/g, '')
+  .slice(0, MAX_FILE_NAME_LENGTH);
+
+const formatDate = (date: Date) => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+};
+
+// Expands the pattern tokens; the extension is added by the caller from the result type
+export const formatDownloadName = (pattern: string, context: DownloadNameContext): string => {
+  const values: Record<string, string> = {
+    '{name}': stripExtension(context.originalName),
+    '{index}': String(context.index).padStart(String(context.total).length, '0'),
+    '{algorithm}': context.algorithm || 'unknown',
+    '{date}': formatDate(context.date)
+  };
+  const expanded = pattern.replace(/\{(name|index|algorithm|date)\}/g, token => values[token]);
+  return sanitizeFileName(expanded) || values['{name}'] || `image_${values['{index}']}`;
+};
+
+export const zipFileName = (date: Date) => `watermark_removed_${formatDate(date)}.zip`;
+
+export interface DownloadManifestEntry {
+  file: string;
+  index: number;
+  originalName: string;
+  algorithm: string | null;
+  algorithmLabel: string | null;
+  processCount: number;
+  size: number;
+  type: string;
+  width: number | null;
+  height: number | null;
+}
+
+// Describes each file in the archive (manifest.json)
+export interface DownloadManifest {
+  createdAt: string;
+  namePattern: string;
+  count: number;
+  files: DownloadManifestEntry[];
+}
+
+export const DOWNLOAD_MANIFEST_NAME = 'manifest.json';
+
+export const createDownloadManifest = (files: DownloadManifestEntry[], namePattern: string, date: Date): DownloadManifest => ({
+  createdAt: date.toISOString(),
+  namePattern,
+  count: files.length,
+  files
+});
+
+// Appends " (2)", " (3)"... until the name is unused; comparison ignores case like most file systems
+export const makeUniqueFileName = (baseName: string, extension: string, used: Set<string>): string => {
+  let candidate = `${baseName}.${extension}`;
+  for (let counter = 2; used.has(candidate.toLowerCase()); counter++) {
+    candidate = `${baseName} (${counter}).${extension}`;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+};
+
+export const triggerDownload = (url: string, fileName: string) => {
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+// Saves a generated Blob through a temporary tracked URL
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  memoryManager.trackBlobUrl(url);
+  triggerDownload(url, fileName);
+  window.setTimeout(() => memoryManager.releaseBlobUrl(url), DOWNLOAD_URL_LIFETIME_MS);
+};
+
+export interface DownloadSink extends ZipSink {
+  // True when the archive is written to disk as it is produced
+  readonly isStreaming: boolean;
+  close(): Promise<void>;
+  abort(): Promise<void>;
+}
+
+interface SaveFilePickerOptions {
+  suggestedName?: string;
+  types?: { description: string; accept: Record<string, string[]> }[];
+}
+
+type WindowWithSavePicker = Window & {
+  showSaveFilePicker?: (options?: SaveFilePickerOptions) => Promise<FileSystemFileHandle>;
+};
+
+const createStreamingSink = (writable: FileSystemWritableFileStream): DownloadSink => ({
+  isStreaming: true,
+  write: (chunk: ZipChunk) => writable.write(chunk),
+  close: () => writable.close(),
+  abort: () => writable.abort()
+});
+
+const createBlobSink = (fileName: string): DownloadSink => {
+  const sink = new BlobZipSink();
+  return {
+    isStreaming: false,
+    write: (chunk: ZipChunk) => sink.write(chunk),
+    close: async () => downloadBlob(sink.toBlob('application/zip'), fileName),
+    abort: async () => undefined
+  };
+};
+
+// Must be called directly from the click handler: the save picker needs the user
+// gesture. Rejects with an AbortError when the user dismisses the picker.
+export const openZipDownload = async (fileName: string): Promise<DownloadSink> => {
+  const picker = (window as WindowWithSavePicker).showSaveFilePicker;
+  if (!picker) {
+    return createBlobSink(fileName);
+  }
+  const handle = await picker.call(window, {
+    suggestedName: fileName,
+    types: [{ description: 'ZIP 压缩包', accept: { 'application/zip': ['.zip'] } }]
+  });
+  return createStreamingSink(await handle.createWritable());
+};
@@ -87,6 +87,39 @@ export const validateFileContent = async (file: File): Promise<FileValidationRes
   }
 };
 
+// Project archives (.wmproj) are ZIP containers, which uploads reject as dangerous.
+// Only the container is checked here; every image inside must still pass
+// validateFileContent before it is used.
+const PROJECT_SIGNATURE = [0x50, 0x4B, 0x03, 0x04]; // ZIP local file header
+const PROJECT_EXTENSION = '.wmproj';
+const MAX_PROJECT_SIZE = 512 * 1024 * 1024; // 512MB
+
+export const validateProjectFile = async (file: File): Promise<FileValidationResult> => {
+  try {
+    const securityResult = await performSecurityChecks(file);
+    if (!securityResult.isValid) {
+      return securityResult;
+    }
+
+    if (!file.name.toLowerCase().endsWith(PROJECT_EXTENSION)) {
+      return { isValid: false, error: `只支持 ${PROJECT_EXTENSION} 项目文件。` };
+    }
+
+    if (file.size > MAX_PROJECT_SIZE) {
+      return { isValid: false, error: '项目文件不能超过512MB。' };
+    }
+
+    const headerBytes = await readFileHeader(file, 64);
+    if (!matchesSignature(headerBytes, PROJECT_SIGNATURE)) {
+      return { isValid: false, error: '文件内容不是有效的项目文件，可能是伪造的扩展名或损坏的文件。' };
+    }
+
+    return { isValid: true, securityFlags: securityResult.securityFlags || [] };
+  } catch (error) {
+    return { isValid: false, error: `项目文件验证失败: ${error instanceof Error ? error.message : String(error)}` };
+  }
+};
+
 const performSecurityChecks = async (file: File): Promise<FileValidationResult> => {
   const securityFlags: string[] = [];
   
@@ -291,7 +324,7 @@ export const validateCanvasOperation = (
   const securityFlags: string[] = [];
   
   // Stricter canvas size limits
-  const maxCanvasSize = 16777216; // 4096 * 4096
+  const maxCanvasSize = 100000000; // 100MP, matches validateImageDimensions
   const canvasSize = width * height;
   
   if (canvasSize > maxCanvasSize) {
@@ -0,0 +1,110 @@
+// Encodes processing results for download. Results are kept as lossless PNG while
+// the user works, so repeated passes don't accumulate compression loss; the chosen
+// format, quality and metadata are applied only when a file leaves the app.
+import { ExportFormat, ExportSettings } from '@/components/watermark/types';
+import { memoryManager } from './memoryManager';
+import { extractImageMetadata, injectImageMetadata, supportsMetadataFor } from './imageMetadata';
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  format: 'match-input',
+  quality: 0.92,
+  preserveMetadata: false
+};
+
+export const EXPORT_FORMAT_TYPES: Record<Exclude<ExportFormat, 'match-input'>, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  avif: 'image/avif'
+};
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  'match-input': '与原图一致',
+  png: 'PNG (无损)',
+  jpeg: 'JPEG',
+  webp: 'WebP',
+  avif: 'AVIF'
+};
+
+const LOSSLESS_TYPES = new Set(['image/png']);
+const FALLBACK_TYPE = 'image/png';
+
+const encodeSupport = new Map<string, boolean>();
+
+// Browsers fall back to PNG for types they cannot encode, which toDataURL reveals
+export const canEncodeType = (type: string): boolean => {
+  let supported = encodeSupport.get(type);
+  if (supported === undefined) {
+    const canvas = document.createElement('canvas');
+    canvas.width = canvas.height = 1;
+    supported = canvas.toDataURL(type).startsWith(`data:${type}`);
+    encodeSupport.set(type, supported);
+  }
+  return supported;
+};
+
+export const isLossyType = (type: string) => !LOSSLESS_TYPES.has(type);
+
+export const isExportFormat = (value: unknown): value is ExportFormat =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(EXPORT_FORMAT_LABELS, value);
+
+// The MIME type a download will have; GIF, BMP and anything unsupported become PNG
+export const resolveExportType = (settings: ExportSettings, sourceType: string): string => {
+  const type = settings.format === 'match-input' ? sourceType : EXPORT_FORMAT_TYPES[settings.format];
+  return Object.values(EXPORT_FORMAT_TYPES).includes(type) && canEncodeType(type) ? type : FALLBACK_TYPE;
+};
+
+export const canvasToExportBlob = (canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error('无法生成导出图片'));
+      }
+    }, type, quality);
+  });
+};
+
+const reencode = async (result: Blob, type: string, quality: number): Promise<Blob> => {
+  const bitmap = await createImageBitmap(result);
+  const canvas = document.createElement('canvas');
+  memoryManager.trackCanvas(canvas);
+  try {
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('无法获取Canvas上下文');
+    }
+    // JPEG has no alpha channel; transparent pixels would otherwise turn black
+    if (type === 'image/jpeg') {
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+    }
+    ctx.drawImage(bitmap, 0, 0);
+    return await canvasToExportBlob(canvas, type, quality);
+  } finally {
+    bitmap.close();
+    memoryManager.releaseCanvas(canvas);
+  }
+};
+
+// Converts a processing result to the exported format, copying metadata from the uploaded file if asked
+export const encodeForExport = async (result: Blob, sourceFile: File, settings: ExportSettings): Promise<Blob> => {
+  const type = resolveExportType(settings, sourceFile.type);
+  const encoded = result.type === type && !isLossyType(type)
+    ? result
+    : await reencode(result, type, settings.quality);
+
+  if (!settings.preserveMetadata || !supportsMetadataFor(type)) {
+    return encoded;
+  }
+  try {
+    return await injectImageMetadata(encoded, await extractImageMetadata(sourceFile));
+  } catch (error) {
+    // A damaged source segment must not block the download itself
+    console.warn('[ImageExport] Metadata could not be copied:', error);
+    return encoded;
+  }
+};
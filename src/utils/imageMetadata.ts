@@ -0,0 +1,369 @@
+// Reads EXIF and ICC profiles from JPEG, PNG and WebP files and writes them into
+// re-encoded output. Canvas encoders drop all metadata, so without this an
+// exported image loses its camera data and colour profile.
+// Orientation is the exception: the browser applies it while decoding, so the
+// processed pixels are already upright and the copied tag is reset to 1.
+import { crc32 } from './zipArchive';
+
+export interface ImageMetadata {
+  // TIFF structure without the JPEG "Exif\0\0" prefix
+  exif: Uint8Array | null;
+  // Raw ICC profile
+  icc: Uint8Array | null;
+}
+
+const EMPTY_METADATA: ImageMetadata = { exif: null, icc: null };
+
+const EXIF_PREFIX = [0x45, 0x78, 0x69, 0x66, 0x00, 0x00]; // "Exif\0\0"
+const ICC_PREFIX = [0x49, 0x43, 0x43, 0x5f, 0x50, 0x52, 0x4f, 0x46, 0x49, 0x4c, 0x45, 0x00]; // "ICC_PROFILE\0"
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const ORIENTATION_TAG = 0x0112;
+// A JPEG segment holds at most 65535 bytes including its 2-byte length
+const MAX_JPEG_SEGMENT_PAYLOAD = 65533;
+const ICC_CHUNK_HEADER = ICC_PREFIX.length + 2;
+
+const startsWith = (bytes: Uint8Array, prefix: number[], offset = 0) =>
+  offset + prefix.length <= bytes.length && prefix.every((value, index) => bytes[offset + index] === value);
+
+const fourCC = (bytes: Uint8Array, offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+
+const encodeFourCC = (value: string) => Uint8Array.from(value, char => char.charCodeAt(0));
+
+const concatBytes = (parts: Uint8Array[]) => {
+  const output = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+};
+
+const stripExifPrefix = (data: Uint8Array) => startsWith(data, EXIF_PREFIX) ? data.slice(EXIF_PREFIX.length) : data.slice();
+
+// zlib streams (PNG iCCP); both directions need CompressionStream support
+const runZlib = async (data: Uint8Array, stream: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([data]).stream().pipeThrough(stream)).arrayBuffer());
+
+const canUseZlib = () => typeof CompressionStream !== 'undefined' && typeof DecompressionStream !== 'undefined';
+
+// Sets the IFD0 orientation tag to "top-left"; a malformed structure is left untouched
+const normalizeOrientation = (tiff: Uint8Array): Uint8Array => {
+  if (tiff.length < 8) return tiff;
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const littleEndian = tiff[0] === 0x49 && tiff[1] === 0x49;
+  if (!littleEndian && !(tiff[0] === 0x4d && tiff[1] === 0x4d)) return tiff;
+  if (view.getUint16(2, littleEndian) !== 42) return tiff;
+  const ifdOffset = view.getUint32(4, littleEndian);
+  if (ifdOffset + 2 > tiff.length) return tiff;
+  const count = view.getUint16(ifdOffset, littleEndian);
+  for (let i = 0; i < count; i++) {
+    const entry = ifdOffset + 2 + i * 12;
+    if (entry + 12 > tiff.length) break;
+    // Type 3 = SHORT, stored inline in the value field
+    if (view.getUint16(entry, littleEndian) === ORIENTATION_TAG && view.getUint16(entry + 2, littleEndian) === 3) {
+      view.setUint16(entry + 8, 1, littleEndian);
+      break;
+    }
+  }
+  return tiff;
+};
+
+// --- JPEG ---
+
+interface JpegSegment {
+  marker: number;
+  start: number;
+  end: number;
+  payloadStart: number;
+}
+
+// Segments up to (not including) the start of scan, whose offset is returned as `scanStart`
+const readJpegSegments = (bytes: Uint8Array) => {
+  const segments: JpegSegment[] = [];
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === 0xda || marker === 0xd9) break;
+    const end = offset + 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+    if (end > bytes.length) break;
+    segments.push({ marker, start: offset, end, payloadStart: offset + 4 });
+    offset = end;
+  }
+  return { segments, scanStart: offset };
+};
+
+const isExifSegment = (bytes: Uint8Array, segment: JpegSegment) =>
+  segment.marker === 0xe1 && startsWith(bytes, EXIF_PREFIX, segment.payloadStart);
+
+const isIccSegment = (bytes: Uint8Array, segment: JpegSegment) =>
+  segment.marker === 0xe2 && startsWith(bytes, ICC_PREFIX, segment.payloadStart);
+
+const extractJpegMetadata = (bytes: Uint8Array): ImageMetadata => {
+  const { segments } = readJpegSegments(bytes);
+  let exif: Uint8Array | null = null;
+  const iccChunks: { sequence: number; data: Uint8Array }[] = [];
+  for (const segment of segments) {
+    if (!exif && isExifSegment(bytes, segment)) {
+      exif = bytes.slice(segment.payloadStart + EXIF_PREFIX.length, segment.end);
+    } else if (isIccSegment(bytes, segment)) {
+      iccChunks.push({
+        sequence: bytes[segment.payloadStart + ICC_PREFIX.length],
+        data: bytes.subarray(segment.payloadStart + ICC_CHUNK_HEADER, segment.end)
+      });
+    }
+  }
+  const icc = iccChunks.length > 0
+    ? concatBytes(iccChunks.sort((a, b) => a.sequence - b.sequence).map(chunk => chunk.data))
+    : null;
+  return { exif, icc };
+};
+
+const jpegSegment = (marker: number, payload: Uint8Array) => {
+  const segment = new Uint8Array(payload.length + 4);
+  segment[0] = 0xff;
+  segment[1] = marker;
+  segment[2] = (payload.length + 2) >> 8;
+  segment[3] = (payload.length + 2) & 0xff;
+  segment.set(payload, 4);
+  return segment;
+};
+
+const injectJpegMetadata = (bytes: Uint8Array, metadata: ImageMetadata): Uint8Array => {
+  const { segments, scanStart } = readJpegSegments(bytes);
+  const inserted: Uint8Array[] = [];
+  if (metadata.exif && metadata.exif.length + EXIF_PREFIX.length <= MAX_JPEG_SEGMENT_PAYLOAD) {
+    inserted.push(jpegSegment(0xe1, concatBytes([Uint8Array.from(EXIF_PREFIX), metadata.exif])));
+  }
+  if (metadata.icc) {
+    const chunkSize = MAX_JPEG_SEGMENT_PAYLOAD - ICC_CHUNK_HEADER;
+    const count = Math.ceil(metadata.icc.length / chunkSize);
+    // The chunk counter is a single byte
+    if (count <= 255) {
+      for (let i = 0; i < count; i++) {
+        const header = Uint8Array.from([...ICC_PREFIX, i + 1, count]);
+        inserted.push(jpegSegment(0xe2, concatBytes([header, metadata.icc.subarray(i * chunkSize, (i + 1) * chunkSize)])));
+      }
+    }
+  }
+
+  // JFIF (APP0) must stay first; the new segments replace any the encoder wrote
+  const parts: Uint8Array[] = [bytes.subarray(0, 2)];
+  const leading = segments.filter(segment => segment.marker === 0xe0);
+  const rest = segments.filter(segment =>
+    segment.marker !== 0xe0 &&
+    !(metadata.exif && isExifSegment(bytes, segment)) &&
+    !(metadata.icc && isIccSegment(bytes, segment)));
+  leading.forEach(segment => parts.push(bytes.subarray(segment.start, segment.end)));
+  parts.push(...inserted);
+  rest.forEach(segment => parts.push(bytes.subarray(segment.start, segment.end)));
+  parts.push(bytes.subarray(scanStart));
+  return concatBytes(parts);
+};
+
+// --- PNG ---
+
+interface PngChunk {
+  type: string;
+  start: number;
+  end: number;
+  dataStart: number;
+  dataEnd: number;
+}
+
+const readPngChunks = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: PngChunk[] = [];
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const end = offset + 12 + length;
+    if (end > bytes.length) break;
+    chunks.push({ type: fourCC(bytes, offset + 4), start: offset, end, dataStart: offset + 8, dataEnd: offset + 8 + length });
+    offset = end;
+  }
+  return chunks;
+};
+
+const pngChunk = (type: string, data: Uint8Array) => {
+  const chunk = new Uint8Array(data.length + 12);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(encodeFourCC(type), 4);
+  chunk.set(data, 8);
+  view.setUint32(data.length + 8, crc32(chunk.subarray(4, data.length + 8)));
+  return chunk;
+};
+
+const extractPngMetadata = async (bytes: Uint8Array): Promise<ImageMetadata> => {
+  let exif: Uint8Array | null = null;
+  let icc: Uint8Array | null = null;
+  for (const chunk of readPngChunks(bytes)) {
+    if (chunk.type === 'eXIf') {
+      exif = stripExifPrefix(bytes.subarray(chunk.dataStart, chunk.dataEnd));
+    } else if (chunk.type === 'iCCP' && canUseZlib()) {
+      // Profile name, NUL, compression method (0 = zlib), compressed profile
+      const nameEnd = bytes.indexOf(0, chunk.dataStart);
+      if (nameEnd > 0 && nameEnd + 2 <= chunk.dataEnd && bytes[nameEnd + 1] === 0) {
+        try {
+          icc = await runZlib(bytes.subarray(nameEnd + 2, chunk.dataEnd), new DecompressionStream('deflate'));
+        } catch (error) {
+          console.warn('[ImageMetadata] Unreadable PNG colour profile:', error);
+        }
+      }
+    }
+  }
+  return { exif, icc };
+};
+
+const injectPngMetadata = async (bytes: Uint8Array, metadata: ImageMetadata): Promise<Uint8Array> => {
+  const chunks = readPngChunks(bytes);
+  if (chunks[0]?.type !== 'IHDR') return bytes;
+
+  const inserted: Uint8Array[] = [];
+  if (metadata.icc && canUseZlib()) {
+    const compressed = await runZlib(metadata.icc, new CompressionStream('deflate'));
+    inserted.push(pngChunk('iCCP', concatBytes([encodeFourCC('ICC'), Uint8Array.from([0, 0]), compressed])));
+  }
+  if (metadata.exif) {
+    inserted.push(pngChunk('eXIf', metadata.exif));
+  }
+
+  // An embedded profile replaces the encoder's sRGB/gamma hints
+  const replaced = new Set(inserted.length > 0 ? ['eXIf'] : []);
+  if (metadata.icc && canUseZlib()) ['iCCP', 'sRGB', 'gAMA', 'cHRM'].forEach(type => replaced.add(type));
+
+  const parts: Uint8Array[] = [bytes.subarray(0, chunks[0].end), ...inserted];
+  chunks.slice(1).filter(chunk => !replaced.has(chunk.type)).forEach(chunk => parts.push(bytes.subarray(chunk.start, chunk.end)));
+  return concatBytes(parts);
+};
+
+// --- WebP ---
+
+interface RiffChunk {
+  type: string;
+  data: Uint8Array;
+}
+
+const readWebpChunks = (bytes: Uint8Array): RiffChunk[] | null => {
+  if (fourCC(bytes, 0) !== 'RIFF' || fourCC(bytes, 8) !== 'WEBP') return null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: RiffChunk[] = [];
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const size = view.getUint32(offset + 4, true);
+    if (offset + 8 + size > bytes.length) break;
+    chunks.push({ type: fourCC(bytes, offset), data: bytes.subarray(offset + 8, offset + 8 + size) });
+    offset += 8 + size + (size % 2);
+  }
+  return chunks;
+};
+
+const riffChunk = ({ type, data }: RiffChunk) => {
+  const chunk = new Uint8Array(8 + data.length + (data.length % 2));
+  chunk.set(encodeFourCC(type), 0);
+  new DataView(chunk.buffer).setUint32(4, data.length, true);
+  chunk.set(data, 8);
+  return chunk;
+};
+
+const extractWebpMetadata = (bytes: Uint8Array): ImageMetadata => {
+  const chunks = readWebpChunks(bytes) || [];
+  const exif = chunks.find(chunk => chunk.type === 'EXIF');
+  const icc = chunks.find(chunk => chunk.type === 'ICCP');
+  return { exif: exif ? stripExifPrefix(exif.data) : null, icc: icc ? icc.data.slice() : null };
+};
+
+// Canvas dimensions and alpha use, read from a simple (non-extended) WebP bitstream
+const readWebpFrameInfo = (chunk: RiffChunk) => {
+  const { data } = chunk;
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  if (chunk.type === 'VP8L' && data.length >= 5 && data[0] === 0x2f) {
+    const bits = view.getUint32(1, true);
+    return { width: (bits & 0x3fff) + 1, height: ((bits >>> 14) & 0x3fff) + 1, hasAlpha: ((bits >>> 28) & 1) === 1 };
+  }
+  if (chunk.type === 'VP8 ' && data.length >= 10 && data[3] === 0x9d && data[4] === 0x01 && data[5] === 0x2a) {
+    return { width: view.getUint16(6, true) & 0x3fff, height: view.getUint16(8, true) & 0x3fff, hasAlpha: false };
+  }
+  return null;
+};
+
+const injectWebpMetadata = (bytes: Uint8Array, metadata: ImageMetadata): Uint8Array => {
+  const chunks = readWebpChunks(bytes);
+  if (!chunks || chunks.length === 0) return bytes;
+
+  // Metadata needs the extended format, which starts with a VP8X header chunk
+  let header: Uint8Array;
+  let body: RiffChunk[];
+  if (chunks[0].type === 'VP8X' && chunks[0].data.length >= 10) {
+    header = chunks[0].data.slice();
+    body = chunks.slice(1).filter(chunk => !(metadata.exif && chunk.type === 'EXIF') && !(metadata.icc && chunk.type === 'ICCP'));
+  } else {
+    const info = readWebpFrameInfo(chunks[0]);
+    if (!info) return bytes;
+    header = new Uint8Array(10);
+    if (info.hasAlpha) header[0] |= 0x10;
+    header.set([(info.width - 1) & 0xff, ((info.width - 1) >> 8) & 0xff, ((info.width - 1) >> 16) & 0xff], 4);
+    header.set([(info.height - 1) & 0xff, ((info.height - 1) >> 8) & 0xff, ((info.height - 1) >> 16) & 0xff], 7);
+    body = chunks;
+  }
+  if (metadata.icc) header[0] |= 0x20;
+  if (metadata.exif) header[0] |= 0x08;
+
+  // Order required by the container: VP8X, ICCP, image data, EXIF
+  const ordered: RiffChunk[] = [
+    { type: 'VP8X', data: header },
+    ...(metadata.icc ? [{ type: 'ICCP', data: metadata.icc }] : []),
+    ...body,
+    ...(metadata.exif ? [{ type: 'EXIF', data: metadata.exif }] : [])
+  ];
+  const payload = concatBytes([encodeFourCC('WEBP'), ...ordered.map(riffChunk)]);
+  const riffHeader = new Uint8Array(8);
+  riffHeader.set(encodeFourCC('RIFF'), 0);
+  new DataView(riffHeader.buffer).setUint32(4, payload.length, true);
+  return concatBytes([riffHeader, payload]);
+};
+
+// --- Public API ---
+
+export const extractImageMetadata = async (file: Blob): Promise<ImageMetadata> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let metadata = EMPTY_METADATA;
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    metadata = extractJpegMetadata(bytes);
+  } else if (startsWith(bytes, PNG_SIGNATURE)) {
+    metadata = await extractPngMetadata(bytes);
+  } else if (fourCC(bytes, 0) === 'RIFF') {
+    metadata = extractWebpMetadata(bytes);
+  }
+  return { exif: metadata.exif && normalizeOrientation(metadata.exif), icc: metadata.icc };
+};
+
+export const hasImageMetadata = (metadata: ImageMetadata) => !!(metadata.exif || metadata.icc);
+
+// Formats without a writer here (e.g. AVIF) are returned unchanged
+export const injectImageMetadata = async (image: Blob, metadata: ImageMetadata): Promise<Blob> => {
+  if (!hasImageMetadata(metadata)) return image;
+  const bytes = new Uint8Array(await image.arrayBuffer());
+  let output: Uint8Array;
+  switch (image.type) {
+    case 'image/jpeg':
+      output = injectJpegMetadata(bytes, metadata);
+      break;
+    case 'image/png':
+      output = await injectPngMetadata(bytes, metadata);
+      break;
+    case 'image/webp':
+      output = injectWebpMetadata(bytes, metadata);
+      break;
+    default:
+      return image;
+  }
+  return new Blob([output], { type: image.type });
+};
+
+export const supportsMetadataFor = (type: string) => ['image/jpeg', 'image/png', 'image/webp'].includes(type);
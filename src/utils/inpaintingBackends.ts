@@ -0,0 +1,386 @@
+// Adapters for the inpainting services the AI fill can use. Each backend turns
+// an image, a mask and a prompt into an HTTP request and reads the filled image
+// back from the response; secureApiClient does the session, rate-limit, timeout
+// and cancellation handling around them.
+import { AppliedSDParams, SDInpaintingParams } from '@/components/watermark/types';
+import { validateApiKey } from './apiSecurity';
+
+export type InpaintingBackendId = 'stability' | 'automatic1111' | 'generic';
+
+export interface InpaintingBackendConfig {
+  backend: InpaintingBackendId;
+  // Empty means the backend's default
+  baseUrl: string;
+}
+
+// Fields of SDInpaintingParams a service understands; the rest are not sent
+export type SDParamField = Exclude<keyof SDInpaintingParams, 'samples'>;
+
+export interface InpaintingCapabilities {
+  requiresApiKey: boolean;
+  supportedParams: SDParamField[];
+  maxSamples: number;
+  // False when the service has no endpoint to check the connection with
+  supportsValidation: boolean;
+  defaultBaseUrl: string;
+}
+
+export interface InpaintingInput {
+  // Resized to the backend's input size, see getInputSize
+  image: Blob;
+  // Grayscale PNG, white where pixels are to be replaced
+  mask: Blob;
+  width: number;
+  height: number;
+  params: SDInpaintingParams;
+}
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+export interface InpaintingOutput {
+  image: Blob;
+  // Seed reported by the service, null when it doesn't say
+  seed: number | null;
+}
+
+export interface BackendRequest {
+  url: string;
+  init: RequestInit;
+}
+
+export interface InpaintingRequest extends BackendRequest {
+  // The parameters as the service will apply them, after its own limits
+  params: AppliedSDParams;
+}
+
+export interface InpaintingBackend {
+  id: InpaintingBackendId;
+  label: string;
+  description: string;
+  capabilities: InpaintingCapabilities;
+  // Size the image and mask are resized to before sending; the result is
+  // scaled back to the original size and composited inside the mask
+  getInputSize: (width: number, height: number) => ImageSize;
+  isValidApiKey: (key: string) => boolean;
+  buildRequest: (input: InpaintingInput, baseUrl: string, apiKey: string) => Promise<InpaintingRequest>;
+  // One entry per sample, in the order the service returned them
+  parseResponse: (response: Response) => Promise<InpaintingOutput[]>;
+  buildValidationRequest?: (baseUrl: string, apiKey: string) => BackendRequest;
+}
+
+export const DEFAULT_INPAINTING_PROMPT = 'remove watermark, natural background';
+
+export const DEFAULT_SD_PARAMS: SDInpaintingParams = {
+  prompt: DEFAULT_INPAINTING_PROMPT,
+  negativePrompt: 'watermark, text, logo',
+  steps: 30,
+  cfgScale: 7,
+  strength: 0.75,
+  seed: -1,
+  samples: 1
+};
+
+export const SD_PARAM_LIMITS = {
+  maxPromptLength: 1000,
+  steps: { min: 10, max: 150 },
+  cfgScale: { min: 1, max: 30 },
+  strength: { min: 0, max: 1 },
+  // Largest seed the services accept (unsigned 32-bit)
+  maxSeed: 4294967295,
+  samples: { min: 1, max: 4 }
+};
+
+export const DEFAULT_BACKEND_CONFIG: InpaintingBackendConfig = { backend: 'stability', baseUrl: '' };
+
+const STABILITY_MODEL = 'stable-diffusion-xl-1024-v1-0';
+// Narrower than SD_PARAM_LIMITS; values outside are clamped before sending
+const STABILITY_LIMITS = { steps: { min: 10, max: 50 }, cfgScale: { min: 0, max: 35 } };
+// The only dimensions the SDXL 1024 endpoint accepts
+const SDXL_DIMENSIONS: ImageSize[] = [
+  { width: 1024, height: 1024 },
+  { width: 1152, height: 896 },
+  { width: 896, height: 1152 },
+  { width: 1216, height: 832 },
+  { width: 832, height: 1216 },
+  { width: 1344, height: 768 },
+  { width: 768, height: 1344 },
+  { width: 1536, height: 640 },
+  { width: 640, height: 1536 }
+];
+// Self-hosted models work at about a megapixel; dimensions stay multiples of
+// the 8px latent cell
+const SELF_HOSTED_PIXEL_BUDGET = 1024 * 1024;
+const LATENT_CELL = 8;
+const MAX_API_KEY_LENGTH = 200;
+
+const authHeaders = (apiKey: string): Record<string, string> => apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {};
+
+const joinUrl = (baseUrl: string, path: string) => `${baseUrl.replace(/\/+$/, '')}${path}`;
+
+const blobToBase64 = async (blob: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  // Chunked so large images don't overflow the argument limit of fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+export const base64ToBlob = (base64: string, mimeType: string): Blob => {
+  const binary = atob(base64.replace(/^data:[^,]*,/, ''));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const isNumberInRange = (value: unknown, min: number, max: number): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+
+// Parameters read back from storage or a project file, checked field by field;
+// null when they don't describe a usable request. Strength may be missing from
+// the parameters of a result, see AppliedSDParams.
+export const sanitizeAppliedSDParams = (value: unknown): AppliedSDParams | null => {
+  if (!value || typeof value !== 'object') return null;
+  const { prompt, negativePrompt, steps, cfgScale, strength, seed, samples } = value as Partial<Record<keyof SDInpaintingParams, unknown>>;
+  const { maxPromptLength } = SD_PARAM_LIMITS;
+  if (typeof prompt !== 'string' || prompt.length > maxPromptLength) return null;
+  if (typeof negativePrompt !== 'string' || negativePrompt.length > maxPromptLength) return null;
+  if (!isNumberInRange(steps, SD_PARAM_LIMITS.steps.min, SD_PARAM_LIMITS.steps.max) || !Number.isInteger(steps)) return null;
+  if (!isNumberInRange(cfgScale, SD_PARAM_LIMITS.cfgScale.min, SD_PARAM_LIMITS.cfgScale.max)) return null;
+  if (strength !== undefined && !isNumberInRange(strength, SD_PARAM_LIMITS.strength.min, SD_PARAM_LIMITS.strength.max)) return null;
+  if (!isNumberInRange(seed, -1, SD_PARAM_LIMITS.maxSeed) || !Number.isInteger(seed)) return null;
+  if (!isNumberInRange(samples, SD_PARAM_LIMITS.samples.min, SD_PARAM_LIMITS.samples.max) || !Number.isInteger(samples)) return null;
+  const params = { prompt, negativePrompt, steps, cfgScale, seed, samples };
+  return typeof strength === 'number' ? { ...params, strength } : params;
+};
+
+export const sanitizeSDParams = (value: unknown): SDInpaintingParams | null => {
+  const params = sanitizeAppliedSDParams(value);
+  return params && params.strength !== undefined ? { ...params, strength: params.strength } : null;
+};
+
+// The allowed size closest to the image's aspect ratio; the stretch is undone
+// when the result is scaled back
+const closestDimensions = (width: number, height: number, sizes: ImageSize[]): ImageSize => {
+  const ratio = Math.log(width / height);
+  return sizes.reduce((best, size) =>
+    Math.abs(Math.log(size.width / size.height) - ratio) < Math.abs(Math.log(best.width / best.height) - ratio) ? size : best);
+};
+
+// Scaled down to the pixel budget (never up) and rounded to whole latent cells
+const fitToPixelBudget = (width: number, height: number, budget: number): ImageSize => {
+  const scale = Math.min(1, Math.sqrt(budget / (width * height)));
+  const round = (value: number) => Math.max(LATENT_CELL, Math.round(value * scale / LATENT_CELL) * LATENT_CELL);
+  return { width: round(width), height: round(height) };
+};
+
+const ensureOk = (response: Response) => {
+  if (!response.ok) {
+    throw new Error(`API request failed: ${response.status}`);
+  }
+};
+
+// Bearer tokens of self-hosted servers have no fixed format; only printable ASCII is accepted
+const isPlainToken = (key: string) => key.length <= MAX_API_KEY_LENGTH && /^[\x21-\x7e]*$/.test(key);
+
+const stabilityBackend: InpaintingBackend = {
+  id: 'stability',
+  label: 'Stability AI',
+  description: 'Stability AI 云端 SDXL 遮罩修复接口，需要 API 密钥',
+  capabilities: {
+    requiresApiKey: true,
+    // The masking endpoint keeps the unmasked pixels itself and has no strength
+    supportedParams: ['prompt', 'negativePrompt', 'steps', 'cfgScale', 'seed'],
+    maxSamples: 4,
+    supportsValidation: true,
+    defaultBaseUrl: 'https://api.stability.ai'
+  },
+  getInputSize: (width, height) => closestDimensions(width, height, SDXL_DIMENSIONS),
+  isValidApiKey: key => validateApiKey(key) && isPlainToken(key),
+  buildRequest: async ({ image, mask, params: requested }, baseUrl, apiKey) => {
+    // Strength is not part of this request, so it is not recorded either
+    const params: AppliedSDParams = {
+      prompt: requested.prompt,
+      negativePrompt: requested.negativePrompt,
+      steps: clamp(requested.steps, STABILITY_LIMITS.steps.min, STABILITY_LIMITS.steps.max),
+      cfgScale: clamp(requested.cfgScale, STABILITY_LIMITS.cfgScale.min, STABILITY_LIMITS.cfgScale.max),
+      seed: requested.seed,
+      samples: requested.samples
+    };
+    const formData = new FormData();
+    formData.append('init_image', image);
+    formData.append('mask_image', mask);
+    formData.append('mask_source', 'MASK_IMAGE_WHITE');
+    formData.append('text_prompts[0][text]', params.prompt);
+    formData.append('text_prompts[0][weight]', '1');
+    if (params.negativePrompt) {
+      formData.append('text_prompts[1][text]', params.negativePrompt);
+      formData.append('text_prompts[1][weight]', '-1');
+    }
+    formData.append('samples', String(params.samples));
+    formData.append('steps', String(params.steps));
+    formData.append('cfg_scale', String(params.cfgScale));
+    // 0 asks the service for a random seed
+    formData.append('seed', String(Math.max(0, params.seed)));
+    return {
+      url: joinUrl(baseUrl, `/v1/generation/${STABILITY_MODEL}/image-to-image/masking`),
+      init: {
+        method: 'POST',
+        headers: { ...authHeaders(apiKey), 'Accept': 'application/json' },
+        body: formData
+      },
+      params
+    };
+  },
+  parseResponse: async response => {
+    ensureOk(response);
+    const result: { artifacts?: Array<{ base64?: string; seed?: number; finishReason?: string }> } = await response.json();
+    const artifacts = (result.artifacts || []).filter(artifact => artifact.base64 && artifact.finishReason !== 'ERROR');
+    if (artifacts.length === 0) {
+      throw new Error('API返回无效数据');
+    }
+    return artifacts.map(artifact => ({
+      image: base64ToBlob(artifact.base64 as string, 'image/png'),
+      seed: typeof artifact.seed === 'number' ? artifact.seed : null
+    }));
+  },
+  buildValidationRequest: (baseUrl, apiKey) => ({
+    url: joinUrl(baseUrl, '/v1/user/account'),
+    init: { method: 'GET', headers: { ...authHeaders(apiKey), 'Accept': 'application/json' } }
+  })
+};
+
+// The sdapi of AUTOMATIC1111, also served by Forge and SD.Next, and by ComfyUI
+// through its A1111-compatible API nodes. Start the server with --api and allow
+// this page's origin via --cors-allow-origins.
+const automatic1111Backend: InpaintingBackend = {
+  id: 'automatic1111',
+  label: 'AUTOMATIC1111 本地服务',
+  description: '自建的 AUTOMATIC1111 兼容服务 (sdapi/v1/img2img)，图片只发送到你自己的服务器（仅本机地址可用 HTTP，内网地址需 HTTPS）',
+  capabilities: {
+    requiresApiKey: false,
+    supportedParams: ['prompt', 'negativePrompt', 'steps', 'cfgScale', 'strength', 'seed'],
+    maxSamples: 4,
+    supportsValidation: true,
+    defaultBaseUrl: 'http://127.0.0.1:7860'
+  },
+  getInputSize: (width, height) => fitToPixelBudget(width, height, SELF_HOSTED_PIXEL_BUDGET),
+  isValidApiKey: isPlainToken,
+  buildRequest: async ({ image, mask, width, height, params }, baseUrl, apiKey) => ({
+    url: joinUrl(baseUrl, '/sdapi/v1/img2img'),
+    init: {
+      method: 'POST',
+      headers: { ...authHeaders(apiKey), 'Content-Type': 'application/json', 'Accept': 'application/json' },
+      body: JSON.stringify({
+        init_images: [await blobToBase64(image)],
+        mask: await blobToBase64(mask),
+        prompt: params.prompt,
+        negative_prompt: params.negativePrompt,
+        width,
+        height,
+        steps: params.steps,
+        cfg_scale: params.cfgScale,
+        denoising_strength: params.strength,
+        // -1 picks a random seed; the ones used are listed in the response info
+        seed: params.seed,
+        // 1 = start from the original pixels under the mask
+        inpainting_fill: 1,
+        inpaint_full_res: false,
+        mask_blur: 4,
+        batch_size: params.samples
+      })
+    },
+    params
+  }),
+  parseResponse: async response => {
+    ensureOk(response);
+    const result: { images?: string[]; info?: string } = await response.json();
+    if (!result.images?.[0]) {
+      throw new Error('API返回无效数据');
+    }
+    // `info` is a JSON string; a server that leaves it out still gives usable images
+    let seeds: unknown[] = [];
+    try {
+      const info = JSON.parse(result.info || '{}');
+      seeds = Array.isArray(info.all_seeds) ? info.all_seeds : [info.seed];
+    } catch {
+      seeds = [];
+    }
+    return result.images.map((image, index) => ({
+      image: base64ToBlob(image, 'image/png'),
+      seed: typeof seeds[index] === 'number' ? seeds[index] as number : null
+    }));
+  },
+  buildValidationRequest: (baseUrl, apiKey) => ({
+    url: joinUrl(baseUrl, '/sdapi/v1/options'),
+    init: { method: 'GET', headers: { ...authHeaders(apiKey), 'Accept': 'application/json' } }
+  })
+};
+
+// Any service that takes multipart image + mask (+ prompt and the optional
+// parameter fields) and answers with the image bytes; it may report the seed
+// it used in an X-Seed header
+const genericBackend: InpaintingBackend = {
+  id: 'generic',
+  label: '通用 HTTP 接口',
+  description: 'POST multipart 表单 (image、mask、prompt 及参数字段)，响应体直接返回 PNG 等图片',
+  capabilities: {
+    requiresApiKey: false,
+    supportedParams: ['prompt', 'negativePrompt', 'steps', 'cfgScale', 'strength', 'seed'],
+    // The response body holds a single image
+    maxSamples: 1,
+    supportsValidation: false,
+    defaultBaseUrl: 'http://127.0.0.1:8787/inpaint'
+  },
+  getInputSize: (width, height) => fitToPixelBudget(width, height, SELF_HOSTED_PIXEL_BUDGET),
+  isValidApiKey: isPlainToken,
+  buildRequest: async ({ image, mask, params }, baseUrl, apiKey) => {
+    const formData = new FormData();
+    formData.append('image', image);
+    formData.append('mask', mask);
+    formData.append('prompt', params.prompt);
+    formData.append('negative_prompt', params.negativePrompt);
+    formData.append('steps', String(params.steps));
+    formData.append('cfg_scale', String(params.cfgScale));
+    formData.append('strength', String(params.strength));
+    formData.append('seed', String(params.seed));
+    return {
+      url: baseUrl,
+      init: {
+        method: 'POST',
+        headers: { ...authHeaders(apiKey), 'Accept': 'image/*' },
+        body: formData
+      },
+      params
+    };
+  },
+  parseResponse: async response => {
+    ensureOk(response);
+    const type = response.headers.get('Content-Type')?.split(';')[0].trim() || '';
+    if (!type.startsWith('image/')) {
+      throw new Error('API返回无效数据');
+    }
+    const seed = Number.parseInt(response.headers.get('X-Seed') || '', 10);
+    return [{ image: new Blob([await response.arrayBuffer()], { type }), seed: Number.isFinite(seed) ? seed : null }];
+  }
+};
+
+export const INPAINTING_BACKENDS: Record<InpaintingBackendId, InpaintingBackend> = {
+  stability: stabilityBackend,
+  automatic1111: automatic1111Backend,
+  generic: genericBackend
+};
+
+export const isInpaintingBackendId = (value: unknown): value is InpaintingBackendId =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(INPAINTING_BACKENDS, value);
+
+export const resolveBaseUrl = (config: InpaintingBackendConfig) =>
+  config.baseUrl || INPAINTING_BACKENDS[config.backend].capabilities.defaultBaseUrl;
@@ -12,6 +12,13 @@ interface ResourceLimits {
   maxFileSize: number;
   maxConcurrentOperations: number;
   memoryThreshold: number;
+  maxHistoryMemory: number;
+}
+
+interface HistoryBlob {
+  bytes: number;
+  // Returns false when the owner still needs the blob (e.g. it is on screen)
+  evict: () => boolean;
 }
 
 class EnhancedMemoryManager {
@@ -22,13 +29,17 @@ class EnhancedMemoryManager {
   private cleanupHandlers: (() => void)[] = [];
   private trackedBlobUrls: Set<string> = new Set();
   private trackedCanvases: Set<HTMLCanvasElement> = new Set();
+  // Undo/redo results in insertion order, so the oldest are evicted first
+  private historyBlobs: Map<string, HistoryBlob> = new Map();
+  private historyBytes = 0;
   
   private constructor() {
     this.resourceLimits = {
-      maxCanvasSize: 16777216, // 4096 * 4096
+      maxCanvasSize: 100000000, // 100MP, matches validateImageDimensions
       maxFileSize: 25 * 1024 * 1024, // 25MB
       maxConcurrentOperations: 3,
-      memoryThreshold: 0.8 // 80%
+      memoryThreshold: 0.8, // 80%
+      maxHistoryMemory: 256 * 1024 * 1024 // 256MB
     };
     
     this.startMemoryMonitoring();
@@ -134,6 +145,37 @@ class EnhancedMemoryManager {
     }
   }
   
+  retainHistoryBlob(url: string, bytes: number, evict: () => boolean): void {
+    this.trackBlobUrl(url);
+    if (!this.historyBlobs.has(url)) {
+      this.historyBlobs.set(url, { bytes, evict });
+      this.historyBytes += bytes;
+    }
+    this.enforceHistoryBudget(url);
+  }
+  
+  releaseHistoryBlob(url: string): void {
+    const blob = this.historyBlobs.get(url);
+    if (blob) {
+      this.historyBlobs.delete(url);
+      this.historyBytes -= blob.bytes;
+    }
+    this.releaseBlobUrl(url);
+  }
+  
+  getHistoryMemoryUsage(): { used: number; limit: number; count: number } {
+    return { used: this.historyBytes, limit: this.resourceLimits.maxHistoryMemory, count: this.historyBlobs.size };
+  }
+  
+  private enforceHistoryBudget(keepUrl: string): void {
+    for (const [url, blob] of this.historyBlobs) {
+      if (this.historyBytes <= this.resourceLimits.maxHistoryMemory) break;
+      if (url !== keepUrl && blob.evict()) {
+        this.releaseHistoryBlob(url);
+      }
+    }
+  }
+  
   trackCanvas(canvas: HTMLCanvasElement): void {
     this.trackedCanvases.add(canvas);
     console.log('[Memory] Tracking canvas:', canvas.width, 'x', canvas.height);
@@ -161,6 +203,8 @@ class EnhancedMemoryManager {
       URL.revokeObjectURL(url);
     });
     this.trackedBlobUrls.clear();
+    this.historyBlobs.clear();
+    this.historyBytes = 0;
     
     // Release all tracked canvases
     this.trackedCanvases.forEach(canvas => {
@@ -274,6 +318,8 @@ class EnhancedMemoryManager {
       URL.revokeObjectURL(url);
     });
     this.trackedBlobUrls.clear();
+    this.historyBlobs.clear();
+    this.historyBytes = 0;
     console.info('[Memory] Cleaned up blob URLs');
   }
   
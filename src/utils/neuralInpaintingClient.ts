@@ -0,0 +1,194 @@
+// Runs the neural inpainting model in a worker of its own. Unlike the processing
+// pool there is only one: the model session takes hundreds of megabytes and stays
+// loaded between images, so images queue behind each other.
+import { validateModelUrl } from './apiSecurity';
+import { secureSession } from './secureSession';
+import { createAbortError } from './workerPool';
+import {
+  NEURAL_CACHE_NAME,
+  NeuralModelConfig,
+  NeuralStatus,
+  NeuralWorkerRequest,
+  NeuralWorkerResponse
+} from '@/components/watermark/neuralInpainting';
+import { PixelBuffer } from '@/components/watermark/pixelAlgorithms';
+
+const CONFIG_KEY = 'neuralModel';
+
+export const DEFAULT_NEURAL_MODEL_CONFIG: NeuralModelConfig = {
+  modelUrl: 'https://huggingface.co/Carve/LaMa-ONNX/resolve/main/lama_fp32.onnx'
+};
+
+export interface NeuralTaskOptions {
+  onStatus?: (status: NeuralStatus) => void;
+  signal?: AbortSignal;
+}
+
+interface NeuralTask {
+  request: NeuralWorkerRequest;
+  options: NeuralTaskOptions;
+  resolve: (output: PixelBuffer) => void;
+  reject: (error: Error) => void;
+  detachAbort?: () => void;
+}
+
+const isValidConfigUrl = (value: unknown): value is string =>
+  typeof value === 'string' && validateModelUrl(value).isValid;
+
+// Relative paths are resolved here; inside the worker they would resolve against the worker script
+const toAbsoluteUrl = (value: string) => new URL(value, window.location.href).href;
+
+class NeuralInpaintingClient {
+  private static instance: NeuralInpaintingClient;
+  private config: NeuralModelConfig | null = null;
+  private worker: Worker | null = null;
+  private queue: NeuralTask[] = [];
+  private activeTask: NeuralTask | null = null;
+  private nextTaskId = 1;
+
+  private constructor() {}
+
+  static getInstance(): NeuralInpaintingClient {
+    if (!NeuralInpaintingClient.instance) {
+      NeuralInpaintingClient.instance = new NeuralInpaintingClient();
+    }
+    return NeuralInpaintingClient.instance;
+  }
+
+  getConfig(): NeuralModelConfig {
+    if (!this.config) {
+      const stored = secureSession.getUserPreference(CONFIG_KEY);
+      this.config = stored && isValidConfigUrl(stored.modelUrl)
+        ? { modelUrl: stored.modelUrl }
+        : DEFAULT_NEURAL_MODEL_CONFIG;
+    }
+    return this.config;
+  }
+
+  setConfig(config: NeuralModelConfig): void {
+    const validation = validateModelUrl(config.modelUrl);
+    if (!validation.isValid) {
+      throw new Error(validation.error);
+    }
+    this.config = { modelUrl: config.modelUrl };
+    secureSession.setUserPreference(CONFIG_KEY, this.config);
+  }
+
+  // Downloaded model files; the next run downloads them again
+  async clearModelCache(): Promise<boolean> {
+    if (typeof caches === 'undefined') return false;
+    return caches.delete(NEURAL_CACHE_NAME);
+  }
+
+  // Fills the masked pixels; the buffers are moved to the worker
+  run(image: PixelBuffer, mask: Uint8Array, options: NeuralTaskOptions = {}): Promise<PixelBuffer> {
+    if (options.signal?.aborted) {
+      return Promise.reject(createAbortError());
+    }
+    const config = this.getConfig();
+    return new Promise<PixelBuffer>((resolve, reject) => {
+      const task: NeuralTask = {
+        request: {
+          id: this.nextTaskId++,
+          image,
+          mask,
+          config: { modelUrl: toAbsoluteUrl(config.modelUrl) }
+        },
+        options,
+        resolve,
+        reject
+      };
+      if (options.signal) {
+        const handleAbort = () => this.cancelTask(task);
+        options.signal.addEventListener('abort', handleAbort, { once: true });
+        task.detachAbort = () => options.signal?.removeEventListener('abort', handleAbort);
+      }
+      this.queue.push(task);
+      this.dispatch();
+    });
+  }
+
+  private dispatch(): void {
+    if (this.activeTask || this.queue.length === 0) return;
+    const task = this.queue.shift()!;
+    let worker: Worker;
+    try {
+      worker = this.acquireWorker();
+    } catch (error) {
+      console.warn('无法创建神经网络Worker:', error);
+      task.detachAbort?.();
+      task.reject(new Error('当前浏览器不支持Web Worker，无法运行神经网络模型'));
+      this.dispatch();
+      return;
+    }
+    this.activeTask = task;
+    const { image, mask } = task.request;
+    worker.postMessage(task.request, { transfer: [image.data.buffer, mask.buffer] });
+  }
+
+  private acquireWorker(): Worker {
+    if (this.worker) return this.worker;
+    const worker = new Worker(new URL('../components/watermark/neural.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<NeuralWorkerResponse>) => this.handleMessage(event.data);
+    worker.onerror = event => {
+      event.preventDefault();
+      this.handleCrash(event.message || '神经网络模型运行出错');
+    };
+    this.worker = worker;
+    return worker;
+  }
+
+  private handleMessage(message: NeuralWorkerResponse): void {
+    const task = this.activeTask;
+    if (!task || task.request.id !== message.id) return;
+
+    if (message.type === 'status') {
+      task.options.onStatus?.(message.status);
+      return;
+    }
+
+    this.activeTask = null;
+    task.detachAbort?.();
+    if (message.type === 'result') {
+      task.resolve(message.output);
+    } else {
+      task.reject(new Error(message.message));
+    }
+    this.dispatch();
+  }
+
+  // Out of memory while loading a large model ends up here
+  private handleCrash(message: string): void {
+    const task = this.activeTask;
+    this.terminateWorker();
+    if (task) {
+      task.detachAbort?.();
+      task.reject(new Error(message));
+    }
+    this.dispatch();
+  }
+
+  // A running inference cannot be interrupted, only dropped with its worker; the
+  // next image reloads the model from Cache Storage
+  private cancelTask(task: NeuralTask): void {
+    task.detachAbort?.();
+    const queued = this.queue.indexOf(task);
+    if (queued >= 0) {
+      this.queue.splice(queued, 1);
+    } else if (this.activeTask === task) {
+      this.terminateWorker();
+    } else {
+      return;
+    }
+    task.reject(createAbortError());
+    this.dispatch();
+  }
+
+  private terminateWorker(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.activeTask = null;
+  }
+}
+
+export const neuralInpaintingClient = NeuralInpaintingClient.getInstance();
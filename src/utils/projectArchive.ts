@@ -0,0 +1,667 @@
+// Project archives (.wmproj): one file holding the originals, masks, results and
+// settings of a workspace so marking work can be handed to someone else.
+// The container is a plain ZIP; manifest.json describes its contents and carries
+// the format version, which import checks before touching anything else.
+import {
+  AppliedSDParams,
+  ImageHistory,
+  ImageItem,
+  MarkPoint,
+  PaintMask,
+  ProcessingAlgorithm,
+  TemplateMatchResult,
+  TileLattice,
+  WatermarkMark
+} from '@/components/watermark/types';
+import { buildProcessingMask, hasWatermarkMask } from '@/components/watermark/maskUtils';
+import { isProcessingAlgorithm } from '@/components/watermark/formatting';
+import { validateFileUpload, validateImageDimensions } from './apiSecurity';
+import { validateFileContent, validateProjectFile } from './fileContentValidator';
+import { BlobZipSink, ZipWriter, readZipArchive } from './zipArchive';
+import { sanitizeAppliedSDParams } from './inpaintingBackends';
+
+export const PROJECT_FORMAT = 'wmproj';
+export const PROJECT_FORMAT_VERSION = 1;
+export const PROJECT_FILE_EXTENSION = '.wmproj';
+// Same cap as uploads; an import may not bring in more than a workspace can hold
+export const MAX_PROJECT_IMAGES = 20;
+
+const MANIFEST_NAME = 'manifest.json';
+// original, marks, mask, paint mask and result per image, plus the manifest
+const MAX_ARCHIVE_ENTRIES = MAX_PROJECT_IMAGES * 5 + 1;
+const MAX_ENTRY_BYTES = 128 * 1024 * 1024;
+const MAX_MARKS_PER_IMAGE = 500;
+const MAX_POINTS_PER_MARK = 10000;
+const MAX_HISTORY_ITEMS = 200;
+
+// Problems with the archive itself; their messages are safe to show as-is
+export const createProjectFileError = (message: string) => {
+  const error = new Error(message);
+  error.name = 'ProjectFileError';
+  return error;
+};
+
+export const isProjectFileError = (error: unknown): error is Error =>
+  error instanceof Error && error.name === 'ProjectFileError';
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/bmp': 'bmp'
+};
+
+export interface ProjectHistoryStep {
+  label: string;
+  createdAt: number;
+}
+
+export interface ProjectPassMetadata {
+  label: string;
+  processCount: number;
+  createdAt: number;
+  size: number;
+  algorithm: ProcessingAlgorithm | null;
+  // Parameters of an AI fill; absent in projects from before they were recorded
+  sdParams: AppliedSDParams | null;
+}
+
+// Labels and times only: earlier states and results are not part of the archive
+export interface ProjectHistoryMetadata {
+  undo: ProjectHistoryStep[];
+  redo: ProjectHistoryStep[];
+  passes: ProjectPassMetadata[];
+}
+
+// Paths of the archive entries for one image. `mask` is the combined mask that
+// processing would use, for tools outside this app; import rebuilds it from
+// `marks` and `paintMask` instead of reading it. `sourceExclusion` is absent
+// from archives written before the exclusion brush existed.
+export interface ProjectImageFiles {
+  original: string;
+  marks: string;
+  mask: string | null;
+  paintMask: string | null;
+  sourceExclusion: string | null;
+  result: string | null;
+}
+
+export interface ProjectManifestImage {
+  id: string;
+  fileName: string;
+  fileType: string;
+  lastModified: number;
+  rotation: number;
+  dimensions: { width: number; height: number } | null;
+  processCount: number;
+  isMarkingCompleted: boolean;
+  // Algorithm that produced the included result
+  algorithm: ProcessingAlgorithm | null;
+  sdParams: AppliedSDParams | null;
+  files: ProjectImageFiles;
+  history: ProjectHistoryMetadata;
+}
+
+export interface ProjectManifest {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  createdAt: number;
+  settings: {
+    processingAlgorithm: ProcessingAlgorithm;
+    selectedImageId: string | null;
+  };
+  images: ProjectManifestImage[];
+}
+
+// Vector form of an image's marks (marks.json)
+export interface ProjectMarksDocument {
+  watermarkMarks: WatermarkMark[];
+  tileLattice: TileLattice | null;
+  templateMatch: TemplateMatchResult | null;
+}
+
+export interface ExportProjectInput {
+  images: ImageItem[];
+  processingAlgorithm: ProcessingAlgorithm;
+  selectedImageId: string | null;
+  getImageHistory: (imageId: string) => ImageHistory;
+}
+
+export interface ImportedProjectImage {
+  id: string;
+  file: File;
+  dimensions: { width: number; height: number };
+  rotation: number;
+  watermarkMarks: WatermarkMark[];
+  paintMask?: PaintMask;
+  sourceExclusion?: PaintMask;
+  tileLattice?: TileLattice;
+  templateMatch?: TemplateMatchResult;
+  processCount: number;
+  isMarkingCompleted: boolean;
+  result: Blob | null;
+  algorithm: ProcessingAlgorithm | null;
+  sdParams: AppliedSDParams | null;
+  history: ProjectHistoryMetadata;
+}
+
+export interface ImportedProject {
+  version: number;
+  settings: ProjectManifest['settings'];
+  images: ImportedProjectImage[];
+  // Per-image problems that did not stop the import (e.g. a result that failed validation)
+  warnings: string[];
+}
+
+const canvasToPngBytes = (canvas: HTMLCanvasElement): Promise<Uint8Array> => new Promise((resolve, reject) => {
+  canvas.toBlob(blob => {
+    if (!blob) {
+      reject(new Error('无法生成蒙版图片'));
+      return;
+    }
+    blob.arrayBuffer().then(buffer => resolve(new Uint8Array(buffer)), reject);
+  }, 'image/png');
+});
+
+// One byte per pixel (0 or 255) to an opaque grayscale PNG
+const encodeMaskPng = (data: Uint8Array, width: number, height: number): Promise<Uint8Array> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('无法创建画布');
+  const imageData = ctx.createImageData(width, height);
+  for (let i = 0; i < data.length; i++) {
+    const offset = i * 4;
+    imageData.data[offset] = data[i];
+    imageData.data[offset + 1] = data[i];
+    imageData.data[offset + 2] = data[i];
+    imageData.data[offset + 3] = 255;
+  }
+  ctx.putImageData(imageData, 0, 0);
+  return canvasToPngBytes(canvas);
+};
+
+const decodeMaskPng = async (blob: Blob, width: number, height: number): Promise<PaintMask> => {
+  const bitmap = await createImageBitmap(blob);
+  try {
+    if (bitmap.width !== width || bitmap.height !== height) {
+      throw new Error('蒙版尺寸与图片不一致');
+    }
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('无法创建画布');
+    ctx.drawImage(bitmap, 0, 0);
+    const pixels = ctx.getImageData(0, 0, width, height).data;
+    const data = new Uint8Array(width * height);
+    let paintedPixels = 0;
+    for (let i = 0; i < data.length; i++) {
+      if (pixels[i * 4] >= 128) {
+        data[i] = 255;
+        paintedPixels++;
+      }
+    }
+    return { width, height, data, paintedPixels, revision: 0 };
+  } finally {
+    bitmap.close();
+  }
+};
+
+const readImageSize = async (blob: Blob) => {
+  const bitmap = await createImageBitmap(blob);
+  const size = { width: bitmap.width, height: bitmap.height };
+  bitmap.close();
+  return size;
+};
+
+const toHistoryMetadata = (history: ImageHistory): ProjectHistoryMetadata => ({
+  undo: history.undo.map(({ label, createdAt }) => ({ label, createdAt })),
+  redo: history.redo.map(({ label, createdAt }) => ({ label, createdAt })),
+  passes: history.passes.map(({ label, processCount, createdAt, size, algorithm, sdParams }) => ({
+    label, processCount, createdAt, size, algorithm: algorithm || null, sdParams: sdParams || null
+  }))
+});
+
+export const exportProjectArchive = async ({
+  images,
+  processingAlgorithm,
+  selectedImageId,
+  getImageHistory
+}: ExportProjectInput): Promise<Blob> => {
+  const sink = new BlobZipSink();
+  const zip = new ZipWriter(sink);
+  const manifestImages: ProjectManifestImage[] = [];
+
+  for (const image of images) {
+    const dir = `images/${image.id}`;
+    const history = getImageHistory(image.id);
+    const files: ProjectImageFiles = {
+      original: `${dir}/original.${IMAGE_EXTENSIONS[image.file.type] || 'bin'}`,
+      marks: `${dir}/marks.json`,
+      mask: null,
+      paintMask: null,
+      sourceExclusion: null,
+      result: null
+    };
+
+    await zip.addFile(files.original, image.file, new Date(image.file.lastModified));
+
+    const marks: ProjectMarksDocument = {
+      watermarkMarks: image.watermarkMarks,
+      tileLattice: image.tileLattice || null,
+      templateMatch: image.templateMatch || null
+    };
+    await zip.addFile(files.marks, new TextEncoder().encode(JSON.stringify(marks)));
+
+    if (image.dimensions && hasWatermarkMask(image)) {
+      const { width, height } = image.dimensions;
+      files.mask = `${dir}/mask.png`;
+      await zip.addFile(files.mask, await encodeMaskPng(buildProcessingMask(image, width, height), width, height));
+    }
+
+    if (image.paintMask && image.paintMask.paintedPixels > 0) {
+      const { data, width, height } = image.paintMask;
+      files.paintMask = `${dir}/paint-mask.png`;
+      await zip.addFile(files.paintMask, await encodeMaskPng(data, width, height));
+    }
+
+    if (image.sourceExclusion && image.sourceExclusion.paintedPixels > 0) {
+      const { data, width, height } = image.sourceExclusion;
+      files.sourceExclusion = `${dir}/source-exclusion.png`;
+      await zip.addFile(files.sourceExclusion, await encodeMaskPng(data, width, height));
+    }
+
+    let algorithm: ProcessingAlgorithm | null = null;
+    let sdParams: AppliedSDParams | null = null;
+    if (image.processedUrl) {
+      // The shown result is always a pass; blob: URLs cannot be fetched under the CSP
+      const pass = history.passes.find(item => item.url === image.processedUrl);
+      if (!pass) throw new Error(`${image.file.name} 的处理结果已释放`);
+      files.result = `${dir}/result.${IMAGE_EXTENSIONS[pass.blob.type] || 'png'}`;
+      await zip.addFile(files.result, pass.blob);
+      algorithm = pass.algorithm || null;
+      sdParams = pass.sdParams || null;
+    }
+
+    manifestImages.push({
+      id: image.id,
+      fileName: image.file.name,
+      fileType: image.file.type,
+      lastModified: image.file.lastModified,
+      rotation: image.rotation,
+      dimensions: image.dimensions || null,
+      processCount: image.processCount,
+      isMarkingCompleted: image.isMarkingCompleted,
+      algorithm,
+      sdParams,
+      files,
+      history: toHistoryMetadata(history)
+    });
+  }
+
+  const manifest: ProjectManifest = {
+    format: PROJECT_FORMAT,
+    version: PROJECT_FORMAT_VERSION,
+    createdAt: Date.now(),
+    settings: { processingAlgorithm, selectedImageId },
+    images: manifestImages
+  };
+  await zip.addFile(MANIFEST_NAME, new TextEncoder().encode(JSON.stringify(manifest, null, 2)));
+
+  await zip.finish();
+  return sink.toBlob('application/zip');
+};
+
+// --- Manifest validation: every field is checked before it reaches app state ---
+
+type UnknownRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is UnknownRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isNonNegativeInteger = (value: unknown): value is number =>
+  Number.isInteger(value) && (value as number) >= 0;
+
+const isOptionalString = (value: unknown): value is string | null =>
+  value === null || typeof value === 'string';
+
+const isOptionalAlgorithm = (value: unknown): value is ProcessingAlgorithm | null =>
+  value === null || isProcessingAlgorithm(value);
+
+const isPoint = (value: unknown): value is MarkPoint =>
+  isRecord(value) && isFiniteNumber(value.x) && isFiniteNumber(value.y);
+
+const invalid = (detail: string): never => {
+  throw createProjectFileError(`项目文件格式无效: ${detail}`);
+};
+
+const parseMark = (value: unknown): WatermarkMark => {
+  if (!isRecord(value) || typeof value.id !== 'string') return invalid('标记区域缺少编号');
+  const { id, shape, x, y, width, height } = value;
+  if (![x, y, width, height].every(isFiniteNumber)) return invalid('标记区域坐标错误');
+  const box = { id, x: x as number, y: y as number, width: width as number, height: height as number };
+
+  switch (shape) {
+    case 'rect':
+    case 'ellipse':
+      return { ...box, shape };
+    case 'polygon':
+    case 'lasso': {
+      const points = value.points;
+      if (!Array.isArray(points) || points.length < 3 || points.length > MAX_POINTS_PER_MARK || !points.every(isPoint)) {
+        return invalid('多边形区域顶点错误');
+      }
+      return { ...box, shape, points: points.map(point => ({ x: point.x, y: point.y })) };
+    }
+    default:
+      return invalid('未知的标记形状');
+  }
+};
+
+const parseMarksDocument = (value: unknown): ProjectMarksDocument => {
+  if (!isRecord(value) || !Array.isArray(value.watermarkMarks)) return invalid('缺少标记数据');
+  if (value.watermarkMarks.length > MAX_MARKS_PER_IMAGE) return invalid('标记区域过多');
+
+  let tileLattice: TileLattice | null = null;
+  if (value.tileLattice != null) {
+    const lattice = value.tileLattice;
+    if (!isRecord(lattice) || !isPoint(lattice.a) || !isPoint(lattice.b) || !isFiniteNumber(lattice.score)) {
+      return invalid('平铺网格数据错误');
+    }
+    tileLattice = { a: { x: lattice.a.x, y: lattice.a.y }, b: { x: lattice.b.x, y: lattice.b.y }, score: lattice.score };
+  }
+
+  let templateMatch: TemplateMatchResult | null = null;
+  if (value.templateMatch != null) {
+    const match = value.templateMatch;
+    if (!isRecord(match) || !isFiniteNumber(match.score) || typeof match.needsReview !== 'boolean') {
+      return invalid('模板匹配数据错误');
+    }
+    templateMatch = { score: match.score, needsReview: match.needsReview };
+  }
+
+  return { watermarkMarks: value.watermarkMarks.map(parseMark), tileLattice, templateMatch };
+};
+
+const parseHistorySteps = (value: unknown): ProjectHistoryStep[] => {
+  if (!Array.isArray(value) || value.length > MAX_HISTORY_ITEMS) return invalid('历史记录错误');
+  return value.map(step => {
+    if (!isRecord(step) || typeof step.label !== 'string' || !isFiniteNumber(step.createdAt)) return invalid('历史记录错误');
+    return { label: step.label, createdAt: step.createdAt };
+  });
+};
+
+const parseHistory = (value: unknown): ProjectHistoryMetadata => {
+  if (!isRecord(value) || !Array.isArray(value.passes) || value.passes.length > MAX_HISTORY_ITEMS) return invalid('历史记录错误');
+  return {
+    undo: parseHistorySteps(value.undo),
+    redo: parseHistorySteps(value.redo),
+    passes: value.passes.map(pass => {
+      if (
+        !isRecord(pass) ||
+        typeof pass.label !== 'string' ||
+        !isNonNegativeInteger(pass.processCount) ||
+        !isFiniteNumber(pass.createdAt) ||
+        !isNonNegativeInteger(pass.size) ||
+        !isOptionalAlgorithm(pass.algorithm)
+      ) {
+        return invalid('处理结果记录错误');
+      }
+      return {
+        label: pass.label,
+        processCount: pass.processCount,
+        createdAt: pass.createdAt,
+        size: pass.size,
+        algorithm: pass.algorithm,
+        sdParams: parseOptionalSDParams(pass.sdParams)
+      };
+    })
+  };
+};
+
+const parseOptionalSDParams = (value: unknown): AppliedSDParams | null => {
+  if (value === undefined || value === null) return null;
+  return sanitizeAppliedSDParams(value) || invalid('AI填充参数错误');
+};
+
+const optionalPath = (value: unknown): string | null =>
+  isOptionalString(value) ? value : invalid('文件路径错误');
+
+const parseManifestImage = (value: unknown): ProjectManifestImage => {
+  if (!isRecord(value)) return invalid('图片条目错误');
+  const { id, fileName, fileType, lastModified, rotation, dimensions, processCount, isMarkingCompleted, algorithm, sdParams, files } = value;
+  if (typeof id !== 'string' || id.length === 0 || typeof fileName !== 'string' || typeof fileType !== 'string') {
+    return invalid('图片条目缺少文件信息');
+  }
+  if (!isFiniteNumber(lastModified) || !isFiniteNumber(rotation) || !isNonNegativeInteger(processCount) || typeof isMarkingCompleted !== 'boolean') {
+    return invalid(`${fileName} 的状态数据错误`);
+  }
+  if (dimensions !== null && (!isRecord(dimensions) || !isNonNegativeInteger(dimensions.width) || !isNonNegativeInteger(dimensions.height))) {
+    return invalid(`${fileName} 的尺寸错误`);
+  }
+  if (!isOptionalAlgorithm(algorithm)) return invalid(`${fileName} 的处理算法未知`);
+  if (!isRecord(files) || typeof files.original !== 'string' || typeof files.marks !== 'string') {
+    return invalid(`${fileName} 缺少文件路径`);
+  }
+
+  return {
+    id,
+    fileName,
+    fileType,
+    lastModified,
+    rotation,
+    dimensions: isRecord(dimensions) ? { width: dimensions.width as number, height: dimensions.height as number } : null,
+    processCount,
+    isMarkingCompleted,
+    algorithm,
+    sdParams: parseOptionalSDParams(sdParams),
+    files: {
+      original: files.original,
+      marks: files.marks,
+      mask: optionalPath(files.mask),
+      paintMask: optionalPath(files.paintMask),
+      sourceExclusion: files.sourceExclusion === undefined ? null : optionalPath(files.sourceExclusion),
+      result: optionalPath(files.result)
+    },
+    history: parseHistory(value.history)
+  };
+};
+
+const parseManifest = (value: unknown): ProjectManifest => {
+  if (!isRecord(value) || value.format !== PROJECT_FORMAT) return invalid('不是水印项目文件');
+  const { version, createdAt, settings, images } = value;
+  if (!isNonNegativeInteger(version) || version < 1) return invalid('版本号错误');
+  if (version > PROJECT_FORMAT_VERSION) {
+    throw createProjectFileError(`项目文件版本 (v${version}) 高于当前支持的版本 (v${PROJECT_FORMAT_VERSION})，请更新后再导入`);
+  }
+  if (!isFiniteNumber(createdAt)) return invalid('创建时间错误');
+  if (!isRecord(settings) || !isProcessingAlgorithm(settings.processingAlgorithm)) return invalid('处理设置错误');
+  const { selectedImageId } = settings;
+  if (!isOptionalString(selectedImageId)) return invalid('处理设置错误');
+  if (!Array.isArray(images) || images.length === 0) return invalid('项目中没有图片');
+  if (images.length > MAX_PROJECT_IMAGES) return invalid(`图片数量超过 ${MAX_PROJECT_IMAGES} 张`);
+
+  const parsedImages = images.map(parseManifestImage);
+  if (new Set(parsedImages.map(image => image.id)).size !== parsedImages.length) return invalid('图片编号重复');
+
+  return {
+    format: PROJECT_FORMAT,
+    version,
+    createdAt,
+    settings: { processingAlgorithm: settings.processingAlgorithm, selectedImageId },
+    images: parsedImages
+  };
+};
+
+const parseJson = (bytes: Uint8Array, name: string): unknown => {
+  try {
+    return JSON.parse(new TextDecoder('utf-8', { fatal: true }).decode(bytes));
+  } catch {
+    return invalid(`${name} 不是有效的 JSON`);
+  }
+};
+
+// Rejects the same content an upload would, so an archive cannot smuggle in what the file picker blocks
+const validateEmbeddedImage = async (file: File, checkUpload: boolean): Promise<string | null> => {
+  if (checkUpload) {
+    const basicValidation = validateFileUpload(file);
+    if (!basicValidation.isValid) return basicValidation.error || '文件验证失败';
+  }
+  const contentValidation = await validateFileContent(file);
+  return contentValidation.isValid ? null : contentValidation.error || '文件验证失败';
+};
+
+export const readProjectArchive = async (archive: File): Promise<ImportedProject> => {
+  const archiveValidation = await validateProjectFile(archive);
+  if (!archiveValidation.isValid) {
+    throw createProjectFileError(archiveValidation.error || '项目文件验证失败');
+  }
+
+  const buffer = await archive.arrayBuffer();
+  let entries: Map<string, Uint8Array>;
+  try {
+    entries = new Map(
+      readZipArchive(buffer, { maxEntries: MAX_ARCHIVE_ENTRIES, maxEntryBytes: MAX_ENTRY_BYTES })
+        .map(entry => [entry.name, entry.data])
+    );
+  } catch (error) {
+    throw createProjectFileError(error instanceof Error ? error.message : '项目文件已损坏');
+  }
+  const manifestBytes = entries.get(MANIFEST_NAME);
+  if (!manifestBytes) return invalid('缺少 manifest.json');
+  const manifest = parseManifest(parseJson(manifestBytes, MANIFEST_NAME));
+
+  const warnings: string[] = [];
+  const images: ImportedProjectImage[] = [];
+
+  for (const entry of manifest.images) {
+    const originalBytes = entries.get(entry.files.original);
+    const marksBytes = entries.get(entry.files.marks);
+    if (!originalBytes || !marksBytes) {
+      warnings.push(`${entry.fileName}: 项目中缺少原图或标记数据，已跳过`);
+      continue;
+    }
+
+    const file = new File([originalBytes], entry.fileName, { type: entry.fileType, lastModified: entry.lastModified });
+    const fileError = await validateEmbeddedImage(file, true);
+    if (fileError) {
+      warnings.push(`${entry.fileName}: ${fileError}`);
+      continue;
+    }
+
+    // Dimensions come from the decoded file, never from the manifest
+    const dimensions = await readImageSize(file);
+    const dimensionValidation = validateImageDimensions(dimensions.width, dimensions.height);
+    if (!dimensionValidation.isValid) {
+      warnings.push(`${entry.fileName}: ${dimensionValidation.error}`);
+      continue;
+    }
+
+    const marks = parseMarksDocument(parseJson(marksBytes, entry.files.marks));
+
+    // A broken mask is dropped with a warning; the image itself still imports
+    const readMask = async (path: string | null, label: string): Promise<PaintMask | undefined> => {
+      const bytes = path ? entries.get(path) : undefined;
+      if (!bytes) return undefined;
+      const maskFile = new File([bytes], 'mask.png', { type: 'image/png' });
+      const maskError = await validateEmbeddedImage(maskFile, false);
+      if (maskError) {
+        warnings.push(`${entry.fileName}: ${label}无效，已忽略`);
+        return undefined;
+      }
+      try {
+        return await decodeMaskPng(maskFile, dimensions.width, dimensions.height);
+      } catch (error) {
+        warnings.push(`${entry.fileName}: ${error instanceof Error ? error.message : `${label}无法读取`}，已忽略`);
+        return undefined;
+      }
+    };
+    const paintMask = await readMask(entry.files.paintMask, '涂抹蒙版');
+    const sourceExclusion = await readMask(entry.files.sourceExclusion, '排除区域');
+
+    let result: Blob | null = null;
+    const resultBytes = entry.files.result ? entries.get(entry.files.result) : undefined;
+    if (resultBytes && entry.files.result) {
+      const extension = entry.files.result.split('.').pop() || '';
+      const type = Object.keys(IMAGE_EXTENSIONS).find(mime => IMAGE_EXTENSIONS[mime] === extension) || 'image/png';
+      const resultFile = new File([resultBytes], `result.${extension}`, { type });
+      const resultError = await validateEmbeddedImage(resultFile, false);
+      if (resultError) {
+        warnings.push(`${entry.fileName}: 处理结果无效，已忽略`);
+      } else {
+        result = resultFile;
+      }
+    }
+
+    images.push({
+      id: entry.id,
+      file,
+      dimensions,
+      rotation: entry.rotation,
+      watermarkMarks: marks.watermarkMarks,
+      paintMask,
+      sourceExclusion,
+      tileLattice: marks.tileLattice || undefined,
+      templateMatch: marks.templateMatch || undefined,
+      processCount: result ? entry.processCount : 0,
+      isMarkingCompleted: entry.isMarkingCompleted,
+      result,
+      algorithm: result ? entry.algorithm : null,
+      sdParams: result ? entry.sdParams : null,
+      history: entry.history
+    });
+  }
+
+  return { version: manifest.version, settings: manifest.settings, images, warnings };
+};
+
+export type RestoredImageState = Omit<ImportedProjectImage, 'id' | 'file' | 'result' | 'algorithm' | 'sdParams' | 'history'>;
+
+// Copies a stored mask only when it matches the image; values are normalised like a decoded PNG
+const parseStoredMask = (value: unknown, width: number, height: number): PaintMask | undefined => {
+  if (!isRecord(value) || value.width !== width || value.height !== height) return undefined;
+  const source = value.data;
+  if (!(source instanceof Uint8Array) || source.length !== width * height) return undefined;
+  const data = new Uint8Array(source.length);
+  let paintedPixels = 0;
+  for (let i = 0; i < data.length; i++) {
+    if (source[i] >= 128) {
+      data[i] = 255;
+      paintedPixels++;
+    }
+  }
+  return { width, height, data, paintedPixels, revision: 0 };
+};
+
+// Session records come from IndexedDB, which any script on this origin can write, so they
+// get the same checks as an imported project. Throws when the record cannot be used.
+export const readStoredImageState = async (record: unknown, original: Blob): Promise<RestoredImageState> => {
+  if (!isRecord(record)) return invalid('图片条目错误');
+  const { rotation, processCount, isMarkingCompleted } = record;
+  if (!isFiniteNumber(rotation) || !isNonNegativeInteger(processCount) || typeof isMarkingCompleted !== 'boolean') {
+    return invalid('图片状态数据错误');
+  }
+  const marks = parseMarksDocument(record);
+
+  const dimensions = await readImageSize(original);
+  const dimensionValidation = validateImageDimensions(dimensions.width, dimensions.height);
+  if (!dimensionValidation.isValid) return invalid(dimensionValidation.error || '图片尺寸错误');
+
+  return {
+    dimensions,
+    rotation,
+    watermarkMarks: marks.watermarkMarks,
+    paintMask: parseStoredMask(record.paintMask, dimensions.width, dimensions.height),
+    sourceExclusion: parseStoredMask(record.sourceExclusion, dimensions.width, dimensions.height),
+    tileLattice: marks.tileLattice || undefined,
+    templateMatch: marks.templateMatch || undefined,
+    processCount,
+    isMarkingCompleted
+  };
+};
@@ -0,0 +1,215 @@
+// IndexedDB-backed store for the working session: original files, processed
+// results, marks and settings survive a reload. Pixel data never goes to
+// sessionStorage (see secureSession).
+import { PaintMask, ProcessingAlgorithm, TemplateMatchResult, TileLattice, WatermarkMark } from '@/components/watermark/types';
+
+// Everything about an image except its pixels, which live in their own stores
+export interface StoredImageRecord {
+  id: string;
+  order: number;
+  fileName: string;
+  fileType: string;
+  lastModified: number;
+  rotation: number;
+  dimensions?: { width: number; height: number };
+  watermarkMarks: WatermarkMark[];
+  paintMask?: PaintMask;
+  sourceExclusion?: PaintMask;
+  tileLattice?: TileLattice;
+  templateMatch?: TemplateMatchResult;
+  processCount: number;
+  isMarkingCompleted: boolean;
+}
+
+export interface StoredProjectSettings {
+  processingAlgorithm: ProcessingAlgorithm;
+  selectedImageId: string | null;
+  savedAt: number;
+}
+
+export interface StoredImage {
+  record: StoredImageRecord;
+  original: Blob;
+  result: Blob | null;
+}
+
+export interface StoredProject {
+  settings: StoredProjectSettings | null;
+  images: StoredImage[];
+}
+
+export interface StorageEstimate {
+  usage: number;
+  quota: number;
+}
+
+const DB_NAME = 'watermark-remover-project';
+const DB_VERSION = 1;
+const IMAGE_STORE = 'images';
+const ORIGINAL_STORE = 'originals';
+const RESULT_STORE = 'results';
+const SETTINGS_STORE = 'settings';
+const SETTINGS_KEY = 'current';
+// Writes that would push usage past this share of the quota are refused
+const QUOTA_SAFETY_RATIO = 0.9;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  transaction.oncomplete = () => resolve();
+  transaction.onerror = () => reject(transaction.error);
+  transaction.onabort = () => reject(transaction.error || new Error('存储事务已中止'));
+});
+
+const isQuotaError = (error: unknown) => error instanceof DOMException && error.name === 'QuotaExceededError';
+
+// The dirty rectangle only matters to the overlay that is painting
+const toStoredMask = ({ width, height, data, paintedPixels, revision }: PaintMask): PaintMask => ({ width, height, data, paintedPixels, revision });
+
+class ProjectStore {
+  private static instance: ProjectStore;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private constructor() {}
+
+  static getInstance(): ProjectStore {
+    if (!ProjectStore.instance) {
+      ProjectStore.instance = new ProjectStore();
+    }
+    return ProjectStore.instance;
+  }
+
+  isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  async load(): Promise<StoredProject> {
+    const db = await this.open();
+    const transaction = db.transaction([IMAGE_STORE, ORIGINAL_STORE, RESULT_STORE, SETTINGS_STORE], 'readonly');
+    const store = (name: string) => transaction.objectStore(name);
+    // Every request is issued up front; the transaction closes once none are pending
+    const [records, originalKeys, originals, resultKeys, results, settings] = await Promise.all([
+      requestToPromise(store(IMAGE_STORE).getAll() as IDBRequest<StoredImageRecord[]>),
+      requestToPromise(store(ORIGINAL_STORE).getAllKeys()),
+      requestToPromise(store(ORIGINAL_STORE).getAll() as IDBRequest<Blob[]>),
+      requestToPromise(store(RESULT_STORE).getAllKeys()),
+      requestToPromise(store(RESULT_STORE).getAll() as IDBRequest<Blob[]>),
+      requestToPromise(store(SETTINGS_STORE).get(SETTINGS_KEY) as IDBRequest<StoredProjectSettings | undefined>)
+    ]);
+
+    const originalById = new Map(originalKeys.map((key, index) => [String(key), originals[index]]));
+    const resultById = new Map(resultKeys.map((key, index) => [String(key), results[index]]));
+    const images = records
+      .sort((a, b) => a.order - b.order)
+      // A record whose original is missing cannot be shown; skip it rather than fail the whole load
+      .filter(record => originalById.has(record.id))
+      .map(record => ({ record, original: originalById.get(record.id)!, result: resultById.get(record.id) || null }));
+    return { settings: settings || null, images };
+  }
+
+  // `original` is written only when given; `result` null deletes the stored result
+  async saveImage(record: StoredImageRecord, blobs: { original?: Blob; result?: Blob | null } = {}): Promise<void> {
+    const incomingBytes = (blobs.original?.size || 0) + (blobs.result?.size || 0) +
+      (record.paintMask?.data.byteLength || 0) + (record.sourceExclusion?.data.byteLength || 0);
+    await this.ensureQuota(incomingBytes);
+
+    const db = await this.open();
+    const transaction = db.transaction([IMAGE_STORE, ORIGINAL_STORE, RESULT_STORE], 'readwrite');
+    transaction.objectStore(IMAGE_STORE).put({
+      ...record,
+      paintMask: record.paintMask && toStoredMask(record.paintMask),
+      sourceExclusion: record.sourceExclusion && toStoredMask(record.sourceExclusion)
+    });
+    if (blobs.original) {
+      transaction.objectStore(ORIGINAL_STORE).put(blobs.original, record.id);
+    }
+    if (blobs.result === null) {
+      transaction.objectStore(RESULT_STORE).delete(record.id);
+    } else if (blobs.result) {
+      transaction.objectStore(RESULT_STORE).put(blobs.result, record.id);
+    }
+    await this.complete(transaction);
+  }
+
+  async deleteImage(id: string): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction([IMAGE_STORE, ORIGINAL_STORE, RESULT_STORE], 'readwrite');
+    [IMAGE_STORE, ORIGINAL_STORE, RESULT_STORE].forEach(name => transaction.objectStore(name).delete(id));
+    await this.complete(transaction);
+  }
+
+  async saveSettings(settings: StoredProjectSettings): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(SETTINGS_STORE, 'readwrite');
+    transaction.objectStore(SETTINGS_STORE).put(settings, SETTINGS_KEY);
+    await this.complete(transaction);
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.open();
+    const stores = [IMAGE_STORE, ORIGINAL_STORE, RESULT_STORE, SETTINGS_STORE];
+    const transaction = db.transaction(stores, 'readwrite');
+    stores.forEach(name => transaction.objectStore(name).clear());
+    await this.complete(transaction);
+  }
+
+  async getStorageEstimate(): Promise<StorageEstimate | null> {
+    if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+    try {
+      const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+      return { usage, quota };
+    } catch (error) {
+      console.warn('[ProjectStore] Storage estimate unavailable:', error);
+      return null;
+    }
+  }
+
+  private async ensureQuota(incomingBytes: number): Promise<void> {
+    const estimate = await this.getStorageEstimate();
+    if (estimate && estimate.quota > 0 && estimate.usage + incomingBytes > estimate.quota * QUOTA_SAFETY_RATIO) {
+      throw new Error('浏览器存储空间不足，本地会话未完整保存');
+    }
+  }
+
+  private async complete(transaction: IDBTransaction): Promise<void> {
+    try {
+      await transactionDone(transaction);
+    } catch (error) {
+      if (isQuotaError(error)) {
+        throw new Error('浏览器存储空间不足，本地会话未完整保存');
+      }
+      throw error;
+    }
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.isAvailable()) {
+      return Promise.reject(new Error('当前浏览器不支持本地存储会话'));
+    }
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(IMAGE_STORE)) db.createObjectStore(IMAGE_STORE, { keyPath: 'id' });
+          [ORIGINAL_STORE, RESULT_STORE, SETTINGS_STORE].forEach(name => {
+            if (!db.objectStoreNames.contains(name)) db.createObjectStore(name);
+          });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+        request.onblocked = () => reject(new Error('本地存储被其他标签页占用'));
+      });
+      // A failed open may succeed later (e.g. after another tab closes)
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
+    }
+    return this.dbPromise;
+  }
+}
+
+export const projectStore = ProjectStore.getInstance();
@@ -1,9 +1,20 @@
-import { validateApiKey, apiRateLimiter } from './apiSecurity';
+import { apiRateLimiter, validateBackendUrl } from './apiSecurity';
 import { secureSession } from './secureSession';
 import { handleSecureError } from './secureErrorHandler';
 import { securityMonitor } from './securityMonitor';
 import { secureApiMiddleware } from './runtimeProtection';
-import { WatermarkMark } from '@/components/watermark/types';
+import { AppliedSDParams, SDInpaintingParams, WatermarkMaskSource } from '@/components/watermark/types';
+import { buildCoveringMask } from '@/components/watermark/maskUtils';
+import {
+  DEFAULT_BACKEND_CONFIG,
+  DEFAULT_SD_PARAMS,
+  INPAINTING_BACKENDS,
+  ImageSize,
+  InpaintingBackendConfig,
+  InpaintingOutput,
+  isInpaintingBackendId,
+  resolveBaseUrl
+} from './inpaintingBackends';
 
 interface ApiResponse<T> {
   success: boolean;
@@ -11,9 +22,26 @@ interface ApiResponse<T> {
   error?: string;
 }
 
+interface SDRequestOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: number) => void;
+  params?: SDInpaintingParams;
+}
+
+export interface SDInpaintingResult {
+  // At the size that was sent, not the original's
+  image: Blob;
+  // The parameters as sent, with the seed the service reported for this sample
+  params: AppliedSDParams;
+}
+
+// The backend choice is not secret and survives clearing the key
+const BACKEND_CONFIG_KEY = 'inpainting-backend';
+
 class SecureApiClient {
   private static instance: SecureApiClient;
   private apiKey: string = '';
+  private backendConfig: InpaintingBackendConfig | null = null;
   
   private constructor() {}
   
@@ -34,7 +62,9 @@ class SecureApiClient {
         throw new Error('Session locked due to security violations');
       }
       
-      if (validateApiKey(key)) {
+      const backend = INPAINTING_BACKENDS[this.getBackendConfig().backend];
+      const isValid = key ? backend.isValidApiKey(key) : !backend.capabilities.requiresApiKey;
+      if (isValid) {
         this.apiKey = key;
         const hash = btoa(key);
         sessionStorage.setItem('sd-api-key-hash', hash);
@@ -58,6 +88,40 @@ class SecureApiClient {
     }, 'setApiKey');
   }
   
+  getBackendConfig(): InpaintingBackendConfig {
+    if (!this.backendConfig) {
+      this.backendConfig = DEFAULT_BACKEND_CONFIG;
+      try {
+        const stored = JSON.parse(sessionStorage.getItem(BACKEND_CONFIG_KEY) || 'null');
+        if (stored && isInpaintingBackendId(stored.backend) && typeof stored.baseUrl === 'string' &&
+            (!stored.baseUrl || validateBackendUrl(stored.baseUrl).isValid)) {
+          this.backendConfig = { backend: stored.backend, baseUrl: stored.baseUrl };
+        }
+      } catch {
+        sessionStorage.removeItem(BACKEND_CONFIG_KEY);
+      }
+    }
+    return this.backendConfig;
+  }
+  
+  setBackendConfig(config: InpaintingBackendConfig): void {
+    if (!isInpaintingBackendId(config.backend)) {
+      throw new Error('Unknown inpainting backend');
+    }
+    if (config.baseUrl) {
+      const validation = validateBackendUrl(config.baseUrl);
+      if (!validation.isValid) {
+        throw new Error(validation.error);
+      }
+    }
+    this.backendConfig = { backend: config.backend, baseUrl: config.baseUrl };
+    sessionStorage.setItem(BACKEND_CONFIG_KEY, JSON.stringify(this.backendConfig));
+    securityMonitor.logEvent('api_call', 'low', {
+      operation: 'setBackendConfig',
+      backend: config.backend
+    });
+  }
+  
   getApiKey(): string {
     if (!secureSession.isSessionValid()) {
       securityMonitor.logEvent('session_violation', 'medium', {
@@ -97,11 +161,15 @@ class SecureApiClient {
     });
   }
   
-  async validateApiKey(): Promise<ApiResponse<boolean>> {
+  // Checks the key and address against the selected backend. Backends without a
+  // status endpoint only get the format checks.
+  async validateConnection(): Promise<ApiResponse<boolean>> {
     return secureApiMiddleware(async () => {
+      const config = this.getBackendConfig();
+      const backend = INPAINTING_BACKENDS[config.backend];
       const apiKey = this.getApiKey();
       
-      if (!apiKey) {
+      if (!apiKey && backend.capabilities.requiresApiKey) {
         return { success: false, error: '请先设置API密钥' };
       }
       
@@ -109,9 +177,14 @@ class SecureApiClient {
         return { success: false, error: '会话已锁定，请稍后再试' };
       }
       
+      if (!backend.buildValidationRequest) {
+        secureSession.recordSuccessfulValidation();
+        return { success: true, data: true };
+      }
+      
       if (!apiRateLimiter.canMakeRequest()) {
         securityMonitor.logEvent('rate_limit', 'medium', {
-          operation: 'validateApiKey',
+          operation: 'validateConnection',
           reason: 'Rate limit exceeded'
         });
         return { success: false, error: '请求过于频繁，请稍后再试' };
@@ -121,37 +194,30 @@ class SecureApiClient {
         const controller = new AbortController();
         const timeoutId = setTimeout(() => controller.abort(), 10000);
         
-        const response = await fetch('https://api.stability.ai/v1/user/account', {
-          method: 'GET',
-          headers: {
-            'Authorization': `Bearer ${apiKey}`,
-            'Accept': 'application/json',
-            'User-Agent': 'WatermarkRemover/1.0',
-            'X-Requested-With': 'XMLHttpRequest',
-          },
-          signal: controller.signal,
-        });
+        const { url, init } = backend.buildValidationRequest(resolveBaseUrl(config), apiKey);
+        const response = await fetch(url, { ...init, signal: controller.signal });
         
         clearTimeout(timeoutId);
         
         if (response.ok) {
           secureSession.recordSuccessfulValidation();
           securityMonitor.logEvent('api_call', 'low', {
-            operation: 'validateApiKey',
+            operation: 'validateConnection',
+            backend: config.backend,
             success: true
           });
           return { success: true, data: true };
-        } else if (response.status === 401) {
+        } else if (response.status === 401 || response.status === 403) {
           secureSession.recordFailedAttempt();
           securityMonitor.logEvent('session_violation', 'medium', {
-            operation: 'validateApiKey',
+            operation: 'validateConnection',
             reason: 'Invalid API key',
             status: response.status
           });
           return { success: false, error: 'API密钥无效或已过期' };
         } else if (response.status === 429) {
           securityMonitor.logEvent('rate_limit', 'high', {
-            operation: 'validateApiKey',
+            operation: 'validateConnection',
             reason: 'API rate limit',
             status: response.status
           });
@@ -162,7 +228,7 @@ class SecureApiClient {
       } catch (error: any) {
         if (error.name === 'AbortError') {
           securityMonitor.logEvent('api_call', 'medium', {
-            operation: 'validateApiKey',
+            operation: 'validateConnection',
             error: 'Request timeout'
           });
           return { success: false, error: '请求超时，请检查网络连接' };
@@ -171,14 +237,19 @@ class SecureApiClient {
         const errorMessage = handleSecureError(error, 'API_VALIDATION', 'medium');
         return { success: false, error: errorMessage };
       }
-    }, 'validateApiKey');
+    }, 'validateConnection');
   }
   
-  async processWithSDInpainting(imageFile: File, mark: WatermarkMark): Promise<ApiResponse<Blob>> {
+  // Progress is reported per stage (mask, upload, response, decode); the
+  // endpoints themselves give no intermediate progress
+  async processWithSDInpainting(imageFile: File, maskSource: WatermarkMaskSource, options: SDRequestOptions = {}): Promise<ApiResponse<SDInpaintingResult[]>> {
+    const { signal, onProgress } = options;
     return secureApiMiddleware(async () => {
+      const config = this.getBackendConfig();
+      const backend = INPAINTING_BACKENDS[config.backend];
       const apiKey = this.getApiKey();
       
-      if (!apiKey) {
+      if (!apiKey && backend.capabilities.requiresApiKey) {
         return { success: false, error: '请先设置并验证API密钥' };
       }
       
@@ -197,58 +268,63 @@ class SecureApiClient {
       try {
         securityMonitor.logEvent('api_call', 'low', {
           operation: 'processWithSDInpainting',
+          backend: config.backend,
           fileSize: imageFile.size,
-          markDimensions: `${mark.width}x${mark.height}`
+          markCount: maskSource.watermarkMarks.length,
+          paintedPixels: maskSource.paintMask?.paintedPixels || 0
         });
         
-        console.warn('[Security] Direct API call - consider implementing backend proxy for production');
+        if (config.backend === 'stability') {
+          console.warn('[Security] Direct API call - consider implementing backend proxy for production');
+        }
         
-        const formData = new FormData();
-        formData.append('image', imageFile);
-        formData.append('mask', await this.createMaskFromWatermark(imageFile, mark));
-        formData.append('prompt', 'remove watermark, natural background');
-        formData.append('model', 'stable-diffusion-xl-1024-v1-0');
-        formData.append('samples', '1');
-        formData.append('steps', '30');
+        const requested = options.params || DEFAULT_SD_PARAMS;
+        const { image, mask, width, height } = await this.prepareRequestImages(imageFile, maskSource, backend.getInputSize);
+        const { url, init, params } = await backend.buildRequest(
+          { image, mask, width, height, params: { ...requested, samples: Math.min(requested.samples, backend.capabilities.maxSamples) } },
+          resolveBaseUrl(config),
+          apiKey
+        );
+        // Resizing and encoding take a while on large images; nothing is uploaded once cancelled
+        if (signal?.aborted) {
+          return { success: false, error: '处理已取消' };
+        }
+        onProgress?.(10);
         
+        // One controller for both the 60s timeout and the caller's cancellation
         const controller = new AbortController();
         const timeoutId = setTimeout(() => controller.abort(), 60000);
+        const handleAbort = () => controller.abort();
+        signal?.addEventListener('abort', handleAbort);
         
-        const response = await fetch('https://api.stability.ai/v1/generation/stable-diffusion-xl-1024-v1-0/image-to-image/masking', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${apiKey}`,
-            'Accept': 'application/json',
-            'X-Requested-With': 'XMLHttpRequest',
-          },
-          body: formData,
-          signal: controller.signal,
-        });
-        
-        clearTimeout(timeoutId);
-        
-        if (!response.ok) {
-          throw new Error(`API request failed: ${response.status}`);
+        let outputs: InpaintingOutput[];
+        try {
+          onProgress?.(20);
+          const response = await fetch(url, { ...init, signal: controller.signal });
+          onProgress?.(80);
+          outputs = await backend.parseResponse(response);
+        } finally {
+          clearTimeout(timeoutId);
+          signal?.removeEventListener('abort', handleAbort);
         }
         
-        const result = await response.json();
+        onProgress?.(100);
+        securityMonitor.logEvent('api_call', 'low', {
+          operation: 'processWithSDInpainting',
+          success: true,
+          samples: outputs.length,
+          resultSize: outputs.reduce((total, output) => total + output.image.size, 0)
+        });
         
-        if (result.artifacts && result.artifacts[0]) {
-          const imageData = result.artifacts[0].base64;
-          const blob = this.base64ToBlob(imageData, 'image/png');
-          
-          securityMonitor.logEvent('api_call', 'low', {
-            operation: 'processWithSDInpainting',
-            success: true,
-            resultSize: blob.size
-          });
-          
-          return { success: true, data: blob };
-        } else {
-          return { success: false, error: 'API返回无效数据' };
-        }
+        return {
+          success: true,
+          data: outputs.map(({ image, seed }) => ({ image, params: { ...params, seed: seed ?? params.seed } }))
+        };
       } catch (error: any) {
         if (error.name === 'AbortError') {
+          if (signal?.aborted) {
+            return { success: false, error: '处理已取消' };
+          }
           securityMonitor.logEvent('api_call', 'medium', {
             operation: 'processWithSDInpainting',
             error: 'Request timeout'
@@ -262,46 +338,57 @@ class SecureApiClient {
     }, 'processWithSDInpainting');
   }
   
-  private async createMaskFromWatermark(imageFile: File, mark: WatermarkMark): Promise<Blob> {
-    return new Promise((resolve) => {
-      const img = new Image();
-      img.onload = () => {
-        const canvas = document.createElement('canvas');
-        const ctx = canvas.getContext('2d')!;
-        
-        canvas.width = img.width;
-        canvas.height = img.height;
-        
-        // Create black background
-        ctx.fillStyle = 'black';
-        ctx.fillRect(0, 0, canvas.width, canvas.height);
-        
-        // Create white mask for watermark area
-        ctx.fillStyle = 'white';
-        const x = mark.x * canvas.width;
-        const y = mark.y * canvas.height;
-        const width = mark.width * canvas.width;
-        const height = mark.height * canvas.height;
-        ctx.fillRect(x, y, width, height);
-        
-        canvas.toBlob((blob) => {
-          resolve(blob!);
-        }, 'image/png');
+  // The image and its mask at the size the backend accepts. The services return
+  // an image of the size they were sent, which imageProcessor scales back and
+  // composites into the untouched original.
+  private async prepareRequestImages(
+    imageFile: File,
+    maskSource: WatermarkMaskSource,
+    getInputSize: (width: number, height: number) => ImageSize
+  ): Promise<{ image: Blob; mask: Blob; width: number; height: number }> {
+    const img = await new Promise<HTMLImageElement>((resolve, reject) => {
+      const image = new Image();
+      const url = URL.createObjectURL(imageFile);
+      image.onload = () => {
+        URL.revokeObjectURL(url);
+        resolve(image);
+      };
+      image.onerror = () => {
+        URL.revokeObjectURL(url);
+        reject(new Error('图片加载失败'));
       };
-      img.src = URL.createObjectURL(imageFile);
+      image.src = url;
     });
-  }
-  
-  private base64ToBlob(base64: string, mimeType: string): Blob {
-    const byteCharacters = atob(base64);
-    const byteNumbers = new Array(byteCharacters.length);
-    
-    for (let i = 0; i < byteCharacters.length; i++) {
-      byteNumbers[i] = byteCharacters.charCodeAt(i);
+
+    const { width, height } = getInputSize(img.width, img.height);
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('无法获取Canvas上下文');
     }
-    
-    const byteArray = new Uint8Array(byteNumbers);
-    return new Blob([byteArray], { type: mimeType });
+    canvas.width = width;
+    canvas.height = height;
+    const toPng = () => new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('无法生成请求图片')), 'image/png');
+    });
+
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(img, 0, 0, width, height);
+    const image = await toPng();
+
+    // White where the pixel mask is set, black elsewhere. Built at full size around
+    // the selection and scaled so every sent pixel touching it is set, keeping thin strokes
+    const mask = buildCoveringMask(maskSource, img.width, img.height, width, height);
+    const maskImage = ctx.createImageData(width, height);
+    for (let i = 0; i < mask.length; i++) {
+      const value = mask[i] ? 255 : 0;
+      maskImage.data[i * 4] = value;
+      maskImage.data[i * 4 + 1] = value;
+      maskImage.data[i * 4 + 2] = value;
+      maskImage.data[i * 4 + 3] = 255;
+    }
+    ctx.putImageData(maskImage, 0, 0);
+    return { image, mask: await toPng(), width, height };
   }
 }
 
@@ -142,12 +142,22 @@ class SecureSessionManager {
   }
   
   setUserPreference(key: string, value: any): void {
+    if (this.isPixelData(value)) {
+      console.warn(`[Security] Refusing to store image data in session: ${key}`);
+      return;
+    }
     const session = this.getSessionData();
     session.userPreferences = session.userPreferences || {};
     session.userPreferences[key] = value;
     this.setSessionData(session);
   }
   
+  // Images belong in projectStore (IndexedDB); sessionStorage is small, synchronous and string-only
+  private isPixelData(value: unknown): boolean {
+    return value instanceof Blob || value instanceof ArrayBuffer || ArrayBuffer.isView(value) ||
+      (typeof value === 'string' && value.startsWith('data:image/'));
+  }
+  
   getUserPreference(key: string, defaultValue?: any): any {
     const session = this.getSessionData();
     return session.userPreferences?.[key] ?? defaultValue;
@@ -1,4 +1,11 @@
 // Security headers and CSP management
+import { secureApiClient } from './secureApiClient';
+import { resolveBaseUrl } from './inpaintingBackends';
+import { neuralInpaintingClient } from './neuralInpaintingClient';
+
+// Hosts the app always talks to: the Stability API and the Hugging Face model downloads and their redirects
+const FIXED_CONNECT_SOURCES = ['https://api.stability.ai', 'https://huggingface.co', 'https://*.huggingface.co', 'https://*.hf.co'];
+
 export interface SecurityConfig {
   enableCSP: boolean;
   enableSecurityHeaders: boolean;
@@ -9,6 +16,8 @@ class SecurityHeadersManager {
   private static instance: SecurityHeadersManager;
   private config: SecurityConfig;
   private nonce: string;
+  // Origins of the configured services at page load, null while no CSP of ours is applied
+  private connectOrigins: Set<string> | null = null;
   
   private constructor() {
     this.config = {
@@ -49,7 +58,23 @@ class SecurityHeadersManager {
     }
   }
   
+  // A policy in a meta tag can only be tightened later, so the configured
+  // services are read once here; a changed address applies after a reload
+  private getConnectOrigins(): Set<string> {
+    const origins = new Set<string>();
+    [resolveBaseUrl(secureApiClient.getBackendConfig()), neuralInpaintingClient.getConfig().modelUrl].forEach(value => {
+      try {
+        const { origin } = new URL(value, location.href);
+        if (origin !== location.origin) origins.add(origin);
+      } catch {
+        // Both addresses are validated when they are saved
+      }
+    });
+    return origins;
+  }
+  
   private setContentSecurityPolicy(): void {
+    const connectOrigins = this.getConnectOrigins();
     // React-compatible CSP without Trusted Types requirement for development
     const cspDirectives = [
       "default-src 'self'",
@@ -57,7 +82,7 @@ class SecurityHeadersManager {
       "style-src 'self' 'unsafe-inline'", // Required for Tailwind CSS
       "img-src 'self' data: blob: https:",
       "font-src 'self' data:",
-      "connect-src 'self' https://api.stability.ai",
+      `connect-src 'self' ${[...FIXED_CONNECT_SOURCES, ...connectOrigins].join(' ')}`,
       "media-src 'self' blob:",
       "object-src 'none'",
       "frame-src 'none'",
@@ -75,6 +100,7 @@ class SecurityHeadersManager {
       meta.setAttribute('http-equiv', 'Content-Security-Policy');
       meta.setAttribute('content', cspDirectives);
       document.head.appendChild(meta);
+      this.connectOrigins = connectOrigins;
       
       console.info('[Security] React-compatible Content Security Policy applied');
     }
@@ -251,6 +277,24 @@ class SecurityHeadersManager {
     });
   }
   
+  // Whether fetch() may reach `url` under the policy applied at page load
+  allowsConnection(url: string): boolean {
+    if (!this.connectOrigins) return true;
+    let parsed: URL;
+    try {
+      parsed = new URL(url, location.href);
+    } catch {
+      return false;
+    }
+    if (parsed.origin === location.origin || this.connectOrigins.has(parsed.origin)) return true;
+    return FIXED_CONNECT_SOURCES.some(source => {
+      const wildcard = source.indexOf('*.');
+      return wildcard < 0
+        ? parsed.origin === source
+        : parsed.protocol === 'https:' && parsed.hostname.endsWith(source.slice(wildcard + 1));
+    });
+  }
+  
   getNonce(): string {
     return this.nonce;
   }
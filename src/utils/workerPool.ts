@@ -0,0 +1,217 @@
+// Pool of processing workers for pixel-heavy tasks, so the UI thread stays responsive
+import {
+  WorkerRequest,
+  WorkerResponse,
+  WorkerTaskInput,
+  WorkerTaskKind,
+  WorkerTaskOutput,
+  workerTaskHandlers
+} from '@/components/watermark/workerTasks';
+import type { ProgressCallback } from '@/components/watermark/pixelAlgorithms';
+
+export interface WorkerTaskOptions {
+  // Buffers moved to the worker; the caller must not use them afterwards
+  transfer?: Transferable[];
+  onProgress?: ProgressCallback;
+  signal?: AbortSignal;
+}
+
+interface PoolTask {
+  id: number;
+  request: WorkerRequest;
+  options: WorkerTaskOptions;
+  resolve: (output: unknown) => void;
+  reject: (error: Error) => void;
+  worker?: Worker;
+  detachAbort?: () => void;
+}
+
+// Upper bound regardless of core count; every worker holds a full image while busy
+const MAX_POOL_SIZE = 8;
+
+export const createAbortError = () => new DOMException('处理已取消', 'AbortError');
+
+export const isAbortError = (error: unknown): boolean =>
+  (error instanceof Error || error instanceof DOMException) && error.name === 'AbortError';
+
+class ProcessingWorkerPool {
+  private static instance: ProcessingWorkerPool;
+  private readonly size: number;
+  private workers: Set<Worker> = new Set();
+  private idleWorkers: Worker[] = [];
+  private queue: PoolTask[] = [];
+  private activeTasks: Map<Worker, PoolTask> = new Map();
+  private nextTaskId = 1;
+  private workersUnavailable = typeof Worker === 'undefined';
+
+  private constructor() {
+    const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency : 0;
+    this.size = Math.max(1, Math.min(MAX_POOL_SIZE, cores || 2));
+  }
+
+  static getInstance(): ProcessingWorkerPool {
+    if (!ProcessingWorkerPool.instance) {
+      ProcessingWorkerPool.instance = new ProcessingWorkerPool();
+    }
+    return ProcessingWorkerPool.instance;
+  }
+
+  getPoolSize(): number {
+    return this.size;
+  }
+
+  getStats() {
+    return {
+      workers: this.workers.size,
+      busy: this.activeTasks.size,
+      queued: this.queue.length
+    };
+  }
+
+  run<K extends WorkerTaskKind>(kind: K, input: WorkerTaskInput<K>, options: WorkerTaskOptions = {}): Promise<WorkerTaskOutput<K>> {
+    if (options.signal?.aborted) {
+      return Promise.reject(createAbortError());
+    }
+    if (this.workersUnavailable) {
+      return this.runOnMainThread(kind, input, options);
+    }
+
+    return new Promise<WorkerTaskOutput<K>>((resolve, reject) => {
+      const task: PoolTask = {
+        id: this.nextTaskId++,
+        request: { id: 0, kind, input } as WorkerRequest,
+        options,
+        resolve: output => resolve(output as WorkerTaskOutput<K>),
+        reject
+      };
+      task.request.id = task.id;
+
+      if (options.signal) {
+        const handleAbort = () => this.cancelTask(task);
+        options.signal.addEventListener('abort', handleAbort, { once: true });
+        task.detachAbort = () => options.signal?.removeEventListener('abort', handleAbort);
+      }
+
+      this.queue.push(task);
+      this.dispatch();
+    });
+  }
+
+  // Stops every queued and running task; running workers are terminated
+  cancelAll(): void {
+    [...this.queue, ...this.activeTasks.values()].forEach(task => this.cancelTask(task));
+  }
+
+  terminate(): void {
+    this.cancelAll();
+    this.workers.forEach(worker => worker.terminate());
+    this.workers.clear();
+    this.idleWorkers = [];
+  }
+
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      const worker = this.acquireWorker();
+      if (!worker) {
+        if (this.workersUnavailable) {
+          // Worker creation failed: drain the queue on the main thread instead
+          this.queue.splice(0).forEach(task => {
+            task.detachAbort?.();
+            this.runOnMainThread(task.request.kind, task.request.input, task.options).then(task.resolve, task.reject);
+          });
+        }
+        return;
+      }
+      const task = this.queue.shift()!;
+      task.worker = worker;
+      this.activeTasks.set(worker, task);
+      worker.postMessage(task.request, { transfer: task.options.transfer || [] });
+    }
+  }
+
+  private acquireWorker(): Worker | null {
+    const idle = this.idleWorkers.pop();
+    if (idle) return idle;
+    if (this.workers.size >= this.size) return null;
+
+    try {
+      const worker = new Worker(new URL('../components/watermark/processing.worker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (event: MessageEvent<WorkerResponse>) => this.handleMessage(worker, event.data);
+      worker.onerror = event => {
+        event.preventDefault();
+        this.handleCrash(worker, event.message || 'Worker处理出错');
+      };
+      this.workers.add(worker);
+      return worker;
+    } catch (error) {
+      console.warn('Web Worker不可用，回退到主线程处理:', error);
+      this.workersUnavailable = true;
+      return null;
+    }
+  }
+
+  private handleMessage(worker: Worker, message: WorkerResponse): void {
+    const task = this.activeTasks.get(worker);
+    if (!task || task.id !== message.id) return;
+
+    if (message.type === 'progress') {
+      task.options.onProgress?.(message.progress, message.iteration);
+      return;
+    }
+
+    this.activeTasks.delete(worker);
+    task.detachAbort?.();
+    this.idleWorkers.push(worker);
+    if (message.type === 'result') {
+      task.resolve(message.output);
+    } else {
+      task.reject(new Error(message.message));
+    }
+    this.dispatch();
+  }
+
+  // An uncaught worker error leaves it in an unknown state, so it is replaced
+  private handleCrash(worker: Worker, message: string): void {
+    const task = this.activeTasks.get(worker);
+    this.removeWorker(worker);
+    if (task) {
+      task.detachAbort?.();
+      task.reject(new Error(message));
+    }
+    this.dispatch();
+  }
+
+  private cancelTask(task: PoolTask): void {
+    task.detachAbort?.();
+    const queued = this.queue.indexOf(task);
+    if (queued >= 0) {
+      this.queue.splice(queued, 1);
+    } else if (task.worker && this.activeTasks.get(task.worker) === task) {
+      // A busy worker cannot be interrupted, only replaced
+      this.removeWorker(task.worker);
+      this.dispatch();
+    } else {
+      return;
+    }
+    task.reject(createAbortError());
+  }
+
+  private removeWorker(worker: Worker): void {
+    worker.terminate();
+    this.workers.delete(worker);
+    this.activeTasks.delete(worker);
+    this.idleWorkers = this.idleWorkers.filter(idle => idle !== worker);
+  }
+
+  private async runOnMainThread<K extends WorkerTaskKind>(kind: K, input: WorkerTaskInput<K>, options: WorkerTaskOptions): Promise<WorkerTaskOutput<K>> {
+    // Let the UI paint before blocking
+    await new Promise(resolve => setTimeout(resolve, 0));
+    if (options.signal?.aborted) {
+      throw createAbortError();
+    }
+    const handler = workerTaskHandlers[kind] as (input: WorkerTaskInput<K>, onProgress: ProgressCallback) => WorkerTaskOutput<K>;
+    return handler(input, (progress, iteration) => options.onProgress?.(progress, iteration));
+  }
+}
+
+export const processingWorkerPool = ProcessingWorkerPool.getInstance();
@@ -0,0 +1,307 @@
+// Minimal ZIP container (stored entries only, no compression). Image payloads are
+// already compressed, so deflating them again would cost time for no gain.
+// Pure module: no DOM access beyond Blob, so it also runs inside workers.
+// The writer emits chunks in file order to a sink, so an archive can be streamed
+// to disk without ever being held in memory as a whole.
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+  modifiedAt: Date;
+}
+
+export type ZipChunk = Uint8Array | Blob;
+
+export interface ZipSink {
+  write(chunk: ZipChunk): void | Promise<void>;
+}
+
+// Keeps the chunks as Blob parts; entries given as Blobs are referenced, not copied
+export class BlobZipSink implements ZipSink {
+  private parts: BlobPart[] = [];
+
+  write(chunk: ZipChunk): void {
+    this.parts.push(chunk);
+  }
+
+  toBlob(type = 'application/zip'): Blob {
+    return new Blob(this.parts, { type });
+  }
+}
+
+export interface ZipReadLimits {
+  maxEntries: number;
+  maxEntryBytes: number;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const LOCAL_HEADER_SIZE = 30;
+const CENTRAL_HEADER_SIZE = 46;
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+// Version 2.0 (plain stored entries), method 0 = stored
+const ZIP_VERSION = 20;
+const METHOD_STORED = 0;
+// Bit 11: file names are UTF-8
+const FLAG_UTF8 = 0x0800;
+const FLAG_ENCRYPTED = 0x0001;
+// Without ZIP64 every offset and size must fit in 32 bits
+const MAX_ZIP32_BYTES = 0xffffffff;
+const MAX_ZIP32_ENTRIES = 0xffff;
+// The end record may be followed by a comment of up to 64KB
+const MAX_COMMENT_LENGTH = 0xffff;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const crc32 = (data: Uint8Array, previous = 0): number => {
+  let crc = previous ^ 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// Reads a Blob slice by slice so large entries never need one contiguous copy
+const crc32OfBlob = async (blob: Blob): Promise<number> => {
+  const reader = blob.stream().getReader();
+  let crc = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return crc;
+    crc = crc32(value, crc);
+  }
+};
+
+// MS-DOS timestamps have two-second resolution and start in 1980
+const toDosDateTime = (date: Date) => {
+  const year = Math.max(1980, date.getFullYear());
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+};
+
+const fromDosDateTime = (time: number, date: number) => new Date(
+  ((date >>> 9) & 0x7f) + 1980,
+  ((date >>> 5) & 0x0f) - 1,
+  date & 0x1f,
+  (time >>> 11) & 0x1f,
+  (time >>> 5) & 0x3f,
+  (time & 0x1f) * 2
+);
+
+// Entry names are relative paths; anything that could escape the archive root is refused
+const isSafeEntryName = (name: string) =>
+  name.length > 0 &&
+  !name.startsWith('/') &&
+  !name.includes('\\') &&
+  !name.includes('\0') &&
+  name.split('/').every(part => part !== '..' && part !== '.');
+
+interface CentralRecord {
+  nameBytes: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+  dosTime: number;
+  dosDate: number;
+}
+
+// Entries are written in call order, so each addFile must be awaited before the next
+export class ZipWriter {
+  private records: CentralRecord[] = [];
+  private names = new Set<string>();
+  private offset = 0;
+  private finished = false;
+
+  constructor(private readonly sink: ZipSink) {}
+
+  get bytesWritten(): number {
+    return this.offset;
+  }
+
+  async addFile(name: string, data: Uint8Array | Blob, modifiedAt: Date = new Date()): Promise<void> {
+    if (this.finished) {
+      throw new Error('归档已完成，无法继续添加文件');
+    }
+    if (!isSafeEntryName(name)) {
+      throw new Error(`归档文件名无效: ${name}`);
+    }
+    if (this.names.has(name)) {
+      throw new Error(`归档中已存在同名文件: ${name}`);
+    }
+    const size = data instanceof Blob ? data.size : data.length;
+    if (this.records.length >= MAX_ZIP32_ENTRIES || this.offset + size + LOCAL_HEADER_SIZE > MAX_ZIP32_BYTES) {
+      throw new Error('归档文件过大');
+    }
+    this.names.add(name);
+
+    const nameBytes = new TextEncoder().encode(name);
+    const { time, date } = toDosDateTime(modifiedAt);
+    const crc = data instanceof Blob ? await crc32OfBlob(data) : crc32(data);
+
+    const header = new Uint8Array(LOCAL_HEADER_SIZE + nameBytes.length);
+    const view = new DataView(header.buffer);
+    view.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+    view.setUint16(4, ZIP_VERSION, true);
+    view.setUint16(6, FLAG_UTF8, true);
+    view.setUint16(8, METHOD_STORED, true);
+    view.setUint16(10, time, true);
+    view.setUint16(12, date, true);
+    view.setUint32(14, crc, true);
+    view.setUint32(18, size, true);
+    view.setUint32(22, size, true);
+    view.setUint16(26, nameBytes.length, true);
+    view.setUint16(28, 0, true);
+    header.set(nameBytes, LOCAL_HEADER_SIZE);
+
+    this.records.push({ nameBytes, crc, size, offset: this.offset, dosTime: time, dosDate: date });
+    this.offset += header.length + size;
+    await this.sink.write(header);
+    await this.sink.write(data);
+  }
+
+  // Writes the central directory; the archive is complete once this resolves
+  async finish(): Promise<void> {
+    if (this.finished) return;
+    this.finished = true;
+    const centralStart = this.offset;
+    let centralSize = 0;
+
+    for (const record of this.records) {
+      const entry = new Uint8Array(CENTRAL_HEADER_SIZE + record.nameBytes.length);
+      const view = new DataView(entry.buffer);
+      view.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+      view.setUint16(4, ZIP_VERSION, true);
+      view.setUint16(6, ZIP_VERSION, true);
+      view.setUint16(8, FLAG_UTF8, true);
+      view.setUint16(10, METHOD_STORED, true);
+      view.setUint16(12, record.dosTime, true);
+      view.setUint16(14, record.dosDate, true);
+      view.setUint32(16, record.crc, true);
+      view.setUint32(20, record.size, true);
+      view.setUint32(24, record.size, true);
+      view.setUint16(28, record.nameBytes.length, true);
+      view.setUint32(42, record.offset, true);
+      entry.set(record.nameBytes, CENTRAL_HEADER_SIZE);
+      await this.sink.write(entry);
+      centralSize += entry.length;
+    }
+
+    const end = new Uint8Array(END_OF_CENTRAL_DIRECTORY_SIZE);
+    const view = new DataView(end.buffer);
+    view.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+    view.setUint16(8, this.records.length, true);
+    view.setUint16(10, this.records.length, true);
+    view.setUint32(12, centralSize, true);
+    view.setUint32(16, centralStart, true);
+    await this.sink.write(end);
+    this.offset += centralSize + end.length;
+  }
+}
+
+const findEndOfCentralDirectory = (view: DataView): number => {
+  const lowest = Math.max(0, view.byteLength - END_OF_CENTRAL_DIRECTORY_SIZE - MAX_COMMENT_LENGTH);
+  for (let offset = view.byteLength - END_OF_CENTRAL_DIRECTORY_SIZE; offset >= lowest; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      return offset;
+    }
+  }
+  return -1;
+};
+
+// Reads every entry through the central directory and checks it against its local
+// header and CRC; archives this writer cannot produce (compressed, encrypted,
+// split or ZIP64) are rejected rather than partially read
+export const readZipArchive = (buffer: ArrayBuffer, limits: ZipReadLimits): ZipEntry[] => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const endOffset = buffer.byteLength >= END_OF_CENTRAL_DIRECTORY_SIZE ? findEndOfCentralDirectory(view) : -1;
+  if (endOffset < 0) {
+    throw new Error('不是有效的归档文件');
+  }
+
+  const diskNumber = view.getUint16(endOffset + 4, true);
+  const entryCount = view.getUint16(endOffset + 10, true);
+  const centralSize = view.getUint32(endOffset + 12, true);
+  const centralStart = view.getUint32(endOffset + 16, true);
+  if (diskNumber !== 0 || entryCount !== view.getUint16(endOffset + 8, true)) {
+    throw new Error('不支持分卷归档');
+  }
+  if (entryCount > limits.maxEntries) {
+    throw new Error(`归档包含的文件过多（最多 ${limits.maxEntries} 个）`);
+  }
+  if (centralStart + centralSize > endOffset) {
+    throw new Error('归档目录已损坏');
+  }
+
+  const decoder = new TextDecoder('utf-8', { fatal: true });
+  const entries: ZipEntry[] = [];
+  const names = new Set<string>();
+  let cursor = centralStart;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (cursor + CENTRAL_HEADER_SIZE > endOffset || view.getUint32(cursor, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('归档目录已损坏');
+    }
+    const flags = view.getUint16(cursor + 8, true);
+    const method = view.getUint16(cursor + 10, true);
+    const dosTime = view.getUint16(cursor + 12, true);
+    const dosDate = view.getUint16(cursor + 14, true);
+    const crc = view.getUint32(cursor + 16, true);
+    const compressedSize = view.getUint32(cursor + 20, true);
+    const size = view.getUint32(cursor + 24, true);
+    const nameLength = view.getUint16(cursor + 28, true);
+    const extraLength = view.getUint16(cursor + 30, true);
+    const commentLength = view.getUint16(cursor + 32, true);
+    const localOffset = view.getUint32(cursor + 42, true);
+
+    if (flags & FLAG_ENCRYPTED) {
+      throw new Error('不支持加密的归档');
+    }
+    if (method !== METHOD_STORED || compressedSize !== size) {
+      throw new Error('不支持压缩过的归档条目');
+    }
+    if (size > limits.maxEntryBytes) {
+      throw new Error('归档中的文件过大');
+    }
+
+    const name = decoder.decode(bytes.subarray(cursor + CENTRAL_HEADER_SIZE, cursor + CENTRAL_HEADER_SIZE + nameLength));
+    if (!isSafeEntryName(name) || names.has(name)) {
+      throw new Error(`归档文件名无效: ${name}`);
+    }
+
+    if (localOffset + LOCAL_HEADER_SIZE > centralStart || view.getUint32(localOffset, true) !== LOCAL_HEADER_SIGNATURE) {
+      throw new Error(`归档条目已损坏: ${name}`);
+    }
+    const dataStart = localOffset + LOCAL_HEADER_SIZE + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    if (dataStart + size > centralStart) {
+      throw new Error(`归档条目已损坏: ${name}`);
+    }
+
+    const data = bytes.subarray(dataStart, dataStart + size);
+    if (crc32(data) !== crc) {
+      throw new Error(`归档条目校验失败: ${name}`);
+    }
+
+    // Directory entries carry no data
+    if (!name.endsWith('/')) {
+      names.add(name);
+      entries.push({ name, data, modifiedAt: fromDosDateTime(dosTime, dosDate) });
+    }
+    cursor += CENTRAL_HEADER_SIZE + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+};
@@ -17,6 +17,8 @@ export default defineConfig(({ mode }) => ({
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
+      // The runtime binary is not in the package's exports; it is emitted as an asset
+      "onnxruntime-web/dist": path.resolve(__dirname, "./node_modules/onnxruntime-web/dist"),
     },
   },
 }));